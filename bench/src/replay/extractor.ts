@@ -1,7 +1,7 @@
 import { readFileSync, writeFileSync, readdirSync, existsSync } from 'fs';
 import { join } from 'path';
 import { gunzipSync } from 'zlib';
-import type { PerceptionUpdate, VisibleResident } from '@otra/shared';
+import type { PerceptionUpdate, VisibleResident, WeatherCondition } from '@otra/shared';
 
 export interface ReplayFrame {
   world_time: number;
@@ -23,6 +23,7 @@ export interface ReplayFrame {
     speaker_id: string; speaker_name: string; text: string; volume: string;
     to_id?: string; to_name?: string;
   }>;
+  weather?: WeatherCondition;  // absent in recordings made before weather existed
 }
 
 /**
@@ -100,6 +101,7 @@ export function extractReplayFrames(runDir: string, modelId: string): number {
           ...(a.to ? { to_id: a.to } : {}),
           ...(a.to_name ? { to_name: a.to_name } : {}),
         })),
+        ...(perc.weather ? { weather: perc.weather.condition } : {}),
       };
 
       // Keep last frame per world_time (dedup)
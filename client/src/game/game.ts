@@ -1,5 +1,5 @@
 import { Application, Container, Graphics } from 'pixi.js';
-import type { MapData, PerceptionUpdate, ResidentState, VisibleResident, VisibleEntity, VisibleForageable, AudibleMessage, Passport, InventoryItem } from '@otra/shared';
+import type { MapData, PerceptionUpdate, ResidentState, VisibleResident, VisibleEntity, VisibleForageable, VisibleStructure, AudibleMessage, Passport, InventoryItem, WeatherCondition } from '@otra/shared';
 import { WALK_SPEED, RUN_SPEED, QUID_SYMBOL, GAME_DAY_SECONDS, TIME_SCALE, CITY_CONFIG } from '@otra/shared';
 import { WsClient } from '../network/ws-client.js';
 import { ActionSender } from '../network/action-sender.js';
@@ -334,8 +334,9 @@ export class Game {
         // Update interaction prompts
         this.updateInteractionPrompts(data.interactions, data.self.current_building);
 
-        // Update building transparency
+        // Update building transparency and weather
         this.mapRenderer.setCurrentBuilding(data.self.current_building);
+        this.mapRenderer.setWeather(data.weather.condition);
 
         // Update shop wallet if open
         this.shopUI.updateWallet(data.self.wallet);
@@ -351,6 +352,10 @@ export class Game {
         // Update forageable overlays
         const forageables = data.visible.filter((v): v is VisibleForageable => v.type === 'forageable');
         this.updateForageableOverlays(forageables);
+
+        // Structures only show when in view; forget ones that are gone from right next to us
+        const structures = data.visible.filter((v): v is VisibleStructure => v.type === 'structure');
+        this.mapRenderer.updateStructures(structures, false, { x: data.self.x, y: data.self.y, forgetRange: 64 });
       };
 
       this.wsClient.onInspectResult = (data) => {
@@ -482,6 +487,7 @@ export class Game {
     }
 
     this.mapRenderer.setCurrentBuilding(data.self.current_building);
+    this.mapRenderer.setWeather(data.weather.condition);
 
     for (const notif of data.notifications) {
       this.addEventFeedItem(notif);
@@ -495,6 +501,10 @@ export class Game {
     const forageables = data.visible.filter((v): v is VisibleForageable => v.type === 'forageable');
     this.updateForageableOverlays(forageables);
 
+    // Spectator perception lists every structure in the city
+    const structures = data.visible.filter((v): v is VisibleStructure => v.type === 'structure');
+    this.mapRenderer.updateStructures(structures, true);
+
     // Update spectator sidebar
     if (this.sidebar) {
       // Determine which agent we're showing data for
@@ -900,6 +910,7 @@ export class Game {
     const currentTime = this.worldTime + elapsed * TIME_SCALE;
     this.updateClock(currentTime);
     this.mapRenderer.setTimeOfDay(currentTime);
+    this.mapRenderer.updateWeather(performance.now());
   }
 
   /**
@@ -1084,11 +1095,10 @@ export class Game {
     }
 
     if (key === 'b') {
-      // Open shop (must be in a shop-type building)
-      const isShop = currentBuilding && CITY_CONFIG.buildings.some(b => b.id === currentBuilding && b.type === 'shop');
-      if (isShop && interactions.includes('buy')) {
+      // Open shop (must be in a building that sells something)
+      if (currentBuilding && interactions.includes('buy')) {
         const wallet = perc?.self.wallet ?? 0;
-        this.shopUI.show(wallet);
+        this.shopUI.show(currentBuilding, wallet);
         if (this.inventoryUI.isVisible()) this.inventoryUI.hide();
         this.input.uiOpen = true;
       }
@@ -1139,6 +1149,9 @@ export class Game {
     'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
   ];
   private static DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+  private static WEATHER_LABELS: Record<WeatherCondition, string> = {
+    clear: 'Clear', rain: 'Rain', heat_wave: 'Heat wave', fog: 'Fog', storm: 'Storm',
+  };
 
   private updateClock(worldTimeSec: number): void {
     const daySeconds = worldTimeSec % GAME_DAY_SECONDS;
@@ -1155,7 +1168,9 @@ export class Game {
     const dayOfMonth = dayOfYear + 1;
 
     const timeStr = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
-    const dayStr = `${dayOfMonth} ${Game.MONTH_NAMES[month]}`;
+    const weather = this.lastPerception?.weather.condition;
+    const weatherStr = weather && weather !== 'clear' ? ` · ${Game.WEATHER_LABELS[weather]}` : '';
+    const dayStr = `${dayOfMonth} ${Game.MONTH_NAMES[month]}${weatherStr}`;
 
     // Player mode clock
     const timeEl = document.getElementById('clock-time');
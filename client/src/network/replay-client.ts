@@ -1,4 +1,4 @@
-import type { PerceptionUpdate, ResidentState, VisibleResident, AudibleMessage, InventoryItem, Build } from '@otra/shared';
+import type { PerceptionUpdate, ResidentState, VisibleResident, AudibleMessage, InventoryItem, Build, WeatherCondition } from '@otra/shared';
 
 interface ReplayFrame {
   world_time: number;
@@ -20,6 +20,7 @@ interface ReplayFrame {
     speaker_id: string; speaker_name: string; text: string; volume: string;
     to_id?: string; to_name?: string;
   }>;
+  weather?: WeatherCondition;  // absent in recordings made before weather existed
 }
 
 interface AgentInfo {
@@ -271,6 +272,21 @@ export class ReplayClient {
       tick: 0,
       time: new Date().toISOString(),
       world_time: frame.world_time,
+      weather: {
+        condition: frame.weather ?? 'clear',
+        description: '',
+        changes_in_game_hours: 0,
+        sheltered: frame.self.current_building !== null,
+        effects: { thirst_decay: 1, energy_decay: 1, vision: 1, forage_regrowth: 1 },
+      },
+      season: {
+        current: 'spring',
+        name: 'Spring',
+        description: '',
+        day_of_season: 1,
+        days_until_change: 0,
+        next: 'summer',
+      },
       self: {
         id: this.agentInfo?.resident_id ?? 'replay-self',
         passport_no: this.agentInfo?.passport_no ?? 'OC-REPLAY',
@@ -295,6 +311,8 @@ export class ReplayClient {
         is_using_toilet: false,
         current_building: frame.self.current_building,
         employment: null,
+        locker: null,
+        illness: null,
         law_breaking: [],
         prison_sentence_remaining: null,
         carrying_suspect_id: null,
@@ -1,5 +1,5 @@
 import { Container, Graphics, Rectangle, Text, TextStyle } from 'pixi.js';
-import { TileType, GAME_DAY_SECONDS, MAP_WIDTH, MAP_HEIGHT, type MapData } from '@otra/shared';
+import { TileType, GAME_DAY_SECONDS, MAP_WIDTH, MAP_HEIGHT, type MapData, type WeatherCondition, type StructureType } from '@otra/shared';
 
 // Tile colors for v1 placeholder rendering
 const TILE_COLORS: Record<number, number> = {
@@ -24,24 +24,44 @@ const TILE_COLORS: Record<number, number> = {
   [TileType.SPRING_DRY]: 0x887766,
 };
 
+/** What the renderer needs to draw a resident-built structure (pixel centre) */
+export interface StructureSprite {
+  id: string;
+  structure_type: StructureType;
+  x: number;
+  y: number;
+  condition: number;
+}
+
 export class MapRenderer {
   private container: Container;
   private groundLayer: Container;
   private obstacleLayer: Container;
+  private structureLayer: Container;
+  private structures = new Map<string, { sprite: Graphics; condition: number }>();  // structure id -> drawn sprite
   private tintOverlay: Graphics;
+  private weatherOverlay: Graphics;
   private buildingRoofs = new Map<string, Container>(); // building id -> roof container
   private currentBuilding: string | null = null;
   onBuildingClick: ((buildingId: string) => void) | null = null;
   private lastTintHour = -1;
+  private weather: WeatherCondition = 'clear';
+  private lastWeatherDraw = 0;
+  private lightningUntil = 0;
 
   constructor(parent: Container) {
     this.container = new Container();
     this.groundLayer = new Container();
     this.obstacleLayer = new Container();
+    this.structureLayer = new Container();
     this.tintOverlay = new Graphics();
     this.tintOverlay.zIndex = 9999;
+    this.weatherOverlay = new Graphics();
+    this.weatherOverlay.zIndex = 9998;
     this.container.addChild(this.groundLayer);
     this.container.addChild(this.obstacleLayer);
+    this.container.addChild(this.structureLayer);
+    this.container.addChild(this.weatherOverlay);
     this.container.addChild(this.tintOverlay);
     parent.addChild(this.container);
   }
@@ -61,10 +81,13 @@ export class MapRenderer {
       buildingTiles.set(building.id, tileSet);
     }
 
+    // Structure tiles are drawn on their own layer so they can change without a re-render
+    const structureTiles = new Set((mapData.structures ?? []).map(s => `${s.tileX},${s.tileY}`));
+
     // Render ground tiles
     for (let y = 0; y < mapData.height; y++) {
       for (let x = 0; x < mapData.width; x++) {
-        const tileType = mapData.ground[y][x];
+        const tileType = structureTiles.has(`${x},${y}`) ? TileType.GRASS : mapData.ground[y][x];
         const color = TILE_COLORS[tileType] ?? 0x2d5a27;
 
         const g = new Graphics();
@@ -78,7 +101,7 @@ export class MapRenderer {
     for (let y = 0; y < mapData.height; y++) {
       for (let x = 0; x < mapData.width; x++) {
         const obs = mapData.obstacles[y][x];
-        if (obs === 0) continue;
+        if (obs === 0 || structureTiles.has(`${x},${y}`)) continue;
 
         const color = TILE_COLORS[obs] ?? 0x555555;
         const g = new Graphics();
@@ -255,6 +278,90 @@ export class MapRenderer {
       nodeLabel.y = node.tileY * ts + ts + 1; // just below the tile
       this.obstacleLayer.addChild(nodeLabel);
     }
+
+    this.updateStructures((mapData.structures ?? []).map(s => ({
+      id: s.id,
+      structure_type: s.type,
+      x: s.tileX * ts + ts / 2,
+      y: s.tileY * ts + ts / 2,
+      condition: s.condition,
+    })), true);
+  }
+
+  /**
+   * Draw or update resident-built structures. With `complete`, the list is
+   * every structure in the city and anything missing from it is removed;
+   * otherwise only structures within `forgetRange` px of `viewer` are.
+   */
+  updateStructures(
+    structures: StructureSprite[],
+    complete: boolean,
+    viewer?: { x: number; y: number; forgetRange: number },
+  ): void {
+    const seen = new Set<string>();
+    for (const s of structures) {
+      seen.add(s.id);
+      // Redraw only when condition crosses a 10% step
+      const bucket = Math.ceil(s.condition / 10);
+      const existing = this.structures.get(s.id);
+      if (existing && existing.condition === bucket) continue;
+      if (existing) {
+        this.structureLayer.removeChild(existing.sprite);
+        existing.sprite.destroy();
+      }
+      const sprite = this.drawStructure(s);
+      this.structureLayer.addChild(sprite);
+      this.structures.set(s.id, { sprite, condition: bucket });
+    }
+
+    for (const [id, { sprite }] of this.structures) {
+      if (seen.has(id)) continue;
+      const inRange = viewer && Math.hypot(sprite.x - viewer.x, sprite.y - viewer.y) <= viewer.forgetRange;
+      if (!complete && !inRange) continue;
+      this.structureLayer.removeChild(sprite);
+      sprite.destroy();
+      this.structures.delete(id);
+    }
+  }
+
+  private drawStructure(s: StructureSprite): Graphics {
+    const g = new Graphics();
+    g.x = s.x;
+    g.y = s.y;
+    if (s.structure_type === 'shelter') {
+      // Timber lean-to: dark opening under a pitched roof
+      g.rect(-12, -2, 24, 14);
+      g.fill(0x2a1d12);
+      g.poly([-15, 0, 0, -14, 15, 0]);
+      g.fill(0x8b5a2b);
+      g.moveTo(-15, 0).lineTo(0, -14).lineTo(15, 0);
+      g.stroke({ color: 0x5c3a1a, width: 2 });
+    } else if (s.structure_type === 'storage_chest') {
+      // Chest: wooden box with lid seam and a latch
+      g.rect(-11, -8, 22, 16);
+      g.fill(0x7a5230);
+      g.rect(-11, -8, 22, 16);
+      g.stroke({ color: 0x3d2914, width: 2 });
+      g.moveTo(-11, -2).lineTo(11, -2);
+      g.stroke({ color: 0x3d2914, width: 1.5 });
+      g.rect(-2, -4, 4, 4);
+      g.fill(0xccaa44);
+    } else {
+      // Planted bush: smaller and lighter than a wild one, with a ring of tilled earth
+      g.circle(0, 0, 13);
+      g.fill({ color: 0x6b4f2a, alpha: 0.6 });
+      g.circle(0, 0, 9);
+      g.fill(0x3c9a30);
+      g.circle(-4, -3, 2.5);
+      g.fill(0xdd2244);
+      g.circle(4, -1, 2.5);
+      g.fill(0xdd2244);
+      g.circle(0, 4, 2.5);
+      g.fill(0xdd2244);
+    }
+    // Neglected structures fade as they decay
+    g.alpha = 0.45 + 0.55 * Math.max(0, Math.min(100, s.condition)) / 100;
+    return g;
   }
 
   /** Set current building — makes its roof semi-transparent */
@@ -319,4 +426,61 @@ export class MapRenderer {
       this.tintOverlay.fill({ color, alpha });
     }
   }
+
+  /** Switch the weather effect drawn over the map */
+  setWeather(condition: WeatherCondition): void {
+    if (condition === this.weather) return;
+    this.weather = condition;
+    this.lastWeatherDraw = 0;
+  }
+
+  /** Redraw animated weather (rain streaks, fog, heat haze) — call every frame */
+  updateWeather(nowMs: number): void {
+    // Redraw ~10 times a second; often enough for rain to look alive
+    if (nowMs - this.lastWeatherDraw < 100) return;
+    this.lastWeatherDraw = nowMs;
+
+    const g = this.weatherOverlay;
+    g.clear();
+
+    switch (this.weather) {
+      case 'clear':
+        return;
+      case 'fog':
+        g.rect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+        g.fill({ color: 0xbbbbbb, alpha: 0.4 });
+        return;
+      case 'heat_wave':
+        // Slow shimmer of warm haze
+        g.rect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+        g.fill({ color: 0xff8800, alpha: 0.1 + 0.03 * Math.sin(nowMs / 600) });
+        return;
+      case 'rain':
+      case 'storm': {
+        const storm = this.weather === 'storm';
+        if (storm) {
+          g.rect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+          g.fill({ color: 0x101018, alpha: 0.25 });
+          if (nowMs > this.lightningUntil + 2000 && Math.random() < 0.02) {
+            this.lightningUntil = nowMs + 150;
+          }
+          if (nowMs < this.lightningUntil) {
+            g.rect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+            g.fill({ color: 0xffffff, alpha: 0.35 });
+          }
+        }
+        // One streak per ~80x80px, slanted harder in a storm
+        const count = Math.round((MAP_WIDTH * MAP_HEIGHT) / (storm ? 4000 : 6400));
+        const slant = storm ? 8 : 3;
+        for (let i = 0; i < count; i++) {
+          const x = Math.random() * MAP_WIDTH;
+          const y = Math.random() * MAP_HEIGHT;
+          g.moveTo(x, y);
+          g.lineTo(x + slant, y + 14);
+        }
+        g.stroke({ width: 1, color: 0x99aacc, alpha: 0.5 });
+        return;
+      }
+    }
+  }
 }
@@ -3,8 +3,14 @@ import { CITY_CONFIG } from '@otra/shared';
 interface BuildingData {
   name: string;
   items?: Array<{ name: string; price: number; stock: number; description: string }>;
-  petitions?: Array<{ category: string; description: string; votes_for: number; votes_against: number }>;
+  petitions?: Array<{ category: string; description: string; votes_for: number; votes_against: number; policy?: string | null; value?: number | null }>;
+  policies?: Array<{ policy: string; name: string; value: number; default_value: number; unit: string }>;
+  mayor?: string | null;
+  council?: string[];
+  treasury_balance?: number;
+  tax_rate?: number;
   jobs?: Array<{ title: string; wage: number; shift_hours: number; openings: number; description: string }>;
+  trials?: Array<{ defendant: string; offenses: string[]; votes_cast: number; verdict_in_game_hours: number }>;
   alive_residents?: number;
   next_train_seconds?: number;
   queue_size?: number;
@@ -19,6 +25,13 @@ interface BuildingData {
   // Tourist Information
   reward_per_referral?: number;
   recent_referrals?: Array<{ referrer: string; referred: string; reward: number; claimed_at: number }>;
+  // Council Lockers
+  rent_per_game_day?: number;
+  capacity?: number;
+  lockers_rented?: number;
+  // Clinic
+  treatments?: Array<{ name: string; symptom: string; cost: number; contagious: boolean; description: string }>;
+  residents_ill?: number;
 }
 
 interface BuildingsResponse {
@@ -125,6 +138,12 @@ export class BuildingInfoUI {
       case 'info':
         html += this.renderTouristInfo(data);
         break;
+      case 'storage':
+        html += this.renderLockers(data);
+        break;
+      case 'clinic':
+        html += this.renderClinic(data);
+        break;
       default:
         html += '<div class="building-empty">No information available</div>';
     }
@@ -172,6 +191,7 @@ export class BuildingInfoUI {
           <div class="building-petition">
             <div class="building-petition-category">${this.esc(p.category)}</div>
             <div class="building-petition-desc">${this.esc(desc)}</div>
+            ${p.policy ? `<div class="building-item-detail">Proposes ${this.esc(p.policy)} = ${p.value}</div>` : ''}
             <div class="building-petition-votes">
               <span class="building-petition-for">▲ ${p.votes_for}</span>
               <span class="building-petition-against" style="margin-left:10px;">▼ ${p.votes_against}</span>
@@ -180,6 +200,41 @@ export class BuildingInfoUI {
       }
     }
 
+    // Elected office and the treasury
+    if (data.mayor !== undefined) {
+      html += '<div class="building-section-title">CITY GOVERNMENT</div>';
+      html += `
+        <div class="building-item">
+          <div class="building-item-row">
+            <span class="building-item-name">Mayor</span>
+            <span class="building-item-detail">${data.mayor ? this.esc(data.mayor) : 'Vacant'}</span>
+          </div>
+          <div class="building-item-row">
+            <span class="building-item-name">Council</span>
+            <span class="building-item-detail">${data.council && data.council.length > 0 ? this.esc(data.council.join(', ')) : 'None seated'}</span>
+          </div>
+          <div class="building-item-row">
+            <span class="building-item-name">Treasury</span>
+            <span class="building-item-price">${CITY_CONFIG.currencySymbol}${data.treasury_balance ?? 0} · ${Math.round((data.tax_rate ?? 0) * 100)}% shop tax</span>
+          </div>
+        </div>`;
+    }
+
+    // City policies residents can change by petition
+    if (data.policies && data.policies.length > 0) {
+      html += '<div class="building-section-title">CITY POLICIES</div>';
+      for (const p of data.policies) {
+        const changed = p.value !== p.default_value;
+        html += `
+          <div class="building-item">
+            <div class="building-item-row">
+              <span class="building-item-name">${this.esc(p.name)}</span>
+              <span class="building-item-detail" style="${changed ? 'color:#3c6;' : ''}">${p.value} ${this.esc(p.unit)}</span>
+            </div>
+          </div>`;
+      }
+    }
+
     // Jobs
     html += '<div class="building-section-title">JOBS</div>';
     if (!data.jobs || data.jobs.length === 0) {
@@ -202,6 +257,23 @@ export class BuildingInfoUI {
       }
     }
 
+    // Trials in session
+    if (data.trials && data.trials.length > 0) {
+      html += '<div class="building-section-title">TRIALS IN SESSION</div>';
+      for (const t of data.trials) {
+        html += `
+          <div class="building-item">
+            <div class="building-item-row">
+              <span class="building-item-name">${this.esc(t.defendant)}</span>
+              <span class="building-item-detail">${this.esc(t.offenses.join(', '))}</span>
+            </div>
+            <div class="building-item-row">
+              <span class="building-item-detail">${t.votes_cast} juror${t.votes_cast !== 1 ? 's' : ''} so far · verdict in ${t.verdict_in_game_hours}h</span>
+            </div>
+          </div>`;
+      }
+    }
+
     return html;
   }
 
@@ -308,6 +380,46 @@ export class BuildingInfoUI {
     return html;
   }
 
+  private renderLockers(data: BuildingData): string {
+    let html = '';
+
+    if (data.description) {
+      html += `<div class="building-item-detail" style="margin-bottom:12px;">${this.esc(data.description)}</div>`;
+    }
+
+    html += `<div class="building-stat"><span class="building-stat-label">Rent per day:</span> <span class="building-stat-value">${CITY_CONFIG.currencySymbol}${data.rent_per_game_day ?? 0}</span></div>`;
+    html += `<div class="building-stat"><span class="building-stat-label">Locker capacity:</span> <span class="building-stat-value">${data.capacity ?? 0} items</span></div>`;
+    html += `<div class="building-stat"><span class="building-stat-label">Lockers rented:</span> <span class="building-stat-value">${data.lockers_rented ?? 0}</span></div>`;
+
+    return html;
+  }
+
+  private renderClinic(data: BuildingData): string {
+    let html = '';
+
+    if (data.description) {
+      html += `<div class="building-item-detail" style="margin-bottom:12px;">${this.esc(data.description)}</div>`;
+    }
+
+    html += `<div class="building-stat"><span class="building-stat-label">Residents ill:</span> <span class="building-stat-value">${data.residents_ill ?? 0}</span></div>`;
+
+    html += '<div class="building-section-title">TREATMENTS</div>';
+    for (const t of data.treatments ?? []) {
+      html += `
+        <div class="building-item">
+          <div class="building-item-row">
+            <span class="building-item-name">${this.esc(t.name)}${t.contagious ? ' (contagious)' : ''}</span>
+            <span class="building-item-price">${CITY_CONFIG.currencySymbol}${t.cost}</span>
+          </div>
+          <div class="building-item-row">
+            <span class="building-item-detail">${this.esc(t.description)}</span>
+          </div>
+        </div>`;
+    }
+
+    return html;
+  }
+
   private esc(text: string): string {
     const div = document.createElement('div');
     div.textContent = text;
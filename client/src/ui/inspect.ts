@@ -21,6 +21,8 @@ const EVENT_LABELS: Record<string, string> = {
   book_suspect: 'Booked suspect',
   prison_release: 'Released from prison',
   law_violation: 'Broke the law',
+  assault: 'Assaulted someone',
+  report_crime: 'Reported a crime',
 };
 
 export class InspectUI {
@@ -70,7 +72,7 @@ export class InspectUI {
       </div>
       <div class="inspect-details">
         <div class="inspect-row"><span class="inspect-label">Preferred name:</span> ${this.escape(passport.preferred_name)}</div>
-        <div class="inspect-row"><span class="inspect-label">Type:</span> ${passport.type === 'AGENT' ? 'Agent' : 'Human'}</div>
+        <div class="inspect-row"><span class="inspect-label">Type:</span> ${passport.type === 'AGENT' ? 'Agent' : passport.type === 'NPC' ? 'NPC' : 'Human'}</div>
         ${frameworkRow}
         <div class="inspect-row"><span class="inspect-label">Status:</span> <span style="color:${statusColor}">${statusLabel}</span></div>
       </div>
@@ -177,6 +179,7 @@ export class InspectUI {
         ${resident.is_wanted ? `<div class="inspect-row"><span class="inspect-label">Status:</span> <span style="color:#f33">Wanted</span></div>` : ''}
         ${resident.is_arrested ? `<div class="inspect-row"><span class="inspect-label">Status:</span> <span style="color:#f90">Arrested</span></div>` : ''}
         ${resident.is_police ? `<div class="inspect-row"><span class="inspect-label">Role:</span> <span style="color:#36f">Police Officer</span></div>` : ''}
+        ${resident.is_npc ? `<div class="inspect-row"><span class="inspect-label">Type:</span> NPC (run by the city)</div>` : ''}
       </div>
     `;
     this.overlay.innerHTML = html;
@@ -229,7 +232,7 @@ export class InspectUI {
   }
 
   private render(data: InspectData): void {
-    const typeLabel = data.type === 'AGENT' ? 'Agent' : 'Human';
+    const typeLabel = data.type === 'AGENT' ? 'Agent' : data.type === 'NPC' ? 'NPC' : 'Human';
     const statusColor = data.status === 'ALIVE' ? '#3c6' :
                         data.status === 'DECEASED' ? '#c33' : '#888';
 
@@ -1,16 +1,23 @@
 import type { InventoryItem } from '@otra/shared';
-import { QUID_SYMBOL } from '@otra/shared';
+import { QUID_SYMBOL, CITY_CONFIG } from '@otra/shared';
 import type { ActionSender } from '../network/action-sender.js';
 
-// Item display names and consume actions
-const ITEM_INFO: Record<string, { name: string; action: 'eat' | 'drink' | null }> = {
-  bread: { name: 'Bread', action: 'eat' },
-  water: { name: 'Water Bottle', action: 'drink' },
-  full_meal: { name: 'Full Meal', action: 'eat' },
-  snack: { name: 'Snack Bar', action: 'eat' },
-  energy_drink: { name: 'Energy Drink', action: 'drink' },
-  sleeping_bag: { name: 'Sleeping Bag', action: null },
-};
+// Item display names and consume actions, from the city's item config
+const ITEM_INFO: Record<string, { name: string; action: 'eat' | 'drink' | null }> = Object.fromEntries(
+  CITY_CONFIG.items.map(i => {
+    const edible = i.kind === 'consumable' || i.kind === 'resource';
+    const action = !edible ? null : (i.effects.thirst ?? 0) > (i.effects.hunger ?? 0) ? 'drink' : 'eat';
+    return [i.id, { name: i.name, action }];
+  }),
+);
+
+function getItemInfo(type: string): { name: string; action: 'eat' | 'drink' | null } {
+  if (type.startsWith('spoiled_')) {
+    const base = ITEM_INFO[type.slice('spoiled_'.length)];
+    if (base) return { name: `Spoiled ${base.name}`, action: base.action };
+  }
+  return ITEM_INFO[type] || { name: type, action: null };
+}
 
 export class InventoryUI {
   private overlay: HTMLElement;
@@ -60,7 +67,7 @@ export class InventoryUI {
     }
 
     for (const item of inventory) {
-      const info = ITEM_INFO[item.type] || { name: item.type, action: null };
+      const info = getItemInfo(item.type);
       const el = document.createElement('div');
       el.className = 'inv-item';
 
@@ -71,6 +78,13 @@ export class InventoryUI {
       const qtySpan = document.createElement('span');
       qtySpan.className = 'inv-item-qty';
       qtySpan.textContent = `x${item.quantity}`;
+      if (item.durability !== undefined) {
+        qtySpan.textContent += ` (${item.durability} use${item.durability !== 1 ? 's' : ''} left)`;
+      }
+      if (item.spoils_in_game_hours !== undefined) {
+        el.title = `Spoils in ${item.spoils_in_game_hours} game hours` +
+          (item.potency !== undefined && item.potency < 1 ? ` — ${Math.round(item.potency * 100)}% potency` : '');
+      }
 
       el.appendChild(nameSpan);
       el.appendChild(qtySpan);
@@ -1,21 +1,37 @@
-import { QUID_SYMBOL } from '@otra/shared';
+import { QUID_SYMBOL, CITY_CONFIG, getBuildingCatalog } from '@otra/shared';
+import type { ItemConfig } from '@otra/shared';
 import type { ActionSender } from '../network/action-sender.js';
 
 interface ShopItemDisplay {
   item_type: string;
   name: string;
-  price: number;
+  price: number;   // what a purchase costs, sales tax included
   description: string;
 }
 
-const SHOP_ITEMS: ShopItemDisplay[] = [
-  { item_type: 'bread', name: 'Bread', price: 3, description: '+30 hunger' },
-  { item_type: 'water', name: 'Water Bottle', price: 2, description: '+25 thirst' },
-  { item_type: 'full_meal', name: 'Full Meal', price: 6, description: '+60 hunger, +10 thirst' },
-  { item_type: 'snack', name: 'Snack Bar', price: 1, description: '+10 hunger' },
-  { item_type: 'energy_drink', name: 'Energy Drink', price: 4, description: '+15 energy, +20 thirst' },
-  { item_type: 'sleeping_bag', name: 'Sleeping Bag', price: 15, description: '5 uses. 2x sleep recovery.' },
-];
+interface PriceQuote {
+  building_id: string;
+  item_type: string;
+  price: number;
+  tax: number;
+}
+
+/** Short "+30 hunger, +10 thirst" summary; falls back to the item description */
+function summarizeEffects(item: ItemConfig): string {
+  const parts: string[] = [];
+  if (item.effects.hunger) parts.push(`+${item.effects.hunger} hunger`);
+  if (item.effects.thirst) parts.push(`+${item.effects.thirst} thirst`);
+  if (item.effects.energy) parts.push(`+${item.effects.energy} energy`);
+  return parts.length > 0 ? parts.join(', ') : item.description;
+}
+
+/** Items sold at a building, from its catalog in the city config (at base price until quotes arrive) */
+function getShopItems(buildingId: string): ShopItemDisplay[] {
+  const building = CITY_CONFIG.buildings.find(b => b.id === buildingId);
+  if (!building) return [];
+  return getBuildingCatalog(building)
+    .map(i => ({ item_type: i.id, name: i.name, price: i.price, description: summarizeEffects(i) }));
+}
 
 export class ShopUI {
   private overlay: HTMLElement;
@@ -24,6 +40,8 @@ export class ShopUI {
   private visible = false;
   private actions: ActionSender;
   private currentWallet = 0;
+  private items: ShopItemDisplay[] = [];
+  private buildingId: string | null = null;
 
   constructor(actions: ActionSender) {
     this.actions = actions;
@@ -33,11 +51,31 @@ export class ShopUI {
     this.walletEl.title = 'Wallet: your available QUID balance for buying items.';
   }
 
-  show(wallet: number): void {
+  show(buildingId: string, wallet: number): void {
     this.visible = true;
     this.currentWallet = wallet;
+    this.buildingId = buildingId;
+    this.items = getShopItems(buildingId);
     this.overlay.style.display = 'block';
     this.render();
+    void this.loadPrices(buildingId);
+  }
+
+  /** Replace catalog prices with the server's current quotes (dynamic price plus sales tax) */
+  private async loadPrices(buildingId: string): Promise<void> {
+    try {
+      const res = await fetch(`/api/shop/prices?building_id=${encodeURIComponent(buildingId)}&limit=1`);
+      if (!res.ok) return;
+      const data = await res.json() as { current: PriceQuote[] };
+      if (!this.visible || this.buildingId !== buildingId) return;
+      for (const quote of data.current) {
+        const item = this.items.find(i => i.item_type === quote.item_type);
+        if (item) item.price = quote.price + quote.tax;
+      }
+      this.render();
+    } catch {
+      // Keep the catalog prices
+    }
   }
 
   hide(): void {
@@ -60,7 +98,7 @@ export class ShopUI {
     this.walletEl.textContent = `Your balance: ${QUID_SYMBOL}${this.currentWallet}`;
     this.itemsEl.innerHTML = '';
 
-    for (const item of SHOP_ITEMS) {
+    for (const item of this.items) {
       const el = document.createElement('div');
       el.className = 'shop-item';
 
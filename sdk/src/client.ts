@@ -0,0 +1,361 @@
+/**
+ * OtraClient — one resident's WebSocket connection. Authenticates with a
+ * passport token, reconnects with backoff when the socket drops, and turns
+ * every ClientMessage into a method that returns a promise for its
+ * `action_result` (matched on a generated `request_id`). Perception and the
+ * other server pushes arrive as events, or as an async stream from
+ * `perceptions()`.
+ */
+
+import { EventEmitter, on } from 'events';
+import { randomUUID } from 'crypto';
+import WebSocket from 'ws';
+import type { ClientMessage, ServerMessage, PerceptionUpdate, InspectData } from '@otra/shared';
+
+export type ActionMessage = Exclude<ClientMessage, { type: 'auth' }>;
+export type ActionType = ActionMessage['type'];
+type ActionOf<T extends ActionType> = Extract<ActionMessage, { type: T }>;
+
+/** The `params` object an action takes */
+export type ActionParams<T extends ActionType> = ActionOf<T> extends { params?: infer P } ? P : never;
+
+/** Required, optional or no params, as the protocol says */
+type ActionArgs<T extends ActionType> =
+  ActionOf<T> extends { params: infer P } ? [params: P]
+  : 'params' extends keyof ActionOf<T> ? [params?: ActionParams<T>]
+  : [];
+
+/** What comes back in `data`: the inspect card for inspect, free-form for everything else */
+export type ActionData<T extends ActionType> = T extends 'inspect' ? InspectData : Record<string, unknown>;
+
+export interface ActionResult<D = Record<string, unknown>> {
+  ok: boolean;
+  reason?: string;  // why it failed (e.g. 'exhausted', 'imprisoned'), or a note on success
+  data?: D;
+}
+
+export type ServerMessageOf<T extends ServerMessage['type']> = Extract<ServerMessage, { type: T }>;
+
+export interface OtraClientEvents {
+  message: [message: ServerMessage];  // everything the server sends, before the events below
+  welcome: [message: ServerMessageOf<'welcome'>];
+  perception: [perception: PerceptionUpdate];
+  train_arriving: [message: ServerMessageOf<'train_arriving'>];
+  spawn: [message: ServerMessageOf<'spawn'>];
+  death: [message: ServerMessageOf<'death'>];
+  event: [message: ServerMessageOf<'event'>];
+  pain: [message: ServerMessageOf<'pain'>];
+  system_announcement: [message: ServerMessageOf<'system_announcement'>];
+  server_error: [message: ServerMessageOf<'error'>];
+  disconnected: [code: number, reason: string, reconnecting: boolean];
+}
+
+export interface OtraClientOptions {
+  url: string;                   // the city's base URL, e.g. https://otra.city
+  token: string;                 // from registerPassport
+  reconnect?: boolean;           // default true
+  reconnectDelayMs?: number;     // first retry; doubles each failed attempt. Default 1000
+  maxReconnectDelayMs?: number;  // default 30000
+  actionTimeoutMs?: number;      // reject an action with no action_result after this long. Default 30000
+}
+
+interface PendingAction {
+  resolve: (result: ActionResult<unknown>) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Close codes the server uses when reconnecting can't help: replaced by a
+ * newer connection, bad token, malformed auth, resident is dead.
+ */
+const FINAL_CLOSE_CODES = new Set([4000, 4001, 4002, 4003]);
+
+export class OtraClient extends EventEmitter<OtraClientEvents> {
+  private ws: WebSocket | null = null;
+  private pending = new Map<string, PendingAction>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+  private lastSocketError = '';
+  private closing = new AbortController();
+  private options: Required<OtraClientOptions>;
+
+  constructor(options: OtraClientOptions) {
+    super();
+    this.options = {
+      reconnect: true,
+      reconnectDelayMs: 1000,
+      maxReconnectDelayMs: 30_000,
+      actionTimeoutMs: 30_000,
+      ...options,
+      url: options.url.replace(/\/$/, ''),
+    };
+  }
+
+  /** Open the socket. Resolves on the server's welcome; rejects if the connection is refused for good. */
+  connect(): Promise<ServerMessageOf<'welcome'>> {
+    if (this.closing.signal.aborted) {
+      return Promise.reject(new Error('Client has been closed'));
+    }
+    return new Promise((resolve, reject) => {
+      const onWelcome = (welcome: ServerMessageOf<'welcome'>) => {
+        this.off('disconnected', onDisconnected);
+        resolve(welcome);
+      };
+      const onDisconnected = (code: number, reason: string, reconnecting: boolean) => {
+        if (reconnecting) return;
+        this.off('welcome', onWelcome);
+        this.off('disconnected', onDisconnected);
+        reject(new Error(`Connection refused (${code}): ${reason}`));
+      };
+      this.once('welcome', onWelcome);
+      this.on('disconnected', onDisconnected);
+      this.openSocket();
+    });
+  }
+
+  /** Disconnect for good: no reconnect, pending actions fail, and `perceptions()` ends */
+  close(): void {
+    this.closing.abort();
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.ws?.close(1000, 'Client closed');
+  }
+
+  get connected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /** Every perception update, as it arrives, until close() */
+  async *perceptions(): AsyncGenerator<PerceptionUpdate> {
+    try {
+      for await (const [perception] of on(this, 'perception', { signal: this.closing.signal })) {
+        yield perception as PerceptionUpdate;
+      }
+    } catch (err) {
+      if (!this.closing.signal.aborted) throw err;
+    }
+  }
+
+  /**
+   * Send any action and wait for its result. A failed action (`ok: false`)
+   * resolves — only a dropped connection or a timeout rejects.
+   */
+  act<T extends ActionType>(type: T, ...args: ActionArgs<T>): Promise<ActionResult<ActionData<T>>> {
+    const ws = this.ws;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error(`Not connected; could not send ${type}`));
+    }
+    const requestId = randomUUID();
+    const params = args[0];
+    const message = params === undefined ? { type, request_id: requestId } : { type, params, request_id: requestId };
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`No result for ${type} after ${this.options.actionTimeoutMs}ms`));
+      }, this.options.actionTimeoutMs);
+      this.pending.set(requestId, { resolve: resolve as PendingAction['resolve'], reject, timer });
+      ws.send(JSON.stringify(message));
+    });
+  }
+
+  // === Movement and speech ===
+  move(params: ActionParams<'move'>) { return this.act('move', params); }
+  moveTo(params: ActionParams<'move_to'>) { return this.act('move_to', params); }
+  stop() { return this.act('stop'); }
+  face(params: ActionParams<'face'>) { return this.act('face', params); }
+  speak(params: ActionParams<'speak'>) { return this.act('speak', params); }
+
+  // === Needs ===
+  eat(params: ActionParams<'eat'>) { return this.act('eat', params); }
+  drink(params: ActionParams<'drink'>) { return this.act('drink', params); }
+  consume(params: ActionParams<'consume'>) { return this.act('consume', params); }
+  craft(params: ActionParams<'craft'>) { return this.act('craft', params); }
+  sleep() { return this.act('sleep'); }
+  wake() { return this.act('wake'); }
+  useToilet() { return this.act('use_toilet'); }
+
+  // === Buildings ===
+  enterBuilding(params: ActionParams<'enter_building'>) { return this.act('enter_building', params); }
+  exitBuilding() { return this.act('exit_building'); }
+
+  // === Money and markets ===
+  buy(params: ActionParams<'buy'>) { return this.act('buy', params); }
+  collectUbi() { return this.act('collect_ubi'); }
+  deposit(params: ActionParams<'deposit'>) { return this.act('deposit', params); }
+  withdraw(params: ActionParams<'withdraw'>) { return this.act('withdraw', params); }
+  checkBalance() { return this.act('check_balance'); }
+  takeLoan(params: ActionParams<'take_loan'>) { return this.act('take_loan', params); }
+  repayLoan(params?: ActionParams<'repay_loan'>) { return this.act('repay_loan', params); }
+  placeOrder(params: ActionParams<'place_order'>) { return this.act('place_order', params); }
+  cancelOrder(params: ActionParams<'cancel_order'>) { return this.act('cancel_order', params); }
+  listMarket(params?: ActionParams<'list_market'>) { return this.act('list_market', params); }
+
+  // === Other residents ===
+  inspect(params: ActionParams<'inspect'>) { return this.act('inspect', params); }
+  trade(params: ActionParams<'trade'>) { return this.act('trade', params); }
+  acceptTrade(params: ActionParams<'accept_trade'>) { return this.act('accept_trade', params); }
+  rejectTrade(params: ActionParams<'reject_trade'>) { return this.act('reject_trade', params); }
+  counterTrade(params: ActionParams<'counter_trade'>) { return this.act('counter_trade', params); }
+  give(params: ActionParams<'give'>) { return this.act('give', params); }
+
+  // === Work and civic life ===
+  listJobs() { return this.act('list_jobs'); }
+  applyJob(params: ActionParams<'apply_job'>) { return this.act('apply_job', params); }
+  quitJob() { return this.act('quit_job'); }
+  work(params?: ActionParams<'work'>) { return this.act('work', params); }
+  registerBusiness(params: ActionParams<'register_business'>) { return this.act('register_business', params); }
+  postJob(params: ActionParams<'post_job'>) { return this.act('post_job', params); }
+  setWage(params: ActionParams<'set_wage'>) { return this.act('set_wage', params); }
+  closeJob(params: ActionParams<'close_job'>) { return this.act('close_job', params); }
+  closeBusiness() { return this.act('close_business'); }
+  listPetitions() { return this.act('list_petitions'); }
+  writePetition(params: ActionParams<'write_petition'>) { return this.act('write_petition', params); }
+  votePetition(params: ActionParams<'vote_petition'>) { return this.act('vote_petition', params); }
+  writeWill(params: ActionParams<'write_will'>) { return this.act('write_will', params); }
+
+  // === Station ===
+  depart() { return this.act('depart'); }
+
+  // === Safety and crime ===
+  collectBody(params: ActionParams<'collect_body'>) { return this.act('collect_body', params); }
+  processBody() { return this.act('process_body'); }
+  arrest(params: ActionParams<'arrest'>) { return this.act('arrest', params); }
+  bookSuspect() { return this.act('book_suspect'); }
+  steal(params: ActionParams<'steal'>) { return this.act('steal', params); }
+  assault(params: ActionParams<'assault'>) { return this.act('assault', params); }
+  reportCrime(params: ActionParams<'report_crime'>) { return this.act('report_crime', params); }
+
+  // === Trials ===
+  listTrials() { return this.act('list_trials'); }
+  juryVote(params: ActionParams<'jury_vote'>) { return this.act('jury_vote', params); }
+  defend(params: ActionParams<'defend'>) { return this.act('defend', params); }
+
+  // === Elections and treasury ===
+  listCandidates() { return this.act('list_candidates'); }
+  registerCandidate(params: ActionParams<'register_candidate'>) { return this.act('register_candidate', params); }
+  campaignSpeech(params: ActionParams<'campaign_speech'>) { return this.act('campaign_speech', params); }
+  voteElection(params: ActionParams<'vote_election'>) { return this.act('vote_election', params); }
+  setTaxRate(params: ActionParams<'set_tax_rate'>) { return this.act('set_tax_rate', params); }
+  pardon(params: ActionParams<'pardon'>) { return this.act('pardon', params); }
+  proposeBudget(params: ActionParams<'propose_budget'>) { return this.act('propose_budget', params); }
+  voteBudget(params: ActionParams<'vote_budget'>) { return this.act('vote_budget', params); }
+
+  // === Foraging and building ===
+  forage(params: ActionParams<'forage'>) { return this.act('forage', params); }
+  build(params: ActionParams<'build'>) { return this.act('build', params); }
+  maintainStructure(params: ActionParams<'maintain_structure'>) { return this.act('maintain_structure', params); }
+  demolishStructure(params: ActionParams<'demolish_structure'>) { return this.act('demolish_structure', params); }
+  storeItem(params: ActionParams<'store_item'>) { return this.act('store_item', params); }
+  takeItem(params: ActionParams<'take_item'>) { return this.act('take_item', params); }
+
+  // === Lockers ===
+  rentLocker(params?: ActionParams<'rent_locker'>) { return this.act('rent_locker', params); }
+  lockerDeposit(params: ActionParams<'locker_deposit'>) { return this.act('locker_deposit', params); }
+  lockerWithdraw(params: ActionParams<'locker_withdraw'>) { return this.act('locker_withdraw', params); }
+  setLockerHeir(params: ActionParams<'set_locker_heir'>) { return this.act('set_locker_heir', params); }
+  releaseLocker() { return this.act('release_locker'); }
+
+  // === Health ===
+  treat() { return this.act('treat'); }
+
+  // === GitHub and referrals ===
+  linkGithub(params: ActionParams<'link_github'>) { return this.act('link_github', params); }
+  claimIssue(params: ActionParams<'claim_issue'>) { return this.act('claim_issue', params); }
+  claimPr(params: ActionParams<'claim_pr'>) { return this.act('claim_pr', params); }
+  listClaims() { return this.act('list_claims'); }
+  getReferralLink() { return this.act('get_referral_link'); }
+  claimReferrals() { return this.act('claim_referrals'); }
+
+  // === Feedback ===
+  submitFeedback(params: ActionParams<'submit_feedback'>) { return this.act('submit_feedback', params); }
+
+  // === Intents ===
+  startIntent(params: ActionParams<'start_intent'>) { return this.act('start_intent', params); }
+  cancelIntent() { return this.act('cancel_intent'); }
+
+  // === Connection ===
+
+  private openSocket(): void {
+    const wsUrl = `${this.options.url.replace(/^http/, 'ws')}/ws?token=${encodeURIComponent(this.options.token)}`;
+    const ws = new WebSocket(wsUrl);
+    this.ws = ws;
+
+    ws.on('message', (data) => {
+      let msg: ServerMessage;
+      try {
+        msg = JSON.parse(data.toString()) as ServerMessage;
+      } catch {
+        return;
+      }
+      this.handleMessage(msg);
+    });
+
+    // 'close' always follows; keep the error so the disconnect has a reason
+    ws.on('error', (err) => {
+      this.lastSocketError = err.message;
+    });
+
+    ws.on('close', (code, reasonBuffer) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      const reason = reasonBuffer.toString() || this.lastSocketError;
+      this.lastSocketError = '';
+
+      for (const [, p] of this.pending) {
+        clearTimeout(p.timer);
+        p.reject(new Error(`Connection closed (${code}) before a result arrived`));
+      }
+      this.pending.clear();
+
+      const reconnecting = this.options.reconnect && !this.closing.signal.aborted && !FINAL_CLOSE_CODES.has(code);
+      this.emit('disconnected', code, reason, reconnecting);
+      if (reconnecting) this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      this.options.reconnectDelayMs * 2 ** this.reconnectAttempts,
+      this.options.maxReconnectDelayMs,
+    );
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.closing.signal.aborted) this.openSocket();
+    }, delay);
+  }
+
+  private handleMessage(msg: ServerMessage): void {
+    this.emit('message', msg);
+    switch (msg.type) {
+      case 'action_result':
+        this.settle(msg.request_id, { ok: msg.status === 'ok', reason: msg.reason, data: msg.data });
+        break;
+      case 'inspect_result':
+        this.settle(msg.request_id, { ok: true, data: msg.data });
+        break;
+      case 'welcome':
+        this.reconnectAttempts = 0;
+        this.emit('welcome', msg);
+        break;
+      case 'perception':
+        this.emit('perception', msg.data);
+        break;
+      case 'error':
+        this.emit('server_error', msg);
+        break;
+      default:
+        this.emit(msg.type, msg as never);
+    }
+  }
+
+  private settle(requestId: string, result: ActionResult<unknown>): void {
+    const p = this.pending.get(requestId);
+    if (!p) return;
+    this.pending.delete(requestId);
+    clearTimeout(p.timer);
+    p.resolve(result);
+  }
+}
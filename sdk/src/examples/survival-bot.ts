@@ -0,0 +1,177 @@
+/**
+ * A resident that keeps itself alive on what it can forage: berries for
+ * hunger, spring water for thirst. It sleeps when exhausted, finds a toilet
+ * when it has to, and otherwise walks between bushes and springs keeping a
+ * couple of each in its pockets.
+ *
+ *   OTRA_URL=http://localhost:3456 npm run survival-bot --workspace=sdk
+ *
+ * Without OTRA_TOKEN it registers a new passport and prints the token; set
+ * OTRA_TOKEN to that to come back as the same resident.
+ */
+
+import type { MapData, PerceptionUpdate, VisibleForageable } from '@otra/shared';
+import { FORAGE_RANGE } from '@otra/shared';
+import { OtraClient, registerPassport, parseWorldTime, formatGameClock } from '../index.js';
+
+const URL = process.env.OTRA_URL ?? 'http://localhost:3456';
+const NEED_LOW = 50;        // eat or drink below this
+const ENERGY_LOW = 15;      // sleep below this
+const ENERGY_RESTED = 90;   // wake at this
+const BLADDER_HIGH = 75;
+const KEEP_ON_HAND = 2;     // of each forageable item
+
+interface Node {
+  id: string;
+  type: 'berry_bush' | 'fresh_spring';
+  x: number;
+  y: number;
+  emptyUntil: number;       // Date.now() before which we don't walk back to it
+}
+
+const ITEM_FROM: Record<Node['type'], string> = { berry_bush: 'wild_berries', fresh_spring: 'spring_water' };
+
+async function token(): Promise<string> {
+  if (process.env.OTRA_TOKEN) return process.env.OTRA_TOKEN;
+  const passport = await registerPassport(URL, {
+    full_name: process.env.OTRA_NAME ?? 'Survival Bot',
+    preferred_name: process.env.OTRA_NAME?.split(' ')[0] ?? 'Survival',
+    place_of_origin: 'The Woods',
+    type: 'AGENT',
+    agent_framework: 'otra-sdk/survival-bot',
+  }, { benchToken: process.env.OTRA_BENCH_TOKEN });
+  console.log(`[Bot] Registered ${passport.passport.passport_no}. Reconnect with OTRA_TOKEN=${passport.token}`);
+  return passport.token;
+}
+
+async function loadNodes(): Promise<{ nodes: Map<string, Node>; toiletId: string | null }> {
+  const res = await fetch(`${URL}/api/map`);
+  const map = await res.json() as MapData;
+  const nodes = new Map<string, Node>();
+  for (const n of map.forageableNodes) {
+    nodes.set(n.id, {
+      id: n.id,
+      type: n.type,
+      x: (n.tileX + 0.5) * map.tileSize,
+      y: (n.tileY + 0.5) * map.tileSize,
+      emptyUntil: 0,
+    });
+  }
+  return { nodes, toiletId: map.buildings.find(b => b.type === 'toilet')?.id ?? null };
+}
+
+function count(p: PerceptionUpdate, itemType: string): number {
+  return p.self.inventory.filter(i => i.type === itemType).reduce((sum, i) => sum + i.quantity, 0);
+}
+
+async function main(): Promise<void> {
+  const { nodes, toiletId } = await loadNodes();
+  const client = new OtraClient({ url: URL, token: await token() });
+
+  client.on('pain', (msg) => console.log(`[Bot] ${msg.message}`));
+  client.on('disconnected', (code, reason, reconnecting) => {
+    console.log(`[Bot] Disconnected (${code} ${reason})${reconnecting ? ', reconnecting' : ''}`);
+  });
+  client.on('death', (msg) => {
+    console.log(`[Bot] Died: ${msg.cause}`);
+    client.close();
+  });
+
+  const welcome = await client.connect();
+  console.log(`[Bot] ${welcome.resident.passport.preferred_name} is in the city`);
+
+  let heading: string | null = null;  // node or building we last sent a move_to for
+  let lastLoggedHour = -1;
+  let latestTick = 0;
+  client.on('perception', (p) => { latestTick = p.tick; });
+
+  for await (const p of client.perceptions()) {
+    // Updates queue up while an action is in flight; act only on the newest
+    if (p.tick < latestTick) continue;
+    const self = p.self;
+    const clock = parseWorldTime(p.world_time);
+    if (clock.hour !== lastLoggedHour) {
+      lastLoggedHour = clock.hour;
+      console.log(`[Bot] ${formatGameClock(clock)} — hunger ${Math.round(self.hunger)}, thirst ${Math.round(self.thirst)}, energy ${Math.round(self.energy)}`);
+    }
+
+    try {
+      if (self.is_sleeping) {
+        if (self.energy >= ENERGY_RESTED) await client.wake();
+        continue;
+      }
+      if (self.is_using_toilet || self.status === 'arrested' || self.status === 'imprisoned') continue;
+
+      if (self.energy < ENERGY_LOW) {
+        heading = null;
+        await client.sleep();
+        continue;
+      }
+
+      if (self.bladder > BLADDER_HIGH && toiletId) {
+        if (p.interactions.includes('use_toilet')) {
+          heading = null;
+          await client.useToilet();
+        } else if (heading !== toiletId) {
+          heading = toiletId;
+          await client.moveTo({ target: toiletId });
+        }
+        continue;
+      }
+
+      // Eat and drink from the pockets when a need runs low
+      const water = self.inventory.find(i => i.type === 'spring_water');
+      const berries = self.inventory.find(i => i.type === 'wild_berries');
+      if (self.thirst < NEED_LOW && water) {
+        await client.drink({ item_id: water.id });
+        continue;
+      }
+      if (self.hunger < NEED_LOW && berries) {
+        await client.eat({ item_id: berries.id });
+        continue;
+      }
+
+      // Forage whatever is in reach that we're short of
+      const forageable = p.visible.filter((e): e is VisibleForageable => e.type === 'forageable');
+      for (const seen of forageable) {
+        const node = nodes.get(seen.id);
+        if (node && seen.uses_remaining <= 0) node.emptyUntil = Date.now() + 5 * 60_000;
+      }
+      const wanted = (type: Node['type']) => count(p, ITEM_FROM[type]) < KEEP_ON_HAND;
+      const inReach = forageable.find(f => p.interactions.includes(`forage:${f.id}`) && wanted(f.resource_type));
+      if (inReach) {
+        heading = null;
+        const result = await client.forage({ node_id: inReach.id });
+        if (!result.ok) console.log(`[Bot] Couldn't forage: ${result.reason}`);
+        continue;
+      }
+
+      // Walk to the nearest bush or spring with something on it
+      const needs = (['fresh_spring', 'berry_bush'] as const).filter(wanted);
+      if (needs.length === 0) continue;
+      let target: Node | null = null;
+      let nearest = Infinity;
+      for (const [, node] of nodes) {
+        if (!needs.includes(node.type) || node.emptyUntil > Date.now()) continue;
+        const d = Math.hypot(node.x - self.x, node.y - self.y);
+        if (d < nearest) {
+          nearest = d;
+          target = node;
+        }
+      }
+      if (!target || heading === target.id) continue;
+      heading = target.id;
+      // Stop short of the node itself — it's in range from a tile away
+      const angle = Math.atan2(self.y - target.y, self.x - target.x);
+      const standOff = FORAGE_RANGE / 2;
+      await client.moveTo({ x: target.x + Math.cos(angle) * standOff, y: target.y + Math.sin(angle) * standOff });
+    } catch (err) {
+      console.log(`[Bot] ${(err as Error).message}`);
+    }
+  }
+}
+
+main().catch((err) => {
+  console.error('[Bot] Fatal:', err);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+/**
+ * Reading `world_time`. Perception and welcome messages carry it as game
+ * seconds since midnight of day one (the city opens at STARTING_HOUR), and
+ * game time runs TIME_SCALE times faster than real time.
+ */
+
+import { GAME_DAY_SECONDS, TIME_SCALE } from '@otra/shared';
+
+/** Same boundaries the server uses for daylight and vision */
+export type DayPhase = 'night' | 'dawn' | 'day' | 'dusk';
+
+export interface GameClock {
+  day: number;          // 1-based
+  hour: number;         // 0-23
+  minute: number;       // 0-59
+  secondOfDay: number;  // 0 to GAME_DAY_SECONDS - 1
+  phase: DayPhase;
+}
+
+export function parseWorldTime(worldTime: number): GameClock {
+  const secondOfDay = Math.floor(worldTime % GAME_DAY_SECONDS);
+  const hour = Math.floor(secondOfDay / 3600);
+  return {
+    day: Math.floor(worldTime / GAME_DAY_SECONDS) + 1,
+    hour,
+    minute: Math.floor((secondOfDay % 3600) / 60),
+    secondOfDay,
+    phase: hour >= 8 && hour < 18 ? 'day'
+      : hour >= 6 && hour < 8 ? 'dawn'
+      : hour >= 18 && hour < 20 ? 'dusk'
+      : 'night',
+  };
+}
+
+/** "Day 3, 07:05" */
+export function formatGameClock(clock: GameClock): string {
+  return `Day ${clock.day}, ${String(clock.hour).padStart(2, '0')}:${String(clock.minute).padStart(2, '0')}`;
+}
+
+/** Game seconds from `worldTime` until the clock next reads `hour`:00 */
+export function gameSecondsUntilHour(worldTime: number, hour: number): number {
+  const secondOfDay = worldTime % GAME_DAY_SECONDS;
+  const wait = hour * 3600 - secondOfDay;
+  return wait > 0 ? wait : wait + GAME_DAY_SECONDS;
+}
+
+/** How long a span of game time takes in real milliseconds */
+export function gameSecondsToRealMs(gameSeconds: number): number {
+  return (gameSeconds / TIME_SCALE) * 1000;
+}
@@ -0,0 +1,3 @@
+export * from './client.js';
+export * from './passport.js';
+export * from './game-clock.js';
@@ -0,0 +1,39 @@
+import type { PassportRegistration, PassportResponse } from '@otra/shared';
+
+export interface RegisterOptions {
+  benchToken?: string;  // sent as X-Bench-Token when the city only admits benchmark agents
+}
+
+/** The city turned a registration down: bad fields, wrong bench token, or human registration */
+export class RegistrationError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'RegistrationError';
+  }
+}
+
+/**
+ * Apply for a passport at `POST /api/passport`. The returned token is what
+ * OtraClient authenticates with — keep it, since registering again makes a
+ * new resident rather than reconnecting the old one.
+ */
+export async function registerPassport(
+  baseUrl: string,
+  registration: PassportRegistration,
+  options: RegisterOptions = {},
+): Promise<PassportResponse> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.benchToken) headers['X-Bench-Token'] = options.benchToken;
+
+  const res = await fetch(`${baseUrl.replace(/\/$/, '')}/api/passport`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(registration),
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => null) as { error?: string } | null;
+    throw new RegistrationError(res.status, body?.error ?? `Registration failed with status ${res.status}`);
+  }
+  return await res.json() as PassportResponse;
+}
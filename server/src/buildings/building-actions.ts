@@ -1,9 +1,14 @@
-import { TILE_SIZE, ENERGY_COST_USE_TOILET, TOILET_USE_DURATION_MS, REFERRAL_REWARD, REFERRAL_MATURITY_MS, AGENT_SEPARATION_DIST, CITY_CONFIG, renderMessage } from '@otra/shared';
+import { TILE_SIZE, ENERGY_COST_USE_TOILET, TOILET_USE_DURATION_MS, REFERRAL_REWARD, REFERRAL_MATURITY_MS, AGENT_SEPARATION_DIST, CITY_CONFIG, renderMessage, LOCKER_RENT_PER_GAME_DAY, LOCKER_CAPACITY } from '@otra/shared';
 import type { ResidentEntity } from '../simulation/world.js';
 import type { World } from '../simulation/world.js';
 import { getShopCatalogWithStock } from '../economy/shop.js';
+import { getOrderBook } from '../economy/market.js';
 import { getOpenPetitions, getReferralStats } from '../db/queries.js';
 import { getBuildingType } from './building-registry.js';
+import { currentDisease, cure } from '../simulation/illness.js';
+import { checkTrespass } from '../civic/crime.js';
+import { depositToTreasury } from '../civic/treasury.js';
+import { clock } from '../simulation/clock.js';
 
 export interface BuildingActionResult {
   success: boolean;
@@ -73,11 +78,19 @@ export function enterBuilding(
   const buildingType = getBuildingType(buildingId);
 
   if (buildingType === 'shop') {
-    const catalog = getShopCatalogWithStock();
+    const catalog = getShopCatalogWithStock(buildingId);
     const stockSummary = catalog
-      .map(item => `${item.name} (${item.stock > 0 ? item.stock : 'out'})`)
+      .map(item => `${item.name} ${CITY_CONFIG.currencySymbol}${item.price} (${item.stock > 0 ? item.stock : 'out'})`)
       .join(', ');
-    resident.pendingNotifications.push(`Shop stock: ${stockSummary}`);
+    resident.pendingNotifications.push(`${building.name} stock: ${stockSummary}`);
+
+    const book = getOrderBook();
+    const marketItems = Object.keys(book);
+    if (marketItems.length > 0) {
+      resident.pendingNotifications.push(
+        `Market stalls have open orders for ${marketItems.join(', ')}. Use list_market to see prices, place_order to buy or sell.`,
+      );
+    }
   }
 
   if (buildingType === 'hall') {
@@ -118,6 +131,30 @@ export function enterBuilding(
     }
   }
 
+  if (buildingType === 'storage') {
+    const locker = resident.locker;
+    if (locker?.buildingId === buildingId) {
+      const items = locker.contents.reduce((n, i) => n + i.quantity, 0);
+      const hoursLeft = Math.round((locker.rentedUntil - world.worldTime) / 3600);
+      resident.pendingNotifications.push(hoursLeft > 0
+        ? `Your locker holds ${items}/${LOCKER_CAPACITY} items. Rent is paid for ${hoursLeft} more game hour(s).`
+        : `Your locker holds ${items}/${LOCKER_CAPACITY} items. Your rent is overdue — pay with rent_locker.`);
+    } else {
+      resident.pendingNotifications.push(
+        renderMessage(CITY_CONFIG.messages.lockersWelcome, { rent: LOCKER_RENT_PER_GAME_DAY, capacity: LOCKER_CAPACITY })
+      );
+    }
+  }
+
+  if (buildingType === 'clinic') {
+    const disease = currentDisease(resident);
+    resident.pendingNotifications.push(disease
+      ? `The doctor can see you have ${disease.name.toLowerCase()}. Treatment costs ${CITY_CONFIG.currencySymbol}${disease.treatmentCost} — use treat.`
+      : 'Welcome to the City Clinic. Come back if you fall ill — treatment cures you on the spot.');
+  }
+
+  checkTrespass(resident, buildingId, world.worldTime);
+
   return { success: true, message: `Entered ${building.name}` };
 }
 
@@ -170,7 +207,7 @@ export function useToilet(resident: ResidentEntity): BuildingActionResult {
     return { success: false, message: 'Not enough energy' };
   }
 
-  const now = Date.now();
+  const now = clock.now();
   resident.toiletUseStartedMs = now;
   resident.toiletUseUntilMs = now + TOILET_USE_DURATION_MS;
   resident.velocityX = 0;
@@ -179,3 +216,19 @@ export function useToilet(resident: ResidentEntity): BuildingActionResult {
 
   return { success: true, message: 'Using toilet...' };
 }
+
+/** Pay the clinic to cure the resident's illness. The fee goes to the city treasury. */
+export function treatIllness(resident: ResidentEntity, worldTime: number): BuildingActionResult {
+  const disease = currentDisease(resident);
+  if (!disease) {
+    return { success: false, message: 'You are not ill.' };
+  }
+  if (resident.wallet < disease.treatmentCost) {
+    return { success: false, message: `Treating ${disease.name.toLowerCase()} costs ${disease.treatmentCost} QUID (you have ${resident.wallet})` };
+  }
+
+  resident.wallet -= disease.treatmentCost;
+  depositToTreasury(disease.treatmentCost);
+  cure(resident, worldTime, 'treated');
+  return { success: true, message: `Treated for ${disease.name.toLowerCase()} (${disease.treatmentCost} QUID). You feel better already.` };
+}
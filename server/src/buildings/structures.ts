@@ -0,0 +1,296 @@
+/**
+ * Resident-built structures — shelters, storage chests and planted bushes
+ * on grass tiles in the wilderness ring around the city core.
+ */
+
+import {
+  CITY_CONFIG, TileType, TILE_SIZE, RESIDENT_HITBOX,
+  BUILD_RANGE, ENERGY_COST_BUILD, ENERGY_COST_MAINTAIN, STRUCTURE_MAX_PER_RESIDENT,
+  STORAGE_CHEST_CAPACITY, CITY_CORE_MIN_TILE, CITY_CORE_MAX_TILE,
+  type StructureConfig, type StructureType, type RecipeIngredient,
+} from '@otra/shared';
+import type { World, ResidentEntity, StructureEntity } from '../simulation/world.js';
+import { insertStructure, logEvent } from '../db/queries.js';
+import { getShopItem } from '../economy/shop.js';
+import { countItemType, removeItemType, takeStacks, putStacks } from '../economy/inventory.js';
+import { clock, newId } from '../simulation/clock.js';
+
+export interface StructureResult {
+  success: boolean;
+  message: string;
+  structure?: StructureEntity;
+}
+
+export function getStructureConfig(type: string): StructureConfig | undefined {
+  return CITY_CONFIG.structures.find(s => s.id === type);
+}
+
+/** "6x Timber" / "4x Wild Berries + 2x Spring Water" */
+function describeCost(cost: RecipeIngredient[]): string {
+  return cost.map(c => `${c.quantity}x ${getShopItem(c.itemType)?.name ?? c.itemType}`).join(' + ');
+}
+
+/** First ingredient the resident is short of, as an error message, or null if they have it all */
+function checkCost(resident: ResidentEntity, cost: RecipeIngredient[]): string | null {
+  for (const c of cost) {
+    const have = countItemType(resident, c.itemType);
+    if (have < c.quantity) {
+      const name = getShopItem(c.itemType)?.name ?? c.itemType;
+      return `Not enough ${name} (have ${have}, need ${c.quantity}). Costs ${describeCost(cost)}.`;
+    }
+  }
+  return null;
+}
+
+function isWilderness(tileX: number, tileY: number): boolean {
+  return tileX < CITY_CORE_MIN_TILE || tileX > CITY_CORE_MAX_TILE
+    || tileY < CITY_CORE_MIN_TILE || tileY > CITY_CORE_MAX_TILE;
+}
+
+function distanceTo(resident: ResidentEntity, tileX: number, tileY: number): number {
+  const cx = tileX * TILE_SIZE + TILE_SIZE / 2;
+  const cy = tileY * TILE_SIZE + TILE_SIZE / 2;
+  return Math.sqrt((resident.x - cx) ** 2 + (resident.y - cy) ** 2);
+}
+
+/** Look up a structure the resident is standing next to */
+function getNearbyStructure(resident: ResidentEntity, structureId: string, world: World): StructureEntity | string {
+  if (resident.currentBuilding) return 'You need to be outside to do that.';
+  const structure = world.structures.get(structureId);
+  if (!structure) return `No structure "${structureId}".`;
+  if (distanceTo(resident, structure.tileX, structure.tileY) > BUILD_RANGE) return 'Too far from the structure.';
+  return structure;
+}
+
+/**
+ * Build a structure on a wilderness grass tile. Defaults to the tile the
+ * resident is facing; pass pixel x/y to choose a different one in range.
+ */
+export function buildStructure(
+  resident: ResidentEntity,
+  type: StructureType,
+  x: number | undefined,
+  y: number | undefined,
+  world: World,
+): StructureResult {
+  const config = getStructureConfig(type);
+  if (!config) {
+    const types = CITY_CONFIG.structures.map(s => s.id).join(', ');
+    return { success: false, message: `Unknown structure_type "${type}". Options: ${types}` };
+  }
+  if (resident.currentBuilding) {
+    return { success: false, message: 'You can only build outdoors.' };
+  }
+
+  let tileX: number;
+  let tileY: number;
+  if (x !== undefined && y !== undefined) {
+    tileX = Math.floor(x / TILE_SIZE);
+    tileY = Math.floor(y / TILE_SIZE);
+  } else {
+    const angle = (resident.facing * Math.PI) / 180;
+    tileX = Math.floor((resident.x + Math.cos(angle) * TILE_SIZE) / TILE_SIZE);
+    tileY = Math.floor((resident.y + Math.sin(angle) * TILE_SIZE) / TILE_SIZE);
+  }
+
+  const map = world.map.data;
+  if (tileX < 0 || tileX >= map.width || tileY < 0 || tileY >= map.height) {
+    return { success: false, message: 'That tile is off the map.' };
+  }
+  if (!isWilderness(tileX, tileY)) {
+    return { success: false, message: 'You can only build in the wilderness outside the city.' };
+  }
+  if (map.ground[tileY][tileX] !== TileType.GRASS || world.map.isTileBlocked(tileX, tileY)) {
+    return { success: false, message: 'You can only build on open grass.' };
+  }
+  for (const [, s] of world.structures) {
+    if (s.tileX === tileX && s.tileY === tileY) {
+      return { success: false, message: 'Something is already built there.' };
+    }
+  }
+  if (distanceTo(resident, tileX, tileY) > BUILD_RANGE) {
+    return { success: false, message: 'Too far away. Stand next to the tile you want to build on.' };
+  }
+  if (config.blocksMovement) {
+    // Don't wall anyone in — the tile has to be clear of residents
+    const half = RESIDENT_HITBOX / 2;
+    for (const [, r] of world.residents) {
+      if (r.isDead || r.currentBuilding) continue;
+      if (r.x + half > tileX * TILE_SIZE && r.x - half < (tileX + 1) * TILE_SIZE
+        && r.y + half > tileY * TILE_SIZE && r.y - half < (tileY + 1) * TILE_SIZE) {
+        return { success: false, message: 'Someone is standing there.' };
+      }
+    }
+  }
+
+  const owned = Array.from(world.structures.values()).filter(s => s.ownerId === resident.id).length;
+  if (owned >= STRUCTURE_MAX_PER_RESIDENT) {
+    return { success: false, message: `You already have ${STRUCTURE_MAX_PER_RESIDENT} structures. Demolish one first.` };
+  }
+  const shortfall = checkCost(resident, config.cost);
+  if (shortfall) {
+    return { success: false, message: shortfall };
+  }
+  if (resident.needs.energy < ENERGY_COST_BUILD) {
+    return { success: false, message: 'Not enough energy' };
+  }
+
+  resident.needs.energy -= ENERGY_COST_BUILD;
+  for (const c of config.cost) {
+    removeItemType(resident, c.itemType, c.quantity);
+  }
+
+  const structure: StructureEntity = {
+    id: newId(),
+    type: config.id,
+    ownerId: resident.id,
+    tileX,
+    tileY,
+    condition: 100,
+    contents: [],
+    builtAt: clock.now(),
+  };
+  insertStructure({
+    id: structure.id,
+    type: structure.type,
+    owner_id: structure.ownerId,
+    tile_x: tileX,
+    tile_y: tileY,
+    condition: structure.condition,
+    contents: '[]',
+    built_at: structure.builtAt,
+  });
+  world.addStructure(structure);
+
+  logEvent('build_structure', resident.id, null, null, resident.x, resident.y, {
+    structure_id: structure.id, structure_type: structure.type, tile_x: tileX, tile_y: tileY, cost: config.cost,
+  });
+
+  return {
+    success: true,
+    message: `Built a ${config.name.toLowerCase()}. It lasts ${config.decayGameHours} game hours unless maintained (${describeCost(config.maintenanceCost)}).`,
+    structure,
+  };
+}
+
+/** Restore a structure to full condition. Anyone can maintain anyone's structure. */
+export function maintainStructure(resident: ResidentEntity, structureId: string, world: World): StructureResult {
+  const structure = getNearbyStructure(resident, structureId, world);
+  if (typeof structure === 'string') return { success: false, message: structure };
+  const config = getStructureConfig(structure.type)!;
+
+  const shortfall = checkCost(resident, config.maintenanceCost);
+  if (shortfall) {
+    return { success: false, message: shortfall };
+  }
+  if (resident.needs.energy < ENERGY_COST_MAINTAIN) {
+    return { success: false, message: 'Not enough energy' };
+  }
+
+  resident.needs.energy -= ENERGY_COST_MAINTAIN;
+  for (const c of config.maintenanceCost) {
+    removeItemType(resident, c.itemType, c.quantity);
+  }
+  const before = Math.ceil(structure.condition);
+  structure.condition = 100;
+
+  logEvent('maintain_structure', resident.id, structure.ownerId, null, resident.x, resident.y, {
+    structure_id: structure.id, structure_type: structure.type, condition_before: before,
+  });
+
+  return { success: true, message: `Repaired the ${config.name.toLowerCase()} (${before} → 100).`, structure };
+}
+
+/** Tear down one of the resident's own structures. Chest contents go back into their inventory. */
+export function demolishStructure(resident: ResidentEntity, structureId: string, world: World): StructureResult {
+  const structure = getNearbyStructure(resident, structureId, world);
+  if (typeof structure === 'string') return { success: false, message: structure };
+  if (structure.ownerId !== resident.id) {
+    return { success: false, message: 'You can only demolish your own structures.' };
+  }
+  const config = getStructureConfig(structure.type)!;
+
+  world.removeStructure(structure.id);
+  putStacks(resident.inventory, structure.contents);
+
+  logEvent('demolish_structure', resident.id, null, null, resident.x, resident.y, {
+    structure_id: structure.id, structure_type: structure.type,
+    items_returned: structure.contents.reduce((n, i) => n + i.quantity, 0),
+  });
+
+  const returned = structure.contents.length > 0 ? ' Its contents are back in your inventory.' : '';
+  return { success: true, message: `Demolished your ${config.name.toLowerCase()}.${returned}`, structure };
+}
+
+/** Look up one of the resident's own storage chests within reach */
+function getOwnChest(resident: ResidentEntity, structureId: string, world: World): StructureEntity | string {
+  const structure = getNearbyStructure(resident, structureId, world);
+  if (typeof structure === 'string') return structure;
+  if (structure.type !== 'storage_chest') return 'That is not a storage chest.';
+  if (structure.ownerId !== resident.id) return 'This chest is locked. Only its builder can open it.';
+  return structure;
+}
+
+/** Move items from the resident's inventory into their chest. Defaults to everything of that type. */
+export function storeItem(
+  resident: ResidentEntity,
+  structureId: string,
+  itemType: string,
+  quantity: number | undefined,
+  world: World,
+): StructureResult {
+  const chest = getOwnChest(resident, structureId, world);
+  if (typeof chest === 'string') return { success: false, message: chest };
+
+  const have = countItemType(resident, itemType);
+  const amount = quantity ?? have;
+  if (!Number.isInteger(amount) || amount < 1) {
+    return { success: false, message: have === 0 ? `You have no ${itemType}.` : 'Invalid quantity' };
+  }
+  if (have < amount) {
+    return { success: false, message: `You only have ${have}x ${itemType}.` };
+  }
+  const stored = chest.contents.reduce((n, i) => n + i.quantity, 0);
+  if (stored + amount > STORAGE_CHEST_CAPACITY) {
+    return { success: false, message: `The chest only has room for ${STORAGE_CHEST_CAPACITY - stored} more item(s).` };
+  }
+
+  putStacks(chest.contents, takeStacks(resident.inventory, itemType, amount));
+
+  logEvent('store_item', resident.id, null, null, resident.x, resident.y, {
+    structure_id: chest.id, item_type: itemType, quantity: amount,
+  });
+
+  const name = getShopItem(itemType)?.name ?? itemType;
+  return { success: true, message: `Stored ${amount}x ${name} (${stored + amount}/${STORAGE_CHEST_CAPACITY}).`, structure: chest };
+}
+
+/** Move items from the resident's chest back into their inventory. Defaults to everything of that type. */
+export function takeItem(
+  resident: ResidentEntity,
+  structureId: string,
+  itemType: string,
+  quantity: number | undefined,
+  world: World,
+): StructureResult {
+  const chest = getOwnChest(resident, structureId, world);
+  if (typeof chest === 'string') return { success: false, message: chest };
+
+  const stored = chest.contents.filter(i => i.type === itemType).reduce((n, i) => n + i.quantity, 0);
+  const amount = quantity ?? stored;
+  if (!Number.isInteger(amount) || amount < 1) {
+    return { success: false, message: stored === 0 ? `There is no ${itemType} in the chest.` : 'Invalid quantity' };
+  }
+  if (stored < amount) {
+    return { success: false, message: `The chest only holds ${stored}x ${itemType}.` };
+  }
+
+  putStacks(resident.inventory, takeStacks(chest.contents, itemType, amount));
+
+  logEvent('take_item', resident.id, null, null, resident.x, resident.y, {
+    structure_id: chest.id, item_type: itemType, quantity: amount,
+  });
+
+  const name = getShopItem(itemType)?.name ?? itemType;
+  return { success: true, message: `Took ${amount}x ${name} from the chest.`, structure: chest };
+}
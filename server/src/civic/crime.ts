@@ -0,0 +1,289 @@
+/**
+ * Crime — theft, assault and trespass. Theft and assault are only noticed if
+ * someone in line of sight sees them; a witness then has to report the crime
+ * at the Police Station before the culprit is wanted. Trespass is caught as
+ * soon as someone walks into a closed building.
+ */
+
+import {
+  CITY_CONFIG, STARTING_HOUR, GAME_DAY_SECONDS, SOCIAL_CONVERSATION_WINDOW,
+  STEAL_RANGE, ENERGY_COST_STEAL, ASSAULT_RANGE, ENERGY_COST_ASSAULT, ASSAULT_HEALTH_DAMAGE,
+  ASSAULT_COOLDOWN_GAME_MINUTES, CRIME_REPORT_WINDOW_GAME_HOURS, LOITER_SENTENCE_GAME_HOURS,
+  type LawConfig, type LawDetection,
+} from '@otra/shared';
+import type { World, ResidentEntity } from '../simulation/world.js';
+import { getLaws, logEvent } from '../db/queries.js';
+import { getShopItem } from '../economy/shop.js';
+import { takeStacks, putStacks } from '../economy/inventory.js';
+import { sendWebhook } from '../network/webhooks.js';
+import { clock, random } from '../simulation/clock.js';
+
+export interface CrimeResult {
+  success: boolean;
+  message: string;
+  witnesses?: number;
+  wait_game_minutes?: number;
+}
+
+/** The first configured law with this kind of detection, if the city has one */
+export function getLawByDetection(kind: LawDetection['kind']): LawConfig | undefined {
+  return CITY_CONFIG.laws.find(l => l.detection.kind === kind);
+}
+
+function getWitnessedLaw(action: 'steal' | 'assault'): LawConfig | undefined {
+  return CITY_CONFIG.laws.find(l => l.detection.kind === 'witnessed' && l.detection.action === action);
+}
+
+/** Prison time for a set of offenses — the longest sentence among them, as currently on the books */
+export function sentenceFor(offenses: string[]): number {
+  const sentences = new Map(getLaws().map(l => [l.id, l.sentence_game_hours]));
+  return Math.max(LOITER_SENTENCE_GAME_HOURS, ...offenses.map(o => sentences.get(o) ?? LOITER_SENTENCE_GAME_HOURS));
+}
+
+/** Flag a resident as breaking a law so police can arrest them */
+export function markWanted(r: ResidentEntity, offense: string, data: Record<string, unknown> = {}): void {
+  if (r.isDead || r.prisonSentenceEnd !== null || r.lawBreaking.includes(offense)) return;
+  r.lawBreaking.push(offense);
+  logEvent('law_violation', r.id, null, r.currentBuilding, r.x, r.y, { offense, ...data });
+  sendWebhook(r, 'law_violation', { offense, x: r.x, y: r.y, ...data });
+}
+
+/** Asleep, on the toilet or deep in conversation — not watching their pockets */
+export function isDistracted(r: ResidentEntity): boolean {
+  return r.isSleeping
+    || r.toiletUseUntilMs !== null
+    || clock.now() - r.lastConversationTime < SOCIAL_CONVERSATION_WINDOW * 1000;
+}
+
+function distance(a: ResidentEntity, b: ResidentEntity): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+}
+
+/** Check a crime target is a living resident within reach, returning an error message or the target */
+function getTarget(culprit: ResidentEntity, targetId: string, range: number, world: World): ResidentEntity | string {
+  if (targetId === culprit.id) return 'You cannot target yourself.';
+  const target = world.residents.get(targetId);
+  if (!target || target.isDead) return 'target_not_found';
+  if (target.currentBuilding !== culprit.currentBuilding || distance(culprit, target) > range) {
+    return 'Target too far away';
+  }
+  return target;
+}
+
+/**
+ * Roll each bystander who could see the crime. Indoors everyone in the room
+ * can; outdoors they need line of sight, within a range cut by darkness and
+ * weather. Those who see it remember it so they can report it later.
+ */
+function rollWitnesses(
+  culprit: ResidentEntity,
+  victim: ResidentEntity,
+  law: LawConfig,
+  world: World,
+): ResidentEntity[] {
+  if (law.detection.kind !== 'witnessed') return [];
+  const { witnessRange, witnessChance } = law.detection;
+
+  const witnesses: ResidentEntity[] = [];
+  for (const [, w] of world.residents) {
+    if (w.id === culprit.id || w.id === victim.id || w.isDead || w.isSleeping) continue;
+    if (w.currentBuilding !== culprit.currentBuilding) continue;
+    if (!culprit.currentBuilding) {
+      if (distance(w, culprit) > witnessRange * world.getVisionMultiplier(w)) continue;
+      if (!world.map.hasLineOfSight(w.x, w.y, culprit.x, culprit.y)) continue;
+    } else if (distance(w, culprit) > witnessRange) {
+      continue;
+    }
+    if (random() < witnessChance) witnesses.push(w);
+  }
+  return witnesses;
+}
+
+/** Add a crime to a witness's memory, forgetting anything too old to report */
+function rememberCrime(w: ResidentEntity, offense: string, culprit: ResidentEntity, victim: ResidentEntity, worldTime: number): void {
+  const cutoff = worldTime - CRIME_REPORT_WINDOW_GAME_HOURS * 3600;
+  w.witnessedCrimes = w.witnessedCrimes.filter(c => c.at >= cutoff);
+  w.witnessedCrimes.push({ offense, suspectId: culprit.id, victimId: victim.id, at: worldTime });
+}
+
+function notifyWitnesses(
+  witnesses: ResidentEntity[],
+  law: LawConfig,
+  culprit: ResidentEntity,
+  victim: ResidentEntity,
+  worldTime: number,
+): void {
+  for (const w of witnesses) {
+    rememberCrime(w, law.id, culprit, victim, worldTime);
+    w.pendingNotifications.push(
+      `You saw ${culprit.preferredName} commit ${law.name.toLowerCase()} against ${victim.preferredName}. Report it at the Police Station with report_crime within ${CRIME_REPORT_WINDOW_GAME_HOURS} game hours.`,
+    );
+    sendWebhook(w, 'crime_witnessed', {
+      offense: law.id,
+      suspect_id: culprit.id,
+      suspect_name: culprit.preferredName,
+      victim_id: victim.id,
+      victim_name: victim.preferredName,
+    });
+  }
+}
+
+/**
+ * Take one item from a resident who is asleep or distracted. Defaults to a
+ * random stack; pass item_type to pick.
+ */
+export function stealFrom(thief: ResidentEntity, targetId: string, itemType: string | undefined, world: World): CrimeResult {
+  const target = getTarget(thief, targetId, STEAL_RANGE, world);
+  if (typeof target === 'string') return { success: false, message: target };
+  if (!isDistracted(target)) {
+    return { success: false, message: `${target.preferredName} is watching. You can only steal from someone asleep, on the toilet or deep in conversation.` };
+  }
+  if (thief.needs.energy < ENERGY_COST_STEAL) {
+    return { success: false, message: 'Not enough energy' };
+  }
+
+  const candidates = itemType
+    ? target.inventory.filter(i => i.type === itemType)
+    : target.inventory;
+  if (candidates.length === 0) {
+    return { success: false, message: itemType ? `${target.preferredName} has no ${itemType}.` : `${target.preferredName} has nothing to steal.` };
+  }
+  const stolenType = candidates[Math.floor(random() * candidates.length)].type;
+
+  thief.needs.energy -= ENERGY_COST_STEAL;
+  putStacks(thief.inventory, takeStacks(target.inventory, stolenType, 1));
+
+  const law = getWitnessedLaw('steal');
+  const witnesses = law ? rollWitnesses(thief, target, law, world) : [];
+  if (law) notifyWitnesses(witnesses, law, thief, target, world.worldTime);
+
+  logEvent('steal', thief.id, target.id, thief.currentBuilding, thief.x, thief.y, {
+    item_type: stolenType, witnesses: witnesses.map(w => w.id),
+  });
+
+  const name = getShopItem(stolenType)?.name ?? stolenType;
+  target.pendingNotifications.push(
+    target.isSleeping ? `Someone took 1x ${name} from you while you slept.` : `Someone took 1x ${name} from you while you weren't looking.`,
+  );
+
+  return {
+    success: true,
+    message: witnesses.length > 0
+      ? `Stole 1x ${name} from ${target.preferredName}, but ${witnesses.length} resident(s) saw you.`
+      : `Stole 1x ${name} from ${target.preferredName}. Nobody saw.`,
+    witnesses: witnesses.length,
+  };
+}
+
+/** Strike a nearby resident. The victim always knows who did it. */
+export function assaultResident(attacker: ResidentEntity, targetId: string, world: World): CrimeResult {
+  const target = getTarget(attacker, targetId, ASSAULT_RANGE, world);
+  if (typeof target === 'string') return { success: false, message: target };
+  const cooldownSec = ASSAULT_COOLDOWN_GAME_MINUTES * 60;
+  if (attacker.lastAssaultAt !== null && world.worldTime - attacker.lastAssaultAt < cooldownSec) {
+    const wait = Math.ceil((cooldownSec - (world.worldTime - attacker.lastAssaultAt)) / 60);
+    return { success: false, message: `Still catching your breath. Try again in ${wait} game minutes.`, wait_game_minutes: wait };
+  }
+  if (attacker.needs.energy < ENERGY_COST_ASSAULT) {
+    return { success: false, message: 'Not enough energy' };
+  }
+
+  attacker.needs.energy -= ENERGY_COST_ASSAULT;
+  attacker.lastAssaultAt = world.worldTime;
+  target.needs.health = Math.max(0, target.needs.health - ASSAULT_HEALTH_DAMAGE);
+  target.lastHealthDamage = `assault by ${attacker.preferredName}`;
+  // A blow wakes anyone up
+  if (target.isSleeping) {
+    target.isSleeping = false;
+    target.sleepStartedAt = 0;
+  }
+
+  const law = getWitnessedLaw('assault');
+  const witnesses = law ? rollWitnesses(attacker, target, law, world) : [];
+  if (law) {
+    notifyWitnesses(witnesses, law, attacker, target, world.worldTime);
+    rememberCrime(target, law.id, attacker, target, world.worldTime);
+  }
+
+  logEvent('assault', attacker.id, target.id, attacker.currentBuilding, attacker.x, attacker.y, {
+    damage: ASSAULT_HEALTH_DAMAGE, witnesses: witnesses.map(w => w.id),
+  });
+
+  target.pendingNotifications.push(
+    `${attacker.preferredName} struck you (-${ASSAULT_HEALTH_DAMAGE} health).${law ? ' You can report it at the Police Station with report_crime.' : ''}`,
+  );
+  sendWebhook(target, 'assaulted', {
+    attacker_id: attacker.id,
+    attacker_name: attacker.preferredName,
+    damage: ASSAULT_HEALTH_DAMAGE,
+    health: target.needs.health,
+  });
+
+  return {
+    success: true,
+    message: `You struck ${target.preferredName} (-${ASSAULT_HEALTH_DAMAGE} health).${witnesses.length > 0 ? ` ${witnesses.length} resident(s) saw you.` : ''}`,
+    witnesses: witnesses.length,
+  };
+}
+
+/** Report everything the resident saw a suspect do. The suspect becomes wanted for each offense. */
+export function reportCrime(reporter: ResidentEntity, suspectId: string, world: World): CrimeResult {
+  const cutoff = world.worldTime - CRIME_REPORT_WINDOW_GAME_HOURS * 3600;
+  reporter.witnessedCrimes = reporter.witnessedCrimes.filter(c => c.at >= cutoff);
+  const seen = reporter.witnessedCrimes.filter(c => c.suspectId === suspectId);
+  if (seen.length === 0) {
+    return { success: false, message: 'You have not witnessed that resident commit a crime (or it was too long ago).' };
+  }
+
+  const suspect = world.residents.get(suspectId);
+  if (suspect && suspect.prisonSentenceEnd !== null) {
+    return { success: false, message: `${suspect.preferredName} is already in prison.` };
+  }
+  reporter.witnessedCrimes = reporter.witnessedCrimes.filter(c => c.suspectId !== suspectId);
+  if (!suspect || suspect.isDead) {
+    return { success: false, message: 'The suspect is no longer alive.' };
+  }
+
+  const offenses = [...new Set(seen.map(c => c.offense))];
+  for (const offense of offenses) {
+    markWanted(suspect, offense, { reported_by: reporter.id });
+  }
+  suspect.pendingNotifications.push(
+    `You have been reported for ${offenses.join(', ')}. Police can now arrest you.`,
+  );
+  logEvent('report_crime', reporter.id, suspect.id, reporter.currentBuilding, reporter.x, reporter.y, { offenses });
+
+  return {
+    success: true,
+    message: `Reported ${suspect.preferredName} for ${offenses.join(', ')}. They are now wanted.`,
+  };
+}
+
+/** Whether a building is closed to the public right now under a trespass law */
+function restrictedAreaFor(buildingId: string, worldTime: number): { law: LawConfig; staffJobIds: string[] } | null {
+  const hour = ((worldTime + STARTING_HOUR * 3600) % GAME_DAY_SECONDS) / 3600;
+  for (const law of CITY_CONFIG.laws) {
+    if (law.detection.kind !== 'trespass') continue;
+    for (const area of law.detection.areas) {
+      if (area.buildingId !== buildingId) continue;
+      const closed = area.closedFromHour > area.closedToHour
+        ? hour >= area.closedFromHour || hour < area.closedToHour
+        : hour >= area.closedFromHour && hour < area.closedToHour;
+      if (closed) return { law, staffJobIds: area.staffJobIds };
+    }
+  }
+  return null;
+}
+
+/** Called when a resident walks into a building: entering a closed one without working there is trespass */
+export function checkTrespass(resident: ResidentEntity, buildingId: string, worldTime: number): void {
+  const restricted = restrictedAreaFor(buildingId, worldTime);
+  if (!restricted) return;
+  if (resident.currentJobId && restricted.staffJobIds.includes(resident.currentJobId)) return;
+  if (resident.lawBreaking.includes(restricted.law.id)) return;
+
+  markWanted(resident, restricted.law.id, { building_id: buildingId });
+  resident.pendingNotifications.push(
+    `This building is closed to the public. You are trespassing. ${restricted.law.description}`,
+  );
+}
@@ -0,0 +1,340 @@
+/**
+ * Elections — the city elects a mayor and council at the Council Hall. Each
+ * election has a registration phase, when candidates sign up with a platform,
+ * and a voting phase, when residents cast ranked ballots. The result is
+ * decided by instant runoff (a one-name ballot is a plain plurality vote);
+ * the winner becomes mayor and the strongest runners-up take the council
+ * seats. The next election opens in time to seat its winner as the term ends.
+ */
+
+import {
+  MAYOR_TERM_GAME_HOURS, ELECTION_REGISTRATION_GAME_HOURS, ELECTION_VOTING_GAME_HOURS,
+  ELECTION_COUNCIL_SEATS, MAYOR_TERM_LIMIT, ELECTION_PLATFORM_MAX_LENGTH, CAMPAIGN_SPEECH_MAX_LENGTH,
+} from '@otra/shared';
+import type { World, ResidentEntity } from '../simulation/world.js';
+import {
+  createElection, getOpenElection, getLatestDecidedElection, getClosedElections, startElectionVoting,
+  closeElection, addCandidate, getCandidates, setCandidateSpeech, countTermsWon, castBallot,
+  hasCastBallot, getBallots, getReputationStats, logEvent,
+} from '../db/queries.js';
+import type { ElectionRow } from '../db/queries.js';
+import { sendWebhook } from '../network/webhooks.js';
+import { chargeBallot } from './petitions.js';
+import { newId } from '../simulation/clock.js';
+
+export interface ElectionResult {
+  success: boolean;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface Office {
+  mayor: ResidentEntity | null;
+  council: ResidentEntity[];
+  termEndsAt: number | null;
+}
+
+function isAlive(world: World, id: string): boolean {
+  const r = world.residents.get(id);
+  return !!r && !r.isDead;
+}
+
+/** Who holds office right now. Seats of residents who died are left empty. */
+export function getOffice(world: World): Office {
+  const election = getLatestDecidedElection();
+  if (!election || election.term_ends_at === null || world.worldTime >= election.term_ends_at) {
+    return { mayor: null, council: [], termEndsAt: null };
+  }
+  const mayor = election.winner_id && isAlive(world, election.winner_id)
+    ? world.residents.get(election.winner_id)!
+    : null;
+  const council = (JSON.parse(election.council) as string[])
+    .filter(id => isAlive(world, id))
+    .map(id => world.residents.get(id)!);
+  return { mayor, council, termEndsAt: election.term_ends_at };
+}
+
+export function isMayor(r: ResidentEntity, world: World): boolean {
+  return getOffice(world).mayor?.id === r.id;
+}
+
+export function isCouncilMember(r: ResidentEntity, world: World): boolean {
+  return getOffice(world).council.some(c => c.id === r.id);
+}
+
+function announce(world: World, title: string, message: string): void {
+  world.pendingAnnouncements.push({ title, message });
+  for (const [, r] of world.residents) {
+    if (!r.isDead) r.pendingNotifications.push(`${title}: ${message}`);
+  }
+}
+
+function openElection(world: World): void {
+  const votingAt = world.worldTime + ELECTION_REGISTRATION_GAME_HOURS * 3600;
+  const closesAt = votingAt + ELECTION_VOTING_GAME_HOURS * 3600;
+  const election = createElection(newId(), world.worldTime, votingAt, closesAt);
+  logEvent('election_opened', null, null, null, null, null, { election_id: election.id });
+  announce(world, 'Election called',
+    `Candidates for mayor can register at the Council Hall for the next ${ELECTION_REGISTRATION_GAME_HOURS} game hours (register_candidate). Voting follows.`);
+}
+
+/**
+ * Instant runoff: count each ballot for its highest-ranked candidate still in
+ * the race, and eliminate the weakest until someone has a majority of the
+ * ballots still counting. Ties are broken in favour of whoever registered
+ * first. Returns every candidate in finishing order, winner first.
+ */
+function tallyInstantRunoff(candidateIds: string[], ballots: string[][]): {
+  order: string[];
+  rounds: Array<Record<string, number>>;
+} {
+  const remaining = [...candidateIds];
+  const eliminated: string[] = [];
+  const rounds: Array<Record<string, number>> = [];
+
+  for (;;) {
+    const counts = new Map(remaining.map(id => [id, 0]));
+    let active = 0;
+    for (const ballot of ballots) {
+      const choice = ballot.find(id => counts.has(id));
+      if (!choice) continue;
+      counts.set(choice, counts.get(choice)! + 1);
+      active++;
+    }
+    rounds.push(Object.fromEntries(counts));
+
+    // Stable sort keeps registration order among equal counts
+    const standings = [...remaining].sort((a, b) => counts.get(b)! - counts.get(a)!);
+    if (remaining.length === 1 || counts.get(standings[0])! * 2 > active) {
+      return { order: [...standings, ...eliminated.reverse()], rounds };
+    }
+    const weakest = standings[standings.length - 1];
+    remaining.splice(remaining.indexOf(weakest), 1);
+    eliminated.push(weakest);
+  }
+}
+
+function declareResult(election: ElectionRow, world: World): void {
+  const candidateIds = getCandidates(election.id).map(c => c.resident_id).filter(id => isAlive(world, id));
+  const ballots = getBallots(election.id)
+    .map(ranking => ranking.filter(id => candidateIds.includes(id)))
+    .filter(ranking => ranking.length > 0);
+
+  if (candidateIds.length === 0 || ballots.length === 0) {
+    const reason = candidateIds.length === 0 ? 'no_candidates' : 'no_votes';
+    closeElection(election.id, null, [], { reason }, null);
+    logEvent('election_closed', null, null, null, null, null, { election_id: election.id, reason });
+    announce(world, 'Election failed',
+      reason === 'no_candidates' ? 'No candidates were left standing. A new election opens now.' : 'Nobody voted. A new election opens now.');
+    return;
+  }
+
+  const { order, rounds } = tallyInstantRunoff(candidateIds, ballots);
+  const winner = world.residents.get(order[0])!;
+  const council = order.slice(1, 1 + ELECTION_COUNCIL_SEATS);
+  const termEndsAt = world.worldTime + MAYOR_TERM_GAME_HOURS * 3600;
+  closeElection(election.id, winner.id, council, { ballots: ballots.length, rounds }, termEndsAt);
+
+  logEvent('election_won', winner.id, null, null, winner.x, winner.y, {
+    election_id: election.id, ballots: ballots.length, rounds: rounds.length, council,
+  });
+
+  const councilNames = council.map(id => world.residents.get(id)!.preferredName);
+  announce(world, 'Election result',
+    `${winner.preferredName} is the new mayor (${ballots.length} ballots, ${rounds.length} round${rounds.length !== 1 ? 's' : ''}).`
+    + (councilNames.length > 0 ? ` Council: ${councilNames.join(', ')}.` : ''));
+
+  for (const id of [winner.id, ...council]) {
+    const r = world.residents.get(id)!;
+    sendWebhook(r, 'elected', {
+      election_id: election.id,
+      office: id === winner.id ? 'mayor' : 'council',
+      term_game_hours: MAYOR_TERM_GAME_HOURS,
+      mayor_id: winner.id,
+      council,
+    });
+  }
+}
+
+/** Move the election cycle along. Called from the world loop. */
+export function advanceElections(world: World): void {
+  const election = getOpenElection();
+  if (!election) {
+    const termEndsAt = getLatestDecidedElection()?.term_ends_at ?? 0;
+    const leadTime = (ELECTION_REGISTRATION_GAME_HOURS + ELECTION_VOTING_GAME_HOURS) * 3600;
+    if (world.worldTime >= termEndsAt - leadTime) openElection(world);
+    return;
+  }
+
+  if (election.status === 'registration' && world.worldTime >= election.voting_at) {
+    const candidates = getCandidates(election.id).filter(c => isAlive(world, c.resident_id));
+    if (candidates.length === 0) {
+      declareResult(election, world);
+      return;
+    }
+    startElectionVoting(election.id);
+    const names = candidates.map(c => world.residents.get(c.resident_id)!.preferredName);
+    announce(world, 'Voting is open',
+      `Candidates: ${names.join(', ')}. Rank them with vote_election at the Council Hall in the next ${ELECTION_VOTING_GAME_HOURS} game hours.`);
+  } else if (election.status === 'voting' && world.worldTime >= election.closes_at) {
+    declareResult(election, world);
+  }
+}
+
+/** Stand for mayor in the election now taking registrations */
+export function registerCandidate(resident: ResidentEntity, platform: string): ElectionResult {
+  const election = getOpenElection();
+  if (!election || election.status !== 'registration') {
+    return { success: false, message: 'No election is taking registrations right now.' };
+  }
+  if (typeof platform !== 'string' || !platform.trim() || platform.length > ELECTION_PLATFORM_MAX_LENGTH) {
+    return { success: false, message: `Platform must be 1-${ELECTION_PLATFORM_MAX_LENGTH} characters` };
+  }
+  if (getCandidates(election.id).some(c => c.resident_id === resident.id)) {
+    return { success: false, message: 'You are already standing in this election.' };
+  }
+  const terms = countTermsWon(resident.id);
+  if (terms >= MAYOR_TERM_LIMIT) {
+    return { success: false, message: `You have already served ${terms} terms as mayor, the limit.` };
+  }
+
+  addCandidate(election.id, resident.id, platform.trim());
+  logEvent('register_candidate', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    election_id: election.id, platform: platform.trim(),
+  });
+
+  return {
+    success: true,
+    message: 'You are standing for mayor. Use campaign_speech to make your case to the hall.',
+    data: { election_id: election.id },
+  };
+}
+
+/** A candidate addresses everyone in the hall. The latest speech is kept with their candidacy. */
+export function campaignSpeech(resident: ResidentEntity, text: string, world: World): ElectionResult {
+  const election = getOpenElection();
+  if (!election || !getCandidates(election.id).some(c => c.resident_id === resident.id)) {
+    return { success: false, message: 'You are not a candidate in the current election.' };
+  }
+  if (typeof text !== 'string' || !text.trim() || text.length > CAMPAIGN_SPEECH_MAX_LENGTH) {
+    return { success: false, message: `Speech must be 1-${CAMPAIGN_SPEECH_MAX_LENGTH} characters` };
+  }
+
+  const speech = text.trim();
+  setCandidateSpeech(election.id, resident.id, speech);
+  logEvent('campaign_speech', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    election_id: election.id, text: speech,
+  });
+
+  let listeners = 0;
+  for (const [, r] of world.residents) {
+    if (r.isDead || r.id === resident.id || r.currentBuilding !== resident.currentBuilding) continue;
+    r.pendingNotifications.push(`Campaign speech from ${resident.preferredName}: "${speech}"`);
+    listeners++;
+  }
+
+  return { success: true, message: `You addressed the hall (${listeners} listening).` };
+}
+
+/**
+ * Cast a ranked ballot, first choice first. Ranking one candidate is a plain
+ * vote for them. Same ballot rules as petitions: one per election.
+ */
+export function voteElection(resident: ResidentEntity, ranking: unknown): ElectionResult {
+  const election = getOpenElection();
+  if (!election || election.status !== 'voting') {
+    return { success: false, message: 'Voting is not open right now.' };
+  }
+  if (!Array.isArray(ranking) || ranking.length === 0) {
+    return { success: false, message: 'ranking must be a list of candidate ids, first choice first' };
+  }
+  const candidateIds = new Set(getCandidates(election.id).map(c => c.resident_id));
+  for (const id of ranking) {
+    if (typeof id !== 'string' || !candidateIds.has(id)) {
+      return { success: false, message: `${String(id)} is not a candidate. Use list_candidates.` };
+    }
+  }
+  if (new Set(ranking).size !== ranking.length) {
+    return { success: false, message: 'Each candidate can appear only once in your ranking.' };
+  }
+  const rejected = chargeBallot(resident, hasCastBallot(election.id, resident.id), 'election');
+  if (rejected) {
+    return { success: false, message: rejected };
+  }
+
+  castBallot(election.id, resident.id, ranking as string[]);
+  logEvent('vote_election', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    election_id: election.id,
+  });
+
+  return { success: true, message: 'Your ballot is in. The result is declared when voting closes.' };
+}
+
+/** The mayor frees a prisoner serving a sentence. They are released on the next law enforcement tick. */
+export function pardonPrisoner(mayor: ResidentEntity, targetId: string, world: World): ElectionResult {
+  if (!isMayor(mayor, world)) {
+    return { success: false, message: 'Only the mayor can pardon prisoners.' };
+  }
+  const target = world.residents.get(targetId);
+  if (!target || target.isDead) {
+    return { success: false, message: `No living resident "${targetId}".` };
+  }
+  if (target.prisonSentenceEnd === null) {
+    return { success: false, message: `${target.preferredName} is not serving a prison sentence.` };
+  }
+
+  const remainingHours = Math.round((target.prisonSentenceEnd - world.worldTime) / 360) / 10;
+  target.prisonSentenceEnd = world.worldTime;
+  logEvent('pardon', mayor.id, target.id, mayor.currentBuilding, mayor.x, mayor.y, {
+    offenses: target.lawBreaking, remaining_game_hours: remainingHours,
+  });
+  target.pendingNotifications.push(`Mayor ${mayor.preferredName} has pardoned you.`);
+  sendWebhook(target, 'pardoned', {
+    mayor_id: mayor.id,
+    mayor_name: mayor.preferredName,
+    remaining_game_hours: remainingHours,
+  });
+
+  return { success: true, message: `Pardoned ${target.preferredName} (${remainingHours} game hours left to serve).` };
+}
+
+function describeResident(world: World, id: string): { id: string; name: string } {
+  return { id, name: world.residents.get(id)?.preferredName ?? id };
+}
+
+/** The current office holders and the election in progress, with each candidate's civic record */
+export function describeElection(world: World): Record<string, unknown> {
+  const office = getOffice(world);
+  const election = getOpenElection();
+  const hoursUntil = (t: number) => Math.max(0, Math.round((t - world.worldTime) / 360) / 10);
+
+  return {
+    mayor: office.mayor ? describeResident(world, office.mayor.id) : null,
+    council: office.council.map(r => describeResident(world, r.id)),
+    term_ends_in_game_hours: office.termEndsAt !== null ? hoursUntil(office.termEndsAt) : null,
+    election: election ? {
+      election_id: election.id,
+      phase: election.status,
+      voting_opens_in_game_hours: hoursUntil(election.voting_at),
+      closes_in_game_hours: hoursUntil(election.closes_at),
+      candidates: getCandidates(election.id).map(c => ({
+        ...describeResident(world, c.resident_id),
+        platform: c.platform,
+        last_speech: c.last_speech,
+        terms_served: countTermsWon(c.resident_id),
+        civic: getReputationStats(c.resident_id)?.civic ?? null,
+      })),
+    } : null,
+  };
+}
+
+/** Past elections, most recent first */
+export function describeElectionHistory(world: World, limit: number): Array<Record<string, unknown>> {
+  return getClosedElections(limit).map(e => ({
+    election_id: e.id,
+    winner: e.winner_id ? describeResident(world, e.winner_id) : null,
+    council: (JSON.parse(e.council) as string[]).map(id => describeResident(world, id)),
+    results: e.results ? JSON.parse(e.results) : null,
+    closed_at: e.closed_at,
+  }));
+}
@@ -1,11 +1,12 @@
-import { PETITION_COST_QUID, ENERGY_COST_WRITE_PETITION, ENERGY_COST_VOTE } from '@otra/shared';
+import { PETITION_COST_QUID, ENERGY_COST_WRITE_PETITION, ENERGY_COST_VOTE, POLICY_PETITION_QUORUM } from '@otra/shared';
 import type { ResidentEntity } from '../simulation/world.js';
 import {
   createPetition, votePetition as dbVotePetition,
   getPetition, hasVoted, logEvent,
 } from '../db/queries.js';
 import type { PetitionRow } from '../db/queries.js';
-import { v4 as uuid } from 'uuid';
+import { validatePolicyProposal } from './policies.js';
+import { newId } from '../simulation/clock.js';
 
 export interface WritePetitionResult {
   success: boolean;
@@ -20,12 +21,14 @@ export interface VoteResult {
 
 /**
  * Write a new petition at the Council Hall.
- * Free to write — no QUID or energy cost.
+ * Free to write — no QUID or energy cost. Naming a policy and a new value
+ * makes it a policy petition, which changes that rule if it passes.
  */
 export function writePetition(
   resident: ResidentEntity,
   category: string,
-  description: string
+  description: string,
+  policy?: { key: string; value: unknown },
 ): WritePetitionResult {
   if (resident.wallet < PETITION_COST_QUID) {
     return {
@@ -42,25 +45,49 @@ export function writePetition(
   if (!description || description.length > 500) {
     return { success: false, message: 'Description must be 1-500 characters' };
   }
+  if (policy) {
+    const bad = validatePolicyProposal(policy.key, policy.value);
+    if (bad) return { success: false, message: bad };
+  }
 
   // Deduct costs
   resident.wallet -= PETITION_COST_QUID;
   resident.needs.energy -= ENERGY_COST_WRITE_PETITION;
 
-  const id = uuid();
-  const petition = createPetition(id, resident.id, category, description);
+  const id = newId();
+  const proposal = policy ? { key: policy.key, value: policy.value as number } : null;
+  const petition = createPetition(id, resident.id, category, description, proposal);
 
   logEvent('write_petition', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
     petition_id: id, category, description, cost: PETITION_COST_QUID,
+    ...(proposal ? { policy: proposal.key, value: proposal.value } : {}),
   });
 
   return {
     success: true,
-    message: `Petition filed: "${category}". Your voice matters — thank you for participating!`,
+    message: proposal
+      ? `Policy petition filed: "${category}". If at least ${POLICY_PETITION_QUORUM} residents vote and most are for it when it closes, ${proposal.key} becomes ${proposal.value}.`
+      : `Petition filed: "${category}". Your voice matters — thank you for participating!`,
     petition,
   };
 }
 
+/**
+ * Ballot rules shared by everything residents vote on at the hall (petitions,
+ * jury trials): one vote each, costing ENERGY_COST_VOTE. Returns an error
+ * message, or null once the energy has been deducted.
+ */
+export function chargeBallot(resident: ResidentEntity, alreadyVoted: boolean, subject: string): string | null {
+  if (resident.needs.energy < ENERGY_COST_VOTE) {
+    return 'Not enough energy to vote';
+  }
+  if (alreadyVoted) {
+    return `Already voted on this ${subject}`;
+  }
+  resident.needs.energy -= ENERGY_COST_VOTE;
+  return null;
+}
+
 /**
  * Vote on an existing petition at the Council Hall.
  * Each resident can only vote once per petition.
@@ -70,10 +97,6 @@ export function voteOnPetition(
   petitionId: string,
   vote: string = 'for'
 ): VoteResult {
-  if (resident.needs.energy < ENERGY_COST_VOTE) {
-    return { success: false, message: 'Not enough energy to vote' };
-  }
-
   const petition = getPetition(petitionId);
   if (!petition) {
     return { success: false, message: 'Petition not found' };
@@ -81,13 +104,11 @@ export function voteOnPetition(
   if (petition.status !== 'open') {
     return { success: false, message: 'Petition is closed' };
   }
-  if (hasVoted(petitionId, resident.id)) {
-    return { success: false, message: 'Already voted on this petition' };
+  const rejected = chargeBallot(resident, hasVoted(petitionId, resident.id), 'petition');
+  if (rejected) {
+    return { success: false, message: rejected };
   }
 
-  // Deduct energy
-  resident.needs.energy -= ENERGY_COST_VOTE;
-
   // Cast vote
   const voteValue = vote === 'against' ? 'against' : 'for';
   dbVotePetition(petitionId, resident.id, voteValue);
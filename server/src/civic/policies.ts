@@ -0,0 +1,137 @@
+/**
+ * Policies — the city rules residents can change by petition. Each policy is
+ * a whitelisted runtime override of a constant: a policy petition names one
+ * and a new value, and if it reaches POLICY_PETITION_QUORUM with more votes
+ * for than against by the time it closes, the new value takes effect.
+ */
+
+import {
+  UBI_AMOUNT, BODY_BOUNTY, LOITER_THRESHOLD_GAME_HOURS, POLICY_PETITION_QUORUM,
+} from '@otra/shared';
+import type { World } from '../simulation/world.js';
+import {
+  getPolicyOverrides, savePolicyOverride, getExpiredPolicyPetitions, setPetitionStatus, logEvent,
+} from '../db/queries.js';
+
+export type PolicyKey = 'shop_price_multiplier' | 'ubi_amount' | 'loiter_threshold_game_hours' | 'body_bounty';
+
+interface PolicyDefinition {
+  name: string;
+  unit: string;
+  min: number;
+  max: number;
+  integer: boolean;
+  defaultValue: number;
+}
+
+const POLICIES: Record<PolicyKey, PolicyDefinition> = {
+  shop_price_multiplier: {
+    name: 'Shop prices', unit: 'x catalog price', min: 0.5, max: 2, integer: false, defaultValue: 1,
+  },
+  ubi_amount: {
+    name: 'UBI amount', unit: 'QUID', min: 0, max: 20, integer: true, defaultValue: UBI_AMOUNT,
+  },
+  loiter_threshold_game_hours: {
+    name: 'Loitering threshold', unit: 'game hours', min: 1, max: 12, integer: false, defaultValue: LOITER_THRESHOLD_GAME_HOURS,
+  },
+  body_bounty: {
+    name: 'Body bounty', unit: 'QUID', min: 0, max: 25, integer: true, defaultValue: BODY_BOUNTY,
+  },
+};
+
+const overrides = new Map<PolicyKey, number>();
+
+function isPolicyKey(key: string): key is PolicyKey {
+  return Object.prototype.hasOwnProperty.call(POLICIES, key);
+}
+
+/** The value a policy has right now: the enacted override, or the constant it replaces */
+export function getPolicy(key: PolicyKey): number {
+  return overrides.get(key) ?? POLICIES[key].defaultValue;
+}
+
+/** Restore enacted policies on startup. Unknown or out-of-range rows are ignored. */
+export function loadPolicyOverrides(): void {
+  overrides.clear();
+  for (const row of getPolicyOverrides()) {
+    if (isPolicyKey(row.key) && !checkPolicyValue(row.key, row.value)) {
+      overrides.set(row.key, row.value);
+    }
+  }
+}
+
+function checkPolicyValue(key: PolicyKey, value: number): string | null {
+  const policy = POLICIES[key];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < policy.min || value > policy.max) {
+    return `${policy.name} must be between ${policy.min} and ${policy.max} (${policy.unit})`;
+  }
+  if (policy.integer && !Number.isInteger(value)) {
+    return `${policy.name} must be a whole number`;
+  }
+  return null;
+}
+
+/** Check a proposed policy change, returning an error message or null if it's allowed */
+export function validatePolicyProposal(key: string, value: unknown): string | null {
+  if (!isPolicyKey(key)) {
+    return `Unknown policy "${key}". Policies: ${Object.keys(POLICIES).join(', ')}`;
+  }
+  const bad = checkPolicyValue(key, value as number);
+  if (bad) return bad;
+  if (value === getPolicy(key)) {
+    return `${POLICIES[key].name} is already ${value}`;
+  }
+  return null;
+}
+
+/** "UBI amount 1 → 5 QUID" */
+function describeChange(key: PolicyKey, from: number, to: number): string {
+  return `${POLICIES[key].name} ${from} → ${to} ${POLICIES[key].unit}`;
+}
+
+/** Every policy residents can petition to change, with its current value */
+export function describePolicies(): Array<Record<string, unknown>> {
+  return (Object.keys(POLICIES) as PolicyKey[]).map(key => ({
+    policy: key,
+    name: POLICIES[key].name,
+    value: getPolicy(key),
+    default_value: POLICIES[key].defaultValue,
+    min: POLICIES[key].min,
+    max: POLICIES[key].max,
+    unit: POLICIES[key].unit,
+  }));
+}
+
+/**
+ * Decide every policy petition whose voting window is over. Passed petitions
+ * are enacted in the order they were written, so a later one wins if two
+ * change the same policy; each change is logged and announced city-wide.
+ */
+export function settlePolicyPetitions(maxAgeMs: number, world: World): void {
+  for (const petition of getExpiredPolicyPetitions(maxAgeMs)) {
+    const key = petition.policy_key as string;
+    const value = petition.policy_value as number;
+    const votes = petition.votes_for + petition.votes_against;
+    const passed = votes >= POLICY_PETITION_QUORUM && petition.votes_for > petition.votes_against
+      && isPolicyKey(key) && !checkPolicyValue(key, value);
+
+    setPetitionStatus(petition.id, passed ? 'passed' : 'rejected');
+    if (!passed) continue;
+
+    const previous = getPolicy(key);
+    overrides.set(key, value);
+    savePolicyOverride(key, value, petition.id);
+
+    const change = describeChange(key, previous, value);
+    logEvent('policy_enacted', petition.author_id, null, null, null, null, {
+      petition_id: petition.id, policy: key, previous, value, change,
+      votes_for: petition.votes_for, votes_against: petition.votes_against,
+    });
+    const message = `By petition (${petition.votes_for}-${petition.votes_against}): ${change}.`;
+    world.pendingAnnouncements.push({ title: `New city policy: ${POLICIES[key].name}`, message });
+    for (const [, r] of world.residents) {
+      if (!r.isDead) r.pendingNotifications.push(`New city policy. ${message}`);
+    }
+    console.log(`[Policies] ${change} (petition ${petition.id})`);
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * City treasury — funded by the sales tax on shop purchases and by money that
+ * goes "to the city": court fines, business registration fees, clinic
+ * fees, estates nobody was left, and QUID left in escrow by residents who
+ * are gone. The mayor sets the tax rate and proposes a budget; the council
+ * approves or rejects it. The budget in force is paid out once a game day
+ * while the treasury can cover it.
+ */
+
+import {
+  GAME_DAY_SECONDS, SHOP_TAX_MAX_RATE, BUDGET_MAX_LINE, BUDGET_WELFARE_WALLET_LIMIT,
+} from '@otra/shared';
+import type { World, ResidentEntity } from '../simulation/world.js';
+import {
+  getTreasury, adjustTreasury, setTaxRate, setLastPayout, createBudget, getBudget, getBudgetByStatus,
+  setBudgetStatus, voteBudget, getBudgetVotes, logEvent,
+} from '../db/queries.js';
+import type { BudgetRow } from '../db/queries.js';
+import { getOffice, isMayor } from './elections.js';
+import type { ElectionResult } from './elections.js';
+import { chargeBallot } from './petitions.js';
+import { newId } from '../simulation/clock.js';
+
+/** QUID per game day for each budget line */
+export interface BudgetLines {
+  welfare: number;         // to each resident holding less than BUDGET_WELFARE_WALLET_LIMIT
+  mayor_salary: number;
+  council_salary: number;  // to each council member
+}
+
+const BUDGET_LINES: Array<keyof BudgetLines> = ['welfare', 'mayor_salary', 'council_salary'];
+
+export function getTaxRate(): number {
+  return getTreasury().tax_rate;
+}
+
+/** Sales tax due on a shop purchase */
+export function taxOn(amount: number): number {
+  return Math.round(amount * getTaxRate());
+}
+
+export function depositToTreasury(amount: number): void {
+  if (amount > 0) adjustTreasury(amount);
+}
+
+function announce(world: World, title: string, message: string): void {
+  world.pendingAnnouncements.push({ title, message });
+}
+
+export function setShopTaxRate(mayor: ResidentEntity, rate: unknown, world: World): ElectionResult {
+  if (!isMayor(mayor, world)) {
+    return { success: false, message: 'Only the mayor can set the tax rate.' };
+  }
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0 || rate > SHOP_TAX_MAX_RATE) {
+    return { success: false, message: `Tax rate must be between 0 and ${SHOP_TAX_MAX_RATE}` };
+  }
+
+  const rounded = Math.round(rate * 100) / 100;
+  const previous = getTaxRate();
+  setTaxRate(rounded);
+  logEvent('set_tax_rate', mayor.id, null, mayor.currentBuilding, mayor.x, mayor.y, { previous, rate: rounded });
+  announce(world, 'Shop tax changed',
+    `Mayor ${mayor.preferredName} set the sales tax on shop purchases to ${Math.round(rounded * 100)}% (was ${Math.round(previous * 100)}%).`);
+
+  return { success: true, message: `Shop tax set to ${Math.round(rounded * 100)}%.`, data: { tax_rate: rounded } };
+}
+
+function adopt(budget: BudgetRow, world: World): void {
+  setBudgetStatus(budget.id, 'adopted');
+  const lines = JSON.parse(budget.lines) as BudgetLines;
+  logEvent('budget_adopted', budget.proposed_by, null, null, null, null, { budget_id: budget.id, lines });
+  announce(world, 'Budget adopted',
+    `Per game day: welfare ${lines.welfare} QUID to each resident under ${BUDGET_WELFARE_WALLET_LIMIT} QUID, mayor ${lines.mayor_salary} QUID, each councillor ${lines.council_salary} QUID.`);
+}
+
+/**
+ * The mayor proposes a budget, replacing any proposal still before the
+ * council. With no council seated it is adopted at once.
+ */
+export function proposeBudget(
+  mayor: ResidentEntity,
+  params: Partial<Record<keyof BudgetLines, unknown>>,
+  world: World,
+): ElectionResult {
+  if (!isMayor(mayor, world)) {
+    return { success: false, message: 'Only the mayor can propose a budget.' };
+  }
+  const lines: BudgetLines = { welfare: 0, mayor_salary: 0, council_salary: 0 };
+  for (const line of BUDGET_LINES) {
+    const value = params[line] ?? 0;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > BUDGET_MAX_LINE) {
+      return { success: false, message: `Invalid ${line} (whole number 0-${BUDGET_MAX_LINE} QUID per game day)` };
+    }
+    lines[line] = value;
+  }
+
+  const pending = getBudgetByStatus('proposed');
+  if (pending) setBudgetStatus(pending.id, 'superseded');
+  const budget = createBudget(newId(), mayor.id, lines);
+  logEvent('propose_budget', mayor.id, null, mayor.currentBuilding, mayor.x, mayor.y, { budget_id: budget.id, lines });
+
+  const { council } = getOffice(world);
+  if (council.length === 0) {
+    adopt(budget, world);
+    return { success: true, message: 'Budget adopted (no council is seated to vote on it).', data: { budget_id: budget.id } };
+  }
+  for (const member of council) {
+    member.pendingNotifications.push(
+      `Mayor ${mayor.preferredName} proposed a budget: welfare ${lines.welfare}, mayor ${lines.mayor_salary}, council ${lines.council_salary} QUID per game day. Use vote_budget at the Council Hall.`,
+    );
+  }
+  return {
+    success: true,
+    message: `Budget proposed. It needs approval from a majority of the ${council.length} councillor(s).`,
+    data: { budget_id: budget.id },
+  };
+}
+
+/** A councillor approves or rejects the budget before the council */
+export function voteOnBudget(member: ResidentEntity, budgetId: string, approve: boolean, world: World): ElectionResult {
+  const { council } = getOffice(world);
+  if (!council.some(c => c.id === member.id)) {
+    return { success: false, message: 'Only council members vote on the budget.' };
+  }
+  const budget = getBudget(budgetId);
+  if (!budget || budget.status !== 'proposed') {
+    return { success: false, message: 'That budget is not before the council.' };
+  }
+  const votes = getBudgetVotes(budgetId);
+  const rejected = chargeBallot(member, votes.some(v => v.resident_id === member.id), 'budget');
+  if (rejected) {
+    return { success: false, message: rejected };
+  }
+
+  voteBudget(budgetId, member.id, approve ? 'approve' : 'reject');
+  logEvent('vote_budget', member.id, budget.proposed_by, member.currentBuilding, member.x, member.y, {
+    budget_id: budgetId, approve,
+  });
+
+  // Only the votes of councillors still seated count
+  const seated = new Set(council.map(c => c.id));
+  const cast = [...votes, { resident_id: member.id, vote: approve ? 'approve' : 'reject' }]
+    .filter(v => seated.has(v.resident_id));
+  const approvals = cast.filter(v => v.vote === 'approve').length;
+  const rejections = cast.length - approvals;
+
+  if (approvals * 2 > council.length) {
+    adopt(budget, world);
+    return { success: true, message: 'Your vote carried the budget. It is now in force.' };
+  }
+  if (rejections * 2 >= council.length) {
+    setBudgetStatus(budget.id, 'rejected');
+    logEvent('budget_rejected', budget.proposed_by, null, null, null, null, { budget_id: budget.id });
+    world.residents.get(budget.proposed_by)?.pendingNotifications.push('The council rejected your budget.');
+    return { success: true, message: 'The council has rejected the budget.' };
+  }
+  return { success: true, message: `Vote recorded (${approvals} for, ${rejections} against).` };
+}
+
+/**
+ * Pay out the budget in force once a game day: welfare first, then the
+ * mayor's and councillors' salaries. A payment the treasury can't cover in
+ * full is skipped.
+ */
+export function payBudget(world: World): void {
+  const treasury = getTreasury();
+  if (world.worldTime - treasury.last_payout_at < GAME_DAY_SECONDS) return;
+  setLastPayout(world.worldTime);
+
+  const budget = getBudgetByStatus('adopted');
+  if (!budget) return;
+  const lines = JSON.parse(budget.lines) as BudgetLines;
+  const { mayor, council } = getOffice(world);
+
+  const payments: Array<{ r: ResidentEntity; amount: number; line: keyof BudgetLines }> = [];
+  for (const [, r] of world.residents) {
+    if (!r.isDead && r.wallet < BUDGET_WELFARE_WALLET_LIMIT) payments.push({ r, amount: lines.welfare, line: 'welfare' });
+  }
+  if (mayor) payments.push({ r: mayor, amount: lines.mayor_salary, line: 'mayor_salary' });
+  for (const member of council) payments.push({ r: member, amount: lines.council_salary, line: 'council_salary' });
+
+  let balance = treasury.balance;
+  let paid = 0;
+  let unpaid = 0;
+  for (const { r, amount, line } of payments) {
+    if (amount <= 0) continue;
+    if (amount > balance) {
+      unpaid += amount;
+      continue;
+    }
+    balance -= amount;
+    paid += amount;
+    r.wallet += amount;
+    r.pendingNotifications.push(`The city paid you ${amount} QUID (${line.replace('_', ' ')}).`);
+  }
+
+  adjustTreasury(-paid);
+  logEvent('budget_paid', null, null, null, null, null, { budget_id: budget.id, paid, unpaid, balance });
+}
+
+/** Treasury balance, tax rate and budgets, for the hall and /api/elections */
+export function describeTreasury(): Record<string, unknown> {
+  const treasury = getTreasury();
+  const adopted = getBudgetByStatus('adopted');
+  const proposed = getBudgetByStatus('proposed');
+  return {
+    balance: treasury.balance,
+    tax_rate: treasury.tax_rate,
+    budget: adopted ? JSON.parse(adopted.lines) : null,
+    proposed_budget: proposed ? {
+      budget_id: proposed.id,
+      lines: JSON.parse(proposed.lines),
+      votes: getBudgetVotes(proposed.id),
+    } : null,
+  };
+}
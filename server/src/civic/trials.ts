@@ -0,0 +1,254 @@
+/**
+ * Trials — a booked suspect is held in the dock at the Council Hall while
+ * residents there serve as jurors. When deliberation ends the verdict is
+ * read: guilty sends them to prison for a sentence that grows with the
+ * jury's certainty and their record; an acquittal frees them and fines the
+ * arresting officer.
+ */
+
+import {
+  TILE_SIZE, TRIAL_DURATION_GAME_HOURS, TRIAL_MIN_JURORS, TRIAL_REPEAT_OFFENDER_MULTIPLIER,
+  TRIAL_MAX_SENTENCE_GAME_HOURS, WRONGFUL_ARREST_FINE, TRIAL_DEFENCE_MAX_LENGTH,
+  type BuildingType,
+} from '@otra/shared';
+import type { World, ResidentEntity } from '../simulation/world.js';
+import {
+  createTrial, getTrial, getOpenTrials, voteTrial, hasVotedOnTrial, getTrialJurors,
+  setTrialDefence, closeTrial, getTimesImprisoned, updatePrisonState, logEvent,
+} from '../db/queries.js';
+import type { TrialRow, TrialWithVotes } from '../db/queries.js';
+import { getBuildingByType } from '../buildings/building-registry.js';
+import { sendWebhook } from '../network/webhooks.js';
+import { chargeBallot } from './petitions.js';
+import { sentenceFor } from './crime.js';
+import { depositToTreasury } from './treasury.js';
+import { newId } from '../simulation/clock.js';
+
+export interface TrialResult {
+  success: boolean;
+  message: string;
+}
+
+/** Put a resident in the middle of the first building of a type (the dock, the cells) */
+function moveInto(r: ResidentEntity, type: BuildingType, world: World): void {
+  const config = getBuildingByType(type);
+  const building = config ? world.map.data.buildings.find(b => b.id === config.id) : undefined;
+  if (!building) return;
+  r.currentBuilding = building.id;
+  r.x = (building.tileX + building.widthTiles / 2) * TILE_SIZE;
+  r.y = (building.tileY + building.heightTiles / 2) * TILE_SIZE;
+  r.velocityX = 0;
+  r.velocityY = 0;
+  r.speed = 'stop';
+}
+
+/**
+ * Put a booked suspect on trial. They wait in the dock at the hall, still
+ * under arrest, until the jury's time is up.
+ */
+export function openTrial(officer: ResidentEntity, defendant: ResidentEntity, world: World): TrialRow {
+  const closesAt = world.worldTime + TRIAL_DURATION_GAME_HOURS * 3600;
+  const trial = createTrial(newId(), defendant.id, officer.id, defendant.lawBreaking, world.worldTime, closesAt);
+
+  defendant.onTrial = trial.id;
+  defendant.arrestedBy = officer.id;
+  moveInto(defendant, 'hall', world);
+
+  logEvent('trial_opened', defendant.id, officer.id, defendant.currentBuilding, defendant.x, defendant.y, {
+    trial_id: trial.id, offenses: defendant.lawBreaking,
+  });
+
+  defendant.pendingNotifications.push(
+    `You are on trial for ${defendant.lawBreaking.join(', ')}. The jury gives its verdict in ${TRIAL_DURATION_GAME_HOURS} game hours. Speak to the hall, or use defend to put a statement on the record.`,
+  );
+  sendWebhook(defendant, 'on_trial', {
+    trial_id: trial.id,
+    officer_id: officer.id,
+    officer_name: officer.preferredName,
+    offenses: defendant.lawBreaking,
+    verdict_in_game_hours: TRIAL_DURATION_GAME_HOURS,
+  });
+
+  // Let anyone already at the hall know there's a jury to sit on
+  for (const [, r] of world.residents) {
+    if (r.isDead || r.id === defendant.id || r.currentBuilding !== defendant.currentBuilding) continue;
+    r.pendingNotifications.push(
+      `${defendant.preferredName} has been brought to trial for ${defendant.lawBreaking.join(', ')}. Use list_trials and jury_vote to serve on the jury.`,
+    );
+  }
+
+  return trial;
+}
+
+/** The defendant's statement, shown to jurors in list_trials. Replaces any earlier one. */
+export function defendSelf(resident: ResidentEntity, statement: string): TrialResult {
+  if (!resident.onTrial) {
+    return { success: false, message: 'You are not on trial.' };
+  }
+  if (typeof statement !== 'string' || !statement.trim() || statement.length > TRIAL_DEFENCE_MAX_LENGTH) {
+    return { success: false, message: `Statement must be 1-${TRIAL_DEFENCE_MAX_LENGTH} characters` };
+  }
+
+  setTrialDefence(resident.onTrial, statement.trim());
+  logEvent('defend', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    trial_id: resident.onTrial,
+  });
+
+  return { success: true, message: 'Your statement is on the record for the jury.' };
+}
+
+/** Serve on the jury: one vote per trial, through the same ballot rules as petitions */
+export function juryVote(resident: ResidentEntity, trialId: string, verdict: string): TrialResult {
+  if (verdict !== 'guilty' && verdict !== 'not_guilty') {
+    return { success: false, message: 'verdict must be "guilty" or "not_guilty"' };
+  }
+  const trial = getTrial(trialId);
+  if (!trial) {
+    return { success: false, message: 'Trial not found' };
+  }
+  if (trial.status !== 'open') {
+    return { success: false, message: 'The verdict has already been given' };
+  }
+  if (trial.defendant_id === resident.id) {
+    return { success: false, message: 'You cannot sit on the jury at your own trial.' };
+  }
+  if (trial.officer_id === resident.id) {
+    return { success: false, message: 'The arresting officer cannot sit on the jury.' };
+  }
+  const rejected = chargeBallot(resident, hasVotedOnTrial(trialId, resident.id), 'trial');
+  if (rejected) {
+    return { success: false, message: rejected };
+  }
+
+  voteTrial(trialId, resident.id, verdict);
+  logEvent('jury_vote', resident.id, trial.defendant_id, resident.currentBuilding, resident.x, resident.y, {
+    trial_id: trialId,
+  });
+
+  return { success: true, message: `Your vote (${verdict.replace('_', ' ')}) is in. The verdict is read when deliberation ends.` };
+}
+
+/** Open trials as jurors see them — vote tallies stay sealed until the verdict */
+export function describeOpenTrials(world: World): Array<Record<string, unknown>> {
+  return getOpenTrials().map(t => ({
+    trial_id: t.id,
+    defendant_id: t.defendant_id,
+    defendant_name: world.residents.get(t.defendant_id)?.preferredName ?? t.defendant_id,
+    officer_id: t.officer_id,
+    officer_name: world.residents.get(t.officer_id)?.preferredName ?? t.officer_id,
+    offenses: JSON.parse(t.offenses),
+    defence: t.defence,
+    votes_cast: t.votes_guilty + t.votes_not_guilty,
+    verdict_in_game_hours: Math.max(0, Math.round((t.closes_at - world.worldTime) / 360) / 10),
+  }));
+}
+
+/**
+ * Sentence for a guilty verdict. With a quorum, the base sentence scales from
+ * 1x (a bare majority) to 1.5x (unanimous); then each earlier prison term adds
+ * TRIAL_REPEAT_OFFENDER_MULTIPLIER of the base.
+ */
+function sentenceForVerdict(offenses: string[], guiltyShare: number | null, priorTerms: number): number {
+  const base = sentenceFor(offenses);
+  const certainty = guiltyShare === null ? 1 : 0.5 + guiltyShare;
+  const hours = base * certainty * (1 + TRIAL_REPEAT_OFFENDER_MULTIPLIER * priorTerms);
+  return Math.min(TRIAL_MAX_SENTENCE_GAME_HOURS, Math.round(hours * 10) / 10);
+}
+
+/** Read the verdict on every trial whose deliberation is over. Called from the world loop. */
+export function settleTrials(world: World): void {
+  for (const trial of getOpenTrials()) {
+    const defendant = world.residents.get(trial.defendant_id);
+    if (!defendant || defendant.isDead) {
+      closeTrial(trial.id, 'dismissed', null);
+      logEvent('trial_verdict', trial.defendant_id, trial.officer_id, null, null, null, {
+        trial_id: trial.id, verdict: 'dismissed',
+      });
+      continue;
+    }
+    if (world.worldTime < trial.closes_at) continue;
+
+    const votes = trial.votes_guilty + trial.votes_not_guilty;
+    const quorum = votes >= TRIAL_MIN_JURORS;
+    // Without a quorum the magistrate convicts on the officer's evidence; ties go to the defendant
+    const guilty = quorum ? trial.votes_guilty > trial.votes_not_guilty : true;
+    if (guilty) {
+      convict(trial, defendant, quorum ? trial.votes_guilty / votes : null, world);
+    } else {
+      acquit(trial, defendant, world);
+    }
+
+    const verdictText = `${defendant.preferredName} was found ${guilty ? 'guilty' : 'not guilty'}`
+      + (quorum ? ` (${trial.votes_guilty}-${trial.votes_not_guilty}).` : ' by the magistrate (too few jurors).');
+    for (const jurorId of getTrialJurors(trial.id)) {
+      world.residents.get(jurorId)?.pendingNotifications.push(`Verdict: ${verdictText}`);
+    }
+  }
+}
+
+function convict(trial: TrialWithVotes, defendant: ResidentEntity, guiltyShare: number | null, world: World): void {
+  const offenses: string[] = JSON.parse(trial.offenses);
+  const priorTerms = getTimesImprisoned(defendant.id);
+  const sentenceGameHours = sentenceForVerdict(offenses, guiltyShare, priorTerms);
+  const sentenceEnd = world.worldTime + sentenceGameHours * 3600;
+
+  closeTrial(trial.id, 'guilty', sentenceGameHours);
+  defendant.onTrial = null;
+  defendant.prisonSentenceEnd = sentenceEnd;
+  moveInto(defendant, 'police', world);
+  updatePrisonState(defendant.id, defendant.arrestedBy, sentenceEnd);
+
+  logEvent('trial_verdict', defendant.id, trial.officer_id, defendant.currentBuilding, defendant.x, defendant.y, {
+    trial_id: trial.id, verdict: 'guilty', votes_guilty: trial.votes_guilty, votes_not_guilty: trial.votes_not_guilty,
+    sentence_game_hours: sentenceGameHours, prior_terms: priorTerms,
+  });
+
+  defendant.pendingNotifications.push(
+    `You were found guilty of ${offenses.join(', ')} and sentenced to ${sentenceGameHours} game hours in prison.`,
+  );
+  sendWebhook(defendant, 'imprisoned', {
+    officer_id: trial.officer_id,
+    officer_name: world.residents.get(trial.officer_id)?.preferredName ?? null,
+    sentence_game_hours: sentenceGameHours,
+    offenses,
+    trial_id: trial.id,
+    votes_guilty: trial.votes_guilty,
+    votes_not_guilty: trial.votes_not_guilty,
+  });
+}
+
+function acquit(trial: TrialWithVotes, defendant: ResidentEntity, world: World): void {
+  closeTrial(trial.id, 'acquitted', null);
+  defendant.onTrial = null;
+  defendant.arrestedBy = null;
+  defendant.lawBreaking = [];
+  updatePrisonState(defendant.id, null, null);
+
+  logEvent('trial_verdict', defendant.id, trial.officer_id, defendant.currentBuilding, defendant.x, defendant.y, {
+    trial_id: trial.id, verdict: 'acquitted', votes_guilty: trial.votes_guilty, votes_not_guilty: trial.votes_not_guilty,
+  });
+  defendant.pendingNotifications.push('The jury found you not guilty. You are free to go.');
+  sendWebhook(defendant, 'acquitted', {
+    trial_id: trial.id,
+    votes_guilty: trial.votes_guilty,
+    votes_not_guilty: trial.votes_not_guilty,
+  });
+
+  // The arresting officer answers for a wrongful arrest
+  const officer = world.residents.get(trial.officer_id);
+  if (!officer || officer.isDead) return;
+  const fine = Math.min(officer.wallet, WRONGFUL_ARREST_FINE);
+  officer.wallet -= fine;
+  depositToTreasury(fine);
+  logEvent('wrongful_arrest', officer.id, defendant.id, null, officer.x, officer.y, { trial_id: trial.id, fine });
+  officer.pendingNotifications.push(
+    `${defendant.preferredName} was acquitted. You were fined ${fine} QUID for a wrongful arrest.`,
+  );
+  sendWebhook(officer, 'wrongful_arrest', {
+    trial_id: trial.id,
+    defendant_id: defendant.id,
+    defendant_name: defendant.preferredName,
+    fine,
+    wallet: officer.wallet,
+  });
+}
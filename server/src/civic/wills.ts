@@ -0,0 +1,191 @@
+/**
+ * Wills — a resident names beneficiaries at the Council Hall with percentage
+ * shares of their estate. On death their wallet and carried items are split
+ * between the beneficiaries still alive; unassigned shares, and the shares of
+ * beneficiaries who died first, go to the city.
+ */
+
+import { WILL_MAX_BENEFICIARIES } from '@otra/shared';
+import type { ResidentEntity } from '../simulation/world.js';
+import { getWill, saveWill, deleteWill, markWillExecuted, logEvent } from '../db/queries.js';
+import { getShopItem } from '../economy/shop.js';
+import { takeStacks, putStacks } from '../economy/inventory.js';
+import { toInventoryItem } from '../economy/spoilage.js';
+import { sendWebhook } from '../network/webhooks.js';
+import { depositToTreasury } from './treasury.js';
+
+export interface WillBeneficiary {
+  resident_id: string;
+  percent: number;
+}
+
+export interface WillResult {
+  success: boolean;
+  message: string;
+  beneficiaries?: WillBeneficiary[];
+}
+
+/** "Hugh 60%, Ada 20%, the city 20%" */
+function describeShares(beneficiaries: WillBeneficiary[], residents: Map<string, ResidentEntity>): string {
+  const total = beneficiaries.reduce((n, b) => n + b.percent, 0);
+  const shares = beneficiaries
+    .map(b => `${residents.get(b.resident_id)?.preferredName ?? b.resident_id} ${b.percent}%`)
+    .join(', ');
+  return total < 100 ? `${shares}, the city ${100 - total}%` : shares;
+}
+
+/**
+ * Write (or rewrite) the resident's will. Percentages are whole numbers and
+ * may add up to less than 100 — the rest goes to the city. An empty list
+ * revokes the will.
+ */
+export function writeWill(
+  resident: ResidentEntity,
+  beneficiaries: unknown,
+  residents: Map<string, ResidentEntity>,
+): WillResult {
+  if (!Array.isArray(beneficiaries)) {
+    return { success: false, message: 'beneficiaries must be a list of { resident_id, percent }' };
+  }
+  if (beneficiaries.length === 0) {
+    const existing = getWill(resident.id);
+    if (!existing) return { success: false, message: 'You have no will to revoke.' };
+    deleteWill(resident.id);
+    logEvent('revoke_will', resident.id, null, resident.currentBuilding, resident.x, resident.y, {});
+    return { success: true, message: 'Revoked your will. Your estate will go to the city.', beneficiaries: [] };
+  }
+  if (beneficiaries.length > WILL_MAX_BENEFICIARIES) {
+    return { success: false, message: `A will can name at most ${WILL_MAX_BENEFICIARIES} beneficiaries.` };
+  }
+
+  const named: WillBeneficiary[] = [];
+  for (const entry of beneficiaries as Array<Partial<WillBeneficiary>>) {
+    const id = entry?.resident_id;
+    const percent = entry?.percent;
+    if (typeof id !== 'string' || !id) {
+      return { success: false, message: 'Each beneficiary needs a resident_id.' };
+    }
+    if (typeof percent !== 'number' || !Number.isInteger(percent) || percent < 1 || percent > 100) {
+      return { success: false, message: `Invalid percent for ${id} (whole number 1-100)` };
+    }
+    if (id === resident.id) {
+      return { success: false, message: 'You cannot leave your estate to yourself.' };
+    }
+    if (named.some(b => b.resident_id === id)) {
+      return { success: false, message: `${id} is named more than once.` };
+    }
+    const beneficiary = residents.get(id);
+    if (!beneficiary || beneficiary.isDead) {
+      return { success: false, message: `No living resident "${id}".` };
+    }
+    named.push({ resident_id: id, percent });
+  }
+  const total = named.reduce((n, b) => n + b.percent, 0);
+  if (total > 100) {
+    return { success: false, message: `Shares add up to ${total}%. They can't exceed 100%.` };
+  }
+
+  saveWill(resident.id, JSON.stringify(named));
+  logEvent('write_will', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    beneficiaries: named,
+  });
+
+  return {
+    success: true,
+    message: `Will written: ${describeShares(named, residents)}. It replaces any earlier will.`,
+    beneficiaries: named,
+  };
+}
+
+/**
+ * Split a whole amount by percentages, handing out leftover units to the
+ * largest fractional shares. Whatever the percentages don't cover stays unallocated.
+ */
+function splitByShares(total: number, percents: number[]): number[] {
+  const exact = percents.map(p => total * p / 100);
+  const amounts = exact.map(Math.floor);
+  const covered = Math.floor(total * percents.reduce((n, p) => n + p, 0) / 100);
+  let leftover = covered - amounts.reduce((n, a) => n + a, 0);
+  const byRemainder = percents.map((_, i) => i).sort((a, b) => (exact[b] % 1) - (exact[a] % 1));
+  for (const i of byRemainder) {
+    if (leftover <= 0) break;
+    amounts[i]++;
+    leftover--;
+  }
+  return amounts;
+}
+
+/**
+ * Carry out a dead resident's will: share out their wallet (as it was at
+ * death) and the items they were carrying. By then the wallet and inventory
+ * already hold their bank savings and the escrow of their trade offers and
+ * market orders (see World.checkDeaths). Heirs are notified and sent a
+ * will_executed webhook. Without a will the wallet goes to the treasury.
+ */
+export function executeWill(
+  resident: ResidentEntity,
+  wallet: number,
+  residents: Map<string, ResidentEntity>,
+): void {
+  const will = getWill(resident.id);
+  if (!will || will.executed_at !== null) {
+    // No will: the money goes to the city
+    depositToTreasury(Math.max(0, Math.floor(wallet)));
+    return;
+  }
+
+  const named: WillBeneficiary[] = JSON.parse(will.beneficiaries);
+  const heirs = named
+    .map(b => ({ share: b, heir: residents.get(b.resident_id) }))
+    .filter((h): h is { share: WillBeneficiary; heir: ResidentEntity } => !!h.heir && !h.heir.isDead);
+  const percents = heirs.map(h => h.share.percent);
+
+  const estateQuid = Math.max(0, Math.floor(wallet));
+  const quid = splitByShares(estateQuid, percents);
+  const items: Array<Array<{ type: string; quantity: number }>> = heirs.map(() => []);
+
+  const held = new Map<string, number>();
+  for (const stack of resident.inventory) {
+    held.set(stack.type, (held.get(stack.type) ?? 0) + stack.quantity);
+  }
+  for (const [itemType, quantity] of held) {
+    splitByShares(quantity, percents).forEach((n, i) => {
+      if (n <= 0) return;
+      putStacks(heirs[i].heir.inventory, takeStacks(resident.inventory, itemType, n));
+      items[i].push({ type: itemType, quantity: n });
+    });
+  }
+
+  const distributions = heirs.map((h, i) => {
+    h.heir.wallet += quid[i];
+    return { resident_id: h.heir.id, percent: h.share.percent, quid: quid[i], items: items[i] };
+  });
+  const toCityQuid = estateQuid - quid.reduce((n, q) => n + q, 0);
+  depositToTreasury(toCityQuid);
+  markWillExecuted(resident.id);
+  logEvent('will_executed', resident.id, null, null, resident.x, resident.y, {
+    estate_quid: estateQuid,
+    distributions,
+    to_city_quid: toCityQuid,
+    skipped_beneficiaries: named.filter(b => !heirs.some(h => h.share.resident_id === b.resident_id)).map(b => b.resident_id),
+  });
+
+  heirs.forEach((h, i) => {
+    const gifts = [
+      ...(quid[i] > 0 ? [`${quid[i]} QUID`] : []),
+      ...items[i].map(it => `${it.quantity}x ${getShopItem(it.type)?.name ?? it.type}`),
+    ];
+    h.heir.pendingNotifications.push(gifts.length > 0
+      ? `${resident.preferredName} died and left you ${h.share.percent}% of their estate: ${gifts.join(', ')}.`
+      : `${resident.preferredName} died and left you ${h.share.percent}% of their estate, but there was nothing to inherit.`);
+    sendWebhook(h.heir, 'will_executed', {
+      from_id: resident.id,
+      from_name: resident.preferredName,
+      percent: h.share.percent,
+      quid: quid[i],
+      items: items[i],
+      wallet: h.heir.wallet,
+      inventory: h.heir.inventory.map(toInventoryItem),
+    });
+  });
+}
@@ -2,14 +2,19 @@ import Database from 'better-sqlite3';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import { CITY_CONFIG } from '@otra/shared';
+import { CITY_CONFIG, getBuildingCatalog } from '@otra/shared';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 let db: Database.Database;
 
+/** The database file the server runs on: an explicit path, DB_PATH, or the city's default */
+export function resolveDbPath(dbPath?: string): string {
+  return dbPath || process.env.DB_PATH || join(__dirname, '..', '..', CITY_CONFIG.dbFilename);
+}
+
 export function initDatabase(dbPath?: string): Database.Database {
-  const path = dbPath || process.env.DB_PATH || join(__dirname, '..', '..', CITY_CONFIG.dbFilename);
+  const path = resolveDbPath(dbPath);
   db = new Database(path);
 
   // Enable WAL mode for better concurrent read performance
@@ -35,6 +40,9 @@ export function initDatabase(dbPath?: string): Database.Database {
   if (!colNames.has('shift_start_time')) {
     db.exec("ALTER TABLE residents ADD COLUMN shift_start_time INTEGER");
   }
+  if (!colNames.has('shift_tasks')) {
+    db.exec("ALTER TABLE residents ADD COLUMN shift_tasks TEXT DEFAULT '{}'");
+  }
   if (!colNames.has('carrying_body_id')) {
     db.exec("ALTER TABLE residents ADD COLUMN carrying_body_id TEXT");
   }
@@ -73,6 +81,85 @@ export function initDatabase(dbPath?: string): Database.Database {
   if (!colNames.has('social')) {
     db.exec("ALTER TABLE residents ADD COLUMN social REAL NOT NULL DEFAULT 100");
   }
+  // Illness
+  if (!colNames.has('illness')) {
+    db.exec("ALTER TABLE residents ADD COLUMN illness TEXT");
+  }
+  if (!colNames.has('immune_until')) {
+    db.exec("ALTER TABLE residents ADD COLUMN immune_until REAL NOT NULL DEFAULT 0");
+  }
+  // Built-in NPCs: which configured NPC this resident is
+  if (!colNames.has('npc_id')) {
+    db.exec("ALTER TABLE residents ADD COLUMN npc_id TEXT");
+  }
+
+  // Spoilage: perishable stacks carry their age
+  const invCols = db.prepare("PRAGMA table_info(inventory)").all() as Array<{ name: string }>;
+  if (!invCols.some(c => c.name === 'age_game_seconds')) {
+    db.exec("ALTER TABLE inventory ADD COLUMN age_game_seconds REAL NOT NULL DEFAULT 0");
+  }
+
+  // Market sell orders escrow the actual stacks
+  const orderCols = db.prepare("PRAGMA table_info(market_orders)").all() as Array<{ name: string }>;
+  if (!orderCols.some(c => c.name === 'escrow_json')) {
+    db.exec("ALTER TABLE market_orders ADD COLUMN escrow_json TEXT");
+  }
+
+  // Shop stock and prices per building — older DBs keyed them by item type only.
+  // Legacy rows go to the first building that sells the item.
+  const firstSeller = (itemType: string) =>
+    CITY_CONFIG.buildings.find(b => getBuildingCatalog(b).some(i => i.id === itemType))?.id ?? '';
+  const stockCols = db.prepare("PRAGMA table_info(shop_stock)").all() as Array<{ name: string }>;
+  if (!stockCols.some(c => c.name === 'building_id')) {
+    const legacy = db.prepare('SELECT item_type, stock, last_restock FROM shop_stock').all() as Array<{ item_type: string; stock: number; last_restock: number }>;
+    db.transaction(() => {
+      db.exec('DROP TABLE shop_stock');
+      db.exec(`
+        CREATE TABLE shop_stock (
+          building_id TEXT NOT NULL,
+          item_type TEXT NOT NULL,
+          stock INTEGER NOT NULL DEFAULT 0,
+          last_restock INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (building_id, item_type)
+        )
+      `);
+      const insert = db.prepare('INSERT OR REPLACE INTO shop_stock (building_id, item_type, stock, last_restock) VALUES (?, ?, ?, ?)');
+      for (const row of legacy) {
+        const buildingId = firstSeller(row.item_type);
+        if (buildingId) insert.run(buildingId, row.item_type, row.stock, row.last_restock);
+      }
+    })();
+    console.log(`[DB] Migrated ${legacy.length} shop stock rows to per-building stock`);
+  }
+  const priceCols = db.prepare("PRAGMA table_info(shop_price_history)").all() as Array<{ name: string }>;
+  if (!priceCols.some(c => c.name === 'building_id')) {
+    db.exec("ALTER TABLE shop_price_history ADD COLUMN building_id TEXT NOT NULL DEFAULT ''");
+    const setBuilding = db.prepare('UPDATE shop_price_history SET building_id = ? WHERE item_type = ?');
+    const itemTypes = db.prepare('SELECT DISTINCT item_type FROM shop_price_history').all() as Array<{ item_type: string }>;
+    for (const { item_type } of itemTypes) {
+      setBuilding.run(firstSeller(item_type), item_type);
+    }
+  }
+  db.exec('DROP INDEX IF EXISTS idx_shop_price_history_item');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_shop_price_history_building ON shop_price_history(building_id, item_type, recorded_at)');
+
+  // Resident businesses post openings into the jobs table
+  const jobCols = db.prepare("PRAGMA table_info(jobs)").all() as Array<{ name: string }>;
+  if (!jobCols.some(c => c.name === 'business_id')) {
+    db.exec("ALTER TABLE jobs ADD COLUMN business_id TEXT");
+  }
+
+  // Policy petitions carry the change they propose
+  const petitionCols = db.prepare("PRAGMA table_info(petitions)").all() as Array<{ name: string }>;
+  if (!petitionCols.some(c => c.name === 'policy_key')) {
+    db.exec("ALTER TABLE petitions ADD COLUMN policy_key TEXT");
+  }
+  if (!petitionCols.some(c => c.name === 'policy_value')) {
+    db.exec("ALTER TABLE petitions ADD COLUMN policy_value REAL");
+  }
+
+  // The city treasury is a single row
+  db.exec('INSERT OR IGNORE INTO city_treasury (id) VALUES (1)');
 
   // Seed jobs table from config if empty
   const jobCount = (db.prepare('SELECT COUNT(*) as count FROM jobs').get() as { count: number }).count;
@@ -99,14 +186,14 @@ export function initDatabase(dbPath?: string): Database.Database {
     }
   }
 
-  // Seed laws table from config
-  const lawCount = (db.prepare('SELECT COUNT(*) as count FROM laws').get() as { count: number }).count;
-  if (lawCount === 0) {
-    const seedLaw = db.prepare('INSERT INTO laws (id, name, description, sentence_game_hours) VALUES (?, ?, ?, ?)');
-    for (const law of CITY_CONFIG.laws) {
-      seedLaw.run(law.id, law.name, law.description, law.sentenceGameHours);
-    }
-    console.log(`[DB] Seeded ${CITY_CONFIG.laws.length} law definitions`);
+  // Seed laws table from config (new laws are added on upgrade; existing rows are left alone)
+  const seedLaw = db.prepare('INSERT OR IGNORE INTO laws (id, name, description, sentence_game_hours) VALUES (?, ?, ?, ?)');
+  let lawsAdded = 0;
+  for (const law of CITY_CONFIG.laws) {
+    lawsAdded += seedLaw.run(law.id, law.name, law.description, law.sentenceGameHours).changes;
+  }
+  if (lawsAdded > 0) {
+    console.log(`[DB] Seeded ${lawsAdded} law definitions`);
   }
 
   console.log(`[DB] Initialized at ${path}`);
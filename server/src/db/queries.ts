@@ -1,7 +1,7 @@
 import { getDb } from './database.js';
-import { v4 as uuid } from 'uuid';
-import type { Passport, Needs } from '@otra/shared';
+import type { Passport, Needs, ResidentType } from '@otra/shared';
 import { CITY_CONFIG } from '@otra/shared';
+import { clock, newId } from '../simulation/clock.js';
 
 function nextPassportNo(): string {
   const db = getDb();
@@ -19,7 +19,7 @@ export interface CreateResidentParams {
   preferred_name: string;
   date_of_birth?: string;
   place_of_origin: string;
-  type: 'AGENT' | 'HUMAN';
+  type: ResidentType;
   height_cm?: number;
   build?: string;
   hair_style?: number;
@@ -31,6 +31,7 @@ export interface CreateResidentParams {
   webhook_url?: string;
   bio?: string;
   api_key?: string;
+  npc_id?: string;
   x: number;
   y: number;
 }
@@ -73,13 +74,17 @@ export interface ResidentRow {
   last_ubi_collection: number;
   current_job_id: string | null;
   shift_start_time: number | null;
+  shift_tasks: string;        // JSON map of job task ID → completions this shift
   carrying_body_id: string | null;
   law_breaking: string;       // JSON array of offense IDs
   arrested_by: string | null;
   prison_sentence_end: number | null;
   carrying_suspect_id: string | null;
+  illness: string | null;     // JSON { diseaseId, caughtAt, recoversAt } while ill
+  immune_until: number;       // world time
   referral_cap: number;
   referred_by: string | null;
+  npc_id: string | null;
   created_at: number;
   death_time: number | null;
   death_cause: string | null;
@@ -87,22 +92,22 @@ export interface ResidentRow {
 
 export function createResident(params: CreateResidentParams): ResidentRow {
   const db = getDb();
-  const id = uuid();
+  const id = newId();
   const passport_no = nextPassportNo();
-  const now = Date.now();
-  const date_of_arrival = new Date().toISOString();
+  const now = clock.now();
+  const date_of_arrival = new Date(now).toISOString();
 
   db.prepare(`
     INSERT INTO residents (
       id, passport_no, full_name, preferred_name, date_of_birth,
       place_of_origin, date_of_arrival, type, status,
       height_cm, build, hair_style, hair_color, eye_color, skin_tone,
-      distinguishing_feature, agent_framework, webhook_url, bio, api_key, x, y, wallet, created_at
+      distinguishing_feature, agent_framework, webhook_url, bio, api_key, npc_id, x, y, wallet, created_at
     ) VALUES (
       ?, ?, ?, ?, ?,
       ?, ?, ?, 'ALIVE',
       ?, ?, ?, ?, ?, ?,
-      ?, ?, ?, ?, ?, ?, ?, 5, ?
+      ?, ?, ?, ?, ?, ?, ?, ?, 5, ?
     )
   `).run(
     id, passport_no, params.full_name, params.preferred_name,
@@ -119,6 +124,7 @@ export function createResident(params: CreateResidentParams): ResidentRow {
     params.webhook_url || null,
     params.bio || '',
     params.api_key || null,
+    params.npc_id || null,
     params.x, params.y, now
   );
 
@@ -164,7 +170,7 @@ export function saveResidentState(
 }
 
 export function markResidentDead(id: string, cause: string): void {
-  const now = Date.now();
+  const now = clock.now();
   getDb().prepare(`
     UPDATE residents SET status = 'DECEASED', death_time = ?, death_cause = ?, health = 0
     WHERE id = ?
@@ -180,7 +186,7 @@ export function markResidentDeparted(id: string): void {
 export function updateUbiCollection(id: string): void {
   getDb().prepare(`
     UPDATE residents SET last_ubi_collection = ? WHERE id = ?
-  `).run(Date.now(), id);
+  `).run(clock.now(), id);
 }
 
 export function updateResidentBio(id: string, bio: string): void {
@@ -203,7 +209,7 @@ export function logEvent(
   getDb().prepare(`
     INSERT INTO events (timestamp, type, resident_id, target_id, building_id, x, y, data_json)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-  `).run(Date.now(), type, residentId, targetId, buildingId, x, y, JSON.stringify(data));
+  `).run(clock.now(), type, residentId, targetId, buildingId, x, y, JSON.stringify(data));
 }
 
 export interface EventRow {
@@ -249,6 +255,10 @@ export interface ReputationStats {
     arrests_made: number;
     bodies_collected: number;
     suspects_booked: number;
+    wrongful_arrests: number;
+    jury_votes: number;
+    election_votes: number;
+    terms_as_mayor: number;
   };
   criminal: {
     violations: number;
@@ -264,7 +274,7 @@ const reputationCache = new Map<string, { stats: ReputationStats; expiresAt: num
 export function getReputationStats(residentId: string): ReputationStats | null {
   // Check cache first
   const cached = reputationCache.get(residentId);
-  if (cached && cached.expiresAt > Date.now()) {
+  if (cached && cached.expiresAt > clock.now()) {
     return cached.stats;
   }
 
@@ -274,13 +284,13 @@ export function getReputationStats(residentId: string): ReputationStats | null {
   const resident = db.prepare('SELECT * FROM residents WHERE id = ?').get(residentId) as ResidentRow | undefined;
   if (!resident) return null;
 
-  const now = Date.now();
+  const now = clock.now();
 
   // Query 1: actions the resident took
   const actions = db.prepare(`
     SELECT
       COUNT(CASE WHEN type = 'death' THEN 1 END) AS deaths,
-      COUNT(CASE WHEN type = 'shift_complete' THEN 1 END) AS shifts_completed,
+      COUNT(CASE WHEN type = 'shift_complete' AND COALESCE(json_extract(data_json, '$.completion'), 1) >= 1 THEN 1 END) AS shifts_completed,
       COALESCE(SUM(CASE WHEN type = 'shift_complete' THEN CAST(json_extract(data_json, '$.wage') AS INTEGER) ELSE 0 END), 0) AS total_earned,
       COUNT(CASE WHEN type = 'buy' THEN 1 END) AS purchases,
       COALESCE(SUM(CASE WHEN type = 'buy' THEN CAST(json_extract(data_json, '$.cost') AS INTEGER) ELSE 0 END), 0) AS total_spent,
@@ -294,6 +304,10 @@ export function getReputationStats(residentId: string): ReputationStats | null {
       COUNT(CASE WHEN type = 'process_body' THEN 1 END) AS bodies_processed,
       COUNT(CASE WHEN type = 'arrest' THEN 1 END) AS arrests_made,
       COUNT(CASE WHEN type = 'book_suspect' THEN 1 END) AS suspects_booked,
+      COUNT(CASE WHEN type = 'wrongful_arrest' THEN 1 END) AS wrongful_arrests,
+      COUNT(CASE WHEN type = 'jury_vote' THEN 1 END) AS jury_votes,
+      COUNT(CASE WHEN type = 'vote_election' THEN 1 END) AS election_votes,
+      COUNT(CASE WHEN type = 'election_won' THEN 1 END) AS terms_as_mayor,
       COUNT(CASE WHEN type = 'law_violation' THEN 1 END) AS violations,
       COUNT(CASE WHEN type = 'forage' THEN 1 END) AS forages
     FROM events WHERE resident_id = ?
@@ -303,7 +317,6 @@ export function getReputationStats(residentId: string): ReputationStats | null {
   const received = db.prepare(`
     SELECT
       COUNT(CASE WHEN type = 'arrest' THEN 1 END) AS times_arrested,
-      COUNT(CASE WHEN type = 'book_suspect' THEN 1 END) AS times_imprisoned,
       COUNT(CASE WHEN type = 'trade' THEN 1 END) AS trades_received,
       COALESCE(SUM(CASE WHEN type = 'trade' THEN CAST(json_extract(data_json, '$.offer_quid') AS INTEGER) ELSE 0 END), 0) AS quid_received,
       COUNT(CASE WHEN type = 'give' THEN 1 END) AS gifts_received
@@ -359,11 +372,15 @@ export function getReputationStats(residentId: string): ReputationStats | null {
       arrests_made: actions.arrests_made,
       bodies_collected: actions.bodies_collected,
       suspects_booked: actions.suspects_booked,
+      wrongful_arrests: actions.wrongful_arrests,
+      jury_votes: actions.jury_votes,
+      election_votes: actions.election_votes,
+      terms_as_mayor: actions.terms_as_mayor,
     },
     criminal: {
       violations: actions.violations,
       times_arrested: received.times_arrested,
-      times_imprisoned: received.times_imprisoned,
+      times_imprisoned: getTimesImprisoned(residentId),
     },
   };
 
@@ -373,13 +390,14 @@ export function getReputationStats(residentId: string): ReputationStats | null {
   return stats;
 }
 
-export function getRecentEventsForResident(residentId: string, limit: number = 10): EventRow[] {
+export function getRecentEventsForResident(residentId: string, limit: number = 10, excludeTypes: string[] = []): EventRow[] {
+  const exclude = excludeTypes.length > 0 ? `AND type NOT IN (${excludeTypes.map(() => '?').join(',')})` : '';
   return getDb().prepare(`
     SELECT * FROM events
-    WHERE resident_id = ?
+    WHERE resident_id = ? ${exclude}
     ORDER BY timestamp DESC
     LIMIT ?
-  `).all(residentId, limit) as EventRow[];
+  `).all(residentId, ...excludeTypes, limit) as EventRow[];
 }
 
 export function getEventsSince(since: number, limit: number = 10000): EventRow[] {
@@ -408,13 +426,14 @@ export interface FeedEventRow {
 }
 
 const FEED_EVENT_TYPES = [
-  'arrival', 'depart', 'death', 'speak', 'trade', 'give',
+  'arrival', 'depart', 'death', 'speak', 'trade', 'trade_accepted', 'market_trade', 'give',
   'apply_job', 'quit_job', 'shift_complete',
-  'write_petition', 'vote_petition',
+  'write_petition', 'vote_petition', 'policy_enacted', 'election_won', 'pardon',
   'collect_body', 'process_body',
   'buy', 'collect_ubi', 'collapse', 'bladder_accident',
-  'arrest', 'book_suspect', 'prison_release', 'law_violation',
-  'referral_claimed',
+  'arrest', 'book_suspect', 'prison_release', 'law_violation', 'trial_verdict',
+  'assault', 'report_crime',
+  'referral_claimed', 'will_executed',
 ];
 
 export function getRecentFeedEvents(limit: number = 30): FeedEventRow[] {
@@ -581,11 +600,14 @@ export function batchSaveResidents(residents: Array<{
   current_building: string | null;
   current_job_id?: string | null;
   shift_start_time?: number | null;
+  shift_tasks?: Record<string, number>;
   carrying_body_id?: string | null;
   law_breaking?: string[];
   arrested_by?: string | null;
   prison_sentence_end?: number | null;
   carrying_suspect_id?: string | null;
+  illness?: object | null;
+  immune_until?: number;
 }>): void {
   const db = getDb();
   const stmt = db.prepare(`
@@ -593,8 +615,9 @@ export function batchSaveResidents(residents: Array<{
       x = ?, y = ?, facing = ?,
       hunger = ?, thirst = ?, energy = ?, bladder = ?, health = ?, social = ?,
       wallet = ?, is_sleeping = ?, current_building = ?,
-      current_job_id = ?, shift_start_time = ?, carrying_body_id = ?,
-      law_breaking = ?, arrested_by = ?, prison_sentence_end = ?, carrying_suspect_id = ?
+      current_job_id = ?, shift_start_time = ?, shift_tasks = ?, carrying_body_id = ?,
+      law_breaking = ?, arrested_by = ?, prison_sentence_end = ?, carrying_suspect_id = ?,
+      illness = ?, immune_until = ?
     WHERE id = ?
   `);
 
@@ -604,9 +627,11 @@ export function batchSaveResidents(residents: Array<{
         r.x, r.y, r.facing,
         r.needs.hunger, r.needs.thirst, r.needs.energy, r.needs.bladder, r.needs.health, r.needs.social,
         r.wallet, r.is_sleeping ? 1 : 0, r.current_building,
-        r.current_job_id ?? null, r.shift_start_time ?? null, r.carrying_body_id ?? null,
+        r.current_job_id ?? null, r.shift_start_time ?? null, JSON.stringify(r.shift_tasks ?? {}),
+        r.carrying_body_id ?? null,
         JSON.stringify(r.law_breaking ?? []), r.arrested_by ?? null,
         r.prison_sentence_end ?? null, r.carrying_suspect_id ?? null,
+        r.illness ? JSON.stringify(r.illness) : null, r.immune_until ?? 0,
         r.id
       );
     }
@@ -623,6 +648,7 @@ export interface InventoryRow {
   item_type: string;
   quantity: number;
   durability: number;
+  age_game_seconds: number;
   acquired_at: number;
 }
 
@@ -646,11 +672,11 @@ export function addInventoryItem(
   }
 
   // New item
-  const id = uuid();
+  const id = newId();
   db.prepare(`
     INSERT INTO inventory (id, resident_id, item_type, quantity, durability, acquired_at)
     VALUES (?, ?, ?, ?, ?, ?)
-  `).run(id, residentId, itemType, quantity, durability, Date.now());
+  `).run(id, residentId, itemType, quantity, durability, clock.now());
   return db.prepare('SELECT * FROM inventory WHERE id = ?').get(id) as InventoryRow;
 }
 
@@ -679,12 +705,12 @@ export function decrementDurability(id: string): number {
 
 export function batchSaveInventory(items: Array<{
   id: string; resident_id: string; item_type: string;
-  quantity: number; durability: number;
+  quantity: number; durability: number; age_game_seconds: number;
 }>): void {
   const db = getDb();
   const upsert = db.prepare(`
-    INSERT OR REPLACE INTO inventory (id, resident_id, item_type, quantity, durability, acquired_at)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT OR REPLACE INTO inventory (id, resident_id, item_type, quantity, durability, age_game_seconds, acquired_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `);
   const deleteStmt = db.prepare('DELETE FROM inventory WHERE resident_id = ?');
 
@@ -694,7 +720,7 @@ export function batchSaveInventory(items: Array<{
       deleteStmt.run(rid);
     }
     for (const item of items) {
-      upsert.run(item.id, item.resident_id, item.item_type, item.quantity, item.durability, Date.now());
+      upsert.run(item.id, item.resident_id, item.item_type, item.quantity, item.durability, item.age_game_seconds, clock.now());
     }
   });
 
@@ -702,30 +728,67 @@ export function batchSaveInventory(items: Array<{
   saveAll(residentIds);
 }
 
-export function getWorldState(): { world_time: number; train_timer: number; shop_restock_timer: number; last_save: number } {
+export interface WorldStateRow {
+  world_time: number;
+  train_timer: number;
+  shop_restock_timer: number;       // legacy single-shop timer, seeds per-building timers
+  shop_restock_timers: string;      // JSON { [buildingId]: seconds }
+  weather: string;                  // JSON { condition, changes_at }
+  forageables: string;              // JSON { [nodeId]: SavedForageable }
+  last_save: number;
+}
+
+function ensureWorldStateColumns(): void {
   const db = getDb();
-  // Ensure shop_restock_timer column exists (migration)
+  // Ensure shop restock timer columns exist (migration)
   try {
     db.prepare("SELECT shop_restock_timer FROM world_state LIMIT 1").get();
   } catch {
     db.prepare("ALTER TABLE world_state ADD COLUMN shop_restock_timer REAL NOT NULL DEFAULT 0").run();
   }
-  return db.prepare('SELECT * FROM world_state WHERE id = 1').get() as {
-    world_time: number; train_timer: number; shop_restock_timer: number; last_save: number;
-  };
-}
-
-export function saveWorldState(worldTime: number, trainTimer: number, shopRestockTimer: number = 0): void {
-  const db = getDb();
-  // Ensure column exists
   try {
-    db.prepare("SELECT shop_restock_timer FROM world_state LIMIT 1").get();
+    db.prepare("SELECT shop_restock_timers FROM world_state LIMIT 1").get();
   } catch {
-    db.prepare("ALTER TABLE world_state ADD COLUMN shop_restock_timer REAL NOT NULL DEFAULT 0").run();
+    db.prepare("ALTER TABLE world_state ADD COLUMN shop_restock_timers TEXT NOT NULL DEFAULT '{}'").run();
   }
-  db.prepare(`
-    UPDATE world_state SET world_time = ?, train_timer = ?, shop_restock_timer = ?, last_save = ? WHERE id = 1
-  `).run(worldTime, trainTimer, shopRestockTimer, Date.now());
+  try {
+    db.prepare("SELECT weather FROM world_state LIMIT 1").get();
+  } catch {
+    db.prepare("ALTER TABLE world_state ADD COLUMN weather TEXT NOT NULL DEFAULT '{}'").run();
+  }
+  try {
+    db.prepare("SELECT forageables FROM world_state LIMIT 1").get();
+  } catch {
+    db.prepare("ALTER TABLE world_state ADD COLUMN forageables TEXT NOT NULL DEFAULT '{}'").run();
+  }
+}
+
+/** How far a forage node has been picked and regrown */
+export interface SavedForageable {
+  uses_remaining: number;
+  depleted_at: number | null;
+  regrow_progress: number;
+}
+
+export function getWorldState(): WorldStateRow {
+  ensureWorldStateColumns();
+  return getDb().prepare('SELECT * FROM world_state WHERE id = 1').get() as WorldStateRow;
+}
+
+export function saveWorldState(
+  worldTime: number,
+  trainTimer: number,
+  shopRestockTimers: Record<string, number> = {},
+  weather: { condition: string; changes_at: number } | null = null,
+  forageables: Record<string, SavedForageable> = {},
+): void {
+  ensureWorldStateColumns();
+  getDb().prepare(`
+    UPDATE world_state SET world_time = ?, train_timer = ?, shop_restock_timers = ?, weather = ?, forageables = ?, last_save = ? WHERE id = 1
+  `).run(
+    worldTime, trainTimer, JSON.stringify(shopRestockTimers), JSON.stringify(weather ?? {}), JSON.stringify(forageables),
+    clock.now(),
+  );
 }
 
 // === Job queries ===
@@ -738,6 +801,7 @@ export interface JobRow {
   shift_duration_hours: number;
   max_positions: number;
   description: string;
+  business_id: string | null;
 }
 
 export function getJobs(): JobRow[] {
@@ -757,16 +821,100 @@ export function getJobHolderCount(jobId: string): number {
 
 export function assignJob(residentId: string, jobId: string): void {
   getDb().prepare(
-    'UPDATE residents SET current_job_id = ?, shift_start_time = NULL WHERE id = ?'
+    "UPDATE residents SET current_job_id = ?, shift_start_time = NULL, shift_tasks = '{}' WHERE id = ?"
   ).run(jobId, residentId);
 }
 
 export function clearJob(residentId: string): void {
   getDb().prepare(
-    'UPDATE residents SET current_job_id = NULL, shift_start_time = NULL WHERE id = ?'
+    "UPDATE residents SET current_job_id = NULL, shift_start_time = NULL, shift_tasks = '{}' WHERE id = ?"
   ).run(residentId);
 }
 
+export function insertJob(job: JobRow): void {
+  getDb().prepare(`
+    INSERT INTO jobs (id, title, building_id, wage_per_shift, shift_duration_hours, max_positions, description, business_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(job.id, job.title, job.building_id, job.wage_per_shift, job.shift_duration_hours, job.max_positions, job.description, job.business_id);
+}
+
+export function updateJobWage(jobId: string, wage: number): void {
+  getDb().prepare('UPDATE jobs SET wage_per_shift = ? WHERE id = ?').run(wage, jobId);
+}
+
+export function deleteJob(jobId: string): void {
+  getDb().prepare('DELETE FROM jobs WHERE id = ?').run(jobId);
+}
+
+export function getJobHolderIds(jobId: string): string[] {
+  const rows = getDb().prepare(
+    "SELECT id FROM residents WHERE current_job_id = ? AND status = 'ALIVE'"
+  ).all(jobId) as Array<{ id: string }>;
+  return rows.map(r => r.id);
+}
+
+// === Business queries ===
+
+export interface BusinessRow {
+  id: string;
+  owner_id: string;
+  name: string;
+  building_id: string | null;
+  description: string;
+  status: string;             // active, closed, bankrupt
+  registration_fee: number;
+  created_at: number;
+  closed_at: number | null;
+}
+
+export function insertBusiness(row: Omit<BusinessRow, 'status' | 'closed_at'>): void {
+  getDb().prepare(`
+    INSERT INTO businesses (id, owner_id, name, building_id, description, registration_fee, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(row.id, row.owner_id, row.name, row.building_id, row.description, row.registration_fee, row.created_at);
+}
+
+export function getBusiness(id: string): BusinessRow | undefined {
+  return getDb().prepare('SELECT * FROM businesses WHERE id = ?').get(id) as BusinessRow | undefined;
+}
+
+export function getActiveBusinessForOwner(ownerId: string): BusinessRow | undefined {
+  return getDb().prepare(
+    "SELECT * FROM businesses WHERE owner_id = ? AND status = 'active'"
+  ).get(ownerId) as BusinessRow | undefined;
+}
+
+export function getActiveBusinesses(): BusinessRow[] {
+  return getDb().prepare("SELECT * FROM businesses WHERE status = 'active' ORDER BY created_at").all() as BusinessRow[];
+}
+
+export function closeBusinessRow(id: string, status: 'closed' | 'bankrupt'): void {
+  getDb().prepare('UPDATE businesses SET status = ?, closed_at = ? WHERE id = ?').run(status, clock.now(), id);
+}
+
+export function getBusinessJobs(businessId: string): JobRow[] {
+  return getDb().prepare('SELECT * FROM jobs WHERE business_id = ?').all(businessId) as JobRow[];
+}
+
+export function insertPayroll(row: {
+  business_id: string; job_id: string; job_title: string; employee_id: string;
+  wage_due: number; amount_paid: number;
+}): void {
+  getDb().prepare(`
+    INSERT INTO business_payroll (business_id, job_id, job_title, employee_id, wage_due, amount_paid, paid_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(row.business_id, row.job_id, row.job_title, row.employee_id, row.wage_due, row.amount_paid, clock.now());
+}
+
+export function getPayrollTotals(businessId: string): { shifts_paid: number; total_paid: number; total_unpaid: number } {
+  return getDb().prepare(`
+    SELECT COUNT(*) AS shifts_paid,
+      COALESCE(SUM(amount_paid), 0) AS total_paid,
+      COALESCE(SUM(wage_due - amount_paid), 0) AS total_unpaid
+    FROM business_payroll WHERE business_id = ?
+  `).get(businessId) as { shifts_paid: number; total_paid: number; total_unpaid: number };
+}
+
 // === Petition queries ===
 
 export interface PetitionRow {
@@ -777,6 +925,8 @@ export interface PetitionRow {
   status: string;
   created_at: number;
   closed_at: number | null;
+  policy_key: string | null;
+  policy_value: number | null;
 }
 
 export interface PetitionVoteRow {
@@ -787,13 +937,14 @@ export interface PetitionVoteRow {
 }
 
 export function createPetition(
-  id: string, authorId: string, category: string, description: string
+  id: string, authorId: string, category: string, description: string,
+  policy: { key: string; value: number } | null = null,
 ): PetitionRow {
-  const now = Date.now();
+  const now = clock.now();
   getDb().prepare(`
-    INSERT INTO petitions (id, author_id, category, description, status, created_at)
-    VALUES (?, ?, ?, ?, 'open', ?)
-  `).run(id, authorId, category, description, now);
+    INSERT INTO petitions (id, author_id, category, description, status, created_at, policy_key, policy_value)
+    VALUES (?, ?, ?, ?, 'open', ?, ?, ?)
+  `).run(id, authorId, category, description, now, policy?.key ?? null, policy?.value ?? null);
   return getDb().prepare('SELECT * FROM petitions WHERE id = ?').get(id) as PetitionRow;
 }
 
@@ -801,7 +952,7 @@ export function votePetition(petitionId: string, residentId: string, vote: strin
   getDb().prepare(`
     INSERT OR REPLACE INTO petition_votes (petition_id, resident_id, vote, timestamp)
     VALUES (?, ?, ?, ?)
-  `).run(petitionId, residentId, vote, Date.now());
+  `).run(petitionId, residentId, vote, clock.now());
 }
 
 export function getOpenPetitions(): Array<PetitionRow & { votes_for: number; votes_against: number }> {
@@ -828,15 +979,361 @@ export function hasVoted(petitionId: string, residentId: string): boolean {
   return !!row;
 }
 
+/** Open policy petitions past their voting window, oldest first, with their tallies */
+export function getExpiredPolicyPetitions(maxAgeMs: number): Array<PetitionRow & { votes_for: number; votes_against: number }> {
+  return getDb().prepare(`
+    SELECT p.*,
+      COALESCE(SUM(CASE WHEN pv.vote = 'for' THEN 1 ELSE 0 END), 0) as votes_for,
+      COALESCE(SUM(CASE WHEN pv.vote = 'against' THEN 1 ELSE 0 END), 0) as votes_against
+    FROM petitions p
+    LEFT JOIN petition_votes pv ON p.id = pv.petition_id
+    WHERE p.status = 'open' AND p.policy_key IS NOT NULL AND p.created_at < ?
+    GROUP BY p.id
+    ORDER BY p.created_at ASC
+  `).all(clock.now() - maxAgeMs) as Array<PetitionRow & { votes_for: number; votes_against: number }>;
+}
+
+export function setPetitionStatus(id: string, status: 'passed' | 'rejected'): void {
+  getDb().prepare('UPDATE petitions SET status = ?, closed_at = ? WHERE id = ?').run(status, clock.now(), id);
+}
+
 export function closeExpiredPetitions(maxAgeMs: number): number {
-  const cutoff = Date.now() - maxAgeMs;
+  const cutoff = clock.now() - maxAgeMs;
   const result = getDb().prepare(`
     UPDATE petitions SET status = 'closed', closed_at = ?
     WHERE status = 'open' AND created_at < ?
-  `).run(Date.now(), cutoff);
+  `).run(clock.now(), cutoff);
   return result.changes;
 }
 
+// === Policy queries ===
+
+export interface PolicyOverrideRow {
+  key: string;
+  value: number;
+  petition_id: string | null;
+  enacted_at: number;
+}
+
+export function getPolicyOverrides(): PolicyOverrideRow[] {
+  return getDb().prepare('SELECT * FROM policy_overrides').all() as PolicyOverrideRow[];
+}
+
+export function savePolicyOverride(key: string, value: number, petitionId: string | null): void {
+  getDb().prepare(`
+    INSERT OR REPLACE INTO policy_overrides (key, value, petition_id, enacted_at)
+    VALUES (?, ?, ?, ?)
+  `).run(key, value, petitionId, clock.now());
+}
+
+// === Trial queries ===
+
+export interface TrialRow {
+  id: string;
+  defendant_id: string;
+  officer_id: string;
+  offenses: string;
+  defence: string | null;
+  status: string;
+  opened_at: number;
+  closes_at: number;
+  sentence_game_hours: number | null;
+  closed_at: number | null;
+}
+
+export type TrialWithVotes = TrialRow & { votes_guilty: number; votes_not_guilty: number };
+
+export function createTrial(
+  id: string, defendantId: string, officerId: string, offenses: string[], openedAt: number, closesAt: number,
+): TrialRow {
+  getDb().prepare(`
+    INSERT INTO trials (id, defendant_id, officer_id, offenses, status, opened_at, closes_at)
+    VALUES (?, ?, ?, ?, 'open', ?, ?)
+  `).run(id, defendantId, officerId, JSON.stringify(offenses), openedAt, closesAt);
+  return getDb().prepare('SELECT * FROM trials WHERE id = ?').get(id) as TrialRow;
+}
+
+export function getTrial(id: string): TrialRow | undefined {
+  return getDb().prepare('SELECT * FROM trials WHERE id = ?').get(id) as TrialRow | undefined;
+}
+
+export function getOpenTrialForDefendant(defendantId: string): TrialRow | undefined {
+  return getDb().prepare(
+    "SELECT * FROM trials WHERE defendant_id = ? AND status = 'open'"
+  ).get(defendantId) as TrialRow | undefined;
+}
+
+export function getOpenTrials(): TrialWithVotes[] {
+  return getDb().prepare(`
+    SELECT t.*,
+      COALESCE(SUM(CASE WHEN tv.vote = 'guilty' THEN 1 ELSE 0 END), 0) as votes_guilty,
+      COALESCE(SUM(CASE WHEN tv.vote = 'not_guilty' THEN 1 ELSE 0 END), 0) as votes_not_guilty
+    FROM trials t
+    LEFT JOIN trial_votes tv ON t.id = tv.trial_id
+    WHERE t.status = 'open'
+    GROUP BY t.id
+    ORDER BY t.opened_at ASC
+  `).all() as TrialWithVotes[];
+}
+
+export function voteTrial(trialId: string, residentId: string, vote: string): void {
+  getDb().prepare(`
+    INSERT OR REPLACE INTO trial_votes (trial_id, resident_id, vote, timestamp)
+    VALUES (?, ?, ?, ?)
+  `).run(trialId, residentId, vote, clock.now());
+}
+
+export function hasVotedOnTrial(trialId: string, residentId: string): boolean {
+  const row = getDb().prepare(
+    'SELECT 1 FROM trial_votes WHERE trial_id = ? AND resident_id = ?'
+  ).get(trialId, residentId);
+  return !!row;
+}
+
+export function getTrialJurors(trialId: string): string[] {
+  return (getDb().prepare('SELECT resident_id FROM trial_votes WHERE trial_id = ?').all(trialId) as Array<{ resident_id: string }>)
+    .map(r => r.resident_id);
+}
+
+export function setTrialDefence(trialId: string, defence: string): void {
+  getDb().prepare('UPDATE trials SET defence = ? WHERE id = ?').run(defence, trialId);
+}
+
+export function closeTrial(trialId: string, status: 'guilty' | 'acquitted' | 'dismissed', sentenceGameHours: number | null): void {
+  getDb().prepare(
+    'UPDATE trials SET status = ?, sentence_game_hours = ?, closed_at = ? WHERE id = ?'
+  ).run(status, sentenceGameHours, clock.now(), trialId);
+}
+
+/** Prison terms actually served: bookings, less trials that didn't end in a conviction */
+export function getTimesImprisoned(residentId: string): number {
+  const row = getDb().prepare(`
+    SELECT
+      (SELECT COUNT(*) FROM events WHERE type = 'book_suspect' AND target_id = ?)
+      - (SELECT COUNT(*) FROM trials WHERE defendant_id = ? AND status IN ('acquitted', 'dismissed'))
+      - (SELECT COUNT(*) FROM trials WHERE defendant_id = ? AND status = 'open') AS n
+  `).get(residentId, residentId, residentId) as { n: number };
+  return Math.max(0, row.n);
+}
+
+// === Election queries ===
+
+export interface ElectionRow {
+  id: string;
+  status: string;
+  opened_at: number;
+  voting_at: number;
+  closes_at: number;
+  winner_id: string | null;
+  council: string;
+  results: string | null;
+  term_ends_at: number | null;
+  closed_at: number | null;
+}
+
+export interface CandidateRow {
+  election_id: string;
+  resident_id: string;
+  platform: string;
+  last_speech: string | null;
+  registered_at: number;
+}
+
+export function createElection(id: string, openedAt: number, votingAt: number, closesAt: number): ElectionRow {
+  getDb().prepare(`
+    INSERT INTO elections (id, status, opened_at, voting_at, closes_at)
+    VALUES (?, 'registration', ?, ?, ?)
+  `).run(id, openedAt, votingAt, closesAt);
+  return getDb().prepare('SELECT * FROM elections WHERE id = ?').get(id) as ElectionRow;
+}
+
+/** The election in progress (registration or voting), if any */
+export function getOpenElection(): ElectionRow | undefined {
+  return getDb().prepare(
+    "SELECT * FROM elections WHERE status != 'closed' ORDER BY opened_at DESC LIMIT 1"
+  ).get() as ElectionRow | undefined;
+}
+
+/** The most recent election that produced a mayor — its winner holds office until term_ends_at */
+export function getLatestDecidedElection(): ElectionRow | undefined {
+  return getDb().prepare(
+    "SELECT * FROM elections WHERE status = 'closed' AND winner_id IS NOT NULL ORDER BY closes_at DESC LIMIT 1"
+  ).get() as ElectionRow | undefined;
+}
+
+export function getClosedElections(limit: number): ElectionRow[] {
+  return getDb().prepare(
+    "SELECT * FROM elections WHERE status = 'closed' ORDER BY closes_at DESC LIMIT ?"
+  ).all(limit) as ElectionRow[];
+}
+
+export function startElectionVoting(electionId: string): void {
+  getDb().prepare("UPDATE elections SET status = 'voting' WHERE id = ?").run(electionId);
+}
+
+export function closeElection(
+  electionId: string, winnerId: string | null, council: string[], results: unknown, termEndsAt: number | null,
+): void {
+  getDb().prepare(`
+    UPDATE elections SET status = 'closed', winner_id = ?, council = ?, results = ?, term_ends_at = ?, closed_at = ?
+    WHERE id = ?
+  `).run(winnerId, JSON.stringify(council), JSON.stringify(results), termEndsAt, clock.now(), electionId);
+}
+
+export function addCandidate(electionId: string, residentId: string, platform: string): void {
+  getDb().prepare(`
+    INSERT INTO election_candidates (election_id, resident_id, platform, registered_at)
+    VALUES (?, ?, ?, ?)
+  `).run(electionId, residentId, platform, clock.now());
+}
+
+export function getCandidates(electionId: string): CandidateRow[] {
+  return getDb().prepare(
+    'SELECT * FROM election_candidates WHERE election_id = ? ORDER BY registered_at'
+  ).all(electionId) as CandidateRow[];
+}
+
+export function setCandidateSpeech(electionId: string, residentId: string, speech: string): void {
+  getDb().prepare(
+    'UPDATE election_candidates SET last_speech = ? WHERE election_id = ? AND resident_id = ?'
+  ).run(speech, electionId, residentId);
+}
+
+/** Elections a resident has won as mayor */
+export function countTermsWon(residentId: string): number {
+  const row = getDb().prepare(
+    "SELECT COUNT(*) AS n FROM elections WHERE status = 'closed' AND winner_id = ?"
+  ).get(residentId) as { n: number };
+  return row.n;
+}
+
+export function castBallot(electionId: string, residentId: string, ranking: string[]): void {
+  getDb().prepare(`
+    INSERT INTO election_ballots (election_id, resident_id, ranking, timestamp)
+    VALUES (?, ?, ?, ?)
+  `).run(electionId, residentId, JSON.stringify(ranking), clock.now());
+}
+
+export function hasCastBallot(electionId: string, residentId: string): boolean {
+  return !!getDb().prepare(
+    'SELECT 1 FROM election_ballots WHERE election_id = ? AND resident_id = ?'
+  ).get(electionId, residentId);
+}
+
+export function getBallots(electionId: string): string[][] {
+  const rows = getDb().prepare(
+    'SELECT ranking FROM election_ballots WHERE election_id = ?'
+  ).all(electionId) as Array<{ ranking: string }>;
+  return rows.map(r => JSON.parse(r.ranking) as string[]);
+}
+
+// === Treasury queries ===
+
+export interface TreasuryRow {
+  balance: number;
+  tax_rate: number;
+  last_payout_at: number;
+}
+
+export interface BudgetRow {
+  id: string;
+  proposed_by: string;
+  lines: string;
+  status: string;
+  proposed_at: number;
+  decided_at: number | null;
+}
+
+export function getTreasury(): TreasuryRow {
+  return getDb().prepare(
+    'SELECT balance, tax_rate, last_payout_at FROM city_treasury WHERE id = 1'
+  ).get() as TreasuryRow;
+}
+
+/** Add to (or, with a negative amount, take from) the treasury balance */
+export function adjustTreasury(amount: number): void {
+  getDb().prepare('UPDATE city_treasury SET balance = balance + ? WHERE id = 1').run(amount);
+}
+
+export function setTaxRate(rate: number): void {
+  getDb().prepare('UPDATE city_treasury SET tax_rate = ? WHERE id = 1').run(rate);
+}
+
+export function setLastPayout(worldTime: number): void {
+  getDb().prepare('UPDATE city_treasury SET last_payout_at = ? WHERE id = 1').run(worldTime);
+}
+
+export function createBudget(id: string, proposedBy: string, lines: unknown): BudgetRow {
+  getDb().prepare(`
+    INSERT INTO budgets (id, proposed_by, lines, status, proposed_at)
+    VALUES (?, ?, ?, 'proposed', ?)
+  `).run(id, proposedBy, JSON.stringify(lines), clock.now());
+  return getDb().prepare('SELECT * FROM budgets WHERE id = ?').get(id) as BudgetRow;
+}
+
+export function getBudget(id: string): BudgetRow | undefined {
+  return getDb().prepare('SELECT * FROM budgets WHERE id = ?').get(id) as BudgetRow | undefined;
+}
+
+export function getBudgetByStatus(status: 'proposed' | 'adopted'): BudgetRow | undefined {
+  return getDb().prepare(
+    'SELECT * FROM budgets WHERE status = ? ORDER BY proposed_at DESC LIMIT 1'
+  ).get(status) as BudgetRow | undefined;
+}
+
+/** Set a budget's status. Adopting one supersedes the budget that was in force. */
+export function setBudgetStatus(id: string, status: 'adopted' | 'rejected' | 'superseded'): void {
+  const db = getDb();
+  db.transaction(() => {
+    if (status === 'adopted') {
+      db.prepare("UPDATE budgets SET status = 'superseded', decided_at = ? WHERE status = 'adopted'").run(clock.now());
+    }
+    db.prepare('UPDATE budgets SET status = ?, decided_at = ? WHERE id = ?').run(status, clock.now(), id);
+  })();
+}
+
+export function voteBudget(budgetId: string, residentId: string, vote: 'approve' | 'reject'): void {
+  getDb().prepare(`
+    INSERT INTO budget_votes (budget_id, resident_id, vote, timestamp)
+    VALUES (?, ?, ?, ?)
+  `).run(budgetId, residentId, vote, clock.now());
+}
+
+export function getBudgetVotes(budgetId: string): Array<{ resident_id: string; vote: string }> {
+  return getDb().prepare(
+    'SELECT resident_id, vote FROM budget_votes WHERE budget_id = ?'
+  ).all(budgetId) as Array<{ resident_id: string; vote: string }>;
+}
+
+// === Will queries ===
+
+export interface WillRow {
+  resident_id: string;
+  beneficiaries: string;
+  written_at: number;
+  executed_at: number | null;
+}
+
+export function getWill(residentId: string): WillRow | undefined {
+  return getDb().prepare('SELECT * FROM wills WHERE resident_id = ?').get(residentId) as WillRow | undefined;
+}
+
+/** Write or replace a resident's will */
+export function saveWill(residentId: string, beneficiaries: string): void {
+  getDb().prepare(`
+    INSERT OR REPLACE INTO wills (resident_id, beneficiaries, written_at, executed_at)
+    VALUES (?, ?, ?, NULL)
+  `).run(residentId, beneficiaries, clock.now());
+}
+
+export function deleteWill(residentId: string): void {
+  getDb().prepare('DELETE FROM wills WHERE resident_id = ?').run(residentId);
+}
+
+export function markWillExecuted(residentId: string): void {
+  getDb().prepare('UPDATE wills SET executed_at = ? WHERE resident_id = ?').run(clock.now(), residentId);
+}
+
 // === Body processing queries ===
 
 export function markBodyProcessed(residentId: string): void {
@@ -855,50 +1352,456 @@ export function updateCarryingBody(residentId: string, bodyId: string | null): v
 // === Shop stock queries ===
 
 export interface ShopStockRow {
+  building_id: string;
   item_type: string;
   stock: number;
   last_restock: number;
 }
 
-export function getShopStock(): ShopStockRow[] {
+export function getShopStock(buildingId?: string): ShopStockRow[] {
+  if (buildingId) {
+    return getDb().prepare('SELECT * FROM shop_stock WHERE building_id = ?').all(buildingId) as ShopStockRow[];
+  }
   return getDb().prepare('SELECT * FROM shop_stock').all() as ShopStockRow[];
 }
 
-export function getShopStockForItem(itemType: string): number {
-  const row = getDb().prepare('SELECT stock FROM shop_stock WHERE item_type = ?').get(itemType) as { stock: number } | undefined;
+export function getShopStockForItem(buildingId: string, itemType: string): number {
+  const row = getDb().prepare(
+    'SELECT stock FROM shop_stock WHERE building_id = ? AND item_type = ?'
+  ).get(buildingId, itemType) as { stock: number } | undefined;
   return row?.stock ?? 0;
 }
 
-export function setShopStock(itemType: string, stock: number): void {
+export function setShopStock(buildingId: string, itemType: string, stock: number): void {
   getDb().prepare(`
-    INSERT OR REPLACE INTO shop_stock (item_type, stock, last_restock)
-    VALUES (?, ?, ?)
-  `).run(itemType, stock, Date.now());
+    INSERT OR REPLACE INTO shop_stock (building_id, item_type, stock, last_restock)
+    VALUES (?, ?, ?, ?)
+  `).run(buildingId, itemType, stock, clock.now());
 }
 
-export function decrementShopStock(itemType: string, quantity: number): boolean {
-  const db = getDb();
-  const row = db.prepare('SELECT stock FROM shop_stock WHERE item_type = ?').get(itemType) as { stock: number } | undefined;
-  if (!row || row.stock < quantity) return false;
-  db.prepare('UPDATE shop_stock SET stock = stock - ? WHERE item_type = ?').run(quantity, itemType);
-  return true;
+export function decrementShopStock(buildingId: string, itemType: string, quantity: number): boolean {
+  const result = getDb().prepare(
+    'UPDATE shop_stock SET stock = stock - ? WHERE building_id = ? AND item_type = ? AND stock >= ?'
+  ).run(quantity, buildingId, itemType, quantity);
+  return result.changes > 0;
 }
 
-export function restockAll(stockMap: Record<string, number>): void {
+export function restockAll(buildingId: string, stockMap: Record<string, number>): void {
   const db = getDb();
   const stmt = db.prepare(`
-    INSERT OR REPLACE INTO shop_stock (item_type, stock, last_restock)
-    VALUES (?, ?, ?)
+    INSERT OR REPLACE INTO shop_stock (building_id, item_type, stock, last_restock)
+    VALUES (?, ?, ?, ?)
   `);
-  const now = Date.now();
+  const now = clock.now();
   const tx = db.transaction(() => {
     for (const [itemType, maxStock] of Object.entries(stockMap)) {
-      stmt.run(itemType, maxStock, now);
+      stmt.run(buildingId, itemType, maxStock, now);
     }
   });
   tx();
 }
 
+// === Bank queries ===
+
+export interface BankAccountRow {
+  resident_id: string;
+  balance: number;
+  opened_at: number;
+  last_interest_at: number;
+}
+
+export interface LoanRow {
+  id: string;
+  resident_id: string;
+  principal: number;
+  total_due: number;
+  amount_repaid: number;
+  installment_amount: number;
+  installments_total: number;
+  installments_paid: number;
+  next_due_at: number;
+  status: string;
+  penalties: number;
+  created_at: number;
+  closed_at: number | null;
+}
+
+export function getBankAccount(residentId: string): BankAccountRow | undefined {
+  return getDb().prepare('SELECT * FROM bank_accounts WHERE resident_id = ?').get(residentId) as BankAccountRow | undefined;
+}
+
+export function openBankAccount(residentId: string, worldTime: number): BankAccountRow {
+  getDb().prepare(`
+    INSERT OR IGNORE INTO bank_accounts (resident_id, balance, opened_at, last_interest_at)
+    VALUES (?, 0, ?, ?)
+  `).run(residentId, clock.now(), worldTime);
+  return getBankAccount(residentId)!;
+}
+
+export function updateBankBalance(residentId: string, balance: number): void {
+  getDb().prepare('UPDATE bank_accounts SET balance = ? WHERE resident_id = ?').run(balance, residentId);
+}
+
+/** Accounts of living residents that haven't been credited interest since the cutoff */
+export function getBankAccountsDueInterest(cutoffWorldTime: number): BankAccountRow[] {
+  return getDb().prepare(`
+    SELECT b.* FROM bank_accounts b
+    JOIN residents r ON r.id = b.resident_id
+    WHERE b.last_interest_at <= ? AND r.status = 'ALIVE'
+  `).all(cutoffWorldTime) as BankAccountRow[];
+}
+
+export function creditBankInterest(residentId: string, interest: number, lastInterestAt: number): void {
+  getDb().prepare(
+    'UPDATE bank_accounts SET balance = balance + ?, last_interest_at = ? WHERE resident_id = ?'
+  ).run(interest, lastInterestAt, residentId);
+}
+
+export function createLoan(loan: Omit<LoanRow, 'amount_repaid' | 'installments_paid' | 'status' | 'penalties' | 'closed_at'>): LoanRow {
+  getDb().prepare(`
+    INSERT INTO loans (id, resident_id, principal, total_due, installment_amount, installments_total, next_due_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    loan.id, loan.resident_id, loan.principal, loan.total_due,
+    loan.installment_amount, loan.installments_total, loan.next_due_at, loan.created_at,
+  );
+  return getDb().prepare('SELECT * FROM loans WHERE id = ?').get(loan.id) as LoanRow;
+}
+
+/** Loans that are still owed (active or defaulted) — without a resident, every living resident's */
+export function getOutstandingLoans(residentId?: string): LoanRow[] {
+  if (residentId) {
+    return getDb().prepare(
+      "SELECT * FROM loans WHERE resident_id = ? AND status IN ('active', 'defaulted') ORDER BY created_at ASC"
+    ).all(residentId) as LoanRow[];
+  }
+  return getDb().prepare(`
+    SELECT l.* FROM loans l
+    JOIN residents r ON r.id = l.resident_id
+    WHERE l.status IN ('active', 'defaulted') AND r.status = 'ALIVE'
+    ORDER BY l.created_at ASC
+  `).all() as LoanRow[];
+}
+
+export function updateLoan(loan: LoanRow): void {
+  getDb().prepare(`
+    UPDATE loans SET total_due = ?, amount_repaid = ?, installments_paid = ?, next_due_at = ?,
+      status = ?, penalties = ?, closed_at = ?
+    WHERE id = ?
+  `).run(
+    loan.total_due, loan.amount_repaid, loan.installments_paid, loan.next_due_at,
+    loan.status, loan.penalties, loan.closed_at, loan.id,
+  );
+}
+
+// === Trade offer queries ===
+
+export interface TradeOfferRow {
+  id: string;
+  from_id: string;
+  to_id: string;
+  offer_quid: number;
+  offer_items_json: string;
+  request_quid: number;
+  request_items_json: string;
+  status: string;
+  countered_from: string | null;
+  created_at: number;
+  expires_at: number;
+  resolved_at: number | null;
+}
+
+export function insertTradeOffer(row: Omit<TradeOfferRow, 'status' | 'resolved_at'>): void {
+  getDb().prepare(`
+    INSERT INTO trade_offers (id, from_id, to_id, offer_quid, offer_items_json, request_quid, request_items_json, status, countered_from, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+  `).run(
+    row.id, row.from_id, row.to_id, row.offer_quid, row.offer_items_json,
+    row.request_quid, row.request_items_json, row.countered_from, row.created_at, row.expires_at,
+  );
+}
+
+export function getPendingTradeOffers(): TradeOfferRow[] {
+  return getDb().prepare(
+    "SELECT * FROM trade_offers WHERE status = 'pending' ORDER BY created_at ASC"
+  ).all() as TradeOfferRow[];
+}
+
+export function resolveTradeOffer(id: string, status: string): void {
+  getDb().prepare(
+    "UPDATE trade_offers SET status = ?, resolved_at = ? WHERE id = ? AND status = 'pending'"
+  ).run(status, clock.now(), id);
+}
+
+// === Crafting queries ===
+
+export function getKnownRecipes(residentId: string): string[] {
+  const rows = getDb().prepare(
+    'SELECT recipe_id FROM known_recipes WHERE resident_id = ? ORDER BY discovered_at ASC'
+  ).all(residentId) as Array<{ recipe_id: string }>;
+  return rows.map(r => r.recipe_id);
+}
+
+export function insertKnownRecipe(residentId: string, recipeId: string): void {
+  getDb().prepare(
+    'INSERT OR IGNORE INTO known_recipes (resident_id, recipe_id, discovered_at) VALUES (?, ?, ?)'
+  ).run(residentId, recipeId, clock.now());
+}
+
+export function incrementRecipeCrafted(residentId: string, recipeId: string, count: number): void {
+  getDb().prepare(
+    'UPDATE known_recipes SET times_crafted = times_crafted + ? WHERE resident_id = ? AND recipe_id = ?'
+  ).run(count, residentId, recipeId);
+}
+
+// === Structure queries ===
+
+export interface StructureRow {
+  id: string;
+  type: string;
+  owner_id: string;
+  tile_x: number;
+  tile_y: number;
+  condition: number;
+  contents: string;
+  built_at: number;
+}
+
+export function getAllStructures(): StructureRow[] {
+  return getDb().prepare('SELECT * FROM structures').all() as StructureRow[];
+}
+
+export function insertStructure(row: StructureRow): void {
+  getDb().prepare(`
+    INSERT INTO structures (id, type, owner_id, tile_x, tile_y, condition, contents, built_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(row.id, row.type, row.owner_id, row.tile_x, row.tile_y, row.condition, row.contents, row.built_at);
+}
+
+export function deleteStructure(id: string): void {
+  getDb().prepare('DELETE FROM structures WHERE id = ?').run(id);
+}
+
+export function batchSaveStructures(rows: Array<{ id: string; condition: number; contents: string }>): void {
+  const db = getDb();
+  const stmt = db.prepare('UPDATE structures SET condition = ?, contents = ? WHERE id = ?');
+  db.transaction(() => {
+    for (const r of rows) {
+      stmt.run(r.condition, r.contents, r.id);
+    }
+  })();
+}
+
+// === Locker queries ===
+
+export interface LockerRow {
+  resident_id: string;
+  building_id: string;
+  rented_until: number;
+  heir_id: string | null;
+  contents: string;
+  rent_paid: number;
+  created_at: number;
+}
+
+export function getLocker(residentId: string): LockerRow | undefined {
+  return getDb().prepare('SELECT * FROM lockers WHERE resident_id = ?').get(residentId) as LockerRow | undefined;
+}
+
+export function insertLocker(row: LockerRow): void {
+  getDb().prepare(`
+    INSERT INTO lockers (resident_id, building_id, rented_until, heir_id, contents, rent_paid, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(row.resident_id, row.building_id, row.rented_until, row.heir_id, row.contents, row.rent_paid, row.created_at);
+}
+
+export function deleteLocker(residentId: string): void {
+  getDb().prepare('DELETE FROM lockers WHERE resident_id = ?').run(residentId);
+}
+
+export function batchSaveLockers(rows: Array<{
+  resident_id: string; rented_until: number; heir_id: string | null; contents: string; rent_paid: number;
+}>): void {
+  const db = getDb();
+  const stmt = db.prepare('UPDATE lockers SET rented_until = ?, heir_id = ?, contents = ?, rent_paid = ? WHERE resident_id = ?');
+  db.transaction(() => {
+    for (const r of rows) {
+      stmt.run(r.rented_until, r.heir_id, r.contents, r.rent_paid, r.resident_id);
+    }
+  })();
+}
+
+// === Shop pricing queries ===
+
+export interface ShopPriceHistoryRow {
+  id: number;
+  building_id: string;
+  item_type: string;
+  price: number;
+  base_price: number;
+  stock: number;
+  recent_volume: number;
+  recorded_at: number;
+}
+
+export function getShopLastRestock(buildingId: string, itemType: string): number {
+  const row = getDb().prepare(
+    'SELECT last_restock FROM shop_stock WHERE building_id = ? AND item_type = ?'
+  ).get(buildingId, itemType) as { last_restock: number } | undefined;
+  return row?.last_restock ?? 0;
+}
+
+/** Total quantity of an item bought at a building since a timestamp */
+export function getRecentPurchaseVolume(buildingId: string, itemType: string, since: number): number {
+  const row = getDb().prepare(`
+    SELECT COALESCE(SUM(CAST(json_extract(data_json, '$.quantity') AS INTEGER)), 0) as volume
+    FROM events
+    WHERE type = 'buy' AND timestamp >= ? AND building_id = ? AND json_extract(data_json, '$.item_type') = ?
+  `).get(since, buildingId, itemType) as { volume: number };
+  return row.volume;
+}
+
+export function insertShopPriceHistory(
+  buildingId: string, itemType: string, price: number, basePrice: number, stock: number, recentVolume: number
+): void {
+  getDb().prepare(`
+    INSERT INTO shop_price_history (building_id, item_type, price, base_price, stock, recent_volume, recorded_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(buildingId, itemType, price, basePrice, stock, recentVolume, clock.now());
+}
+
+export function getLatestShopPrices(): Array<{ building_id: string; item_type: string; price: number }> {
+  return getDb().prepare(`
+    SELECT h.building_id, h.item_type, h.price
+    FROM shop_price_history h
+    JOIN (SELECT building_id, item_type, MAX(id) AS max_id FROM shop_price_history GROUP BY building_id, item_type) latest
+      ON latest.max_id = h.id
+  `).all() as Array<{ building_id: string; item_type: string; price: number }>;
+}
+
+export function getShopPriceHistory(
+  options: { buildingId?: string; itemType?: string; since?: number; limit?: number } = {},
+): ShopPriceHistoryRow[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  if (options.buildingId) {
+    conditions.push('building_id = ?');
+    params.push(options.buildingId);
+  }
+  if (options.itemType) {
+    conditions.push('item_type = ?');
+    params.push(options.itemType);
+  }
+  if (options.since) {
+    conditions.push('recorded_at >= ?');
+    params.push(options.since);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  params.push(options.limit ?? 200);
+  return getDb().prepare(`
+    SELECT * FROM shop_price_history ${where}
+    ORDER BY recorded_at DESC, id DESC
+    LIMIT ?
+  `).all(...params) as ShopPriceHistoryRow[];
+}
+
+// === Market order queries ===
+
+export interface MarketOrderRow {
+  id: string;
+  resident_id: string;
+  side: 'buy' | 'sell';
+  item_type: string;
+  quantity: number;
+  remaining: number;
+  price: number;
+  status: string;
+  escrow_json: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export function insertMarketOrder(
+  id: string, residentId: string, side: 'buy' | 'sell', itemType: string, quantity: number, price: number,
+  escrowJson: string | null = null,
+): MarketOrderRow {
+  const now = clock.now();
+  getDb().prepare(`
+    INSERT INTO market_orders (id, resident_id, side, item_type, quantity, remaining, price, status, escrow_json, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, 'open', ?, ?, ?)
+  `).run(id, residentId, side, itemType, quantity, quantity, price, escrowJson, now, now);
+  return getDb().prepare('SELECT * FROM market_orders WHERE id = ?').get(id) as MarketOrderRow;
+}
+
+export function getMarketOrder(id: string): MarketOrderRow | undefined {
+  return getDb().prepare('SELECT * FROM market_orders WHERE id = ?').get(id) as MarketOrderRow | undefined;
+}
+
+/** Open orders on the opposite side that cross the given limit price, best price first then oldest */
+export function getCrossingMarketOrders(itemType: string, side: 'buy' | 'sell', limitPrice: number): MarketOrderRow[] {
+  if (side === 'sell') {
+    return getDb().prepare(`
+      SELECT * FROM market_orders
+      WHERE item_type = ? AND side = 'sell' AND status = 'open' AND price <= ?
+      ORDER BY price ASC, created_at ASC
+    `).all(itemType, limitPrice) as MarketOrderRow[];
+  }
+  return getDb().prepare(`
+    SELECT * FROM market_orders
+    WHERE item_type = ? AND side = 'buy' AND status = 'open' AND price >= ?
+    ORDER BY price DESC, created_at ASC
+  `).all(itemType, limitPrice) as MarketOrderRow[];
+}
+
+export function getOpenMarketOrders(itemType?: string): Array<MarketOrderRow & { resident_name: string }> {
+  const itemFilter = itemType ? 'AND mo.item_type = ?' : '';
+  const params: string[] = itemType ? [itemType] : [];
+  return getDb().prepare(`
+    SELECT mo.*, r.preferred_name AS resident_name
+    FROM market_orders mo
+    JOIN residents r ON r.id = mo.resident_id
+    WHERE mo.status = 'open' AND r.status = 'ALIVE' ${itemFilter}
+    ORDER BY mo.item_type, mo.side, mo.price, mo.created_at
+  `).all(...params) as Array<MarketOrderRow & { resident_name: string }>;
+}
+
+export function getOpenMarketOrdersForResident(residentId: string): MarketOrderRow[] {
+  return getDb().prepare(
+    "SELECT * FROM market_orders WHERE resident_id = ? AND status = 'open' ORDER BY created_at ASC"
+  ).all(residentId) as MarketOrderRow[];
+}
+
+export function countOpenMarketOrdersForResident(residentId: string): number {
+  const row = getDb().prepare(
+    "SELECT COUNT(*) as count FROM market_orders WHERE resident_id = ? AND status = 'open'"
+  ).get(residentId) as { count: number };
+  return row.count;
+}
+
+/** Update an order's fill state; `escrowJson` replaces the escrowed stacks when given */
+export function updateMarketOrder(id: string, remaining: number, status: string, escrowJson?: string): void {
+  getDb().prepare(
+    'UPDATE market_orders SET remaining = ?, status = ?, escrow_json = COALESCE(?, escrow_json), updated_at = ? WHERE id = ?'
+  ).run(remaining, status, escrowJson ?? null, clock.now(), id);
+}
+
+export function getRecentMarketTrades(limit: number = 20, itemType?: string): Array<{
+  timestamp: number;
+  buyer_id: string | null;
+  seller_id: string | null;
+  data_json: string;
+}> {
+  const itemFilter = itemType ? "AND json_extract(data_json, '$.item_type') = ?" : '';
+  const params: (string | number)[] = itemType ? [itemType, limit] : [limit];
+  return getDb().prepare(`
+    SELECT timestamp, resident_id AS buyer_id, target_id AS seller_id, data_json
+    FROM events
+    WHERE type = 'market_trade' ${itemFilter}
+    ORDER BY timestamp DESC
+    LIMIT ?
+  `).all(...params) as Array<{ timestamp: number; buyer_id: string | null; seller_id: string | null; data_json: string }>;
+}
+
 // === Law enforcement queries ===
 
 export interface LawRow {
@@ -962,7 +1865,7 @@ export function getClaimByNumber(claimType: string, githubNumber: number): Githu
 }
 
 export function insertGithubClaim(claim: Omit<GithubClaimRow, 'id'>): GithubClaimRow {
-  const id = uuid();
+  const id = newId();
   getDb().prepare(`
     INSERT INTO github_claims (id, resident_id, github_username, claim_type, github_number, reward_tier, reward_amount, claimed_at)
     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
@@ -1007,11 +1910,11 @@ export interface ReferralRow {
 }
 
 export function insertReferral(referrerId: string, referredId: string, rewardAmount: number): void {
-  const id = uuid();
+  const id = newId();
   getDb().prepare(`
     INSERT INTO referrals (id, referrer_id, referred_id, referred_at, reward_amount)
     VALUES (?, ?, ?, ?, ?)
-  `).run(id, referrerId, referredId, Date.now(), rewardAmount);
+  `).run(id, referrerId, referredId, clock.now(), rewardAmount);
 }
 
 export function getReferralCount(referrerId: string): number {
@@ -1020,7 +1923,7 @@ export function getReferralCount(referrerId: string): number {
 }
 
 export function getClaimableReferrals(referrerId: string, maturityMs: number): Array<ReferralRow & { referred_name: string }> {
-  const cutoff = Date.now() - maturityMs;
+  const cutoff = clock.now() - maturityMs;
   return getDb().prepare(`
     SELECT ref.*, r.preferred_name AS referred_name
     FROM referrals ref
@@ -1051,7 +1954,7 @@ export function getReferralStats(referrerId: string, maturityMs: number): {
   total: number; claimed: number; claimable: number; maturing: number; cap: number;
 } {
   const db = getDb();
-  const cutoff = Date.now() - maturityMs;
+  const cutoff = clock.now() - maturityMs;
   const capRow = db.prepare('SELECT referral_cap FROM residents WHERE id = ?').get(referrerId) as { referral_cap: number } | undefined;
   const cap = capRow?.referral_cap ?? 5;
   const stats = db.prepare(`
@@ -1192,7 +2095,7 @@ export function insertFeedback(
     categories ? JSON.stringify(categories) : null,
     text,
     highlights ? JSON.stringify(highlights) : null,
-    Date.now(),
+    clock.now(),
   );
 }
 
@@ -1243,7 +2146,7 @@ export function getConversationContext(
   directed: boolean;
 }> {
   const limit = Math.min(options.limit ?? 10, 50);
-  const since = options.since ?? Date.now() - 24 * 60 * 60 * 1000; // default: last 24 hours
+  const since = options.since ?? clock.now() - 24 * 60 * 60 * 1000; // default: last 24 hours
 
   return getDb().prepare(`
     SELECT
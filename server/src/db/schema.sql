@@ -48,6 +48,7 @@ CREATE TABLE IF NOT EXISTS inventory (
     item_type TEXT NOT NULL,
     quantity INTEGER NOT NULL DEFAULT 1,
     durability INTEGER NOT NULL DEFAULT -1,
+    age_game_seconds REAL NOT NULL DEFAULT 0,  -- perishables: how long the stack has been carried
     acquired_at INTEGER NOT NULL
 );
 CREATE INDEX IF NOT EXISTS idx_inventory_resident ON inventory(resident_id);
@@ -100,9 +101,37 @@ CREATE TABLE IF NOT EXISTS jobs (
     wage_per_shift INTEGER NOT NULL,
     shift_duration_hours INTEGER NOT NULL DEFAULT 8,
     max_positions INTEGER NOT NULL DEFAULT 1,
-    description TEXT NOT NULL DEFAULT ''
+    description TEXT NOT NULL DEFAULT '',
+    business_id TEXT                      -- NULL for city jobs, else the resident business paying the wage
 );
 
+-- === Resident businesses ===
+
+CREATE TABLE IF NOT EXISTS businesses (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL REFERENCES residents(id),
+    name TEXT NOT NULL,
+    building_id TEXT,                     -- workplace for its openings (NULL = outdoors)
+    description TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL DEFAULT 'active',  -- active, closed, bankrupt
+    registration_fee INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    closed_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_businesses_owner ON businesses(owner_id, status);
+
+CREATE TABLE IF NOT EXISTS business_payroll (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    business_id TEXT NOT NULL REFERENCES businesses(id),
+    job_id TEXT NOT NULL,
+    job_title TEXT NOT NULL,
+    employee_id TEXT NOT NULL REFERENCES residents(id),
+    wage_due INTEGER NOT NULL,
+    amount_paid INTEGER NOT NULL,        -- less than wage_due when the owner ran out of QUID
+    paid_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_business_payroll_business ON business_payroll(business_id);
+
 CREATE TABLE IF NOT EXISTS petitions (
     id TEXT PRIMARY KEY,
     author_id TEXT NOT NULL REFERENCES residents(id),
@@ -121,17 +150,232 @@ CREATE TABLE IF NOT EXISTS petition_votes (
     PRIMARY KEY (petition_id, resident_id)
 );
 
+-- === Policies ===
+
+CREATE TABLE IF NOT EXISTS policy_overrides (
+    key TEXT PRIMARY KEY,                -- a whitelisted policy from civic/policies.ts
+    value REAL NOT NULL,
+    petition_id TEXT REFERENCES petitions(id),
+    enacted_at INTEGER NOT NULL
+);
+
+-- === Trials ===
+
+CREATE TABLE IF NOT EXISTS trials (
+    id TEXT PRIMARY KEY,
+    defendant_id TEXT NOT NULL REFERENCES residents(id),
+    officer_id TEXT NOT NULL REFERENCES residents(id),
+    offenses TEXT NOT NULL,              -- JSON array of law ids
+    defence TEXT,                        -- the defendant's statement, if they made one
+    status TEXT NOT NULL DEFAULT 'open', -- open | guilty | acquitted | dismissed
+    opened_at REAL NOT NULL,             -- world time
+    closes_at REAL NOT NULL,             -- world time the jury's verdict is read
+    sentence_game_hours REAL,
+    closed_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_trials_status ON trials(status);
+
+CREATE TABLE IF NOT EXISTS trial_votes (
+    trial_id TEXT NOT NULL REFERENCES trials(id),
+    resident_id TEXT NOT NULL REFERENCES residents(id),
+    vote TEXT NOT NULL,                  -- guilty | not_guilty
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (trial_id, resident_id)
+);
+
+-- === Elections ===
+
+CREATE TABLE IF NOT EXISTS elections (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL DEFAULT 'registration', -- registration | voting | closed
+    opened_at REAL NOT NULL,             -- world time
+    voting_at REAL NOT NULL,             -- world time registration ends and voting opens
+    closes_at REAL NOT NULL,             -- world time the result is declared
+    winner_id TEXT REFERENCES residents(id),
+    council TEXT NOT NULL DEFAULT '[]',  -- JSON array of resident ids
+    results TEXT,                        -- JSON: instant-runoff rounds, or why there was no winner
+    term_ends_at REAL,                   -- world time the winner's term ends
+    closed_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_elections_status ON elections(status);
+
+CREATE TABLE IF NOT EXISTS election_candidates (
+    election_id TEXT NOT NULL REFERENCES elections(id),
+    resident_id TEXT NOT NULL REFERENCES residents(id),
+    platform TEXT NOT NULL,
+    last_speech TEXT,
+    registered_at INTEGER NOT NULL,
+    PRIMARY KEY (election_id, resident_id)
+);
+
+CREATE TABLE IF NOT EXISTS election_ballots (
+    election_id TEXT NOT NULL REFERENCES elections(id),
+    resident_id TEXT NOT NULL REFERENCES residents(id),
+    ranking TEXT NOT NULL,               -- JSON array of candidate ids, first choice first
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (election_id, resident_id)
+);
+
+-- === City treasury ===
+
+CREATE TABLE IF NOT EXISTS city_treasury (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    balance INTEGER NOT NULL DEFAULT 0,
+    tax_rate REAL NOT NULL DEFAULT 0,    -- sales tax on shop purchases, set by the mayor
+    last_payout_at REAL NOT NULL DEFAULT 0 -- world time the budget was last paid out
+);
+
+CREATE TABLE IF NOT EXISTS budgets (
+    id TEXT PRIMARY KEY,
+    proposed_by TEXT NOT NULL REFERENCES residents(id),
+    lines TEXT NOT NULL,                 -- JSON: { welfare, mayor_salary, council_salary } QUID per game day
+    status TEXT NOT NULL DEFAULT 'proposed', -- proposed | adopted | rejected | superseded
+    proposed_at INTEGER NOT NULL,
+    decided_at INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS budget_votes (
+    budget_id TEXT NOT NULL REFERENCES budgets(id),
+    resident_id TEXT NOT NULL REFERENCES residents(id),
+    vote TEXT NOT NULL,                  -- approve | reject
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (budget_id, resident_id)
+);
+
+-- === Wills ===
+
+CREATE TABLE IF NOT EXISTS wills (
+    resident_id TEXT PRIMARY KEY REFERENCES residents(id),
+    beneficiaries TEXT NOT NULL,     -- JSON [{ resident_id, percent }]
+    written_at INTEGER NOT NULL,
+    executed_at INTEGER              -- set when the will is carried out on death
+);
+
 -- === Shop stock ===
 
 CREATE TABLE IF NOT EXISTS shop_stock (
-    item_type TEXT PRIMARY KEY,
+    building_id TEXT NOT NULL,
+    item_type TEXT NOT NULL,
     stock INTEGER NOT NULL DEFAULT 0,
-    last_restock INTEGER NOT NULL DEFAULT 0
+    last_restock INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (building_id, item_type)
+);
+
+CREATE TABLE IF NOT EXISTS shop_price_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    building_id TEXT NOT NULL,
+    item_type TEXT NOT NULL,
+    price INTEGER NOT NULL,
+    base_price INTEGER NOT NULL,
+    stock INTEGER NOT NULL,
+    recent_volume INTEGER NOT NULL,
+    recorded_at INTEGER NOT NULL
 );
 
 -- Add shop_restock_timer column to world_state if not exists
 -- (SQLite doesn't support IF NOT EXISTS for ALTER TABLE, handled in code)
 
+-- === Bank ===
+
+CREATE TABLE IF NOT EXISTS bank_accounts (
+    resident_id TEXT PRIMARY KEY REFERENCES residents(id),
+    balance INTEGER NOT NULL DEFAULT 0,
+    opened_at INTEGER NOT NULL,
+    last_interest_at REAL NOT NULL   -- world time (game-seconds) interest was last credited
+);
+
+CREATE TABLE IF NOT EXISTS loans (
+    id TEXT PRIMARY KEY,
+    resident_id TEXT NOT NULL REFERENCES residents(id),
+    principal INTEGER NOT NULL,
+    total_due INTEGER NOT NULL,          -- principal + interest + any default penalties
+    amount_repaid INTEGER NOT NULL DEFAULT 0,
+    installment_amount INTEGER NOT NULL,
+    installments_total INTEGER NOT NULL,
+    installments_paid INTEGER NOT NULL DEFAULT 0,
+    next_due_at REAL NOT NULL,           -- world time (game-seconds) the next installment is due
+    status TEXT NOT NULL DEFAULT 'active',  -- active, defaulted, repaid, written_off
+    penalties INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    closed_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_loans_resident ON loans(resident_id, status);
+CREATE INDEX IF NOT EXISTS idx_loans_status ON loans(status);
+
+-- === Trade offers ===
+
+CREATE TABLE IF NOT EXISTS trade_offers (
+    id TEXT PRIMARY KEY,
+    from_id TEXT NOT NULL REFERENCES residents(id),
+    to_id TEXT NOT NULL REFERENCES residents(id),
+    offer_quid INTEGER NOT NULL DEFAULT 0,
+    offer_items_json TEXT NOT NULL DEFAULT '[]',  -- escrowed stacks, with their age and durability
+    request_quid INTEGER NOT NULL DEFAULT 0,
+    request_items_json TEXT NOT NULL DEFAULT '[]',
+    status TEXT NOT NULL DEFAULT 'pending',  -- pending, accepted, rejected, withdrawn, countered, expired, cancelled
+    countered_from TEXT REFERENCES trade_offers(id),
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    resolved_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS idx_trade_offers_status ON trade_offers(status);
+CREATE INDEX IF NOT EXISTS idx_trade_offers_to ON trade_offers(to_id, status);
+
+-- === Market order book ===
+
+CREATE TABLE IF NOT EXISTS market_orders (
+    id TEXT PRIMARY KEY,
+    resident_id TEXT NOT NULL REFERENCES residents(id),
+    side TEXT NOT NULL,             -- 'buy' or 'sell'
+    item_type TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    remaining INTEGER NOT NULL,
+    price INTEGER NOT NULL,         -- QUID per unit
+    status TEXT NOT NULL DEFAULT 'open',  -- open, filled, cancelled
+    escrow_json TEXT,               -- sell orders: the unsold stacks, with their age and durability
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_market_orders_book ON market_orders(item_type, side, status, price);
+CREATE INDEX IF NOT EXISTS idx_market_orders_resident ON market_orders(resident_id, status);
+
+-- === Crafting ===
+
+CREATE TABLE IF NOT EXISTS known_recipes (
+    resident_id TEXT NOT NULL REFERENCES residents(id),
+    recipe_id TEXT NOT NULL,
+    discovered_at INTEGER NOT NULL,
+    times_crafted INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (resident_id, recipe_id)
+);
+
+-- === Structures ===
+
+CREATE TABLE IF NOT EXISTS structures (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,             -- shelter, storage_chest, planted_bush
+    owner_id TEXT NOT NULL REFERENCES residents(id),
+    tile_x INTEGER NOT NULL,
+    tile_y INTEGER NOT NULL,
+    condition REAL NOT NULL DEFAULT 100,
+    contents TEXT NOT NULL DEFAULT '[]',  -- JSON stacks, storage chests only
+    built_at INTEGER NOT NULL,
+    UNIQUE(tile_x, tile_y)
+);
+CREATE INDEX IF NOT EXISTS idx_structures_owner ON structures(owner_id);
+
+-- === Lockers ===
+
+CREATE TABLE IF NOT EXISTS lockers (
+    resident_id TEXT PRIMARY KEY REFERENCES residents(id),
+    building_id TEXT NOT NULL,
+    rented_until REAL NOT NULL,      -- world time (game-seconds)
+    heir_id TEXT REFERENCES residents(id),
+    contents TEXT NOT NULL DEFAULT '[]',  -- JSON stacks
+    rent_paid INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL
+);
+
 -- === GitHub Guild ===
 
 CREATE TABLE IF NOT EXISTS github_claims (
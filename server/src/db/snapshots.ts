@@ -0,0 +1,123 @@
+/**
+ * World snapshots — a full copy of the city in a single SQLite file:
+ * residents, inventories, forage nodes, shop stock, petitions, world time,
+ * the train timer and everything else in the database, plus a
+ * `snapshot_meta` row saying what it is. The live database is flushed first
+ * so the snapshot matches the running world.
+ *
+ * Booting with `--restore-snapshot <file>` copies a snapshot over the
+ * database (keeping the old one alongside) — to roll back after a bad deploy,
+ * or with a fresh DB_PATH to fork the city for an experiment.
+ */
+
+import Database from 'better-sqlite3';
+import { existsSync, mkdirSync, renameSync, copyFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { getDb } from './database.js';
+import type { World } from '../simulation/world.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+/** Bumped when a snapshot written by this build can't be restored by an older one */
+export const SNAPSHOT_FORMAT = 1;
+
+export interface SnapshotInfo {
+  path: string;
+  format: number;
+  world_time: number;
+  created_at: number;
+  label: string;
+}
+
+export function snapshotDir(): string {
+  return process.env.SNAPSHOT_DIR || join(__dirname, '..', '..', 'snapshots');
+}
+
+/** snapshots/snapshot-2025-01-01T12-00-00-000Z.db */
+export function defaultSnapshotPath(): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return join(snapshotDir(), `snapshot-${stamp}.db`);
+}
+
+/** Save the world and copy the whole database into a new snapshot file */
+export function writeSnapshot(world: World, path: string = defaultSnapshotPath(), label = ''): SnapshotInfo {
+  if (existsSync(path)) {
+    throw new Error(`Snapshot ${path} already exists`);
+  }
+  mkdirSync(dirname(path), { recursive: true });
+
+  world.saveToDb();
+  getDb().prepare('VACUUM INTO ?').run(path);
+
+  const info: SnapshotInfo = { path, format: SNAPSHOT_FORMAT, world_time: world.worldTime, created_at: Date.now(), label };
+  const snapshot = new Database(path);
+  try {
+    snapshot.exec(`
+      CREATE TABLE snapshot_meta (
+        format INTEGER NOT NULL,
+        world_time REAL NOT NULL,
+        created_at INTEGER NOT NULL,
+        label TEXT NOT NULL DEFAULT ''
+      )
+    `);
+    snapshot.prepare('INSERT INTO snapshot_meta (format, world_time, created_at, label) VALUES (?, ?, ?, ?)')
+      .run(info.format, info.world_time, info.created_at, info.label);
+  } finally {
+    snapshot.close();
+  }
+
+  console.log(`[Snapshot] Wrote ${path} (world time ${Math.round(world.worldTime)})`);
+  return info;
+}
+
+/** What a snapshot file holds. Throws if it isn't a snapshot this build can restore. */
+export function readSnapshotInfo(path: string): SnapshotInfo {
+  if (!existsSync(path)) {
+    throw new Error(`Snapshot ${path} not found`);
+  }
+  const snapshot = new Database(path, { readonly: true, fileMustExist: true });
+  let row: Omit<SnapshotInfo, 'path'> | undefined;
+  try {
+    row = snapshot.prepare('SELECT format, world_time, created_at, label FROM snapshot_meta LIMIT 1').get() as typeof row;
+  } catch {
+    row = undefined;
+  } finally {
+    snapshot.close();
+  }
+  if (!row) {
+    throw new Error(`${path} is not a world snapshot`);
+  }
+  if (row.format > SNAPSHOT_FORMAT) {
+    throw new Error(`${path} is snapshot format ${row.format}; this build reads up to ${SNAPSHOT_FORMAT}`);
+  }
+  return { path, ...row };
+}
+
+/**
+ * Replace the database at `dbPath` with a snapshot. Call before
+ * initDatabase. An existing database (and its WAL files) is renamed to
+ * `<db>.before-restore-<time>` rather than deleted.
+ */
+export function restoreSnapshot(snapshotPath: string, dbPath: string): SnapshotInfo {
+  const info = readSnapshotInfo(snapshotPath);
+
+  if (existsSync(dbPath)) {
+    const backup = `${dbPath}.before-restore-${Date.now()}`;
+    for (const suffix of ['', '-wal', '-shm']) {
+      if (existsSync(dbPath + suffix)) renameSync(dbPath + suffix, backup + suffix);
+    }
+    console.log(`[Snapshot] Moved the current database to ${backup}`);
+  }
+  copyFileSync(snapshotPath, dbPath);
+
+  const db = new Database(dbPath);
+  try {
+    db.exec('DROP TABLE snapshot_meta');
+  } finally {
+    db.close();
+  }
+
+  console.log(`[Snapshot] Restored ${snapshotPath} (world time ${Math.round(info.world_time)}) into ${dbPath}`);
+  return info;
+}
@@ -0,0 +1,330 @@
+import {
+  GAME_DAY_SECONDS, BANK_SAVINGS_INTEREST_PER_GAME_DAY,
+  LOAN_MAX_PRINCIPAL, LOAN_INTEREST_RATE, LOAN_INSTALLMENTS,
+  LOAN_INSTALLMENT_INTERVAL_GAME_HOURS, LOAN_GRACE_GAME_HOURS, LOAN_DEFAULT_PENALTY,
+} from '@otra/shared';
+import type { ResidentEntity } from '../simulation/world.js';
+import {
+  getBankAccount, openBankAccount, updateBankBalance, getBankAccountsDueInterest, creditBankInterest,
+  createLoan, getOutstandingLoans, updateLoan, logEvent,
+} from '../db/queries.js';
+import type { LoanRow } from '../db/queries.js';
+import { clock, newId } from '../simulation/clock.js';
+
+const INSTALLMENT_INTERVAL_SEC = LOAN_INSTALLMENT_INTERVAL_GAME_HOURS * 3600;
+const GRACE_SEC = LOAN_GRACE_GAME_HOURS * 3600;
+
+export interface BankResult {
+  success: boolean;
+  message: string;
+  balance?: number;
+  loan?: LoanSummary;
+}
+
+export interface LoanSummary {
+  id: string;
+  principal: number;
+  total_due: number;
+  amount_repaid: number;
+  remaining: number;
+  installment_amount: number;
+  installments_paid: number;
+  installments_total: number;
+  next_installment_amount: number;
+  next_due_in_game_seconds: number;  // negative when overdue
+  penalties: number;
+  status: string;
+}
+
+export interface BankStatement {
+  balance: number;
+  loans: LoanSummary[];
+}
+
+/** Something the bank did on its own during a schedule check, for notifications */
+export interface BankScheduleEvent {
+  type: 'interest' | 'auto_debit' | 'loan_default' | 'loan_repaid';
+  residentId: string;
+  amount: number;
+  loanId?: string;
+}
+
+function isPositiveInteger(n: unknown): n is number {
+  return typeof n === 'number' && Number.isInteger(n) && n > 0;
+}
+
+/** Cumulative amount that must be repaid once `k` installments are covered */
+function installmentThreshold(loan: LoanRow, k: number): number {
+  if (k >= loan.installments_total) return loan.total_due;
+  return Math.min(loan.total_due, loan.installment_amount * k);
+}
+
+/** QUID still needed to cover the next installment */
+function nextInstallmentOwed(loan: LoanRow): number {
+  return Math.max(0, installmentThreshold(loan, loan.installments_paid + 1) - loan.amount_repaid);
+}
+
+export function summarizeLoan(loan: LoanRow, worldTime: number): LoanSummary {
+  return {
+    id: loan.id,
+    principal: loan.principal,
+    total_due: loan.total_due,
+    amount_repaid: loan.amount_repaid,
+    remaining: loan.total_due - loan.amount_repaid,
+    installment_amount: loan.installment_amount,
+    installments_paid: loan.installments_paid,
+    installments_total: loan.installments_total,
+    next_installment_amount: nextInstallmentOwed(loan),
+    next_due_in_game_seconds: Math.round(loan.next_due_at - worldTime),
+    penalties: loan.penalties,
+    status: loan.status,
+  };
+}
+
+/**
+ * Apply a payment to a loan, advancing the schedule for every installment
+ * it covers. A defaulted loan returns to active once the overdue
+ * installment is paid. Mutates and persists the loan.
+ */
+function applyLoanPayment(loan: LoanRow, amount: number): void {
+  loan.amount_repaid += amount;
+  let coveredInstallment = false;
+  while (loan.installments_paid < loan.installments_total
+    && loan.amount_repaid >= installmentThreshold(loan, loan.installments_paid + 1)) {
+    loan.installments_paid++;
+    loan.next_due_at += INSTALLMENT_INTERVAL_SEC;
+    coveredInstallment = true;
+  }
+  if (loan.amount_repaid >= loan.total_due) {
+    loan.status = 'repaid';
+    loan.closed_at = clock.now();
+  } else if (loan.status === 'defaulted' && coveredInstallment) {
+    loan.status = 'active';
+  }
+  updateLoan(loan);
+}
+
+export function getBankStatement(residentId: string, worldTime: number): BankStatement {
+  const account = getBankAccount(residentId);
+  return {
+    balance: account?.balance ?? 0,
+    loans: getOutstandingLoans(residentId).map(l => summarizeLoan(l, worldTime)),
+  };
+}
+
+/** Move QUID from wallet into a bank account (opened on first deposit) */
+export function deposit(resident: ResidentEntity, amount: number, worldTime: number): BankResult {
+  if (!isPositiveInteger(amount)) {
+    return { success: false, message: 'amount must be a positive integer' };
+  }
+  if (resident.wallet < amount) {
+    return { success: false, message: `Not enough QUID (have ${resident.wallet}, depositing ${amount})` };
+  }
+
+  const account = getBankAccount(resident.id) ?? openBankAccount(resident.id, worldTime);
+  const balance = account.balance + amount;
+  resident.wallet -= amount;
+  updateBankBalance(resident.id, balance);
+
+  logEvent('bank_deposit', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    amount, balance, wallet: resident.wallet,
+  });
+
+  return { success: true, message: `Deposited ${amount} QUID. Balance: ${balance} QUID.`, balance };
+}
+
+/** Move QUID from a bank account back into the wallet */
+export function withdraw(resident: ResidentEntity, amount: number): BankResult {
+  if (!isPositiveInteger(amount)) {
+    return { success: false, message: 'amount must be a positive integer' };
+  }
+  const account = getBankAccount(resident.id);
+  if (!account || account.balance < amount) {
+    return { success: false, message: `Insufficient balance (have ${account?.balance ?? 0}, withdrawing ${amount})` };
+  }
+
+  const balance = account.balance - amount;
+  resident.wallet += amount;
+  updateBankBalance(resident.id, balance);
+
+  logEvent('bank_withdraw', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    amount, balance, wallet: resident.wallet,
+  });
+
+  return { success: true, message: `Withdrew ${amount} QUID. Balance: ${balance} QUID.`, balance };
+}
+
+/**
+ * Take out a small, collateral-free loan. The principal is paid into the
+ * wallet; principal plus flat interest is repaid in equal installments.
+ * Only one loan may be outstanding at a time.
+ */
+export function takeLoan(resident: ResidentEntity, principal: number, worldTime: number): BankResult {
+  if (!isPositiveInteger(principal) || principal > LOAN_MAX_PRINCIPAL) {
+    return { success: false, message: `Loan amount must be 1-${LOAN_MAX_PRINCIPAL} QUID` };
+  }
+  const outstanding = getOutstandingLoans(resident.id);
+  if (outstanding.length > 0) {
+    const loan = outstanding[0];
+    return {
+      success: false,
+      message: `You already have an outstanding loan (${loan.total_due - loan.amount_repaid} QUID remaining). Repay it first.`,
+      loan: summarizeLoan(loan, worldTime),
+    };
+  }
+
+  const totalDue = principal + Math.ceil(principal * LOAN_INTEREST_RATE);
+  const loan = createLoan({
+    id: newId(),
+    resident_id: resident.id,
+    principal,
+    total_due: totalDue,
+    installment_amount: Math.ceil(totalDue / LOAN_INSTALLMENTS),
+    installments_total: LOAN_INSTALLMENTS,
+    next_due_at: worldTime + INSTALLMENT_INTERVAL_SEC,
+    created_at: clock.now(),
+  });
+  resident.wallet += principal;
+
+  logEvent('loan_taken', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    loan_id: loan.id, principal, total_due: totalDue, installments: LOAN_INSTALLMENTS,
+  });
+
+  const summary = summarizeLoan(loan, worldTime);
+  return {
+    success: true,
+    message: `Borrowed ${principal} QUID. Repay ${totalDue} QUID in ${LOAN_INSTALLMENTS} installments of ~${summary.installment_amount}, one every ${LOAN_INSTALLMENT_INTERVAL_GAME_HOURS} game hours. Missing one by more than ${LOAN_GRACE_GAME_HOURS} game hours is a crime.`,
+    loan: summary,
+  };
+}
+
+/** Repay (part of) the outstanding loan from the wallet. Defaults to the next installment. */
+export function repayLoan(resident: ResidentEntity, amount: number | undefined, worldTime: number): BankResult {
+  const loan = getOutstandingLoans(resident.id)[0];
+  if (!loan) {
+    return { success: false, message: 'You have no outstanding loan' };
+  }
+
+  const remaining = loan.total_due - loan.amount_repaid;
+  const requested = amount ?? nextInstallmentOwed(loan);
+  if (!isPositiveInteger(requested)) {
+    return { success: false, message: 'amount must be a positive integer' };
+  }
+  const payment = Math.min(requested, remaining);
+  if (resident.wallet < payment) {
+    return { success: false, message: `Not enough QUID (need ${payment}, have ${resident.wallet})` };
+  }
+
+  resident.wallet -= payment;
+  applyLoanPayment(loan, payment);
+
+  logEvent('loan_repayment', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    loan_id: loan.id, amount: payment, remaining: loan.total_due - loan.amount_repaid, status: loan.status,
+  });
+
+  const summary = summarizeLoan(loan, worldTime);
+  const message = loan.status === 'repaid'
+    ? `Repaid ${payment} QUID. Loan fully repaid!`
+    : `Repaid ${payment} QUID. ${summary.remaining} QUID remaining.`;
+  return { success: true, message, loan: summary };
+}
+
+/**
+ * Close a resident's dealings with the bank when they die or leave the city.
+ * Savings are paid into the wallet, which then repays outstanding loans as
+ * far as it can; whatever is still owed is written off. Done before the
+ * wallet becomes an estate (or leaves on the train).
+ */
+export function closeBankAccount(resident: ResidentEntity, reason: 'death' | 'departure'): void {
+  const account = getBankAccount(resident.id);
+  const savings = account?.balance ?? 0;
+  if (savings > 0) {
+    resident.wallet += savings;
+    updateBankBalance(resident.id, 0);
+  }
+
+  let repaid = 0;
+  let writtenOff = 0;
+  for (const loan of getOutstandingLoans(resident.id)) {
+    const payment = Math.min(resident.wallet, loan.total_due - loan.amount_repaid);
+    if (payment > 0) {
+      resident.wallet -= payment;
+      applyLoanPayment(loan, payment);
+      repaid += payment;
+    }
+    if (loan.status !== 'repaid') {
+      writtenOff += loan.total_due - loan.amount_repaid;
+      loan.status = 'written_off';
+      loan.closed_at = clock.now();
+      updateLoan(loan);
+    }
+  }
+
+  if (savings > 0 || repaid > 0 || writtenOff > 0) {
+    logEvent('bank_account_closed', resident.id, null, null, resident.x, resident.y, {
+      reason, savings, loan_repaid: repaid, loan_written_off: writtenOff,
+    });
+  }
+}
+
+/**
+ * Periodic bank housekeeping: credit savings interest for each full game
+ * day, auto-debit due installments from deposits, and default loans whose
+ * installment is more than the grace period late (adding a penalty and
+ * rolling that installment forward one interval).
+ *
+ * Returns what happened plus the set of residents currently in default,
+ * which the law system turns into a `loan_default` offense.
+ */
+export function processBankSchedules(worldTime: number): { events: BankScheduleEvent[]; defaulters: Set<string> } {
+  const events: BankScheduleEvent[] = [];
+
+  for (const account of getBankAccountsDueInterest(worldTime - GAME_DAY_SECONDS)) {
+    const days = Math.floor((worldTime - account.last_interest_at) / GAME_DAY_SECONDS);
+    if (days <= 0) continue;
+    const interest = Math.floor(account.balance * (Math.pow(1 + BANK_SAVINGS_INTEREST_PER_GAME_DAY, days) - 1));
+    creditBankInterest(account.resident_id, interest, account.last_interest_at + days * GAME_DAY_SECONDS);
+    if (interest > 0) {
+      events.push({ type: 'interest', residentId: account.resident_id, amount: interest });
+    }
+  }
+
+  const defaulters = new Set<string>();
+  for (const loan of getOutstandingLoans()) {
+    if (worldTime >= loan.next_due_at) {
+      // Installment is due — take what we can from the resident's deposits
+      const account = getBankAccount(loan.resident_id);
+      const owed = nextInstallmentOwed(loan);
+      const debit = Math.min(account?.balance ?? 0, owed);
+      if (debit > 0) {
+        updateBankBalance(loan.resident_id, account!.balance - debit);
+        applyLoanPayment(loan, debit);
+        logEvent('loan_repayment', loan.resident_id, null, null, null, null, {
+          loan_id: loan.id, amount: debit, auto_debit: true, remaining: loan.total_due - loan.amount_repaid,
+        });
+        events.push({
+          type: loan.status === 'repaid' ? 'loan_repaid' : 'auto_debit',
+          residentId: loan.resident_id, amount: debit, loanId: loan.id,
+        });
+      }
+    }
+
+    if (loan.status !== 'repaid' && worldTime > loan.next_due_at + GRACE_SEC) {
+      loan.total_due += LOAN_DEFAULT_PENALTY;
+      loan.penalties += LOAN_DEFAULT_PENALTY;
+      loan.next_due_at += INSTALLMENT_INTERVAL_SEC;
+      loan.status = 'defaulted';
+      updateLoan(loan);
+      logEvent('loan_default', loan.resident_id, null, null, null, null, {
+        loan_id: loan.id, penalty: LOAN_DEFAULT_PENALTY, remaining: loan.total_due - loan.amount_repaid,
+      });
+      events.push({ type: 'loan_default', residentId: loan.resident_id, amount: LOAN_DEFAULT_PENALTY, loanId: loan.id });
+    }
+
+    if (loan.status === 'defaulted') {
+      defaulters.add(loan.resident_id);
+    }
+  }
+
+  return { events, defaulters };
+}
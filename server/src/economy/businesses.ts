@@ -0,0 +1,304 @@
+import {
+  CITY_CONFIG, SHIFT_DURATION_GAME_HOURS, BUSINESS_REGISTRATION_FEE, BUSINESS_MAX_OPENINGS,
+  BUSINESS_MAX_POSITIONS, BUSINESS_MAX_WAGE, BUSINESS_NAME_MAX_LENGTH,
+} from '@otra/shared';
+import type { ResidentEntity } from '../simulation/world.js';
+import {
+  insertBusiness, getBusiness, getActiveBusinessForOwner, getActiveBusinesses, closeBusinessRow,
+  getBusinessJobs, insertJob, updateJobWage, deleteJob, getJob, getJobHolderIds, getJobHolderCount,
+  clearJob, insertPayroll, getPayrollTotals, logEvent,
+} from '../db/queries.js';
+import type { BusinessRow, JobRow } from '../db/queries.js';
+import { depositToTreasury } from '../civic/treasury.js';
+import { clock, newId } from '../simulation/clock.js';
+
+export interface BusinessResult {
+  success: boolean;
+  message: string;
+  business?: BusinessRow;
+  job?: JobRow;
+}
+
+export interface PayrollResult {
+  paid: number;
+  bankrupt: boolean;
+}
+
+export interface BusinessSummary {
+  id: string;
+  name: string;
+  owner_id: string;
+  owner_name: string;
+  building_id: string | null;
+  description: string;
+  created_at: number;
+  openings: Array<{ job_id: string; title: string; wage: number; positions: number; filled: number }>;
+  payroll: { shifts_paid: number; total_paid: number; total_unpaid: number };
+}
+
+/**
+ * Register a new business owned by the resident. Must be inside Council Hall.
+ * The registration fee goes to the city treasury, not into the business.
+ */
+export function registerBusiness(
+  resident: ResidentEntity,
+  name: string,
+  buildingId: string | null,
+  description: string = '',
+): BusinessResult {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > BUSINESS_NAME_MAX_LENGTH) {
+    return { success: false, message: `Business name must be 1-${BUSINESS_NAME_MAX_LENGTH} characters` };
+  }
+  if (buildingId !== null && !CITY_CONFIG.buildings.some(b => b.id === buildingId)) {
+    return { success: false, message: `Unknown building_id "${buildingId}". Omit it for an outdoor business.` };
+  }
+  const existing = getActiveBusinessForOwner(resident.id);
+  if (existing) {
+    return { success: false, message: `You already own ${existing.name}. Close it first.` };
+  }
+  if (resident.wallet < BUSINESS_REGISTRATION_FEE) {
+    return { success: false, message: `Registering a business costs ${BUSINESS_REGISTRATION_FEE} QUID (you have ${resident.wallet})` };
+  }
+
+  resident.wallet -= BUSINESS_REGISTRATION_FEE;
+  depositToTreasury(BUSINESS_REGISTRATION_FEE);
+  const business: BusinessRow = {
+    id: newId(),
+    owner_id: resident.id,
+    name: trimmed,
+    building_id: buildingId,
+    description: description.slice(0, 200),
+    status: 'active',
+    registration_fee: BUSINESS_REGISTRATION_FEE,
+    created_at: clock.now(),
+    closed_at: null,
+  };
+  insertBusiness(business);
+
+  logEvent('register_business', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    business_id: business.id, name: business.name, building_id: buildingId, fee: BUSINESS_REGISTRATION_FEE,
+  });
+
+  return {
+    success: true,
+    message: `Registered ${business.name} for ${BUSINESS_REGISTRATION_FEE} QUID. Use post_job to hire residents — wages come out of your wallet.`,
+    business,
+  };
+}
+
+/** Post a job opening for the resident's business. Wages are paid from the owner's wallet. */
+export function postJob(
+  resident: ResidentEntity,
+  title: string,
+  wage: number,
+  positions: number = 1,
+  description: string = '',
+): BusinessResult {
+  const business = getActiveBusinessForOwner(resident.id);
+  if (!business) {
+    return { success: false, message: 'You do not own a business. Use register_business first.' };
+  }
+  const trimmed = title.trim();
+  if (!trimmed || trimmed.length > BUSINESS_NAME_MAX_LENGTH) {
+    return { success: false, message: `Job title must be 1-${BUSINESS_NAME_MAX_LENGTH} characters` };
+  }
+  if (!Number.isInteger(wage) || wage < 1 || wage > BUSINESS_MAX_WAGE) {
+    return { success: false, message: `Invalid wage (1-${BUSINESS_MAX_WAGE} QUID per shift)` };
+  }
+  if (!Number.isInteger(positions) || positions < 1 || positions > BUSINESS_MAX_POSITIONS) {
+    return { success: false, message: `Invalid positions (1-${BUSINESS_MAX_POSITIONS})` };
+  }
+  if (getBusinessJobs(business.id).length >= BUSINESS_MAX_OPENINGS) {
+    return { success: false, message: `${business.name} already has ${BUSINESS_MAX_OPENINGS} job postings. Close one first.` };
+  }
+
+  const job: JobRow = {
+    id: `biz-${newId().slice(0, 8)}`,
+    title: trimmed,
+    building_id: business.building_id,
+    wage_per_shift: wage,
+    shift_duration_hours: SHIFT_DURATION_GAME_HOURS,
+    max_positions: positions,
+    description: description.slice(0, 200) || `Work for ${business.name}.`,
+    business_id: business.id,
+  };
+  insertJob(job);
+
+  logEvent('post_job', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    business_id: business.id, job_id: job.id, title: job.title, wage, positions,
+  });
+
+  return {
+    success: true,
+    message: `Posted ${job.title} at ${business.name}: ${wage} QUID per shift, ${positions} position(s). Job ID: ${job.id}`,
+    business,
+    job,
+  };
+}
+
+/** Look up one of the resident's own job postings */
+function getOwnJob(resident: ResidentEntity, jobId: string): { business: BusinessRow; job: JobRow } | string {
+  const business = getActiveBusinessForOwner(resident.id);
+  if (!business) return 'You do not own a business.';
+  const job = getJob(jobId);
+  if (!job || job.business_id !== business.id) return `No job posting "${jobId}" at ${business.name}.`;
+  return { business, job };
+}
+
+/** Change the wage of one of the owner's postings. Applies from the next completed shift. */
+export function setJobWage(resident: ResidentEntity, jobId: string, wage: number): BusinessResult {
+  const own = getOwnJob(resident, jobId);
+  if (typeof own === 'string') return { success: false, message: own };
+  if (!Number.isInteger(wage) || wage < 1 || wage > BUSINESS_MAX_WAGE) {
+    return { success: false, message: `Invalid wage (1-${BUSINESS_MAX_WAGE} QUID per shift)` };
+  }
+
+  updateJobWage(jobId, wage);
+  logEvent('set_wage', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    business_id: own.business.id, job_id: jobId, old_wage: own.job.wage_per_shift, wage,
+  });
+
+  return {
+    success: true,
+    message: `${own.job.title} now pays ${wage} QUID per shift.`,
+    business: own.business,
+    job: { ...own.job, wage_per_shift: wage },
+  };
+}
+
+/** End an employee's job because their employer withdrew it */
+function letGo(employeeId: string, residents: Map<string, ResidentEntity>, notice: string): void {
+  clearJob(employeeId);
+  const employee = residents.get(employeeId);
+  if (!employee) return;
+  employee.employment = null;
+  employee.currentJobId = null;
+  employee.shiftStartTime = null;
+  employee.shiftTasks = {};
+  employee.lastWorkTaskAt = null;
+  employee.pendingNotifications.push(notice);
+}
+
+/** Remove a job posting and let go of everyone holding it */
+function removeJob(job: JobRow, residents: Map<string, ResidentEntity>, notice: string): number {
+  const holders = getJobHolderIds(job.id);
+  for (const id of holders) {
+    letGo(id, residents, notice);
+  }
+  deleteJob(job.id);
+  return holders.length;
+}
+
+/** Close one of the owner's postings. Current holders lose the job (unpaid for any partial shift). */
+export function closeJobPosting(
+  resident: ResidentEntity,
+  jobId: string,
+  residents: Map<string, ResidentEntity>,
+): BusinessResult {
+  const own = getOwnJob(resident, jobId);
+  if (typeof own === 'string') return { success: false, message: own };
+
+  const released = removeJob(own.job, residents, `${own.business.name} closed the ${own.job.title} position. You are no longer employed.`);
+  logEvent('close_job', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    business_id: own.business.id, job_id: jobId, title: own.job.title, employees_released: released,
+  });
+
+  return { success: true, message: `Closed ${own.job.title}. ${released} employee(s) let go.`, business: own.business };
+}
+
+/** Shut a business down, closing every posting */
+function shutDown(business: BusinessRow, status: 'closed' | 'bankrupt', residents: Map<string, ResidentEntity>, notice: string): number {
+  let released = 0;
+  for (const job of getBusinessJobs(business.id)) {
+    released += removeJob(job, residents, notice);
+  }
+  closeBusinessRow(business.id, status);
+  return released;
+}
+
+/** Voluntarily close the resident's business */
+export function closeBusiness(resident: ResidentEntity, residents: Map<string, ResidentEntity>): BusinessResult {
+  const business = getActiveBusinessForOwner(resident.id);
+  if (!business) {
+    return { success: false, message: 'You do not own a business.' };
+  }
+
+  const released = shutDown(business, 'closed', residents, `${business.name} has closed. You are no longer employed.`);
+  logEvent('close_business', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    business_id: business.id, name: business.name, employees_released: released,
+  });
+
+  return { success: true, message: `Closed ${business.name}. ${released} employee(s) let go.`, business };
+}
+
+/**
+ * Pay a completed shift out of the business owner's wallet and record it in
+ * the payroll. An owner who can't cover the full wage pays what they have
+ * and the business is declared bankrupt.
+ */
+export function payBusinessWage(
+  job: JobRow,
+  employee: ResidentEntity,
+  wage: number,
+  residents: Map<string, ResidentEntity>,
+): PayrollResult {
+  const business = job.business_id ? getBusiness(job.business_id) : undefined;
+  if (!business || business.status !== 'active') return { paid: 0, bankrupt: false };
+
+  const owner = residents.get(business.owner_id);
+  const available = owner && !owner.isDead ? Math.max(0, Math.floor(owner.wallet)) : 0;
+  const paid = Math.min(wage, available);
+  if (owner) owner.wallet -= paid;
+
+  insertPayroll({
+    business_id: business.id, job_id: job.id, job_title: job.title,
+    employee_id: employee.id, wage_due: wage, amount_paid: paid,
+  });
+  logEvent('business_payroll', business.owner_id, employee.id, job.building_id, employee.x, employee.y, {
+    business_id: business.id, job_id: job.id, wage_due: wage, amount_paid: paid, owner_wallet: owner?.wallet ?? 0,
+  });
+
+  if (paid >= wage) {
+    owner?.pendingNotifications.push(`Paid ${employee.preferredName} ${paid} QUID for a shift as ${job.title} at ${business.name}.`);
+    return { paid, bankrupt: false };
+  }
+  return { paid, bankrupt: true };
+}
+
+/** Declare a business bankrupt after a payroll it couldn't cover */
+export function declareBankruptcy(businessId: string, residents: Map<string, ResidentEntity>): void {
+  const business = getBusiness(businessId);
+  if (!business || business.status !== 'active') return;
+
+  const released = shutDown(business, 'bankrupt', residents,
+    `${business.name} went bankrupt and could not pay its staff. You are no longer employed.`);
+  const owner = residents.get(business.owner_id);
+  owner?.pendingNotifications.push(
+    `${business.name} went bankrupt — you could not cover payroll. All postings are closed and ${released} employee(s) were let go.`,
+  );
+  logEvent('business_bankrupt', business.owner_id, null, business.building_id, owner?.x ?? null, owner?.y ?? null, {
+    business_id: business.id, name: business.name, employees_released: released,
+  });
+}
+
+/** Active businesses with their openings and payroll history, for the API */
+export function listBusinesses(residents: Map<string, ResidentEntity>): BusinessSummary[] {
+  return getActiveBusinesses().map(b => ({
+    id: b.id,
+    name: b.name,
+    owner_id: b.owner_id,
+    owner_name: residents.get(b.owner_id)?.preferredName ?? 'unknown',
+    building_id: b.building_id,
+    description: b.description,
+    created_at: b.created_at,
+    openings: getBusinessJobs(b.id).map(j => ({
+      job_id: j.id,
+      title: j.title,
+      wage: j.wage_per_shift,
+      positions: j.max_positions,
+      filled: getJobHolderCount(j.id),
+    })),
+    payroll: getPayrollTotals(b.id),
+  }));
+}
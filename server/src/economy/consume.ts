@@ -1,15 +1,19 @@
-import { ENERGY_COST_EAT, ENERGY_COST_DRINK } from '@otra/shared';
+import { ENERGY_COST_EAT, ENERGY_COST_DRINK, SPOILED_HEALTH_DAMAGE } from '@otra/shared';
 import type { ResidentEntity } from '../simulation/world.js';
-import { getShopItem } from './shop.js';
+import { getShopItem, isSpoiledItem } from './shop.js';
+import { potencyOf } from './spoilage.js';
 
 export interface ConsumeResult {
   success: boolean;
   message: string;
+  spoiled?: boolean;
   effects?: {
     hunger_change: number;
     thirst_change: number;
     energy_change: number;
     bladder_change: number;
+    health_change: number;
+    potency: number;
   };
 }
 
@@ -43,18 +47,31 @@ export function consumeItem(
     return { success: false, message: 'Not enough energy' };
   }
 
-  // Apply effects
+  // Apply effects — perishables lose potency as they age
+  const potency = potencyOf(shopItem, inventoryItem.age);
+  const hungerRestore = Math.round(shopItem.hunger_restore * potency);
+  const thirstRestore = Math.round(shopItem.thirst_restore * potency);
+
   resident.needs.energy -= energyCost;
-  const hungerChange = Math.min(shopItem.hunger_restore, 100 - resident.needs.hunger);
-  const thirstChange = Math.min(shopItem.thirst_restore, 100 - resident.needs.thirst);
+  const hungerChange = Math.min(hungerRestore, 100 - resident.needs.hunger);
+  const thirstChange = Math.min(thirstRestore, 100 - resident.needs.thirst);
   const energyChange = Math.min(shopItem.energy_effect, 100 - resident.needs.energy);
   const bladderChange = Math.min(shopItem.bladder_effect, 100 - resident.needs.bladder);
 
-  resident.needs.hunger = Math.min(100, resident.needs.hunger + shopItem.hunger_restore);
-  resident.needs.thirst = Math.min(100, resident.needs.thirst + shopItem.thirst_restore);
+  resident.needs.hunger = Math.min(100, resident.needs.hunger + hungerRestore);
+  resident.needs.thirst = Math.min(100, resident.needs.thirst + thirstRestore);
   resident.needs.energy = Math.min(100, resident.needs.energy + shopItem.energy_effect);
   resident.needs.bladder = Math.min(100, resident.needs.bladder + shopItem.bladder_effect);
 
+  // Spoiled food makes you ill
+  const spoiled = isSpoiledItem(inventoryItem.type);
+  let healthChange = 0;
+  if (spoiled) {
+    healthChange = -Math.min(SPOILED_HEALTH_DAMAGE, resident.needs.health);
+    resident.needs.health = Math.max(0, resident.needs.health - SPOILED_HEALTH_DAMAGE);
+    resident.lastHealthDamage = `eating ${shopItem.name.toLowerCase()}`;
+  }
+
   // Remove/decrement item
   if (inventoryItem.quantity > 1) {
     inventoryItem.quantity -= 1;
@@ -64,12 +81,17 @@ export function consumeItem(
 
   return {
     success: true,
-    message: `Consumed ${shopItem.name}`,
+    spoiled,
+    message: spoiled
+      ? `Consumed ${shopItem.name}. It was off — you feel sick (${healthChange} health).`
+      : `Consumed ${shopItem.name}`,
     effects: {
       hunger_change: hungerChange,
       thirst_change: thirstChange,
       energy_change: energyChange,
       bladder_change: bladderChange,
+      health_change: healthChange,
+      potency,
     },
   };
 }
@@ -0,0 +1,110 @@
+import type { RecipeConfig } from '@otra/shared';
+import { CITY_CONFIG, ENERGY_COST_CRAFT, CRAFT_MAX_BATCH } from '@otra/shared';
+import type { ResidentEntity } from '../simulation/world.js';
+import { insertKnownRecipe, incrementRecipeCrafted, logEvent } from '../db/queries.js';
+import { getShopItem } from './shop.js';
+import { countItemType, removeItemType, addItemType } from './inventory.js';
+
+export interface CraftResult {
+  success: boolean;
+  message: string;
+  crafted?: { item_type: string; quantity: number };
+  consumed?: Array<{ item_type: string; quantity: number }>;
+}
+
+export function getRecipe(recipeId: string): RecipeConfig | undefined {
+  return CITY_CONFIG.recipes.find(r => r.id === recipeId);
+}
+
+/** Human-readable "2x Wild Berries + 1x Spring Water → 1x Berry Juice" */
+export function describeRecipe(recipe: RecipeConfig): string {
+  const name = (itemType: string) => getShopItem(itemType)?.name ?? itemType;
+  const inputs = recipe.inputs.map(i => `${i.quantity}x ${name(i.itemType)}`).join(' + ');
+  return `${inputs} → ${recipe.output.quantity}x ${name(recipe.output.itemType)}`;
+}
+
+/** How many times the resident could make this recipe with what they're carrying */
+export function maxCraftable(resident: ResidentEntity, recipe: RecipeConfig): number {
+  return Math.min(...recipe.inputs.map(i => Math.floor(countItemType(resident, i.itemType) / i.quantity)));
+}
+
+/** Record a recipe as known and tell the resident about it */
+function learnRecipe(resident: ResidentEntity, recipe: RecipeConfig): void {
+  resident.knownRecipes.add(recipe.id);
+  insertKnownRecipe(resident.id, recipe.id);
+  resident.pendingNotifications.push(
+    `Recipe discovered: ${recipe.name} (${describeRecipe(recipe)}). Use craft with recipe_id "${recipe.id}".`,
+  );
+  logEvent('recipe_discovered', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    recipe_id: recipe.id,
+  });
+}
+
+/**
+ * Discover any recipes whose ingredients the resident is carrying for the
+ * first time. Returns the newly discovered recipes.
+ */
+export function discoverRecipes(resident: ResidentEntity): RecipeConfig[] {
+  const discovered: RecipeConfig[] = [];
+  for (const recipe of CITY_CONFIG.recipes) {
+    if (resident.knownRecipes.has(recipe.id)) continue;
+    if (maxCraftable(resident, recipe) < 1) continue;
+    learnRecipe(resident, recipe);
+    discovered.push(recipe);
+  }
+  return discovered;
+}
+
+/** Combine inventory items into the recipe's output, `quantity` times over */
+export function craftItem(resident: ResidentEntity, recipeId: string, quantity: number = 1): CraftResult {
+  if (resident.isSleeping) {
+    return { success: false, message: 'Cannot craft while sleeping' };
+  }
+  const recipe = getRecipe(recipeId);
+  if (!recipe) {
+    return { success: false, message: `Unknown recipe: ${recipeId}` };
+  }
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > CRAFT_MAX_BATCH) {
+    return { success: false, message: `Invalid quantity (1-${CRAFT_MAX_BATCH})` };
+  }
+
+  for (const input of recipe.inputs) {
+    const need = input.quantity * quantity;
+    const have = countItemType(resident, input.itemType);
+    if (have < need) {
+      const name = getShopItem(input.itemType)?.name ?? input.itemType;
+      return { success: false, message: `Not enough ${name} (have ${have}, need ${need}). Recipe: ${describeRecipe(recipe)}` };
+    }
+  }
+
+  const energyCost = ENERGY_COST_CRAFT * quantity;
+  if (resident.needs.energy < energyCost) {
+    return { success: false, message: 'Not enough energy' };
+  }
+
+  // Crafting something you hadn't noticed yet still teaches you the recipe
+  if (!resident.knownRecipes.has(recipe.id)) {
+    learnRecipe(resident, recipe);
+  }
+
+  resident.needs.energy -= energyCost;
+  const consumed = recipe.inputs.map(i => ({ item_type: i.itemType, quantity: i.quantity * quantity }));
+  for (const c of consumed) {
+    removeItemType(resident, c.item_type, c.quantity);
+  }
+  const outputQty = recipe.output.quantity * quantity;
+  addItemType(resident, recipe.output.itemType, outputQty);
+  incrementRecipeCrafted(resident.id, recipe.id, quantity);
+
+  logEvent('craft', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    recipe_id: recipe.id, quantity, output: recipe.output.itemType, output_quantity: outputQty, consumed,
+  });
+
+  const outputName = getShopItem(recipe.output.itemType)?.name ?? recipe.output.itemType;
+  return {
+    success: true,
+    message: `Crafted ${outputQty}x ${outputName}`,
+    crafted: { item_type: recipe.output.itemType, quantity: outputQty },
+    consumed,
+  };
+}
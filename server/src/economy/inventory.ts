@@ -0,0 +1,134 @@
+import type { ResidentEntity } from '../simulation/world.js';
+import { getShopItem } from './shop.js';
+import { newId } from '../simulation/clock.js';
+
+/** An inventory stack as held in memory */
+export interface HeldItem {
+  id: string;
+  type: string;
+  quantity: number;
+  durability: number;  // -1 = single use, >0 = uses left on the front item of the stack
+  age: number;         // game-seconds since acquired (perishables), quantity-weighted across a stack
+}
+
+/** Total quantity of an item type across all of a resident's stacks */
+export function countItemType(resident: ResidentEntity, itemType: string): number {
+  return resident.inventory
+    .filter(i => i.type === itemType)
+    .reduce((sum, i) => sum + i.quantity, 0);
+}
+
+/** Remove a quantity of an item type, draining stacks in order. Caller checks the count first. */
+export function removeItemType(resident: ResidentEntity, itemType: string, quantity: number): void {
+  let remaining = quantity;
+  for (const item of resident.inventory) {
+    if (remaining <= 0) break;
+    if (item.type !== itemType) continue;
+    const take = Math.min(item.quantity, remaining);
+    item.quantity -= take;
+    remaining -= take;
+  }
+  resident.inventory = resident.inventory.filter(i => i.quantity > 0);
+}
+
+/**
+ * Add items to a resident's in-memory inventory. Single-use items stack onto
+ * an existing entry of the same type, averaging the stack's age; tools with
+ * durability always get their own entry.
+ */
+export function addItemType(resident: ResidentEntity, itemType: string, quantity: number, age: number = 0): HeldItem {
+  const durability = getShopItem(itemType)?.durability ?? -1;
+  if (durability === -1) {
+    const existing = resident.inventory.find(i => i.type === itemType && i.durability === -1);
+    if (existing) {
+      existing.age = (existing.age * existing.quantity + age * quantity) / (existing.quantity + quantity);
+      existing.quantity += quantity;
+      return existing;
+    }
+  }
+  const item: HeldItem = { id: newId(), type: itemType, quantity, durability, age };
+  resident.inventory.push(item);
+  return item;
+}
+
+/**
+ * Use up one use of a tool. Returns the uses left on the item in hand
+ * (0 when it just wore out), or null if the resident has none.
+ */
+export function wearItem(resident: ResidentEntity, itemType: string): number | null {
+  const item = resident.inventory.find(i => i.type === itemType && i.durability > 0);
+  if (!item) return null;
+
+  item.durability -= 1;
+  if (item.durability > 0) return item.durability;
+
+  if (item.quantity > 1) {
+    // Next one from the stack comes out fresh
+    item.quantity -= 1;
+    item.durability = getShopItem(itemType)?.durability ?? -1;
+  } else {
+    resident.inventory = resident.inventory.filter(i => i !== item);
+  }
+  return 0;
+}
+
+/**
+ * Split up to `quantity` of an item type off a list of stacks (a resident's
+ * inventory or a container), keeping each stack's age and durability.
+ * Emptied stacks are removed from the list in place.
+ */
+export function takeStacks(stacks: HeldItem[], itemType: string, quantity: number): HeldItem[] {
+  const taken: HeldItem[] = [];
+  let remaining = quantity;
+  for (const item of stacks) {
+    if (remaining <= 0) break;
+    if (item.type !== itemType || item.quantity <= 0) continue;
+    const take = Math.min(item.quantity, remaining);
+    taken.push(take === item.quantity ? { ...item } : { ...item, id: newId(), quantity: take });
+    item.quantity -= take;
+    remaining -= take;
+  }
+  for (let i = stacks.length - 1; i >= 0; i--) {
+    if (stacks[i].quantity <= 0) stacks.splice(i, 1);
+  }
+  return taken;
+}
+
+/** Put stacks from takeStacks into another list, merging single-use items like addItemType */
+export function putStacks(stacks: HeldItem[], incoming: HeldItem[]): void {
+  for (const item of incoming) {
+    const existing = item.durability === -1
+      ? stacks.find(i => i.type === item.type && i.durability === -1)
+      : undefined;
+    if (existing) {
+      existing.age = (existing.age * existing.quantity + item.age * item.quantity) / (existing.quantity + item.quantity);
+      existing.quantity += item.quantity;
+    } else {
+      stacks.push({ ...item });
+    }
+  }
+}
+
+/**
+ * Stacks persisted as JSON (escrow, containers). Older rows that only
+ * recorded `{item_type, quantity}` come back as fresh stacks.
+ */
+export function parseStacks(json: string): HeldItem[] {
+  const lines = JSON.parse(json) as Array<HeldItem | { item_type: string; quantity: number }>;
+  return lines.map(line => 'type' in line ? line : {
+    id: newId(),
+    type: line.item_type,
+    quantity: line.quantity,
+    durability: getShopItem(line.item_type)?.durability ?? -1,
+    age: 0,
+  });
+}
+
+/** Item type and quantity of each stack, merged by type — the public view of escrowed goods */
+export function summarizeStacks(stacks: HeldItem[]): Array<{ item_type: string; quantity: number }> {
+  const merged = new Map<string, number>();
+  for (const { type, quantity } of stacks) {
+    merged.set(type, (merged.get(type) ?? 0) + quantity);
+  }
+  return Array.from(merged, ([item_type, quantity]) => ({ item_type, quantity }));
+}
@@ -1,13 +1,19 @@
-import { ENERGY_COST_WORK_PER_SEC, TIME_SCALE, SHIFT_DURATION_GAME_HOURS } from '@otra/shared';
+import type { JobTaskConfig, EmploymentStatus } from '@otra/shared';
+import {
+  CITY_CONFIG, ENERGY_COST_WORK_PER_SEC, TIME_SCALE, SHIFT_DURATION_GAME_HOURS,
+  JOB_BASE_PAY_FRACTION, WORK_TASK_COOLDOWN_GAME_MINUTES, ENERGY_COST_WORK_TASK,
+} from '@otra/shared';
 import type { ResidentEntity } from '../simulation/world.js';
-import { getJob, getJobHolderCount, getJobs, assignJob, clearJob, logEvent } from '../db/queries.js';
+import { getJob, getJobHolderCount, getJobs, assignJob, clearJob, getBusiness, logEvent } from '../db/queries.js';
 import type { JobRow } from '../db/queries.js';
+import { payBusinessWage, declareBankruptcy } from './businesses.js';
+import { stockShelves } from './shop.js';
 
 export interface ApplyJobResult {
   success: boolean;
   message: string;
   job?: JobRow;
-  available_jobs?: Array<{ id: string; title: string; building_id: string | null; wage: number; openings: number }>;
+  available_jobs?: ReturnType<typeof listAvailableJobs>;
 }
 
 export interface QuitJobResult {
@@ -15,6 +21,53 @@ export interface QuitJobResult {
   message: string;
 }
 
+export interface WorkTaskResult {
+  success: boolean;
+  message: string;
+  task?: { id: string; done: number; target: number };
+  wait_game_minutes?: number;
+}
+
+/** Task definitions for a job (empty for jobs paid just for showing up) */
+export function getJobTasks(jobId: string): JobTaskConfig[] {
+  return CITY_CONFIG.jobs.find(j => j.id === jobId)?.tasks ?? [];
+}
+
+/** Fraction of this shift's tasks done, 0-1. Jobs without tasks count as fully done. */
+export function shiftCompletion(resident: ResidentEntity): number {
+  if (!resident.currentJobId) return 0;
+  const tasks = getJobTasks(resident.currentJobId);
+  if (tasks.length === 0) return 1;
+  const sum = tasks.reduce((acc, t) => acc + Math.min(1, (resident.shiftTasks[t.id] ?? 0) / t.target), 0);
+  return sum / tasks.length;
+}
+
+/** Perception view of a resident's job, shift and task progress */
+export function describeEmployment(resident: ResidentEntity): EmploymentStatus | null {
+  if (!resident.employment) return null;
+  const status: EmploymentStatus = { job: resident.employment.job, on_shift: resident.employment.onShift };
+  const job = resident.currentJobId ? getJob(resident.currentJobId) : undefined;
+  if (job) {
+    if (job.business_id) {
+      status.employer = getBusiness(job.business_id)?.name;
+    }
+    const shiftSec = job.shift_duration_hours * 3600;
+    status.shift_progress = Math.round(Math.min(1, (resident.shiftStartTime ?? 0) / shiftSec) * 100) / 100;
+    status.tasks = getJobTasks(job.id).map(t => ({
+      id: t.id, name: t.name, action: t.action,
+      done: resident.shiftTasks[t.id] ?? 0, target: t.target,
+    }));
+    status.completion = Math.round(shiftCompletion(resident) * 100) / 100;
+  }
+  return status;
+}
+
+function resetShift(resident: ResidentEntity): void {
+  resident.shiftStartTime = null;
+  resident.shiftTasks = {};
+  resident.lastWorkTaskAt = null;
+}
+
 /**
  * Apply for a job. Must be inside Council Hall.
  */
@@ -34,6 +87,10 @@ export function applyForJob(resident: ResidentEntity, jobId: string): ApplyJobRe
     };
   }
 
+  if (job.business_id && getBusiness(job.business_id)?.owner_id === resident.id) {
+    return { success: false, message: 'You cannot hire yourself at your own business.' };
+  }
+
   // Check vacancy
   const holders = getJobHolderCount(jobId);
   if (holders >= job.max_positions) {
@@ -47,7 +104,7 @@ export function applyForJob(resident: ResidentEntity, jobId: string): ApplyJobRe
   assignJob(resident.id, jobId);
   resident.employment = { job: job.title, onShift: false };
   resident.currentJobId = jobId;
-  resident.shiftStartTime = null;
+  resetShift(resident);
 
   logEvent('apply_job', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
     job_id: jobId, job_title: job.title,
@@ -77,7 +134,7 @@ export function quitJob(resident: ResidentEntity): QuitJobResult {
 
   resident.employment = null;
   resident.currentJobId = null;
-  resident.shiftStartTime = null;
+  resetShift(resident);
 
   return { success: true, message: `Quit job: ${jobTitle}.` };
 }
@@ -88,6 +145,8 @@ export function quitJob(resident: ResidentEntity): QuitJobResult {
 export function listAvailableJobs(): Array<{
   id: string; title: string; building_id: string | null; wage: number; openings: number;
   shift_hours: number; description: string;
+  business_id?: string; employer?: string;
+  tasks: Array<{ id: string; name: string; action: string; target: number; description: string }>;
 }> {
   const jobs = getJobs();
   return jobs.map(j => {
@@ -100,6 +159,10 @@ export function listAvailableJobs(): Array<{
       shift_hours: j.shift_duration_hours,
       openings: j.max_positions - holders,
       description: j.description,
+      ...(j.business_id ? { business_id: j.business_id, employer: getBusiness(j.business_id)?.name } : {}),
+      tasks: getJobTasks(j.id).map(t => ({
+        id: t.id, name: t.name, action: t.action, target: t.target, description: t.description,
+      })),
     };
   });
 }
@@ -108,8 +171,9 @@ export function listAvailableJobs(): Array<{
  * Track shift progress for an employed resident.
  * Called from world.ts updateNeeds at 10Hz.
  * Returns wage earned this tick (usually 0, non-zero when shift completes).
+ * Business jobs are paid from the owner's wallet, looked up in `residents`.
  */
-export function updateShift(resident: ResidentEntity, dt: number): number {
+export function updateShift(resident: ResidentEntity, dt: number, residents: Map<string, ResidentEntity>): number {
   if (!resident.employment || !resident.currentJobId) return 0;
 
   const job = getJob(resident.currentJobId);
@@ -135,20 +199,40 @@ export function updateShift(resident: ResidentEntity, dt: number): number {
     // Check if shift is complete
     const shiftDurationGameSec = job.shift_duration_hours * 3600;
     if (resident.shiftStartTime >= shiftDurationGameSec) {
-      // Shift complete — pay wage
-      resident.wallet += job.wage_per_shift;
-      resident.shiftStartTime = null; // Reset for next shift
+      // Shift complete — pay the base share plus the rest in proportion to tasks done
+      const completion = shiftCompletion(resident);
+      const wageDue = Math.round(job.wage_per_shift * (JOB_BASE_PAY_FRACTION + (1 - JOB_BASE_PAY_FRACTION) * completion));
+      const payroll = job.business_id
+        ? payBusinessWage(job, resident, wageDue, residents)
+        : { paid: wageDue, bankrupt: false };
+      const wage = payroll.paid;
+      const tasks = { ...resident.shiftTasks };
+      resident.wallet += wage;
+      resetShift(resident); // Reset for next shift
       resident.employment.onShift = false;
 
       logEvent('shift_complete', resident.id, null, job.building_id, resident.x, resident.y, {
-        job_id: job.id, job_title: job.title, wage: job.wage_per_shift, wallet: resident.wallet,
+        job_id: job.id, job_title: job.title, wage, full_wage: job.wage_per_shift,
+        completion: Math.round(completion * 100) / 100, tasks, wallet: resident.wallet,
+        ...(job.business_id ? { business_id: job.business_id, wage_due: wageDue } : {}),
       });
 
-      resident.pendingNotifications.push(
-        `Shift complete! Earned ${job.wage_per_shift} QUID as ${job.title}.`
-      );
+      if (wage < wageDue) {
+        resident.pendingNotifications.push(
+          `Shift complete, but your employer could only pay ${wage} of the ${wageDue} QUID owed as ${job.title}.`
+        );
+      } else {
+        resident.pendingNotifications.push(completion >= 1
+          ? `Shift complete! Earned ${wage} QUID as ${job.title}.`
+          : `Shift complete with ${Math.round(completion * 100)}% of tasks done. Earned ${wage} of ${job.wage_per_shift} QUID as ${job.title}.`
+        );
+      }
 
-      return job.wage_per_shift;
+      if (payroll.bankrupt && job.business_id) {
+        declareBankruptcy(job.business_id, residents);
+      }
+
+      return wage;
     }
   } else {
     // Not at workplace — pause shift (don't reset, just pause)
@@ -159,3 +243,80 @@ export function updateShift(resident: ResidentEntity, dt: number): number {
 
   return 0;
 }
+
+/** Count one completion of a task this shift. Returns the new count. */
+function recordTask(resident: ResidentEntity, task: JobTaskConfig): number {
+  const done = (resident.shiftTasks[task.id] ?? 0) + 1;
+  resident.shiftTasks[task.id] = done;
+  logEvent('job_task', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    job_id: resident.currentJobId, task_id: task.id, done, target: task.target,
+  });
+  return done;
+}
+
+/**
+ * Credit a job task performed through `action`. Only counts while the
+ * resident is on shift; each matching task is capped at its target.
+ */
+export function creditJobTask(resident: ResidentEntity, action: JobTaskConfig['action']): JobTaskConfig | null {
+  if (!resident.employment?.onShift || !resident.currentJobId) return null;
+  const task = getJobTasks(resident.currentJobId)
+    .find(t => t.action === action && (resident.shiftTasks[t.id] ?? 0) < t.target);
+  if (!task) return null;
+
+  recordTask(resident, task);
+  return task;
+}
+
+/**
+ * Perform a generic 'work' task at the workplace. Defaults to the first
+ * unfinished work task when no task_id is given.
+ */
+export function performWorkTask(resident: ResidentEntity, taskId?: string): WorkTaskResult {
+  if (!resident.employment || !resident.currentJobId) {
+    return { success: false, message: 'Not employed.' };
+  }
+  const tasks = getJobTasks(resident.currentJobId).filter(t => t.action === 'work');
+  if (tasks.length === 0) {
+    return { success: false, message: `${resident.employment.job} has no work tasks.` };
+  }
+  const task = taskId
+    ? tasks.find(t => t.id === taskId)
+    : tasks.find(t => (resident.shiftTasks[t.id] ?? 0) < t.target) ?? tasks[0];
+  if (!task) {
+    return { success: false, message: `Unknown task_id "${taskId}". Tasks: ${tasks.map(t => t.id).join(', ')}` };
+  }
+  if (!resident.employment.onShift || resident.shiftStartTime === null) {
+    return { success: false, message: 'Not on shift. Go to your workplace first.' };
+  }
+  if ((resident.shiftTasks[task.id] ?? 0) >= task.target) {
+    return { success: false, message: `${task.name} is already done for this shift.` };
+  }
+
+  // Cooldown is measured in shift time, so it only runs down while working
+  const cooldownSec = WORK_TASK_COOLDOWN_GAME_MINUTES * 60;
+  if (resident.lastWorkTaskAt !== null && resident.shiftStartTime - resident.lastWorkTaskAt < cooldownSec) {
+    const wait = Math.ceil((cooldownSec - (resident.shiftStartTime - resident.lastWorkTaskAt)) / 60);
+    return { success: false, message: `Still recovering from the last task. Try again in ${wait} game minutes.`, wait_game_minutes: wait };
+  }
+  if (resident.needs.energy < ENERGY_COST_WORK_TASK) {
+    return { success: false, message: 'Not enough energy' };
+  }
+
+  resident.needs.energy -= ENERGY_COST_WORK_TASK;
+  resident.lastWorkTaskAt = resident.shiftStartTime;
+  const done = recordTask(resident, task);
+
+  let effect = '';
+  const buildingId = getJob(resident.currentJobId)?.building_id;
+  if (task.effect === 'restock' && buildingId) {
+    const stocked = stockShelves(buildingId, 1 / task.target);
+    effect = stocked.length > 0 ? ` Restocked ${stocked.join(', ')}.` : ' The shelves were already full.';
+  }
+
+  return {
+    success: true,
+    message: `${task.name}: ${done}/${task.target} this shift.${effect}`,
+    task: { id: task.id, done, target: task.target },
+  };
+}
@@ -0,0 +1,295 @@
+/**
+ * Rentable lockers at the Council Lockers. Rent is paid up front by the game
+ * day; a locker holder can stash items there and sleeps in the bunks at the
+ * sleeping-bag rate. When the holder dies or leaves the city, the contents
+ * pass to a named heir, or to the city.
+ */
+
+import {
+  GAME_DAY_SECONDS, LOCKER_RENT_PER_GAME_DAY, LOCKER_MAX_PREPAID_DAYS, LOCKER_CAPACITY,
+  type LockerStatus,
+} from '@otra/shared';
+import type { ResidentEntity, LockerEntity } from '../simulation/world.js';
+import { insertLocker, deleteLocker, logEvent } from '../db/queries.js';
+import { getShopItem } from './shop.js';
+import { countItemType, takeStacks, putStacks } from './inventory.js';
+import { toInventoryItem } from './spoilage.js';
+import { sendWebhook } from '../network/webhooks.js';
+import { clock } from '../simulation/clock.js';
+
+export interface LockerResult {
+  success: boolean;
+  message: string;
+  locker?: LockerEntity;
+}
+
+function itemCount(locker: LockerEntity): number {
+  return locker.contents.reduce((n, i) => n + i.quantity, 0);
+}
+
+/** Check a would-be heir, returning an error message or null if they're fine */
+function checkHeir(resident: ResidentEntity, heirId: string, residents: Map<string, ResidentEntity>): string | null {
+  if (heirId === resident.id) return 'You cannot name yourself as your heir.';
+  const heir = residents.get(heirId);
+  if (!heir || heir.isDead) return `No living resident "${heirId}".`;
+  return null;
+}
+
+/** Look up the resident's locker, checking they're standing in the building it's in */
+function getOwnLocker(resident: ResidentEntity): LockerEntity | string {
+  const locker = resident.locker;
+  if (!locker) return 'You do not rent a locker. Use rent_locker first.';
+  if (locker.buildingId !== resident.currentBuilding) return 'Your locker is not in this building.';
+  return locker;
+}
+
+/**
+ * Rent a locker in the current building, or extend the rent on the one the
+ * resident already has. Extending pays off any arrears first.
+ */
+export function rentLocker(
+  resident: ResidentEntity,
+  days: number = 1,
+  heirId: string | undefined,
+  residents: Map<string, ResidentEntity>,
+  worldTime: number,
+): LockerResult {
+  const buildingId = resident.currentBuilding!;
+  if (!Number.isInteger(days) || days < 1 || days > LOCKER_MAX_PREPAID_DAYS) {
+    return { success: false, message: `Invalid days (1-${LOCKER_MAX_PREPAID_DAYS})` };
+  }
+  const existing = resident.locker;
+  if (existing && existing.buildingId !== buildingId) {
+    return { success: false, message: 'You already rent a locker in another building.' };
+  }
+  if (heirId !== undefined) {
+    const bad = checkHeir(resident, heirId, residents);
+    if (bad) return { success: false, message: bad };
+  }
+
+  const paidFrom = existing ? existing.rentedUntil : worldTime;
+  const rentedUntil = paidFrom + days * GAME_DAY_SECONDS;
+  if (rentedUntil - worldTime > LOCKER_MAX_PREPAID_DAYS * GAME_DAY_SECONDS) {
+    return { success: false, message: `You can only prepay up to ${LOCKER_MAX_PREPAID_DAYS} game days of rent.` };
+  }
+  const cost = days * LOCKER_RENT_PER_GAME_DAY;
+  if (resident.wallet < cost) {
+    return { success: false, message: `${days} day(s) of rent costs ${cost} QUID (you have ${resident.wallet})` };
+  }
+
+  resident.wallet -= cost;
+  let locker: LockerEntity;
+  if (existing) {
+    locker = existing;
+    locker.rentedUntil = rentedUntil;
+    locker.rentPaid += cost;
+    locker.lapseNotified = false;
+    if (heirId !== undefined) locker.heirId = heirId;
+  } else {
+    locker = {
+      buildingId,
+      rentedUntil,
+      heirId: heirId ?? null,
+      contents: [],
+      rentPaid: cost,
+      createdAt: clock.now(),
+      lapseNotified: false,
+    };
+    insertLocker({
+      resident_id: resident.id,
+      building_id: buildingId,
+      rented_until: rentedUntil,
+      heir_id: locker.heirId,
+      contents: '[]',
+      rent_paid: cost,
+      created_at: locker.createdAt,
+    });
+    resident.locker = locker;
+  }
+
+  logEvent('rent_locker', resident.id, locker.heirId, buildingId, resident.x, resident.y, {
+    days, cost, rented_until: rentedUntil, renewed: !!existing,
+  });
+
+  const paidDays = Math.round((rentedUntil - worldTime) / GAME_DAY_SECONDS * 10) / 10;
+  return {
+    success: true,
+    message: existing
+      ? `Paid ${cost} QUID. Your locker is paid up for ${paidDays} game day(s).`
+      : `Rented a locker for ${cost} QUID (${paidDays} game day(s)). It holds ${LOCKER_CAPACITY} items, and you can sleep here at the sleeping-bag rate.`,
+    locker,
+  };
+}
+
+/** Move items from the resident's inventory into their locker. Defaults to everything of that type. */
+export function depositToLocker(
+  resident: ResidentEntity,
+  itemType: string,
+  quantity: number | undefined,
+  worldTime: number,
+): LockerResult {
+  const locker = getOwnLocker(resident);
+  if (typeof locker === 'string') return { success: false, message: locker };
+  if (locker.rentedUntil <= worldTime) {
+    return { success: false, message: 'Your rent has lapsed. Pay with rent_locker before storing anything.' };
+  }
+
+  const have = countItemType(resident, itemType);
+  const amount = quantity ?? have;
+  if (!Number.isInteger(amount) || amount < 1) {
+    return { success: false, message: have === 0 ? `You have no ${itemType}.` : 'Invalid quantity' };
+  }
+  if (have < amount) {
+    return { success: false, message: `You only have ${have}x ${itemType}.` };
+  }
+  const stored = itemCount(locker);
+  if (stored + amount > LOCKER_CAPACITY) {
+    return { success: false, message: `Your locker only has room for ${LOCKER_CAPACITY - stored} more item(s).` };
+  }
+
+  putStacks(locker.contents, takeStacks(resident.inventory, itemType, amount));
+
+  logEvent('locker_deposit', resident.id, null, locker.buildingId, resident.x, resident.y, {
+    item_type: itemType, quantity: amount,
+  });
+
+  const name = getShopItem(itemType)?.name ?? itemType;
+  return { success: true, message: `Stored ${amount}x ${name} (${stored + amount}/${LOCKER_CAPACITY}).`, locker };
+}
+
+/** Move items from the resident's locker back into their inventory. Allowed while in arrears. */
+export function withdrawFromLocker(
+  resident: ResidentEntity,
+  itemType: string,
+  quantity: number | undefined,
+): LockerResult {
+  const locker = getOwnLocker(resident);
+  if (typeof locker === 'string') return { success: false, message: locker };
+
+  const stored = locker.contents.filter(i => i.type === itemType).reduce((n, i) => n + i.quantity, 0);
+  const amount = quantity ?? stored;
+  if (!Number.isInteger(amount) || amount < 1) {
+    return { success: false, message: stored === 0 ? `There is no ${itemType} in your locker.` : 'Invalid quantity' };
+  }
+  if (stored < amount) {
+    return { success: false, message: `Your locker only holds ${stored}x ${itemType}.` };
+  }
+
+  putStacks(resident.inventory, takeStacks(locker.contents, itemType, amount));
+
+  logEvent('locker_withdraw', resident.id, null, locker.buildingId, resident.x, resident.y, {
+    item_type: itemType, quantity: amount,
+  });
+
+  const name = getShopItem(itemType)?.name ?? itemType;
+  return { success: true, message: `Took ${amount}x ${name} from your locker.`, locker };
+}
+
+/** Name who inherits the locker contents, or clear it (null) so they go to the city */
+export function setLockerHeir(
+  resident: ResidentEntity,
+  heirId: string | null,
+  residents: Map<string, ResidentEntity>,
+): LockerResult {
+  const locker = getOwnLocker(resident);
+  if (typeof locker === 'string') return { success: false, message: locker };
+  if (heirId !== null) {
+    const bad = checkHeir(resident, heirId, residents);
+    if (bad) return { success: false, message: bad };
+  }
+
+  locker.heirId = heirId;
+  logEvent('set_locker_heir', resident.id, heirId, locker.buildingId, resident.x, resident.y, {});
+
+  const heir = heirId ? residents.get(heirId) : undefined;
+  return {
+    success: true,
+    message: heir
+      ? `${heir.preferredName} will inherit your locker contents.`
+      : 'Your locker contents will go to the city when you die.',
+    locker,
+  };
+}
+
+/** Give up the locker. Contents go back into the resident's inventory; prepaid rent is not refunded. */
+export function releaseLocker(resident: ResidentEntity): LockerResult {
+  const locker = getOwnLocker(resident);
+  if (typeof locker === 'string') return { success: false, message: locker };
+
+  putStacks(resident.inventory, locker.contents);
+  deleteLocker(resident.id);
+  resident.locker = null;
+
+  logEvent('release_locker', resident.id, null, locker.buildingId, resident.x, resident.y, {
+    items_returned: itemCount(locker),
+  });
+
+  const returned = locker.contents.length > 0 ? ' Its contents are back in your inventory.' : '';
+  return { success: true, message: `Gave up your locker.${returned}`, locker };
+}
+
+/** The city takes a locker's contents and the locker is closed */
+export function forfeitLocker(resident: ResidentEntity, reason: 'death' | 'departure' | 'unpaid_rent'): void {
+  const locker = resident.locker;
+  if (!locker) return;
+
+  deleteLocker(resident.id);
+  resident.locker = null;
+  logEvent('locker_forfeited', resident.id, null, locker.buildingId, null, null, {
+    reason, items: locker.contents.map(i => ({ type: i.type, quantity: i.quantity })),
+  });
+}
+
+/**
+ * Settle the locker of a resident who has died or left the city: the contents
+ * go into their heir's inventory if the heir is still alive, otherwise to the city.
+ */
+export function settleLocker(
+  resident: ResidentEntity,
+  residents: Map<string, ResidentEntity>,
+  cause: 'death' | 'departure',
+): void {
+  const locker = resident.locker;
+  if (!locker) return;
+
+  const heir = locker.heirId ? residents.get(locker.heirId) : undefined;
+  if (!heir || heir.isDead || locker.contents.length === 0) {
+    forfeitLocker(resident, cause);
+    return;
+  }
+
+  putStacks(heir.inventory, locker.contents);
+  deleteLocker(resident.id);
+  resident.locker = null;
+
+  const items = locker.contents.map(i => ({ type: i.type, quantity: i.quantity }));
+  logEvent('locker_inherited', resident.id, heir.id, locker.buildingId, null, null, { cause, items });
+  heir.pendingNotifications.push(
+    `${resident.preferredName} ${cause === 'death' ? 'died' : 'left the city'} and left you their locker contents: ${items.map(i => `${i.quantity}x ${getShopItem(i.type)?.name ?? i.type}`).join(', ')}.`,
+  );
+  sendWebhook(heir, 'locker_inherited', {
+    from_id: resident.id,
+    from_name: resident.preferredName,
+    cause,
+    items,
+    inventory: heir.inventory.map(toInventoryItem),
+  });
+}
+
+/** The resident's locker as shown in their perception */
+export function describeLocker(
+  resident: ResidentEntity,
+  residents: Map<string, ResidentEntity>,
+  worldTime: number,
+): LockerStatus | null {
+  const locker = resident.locker;
+  if (!locker) return null;
+  return {
+    building_id: locker.buildingId,
+    rent_paid_game_hours: Math.round((locker.rentedUntil - worldTime) / 360) / 10,
+    heir_id: locker.heirId,
+    heir_name: locker.heirId ? residents.get(locker.heirId)?.preferredName ?? null : null,
+    contents: locker.contents.map(toInventoryItem),
+    capacity: LOCKER_CAPACITY,
+  };
+}
@@ -0,0 +1,271 @@
+import type { MarketOrder, MarketFill } from '@otra/shared';
+import { MARKET_MAX_OPEN_ORDERS, MARKET_MAX_ORDER_QUANTITY, MARKET_MAX_PRICE } from '@otra/shared';
+import type { ResidentEntity } from '../simulation/world.js';
+import {
+  insertMarketOrder, getMarketOrder, getCrossingMarketOrders, getOpenMarketOrders, getOpenMarketOrdersForResident,
+  countOpenMarketOrdersForResident, updateMarketOrder, getRecentMarketTrades, logEvent,
+} from '../db/queries.js';
+import type { MarketOrderRow } from '../db/queries.js';
+import { getShopItem } from './shop.js';
+import { countItemType, takeStacks, putStacks, parseStacks } from './inventory.js';
+import type { HeldItem } from './inventory.js';
+import { ageEscrow } from './spoilage.js';
+import { depositToTreasury } from '../civic/treasury.js';
+import { clock, newId } from '../simulation/clock.js';
+
+export type OrderSide = 'buy' | 'sell';
+
+export interface MarketFillResult extends MarketFill {
+  counterparty_id: string;
+  counterparty_order_id: string;
+}
+
+export interface PlaceOrderResult {
+  success: boolean;
+  message: string;
+  order?: MarketOrderRow;
+  fills?: MarketFillResult[];
+}
+
+export interface CancelOrderResult {
+  success: boolean;
+  message: string;
+  refund?: { quid: number; item_type: string | null; quantity: number };
+}
+
+/**
+ * Post a buy or sell order at the market stalls.
+ *
+ * Sell orders put the items in escrow; buy orders put quantity × price QUID
+ * in escrow. The order is matched immediately against the opposite side of
+ * the book (best price, then oldest first) and fills settle at the resting
+ * order's price. Whatever is left rests on the book until filled or cancelled.
+ */
+export function placeMarketOrder(
+  resident: ResidentEntity,
+  side: OrderSide,
+  itemType: string,
+  quantity: number,
+  price: number,
+  residents: Map<string, ResidentEntity>,
+): PlaceOrderResult {
+  if (side !== 'buy' && side !== 'sell') {
+    return { success: false, message: "side must be 'buy' or 'sell'" };
+  }
+  const itemDef = getShopItem(itemType);
+  if (!itemDef) {
+    return { success: false, message: `Unknown item type: ${itemType}` };
+  }
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MARKET_MAX_ORDER_QUANTITY) {
+    return { success: false, message: `Invalid quantity (1-${MARKET_MAX_ORDER_QUANTITY})` };
+  }
+  if (!Number.isInteger(price) || price < 1 || price > MARKET_MAX_PRICE) {
+    return { success: false, message: `Invalid price (1-${MARKET_MAX_PRICE} QUID per unit)` };
+  }
+  if (countOpenMarketOrdersForResident(resident.id) >= MARKET_MAX_OPEN_ORDERS) {
+    return { success: false, message: `Too many open orders (max ${MARKET_MAX_OPEN_ORDERS}). Cancel one first.` };
+  }
+
+  // Escrow — sell orders hold the actual stacks, keeping their age and wear
+  let escrow: HeldItem[] | null = null;
+  if (side === 'sell') {
+    const have = countItemType(resident, itemType);
+    if (have < quantity) {
+      return { success: false, message: `Not enough ${itemDef.name} (have ${have}, selling ${quantity})` };
+    }
+    escrow = takeStacks(resident.inventory, itemType, quantity);
+  } else {
+    const escrow = quantity * price;
+    if (resident.wallet < escrow) {
+      return { success: false, message: `Not enough QUID (need ${escrow}, have ${resident.wallet})` };
+    }
+    resident.wallet -= escrow;
+  }
+
+  const order = insertMarketOrder(newId(), resident.id, side, itemType, quantity, price, escrow && JSON.stringify(escrow));
+  logEvent('market_order', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    order_id: order.id, side, item_type: itemType, quantity, price,
+  });
+
+  const fills = matchOrder(order, escrow, resident, residents);
+
+  const filled = fills.reduce((sum, f) => sum + f.quantity, 0);
+  const finalOrder = getMarketOrder(order.id) ?? order;
+  let message: string;
+  if (filled === quantity) {
+    message = `${side === 'buy' ? 'Bought' : 'Sold'} ${quantity}x ${itemDef.name} on the market`;
+  } else if (filled > 0) {
+    message = `${side === 'buy' ? 'Bought' : 'Sold'} ${filled}x ${itemDef.name}; ${quantity - filled} left on the book at ${price} QUID each`;
+  } else {
+    message = `${side === 'buy' ? 'Buy' : 'Sell'} order posted: ${quantity}x ${itemDef.name} at ${price} QUID each`;
+  }
+
+  return { success: true, message, order: finalOrder, fills };
+}
+
+/** A sell order's escrowed stacks. Orders from before stacks were escrowed hold fresh items. */
+function orderEscrow(order: MarketOrderRow): HeldItem[] {
+  return parseStacks(order.escrow_json ?? JSON.stringify([{ item_type: order.item_type, quantity: order.remaining }]));
+}
+
+/** Match an incoming order (with its escrowed stacks, if selling) against the book and settle each fill. */
+function matchOrder(
+  order: MarketOrderRow,
+  escrow: HeldItem[] | null,
+  owner: ResidentEntity,
+  residents: Map<string, ResidentEntity>,
+): MarketFillResult[] {
+  const fills: MarketFillResult[] = [];
+  const oppositeSide: OrderSide = order.side === 'buy' ? 'sell' : 'buy';
+  let remaining = order.remaining;
+
+  for (const resting of getCrossingMarketOrders(order.item_type, oppositeSide, order.price)) {
+    if (remaining <= 0) break;
+    if (resting.resident_id === owner.id) continue; // no self-trades
+
+    const counterparty = residents.get(resting.resident_id);
+    if (!counterparty || counterparty.isDead) {
+      // Owner is gone — their escrow can't be settled, pull the order.
+      // QUID held for a buy goes to the city; items held for a sale are lost.
+      updateMarketOrder(resting.id, resting.remaining, 'cancelled');
+      if (resting.side === 'buy') depositToTreasury(resting.remaining * resting.price);
+      continue;
+    }
+
+    const qty = Math.min(remaining, resting.remaining);
+    const tradePrice = resting.price;
+    const total = qty * tradePrice;
+    const buyer = order.side === 'buy' ? owner : counterparty;
+    const seller = order.side === 'buy' ? counterparty : owner;
+
+    // Buyer's QUID is already in escrow at their limit price; refund any improvement
+    if (order.side === 'buy') {
+      buyer.wallet += qty * (order.price - tradePrice);
+    }
+    seller.wallet += total;
+
+    // The buyer gets the seller's escrowed stacks, aged for their time on the book
+    const sellOrder = order.side === 'sell' ? order : resting;
+    const sellEscrow = order.side === 'sell' ? escrow! : orderEscrow(resting);
+    putStacks(buyer.inventory, ageEscrow(takeStacks(sellEscrow, order.item_type, qty), sellOrder.created_at));
+
+    remaining -= qty;
+    const restingRemaining = resting.remaining - qty;
+    updateMarketOrder(resting.id, restingRemaining, restingRemaining === 0 ? 'filled' : 'open',
+      resting.side === 'sell' ? JSON.stringify(sellEscrow) : undefined);
+
+    const now = clock.now();
+    logEvent('market_trade', buyer.id, seller.id, owner.currentBuilding, owner.x, owner.y, {
+      item_type: order.item_type,
+      quantity: qty,
+      price: tradePrice,
+      buy_order_id: order.side === 'buy' ? order.id : resting.id,
+      sell_order_id: order.side === 'sell' ? order.id : resting.id,
+    });
+
+    counterparty.pendingNotifications.push(
+      `Market: your ${resting.side} order filled ${qty}x ${order.item_type} at ${tradePrice} QUID each` +
+      (restingRemaining > 0 ? ` (${restingRemaining} still open).` : '.'),
+    );
+
+    fills.push({
+      item_type: order.item_type,
+      quantity: qty,
+      price: tradePrice,
+      buyer_id: buyer.id,
+      seller_id: seller.id,
+      timestamp: now,
+      counterparty_id: counterparty.id,
+      counterparty_order_id: resting.id,
+    });
+  }
+
+  updateMarketOrder(order.id, remaining, remaining === 0 ? 'filled' : 'open', escrow ? JSON.stringify(escrow) : undefined);
+  return fills;
+}
+
+/** Close an open order and return what's left of its escrow to the owner */
+function refundOrder(resident: ResidentEntity, order: MarketOrderRow): NonNullable<CancelOrderResult['refund']> {
+  updateMarketOrder(order.id, order.remaining, 'cancelled');
+  if (order.side === 'sell') {
+    putStacks(resident.inventory, ageEscrow(orderEscrow(order), order.created_at));
+    return { quid: 0, item_type: order.item_type, quantity: order.remaining };
+  }
+  const quid = order.remaining * order.price;
+  resident.wallet += quid;
+  return { quid, item_type: null, quantity: 0 };
+}
+
+/** Cancel one of your open orders and get the escrow back. */
+export function cancelMarketOrder(resident: ResidentEntity, orderId: string): CancelOrderResult {
+  const order = getMarketOrder(orderId);
+  if (!order || order.resident_id !== resident.id) {
+    return { success: false, message: 'order_not_found' };
+  }
+  if (order.status !== 'open') {
+    return { success: false, message: `Order is already ${order.status}` };
+  }
+
+  const refund = refundOrder(resident, order);
+
+  logEvent('market_cancel', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
+    order_id: order.id, side: order.side, item_type: order.item_type, remaining: order.remaining,
+  });
+
+  return { success: true, message: 'Order cancelled. Escrow returned.', refund };
+}
+
+/**
+ * Take all of a resident's orders off the book when they die or leave the
+ * city, returning the escrow to them so it becomes part of the estate (or
+ * leaves with them).
+ */
+export function cancelMarketOrdersFor(resident: ResidentEntity): void {
+  for (const order of getOpenMarketOrdersForResident(resident.id)) {
+    refundOrder(resident, order);
+    logEvent('market_cancel', resident.id, null, null, resident.x, resident.y, {
+      order_id: order.id, side: order.side, item_type: order.item_type, remaining: order.remaining, owner_gone: true,
+    });
+  }
+}
+
+/** Open orders, grouped by item type into bids (best first) and asks (best first). */
+export function getOrderBook(itemType?: string): Record<string, { bids: MarketOrder[]; asks: MarketOrder[] }> {
+  const book: Record<string, { bids: MarketOrder[]; asks: MarketOrder[] }> = {};
+  for (const row of getOpenMarketOrders(itemType)) {
+    const entry = book[row.item_type] ??= { bids: [], asks: [] };
+    const order: MarketOrder = {
+      id: row.id,
+      side: row.side,
+      item_type: row.item_type,
+      quantity: row.quantity,
+      remaining: row.remaining,
+      price: row.price,
+      resident_id: row.resident_id,
+      resident_name: row.resident_name,
+      created_at: row.created_at,
+    };
+    if (row.side === 'buy') entry.bids.push(order);
+    else entry.asks.push(order);
+  }
+  for (const entry of Object.values(book)) {
+    entry.bids.sort((a, b) => b.price - a.price || a.created_at - b.created_at);
+    entry.asks.sort((a, b) => a.price - b.price || a.created_at - b.created_at);
+  }
+  return book;
+}
+
+/** Recent fills, newest first */
+export function getRecentFills(limit: number = 20, itemType?: string): MarketFill[] {
+  return getRecentMarketTrades(limit, itemType).map(row => {
+    const data = JSON.parse(row.data_json) as { item_type: string; quantity: number; price: number };
+    return {
+      item_type: data.item_type,
+      quantity: data.quantity,
+      price: data.price,
+      buyer_id: row.buyer_id ?? '',
+      seller_id: row.seller_id ?? '',
+      timestamp: row.timestamp,
+    };
+  });
+}
@@ -1,180 +1,155 @@
-import type { ShopItem } from '@otra/shared';
+import type { ShopItem, ItemConfig, BuildingConfig } from '@otra/shared';
+import {
+  CITY_CONFIG, getBuildingCatalog,
+  TIME_SCALE, SHOP_RESTOCK_INTERVAL_GAME_HOURS,
+  PRICE_STOCK_WEIGHT, PRICE_DEMAND_WEIGHT, PRICE_DEMAND_WINDOW_GAME_HOURS, PRICE_RESTOCK_WEIGHT, PRICE_SURPLUS_DISCOUNT,
+  PRICE_MIN_MULTIPLIER, PRICE_MAX_MULTIPLIER, SPOILED_RESTORE_FRACTION, SPOILED_HEALTH_DAMAGE,
+} from '@otra/shared';
 import type { ResidentEntity } from '../simulation/world.js';
-import { addInventoryItem, getShopStockForItem, decrementShopStock, restockAll, getShopStock, setShopStock } from '../db/queries.js';
-import { v4 as uuid } from 'uuid';
+import {
+  addInventoryItem, getShopStockForItem, decrementShopStock, restockAll, getShopStock, setShopStock,
+  getShopLastRestock, getRecentPurchaseVolume, insertShopPriceHistory, getLatestShopPrices,
+} from '../db/queries.js';
+import { addItemType } from './inventory.js';
+import { getPolicy } from '../civic/policies.js';
+import { taxOn, depositToTreasury } from '../civic/treasury.js';
+import { clock } from '../simulation/clock.js';
 
 export interface MapCatalogItem extends ShopItem {
   map_type: string;
   map_version: number;
 }
 
-export const SHOP_CATALOG: ShopItem[] = [
-  {
-    id: 'bread',
-    name: 'Bread',
-    item_type: 'bread',
-    item_kind: 'consumable',
-    price: 3,
-    hunger_restore: 30,
-    thirst_restore: 0,
-    energy_effect: 0,
-    bladder_effect: 0,
-    durability: -1,
-    description: 'A fresh loaf. Restores 30 hunger.',
-  },
-  {
-    id: 'water',
-    name: 'Water Bottle',
-    item_type: 'water',
-    item_kind: 'consumable',
-    price: 2,
-    hunger_restore: 0,
-    thirst_restore: 25,
-    energy_effect: 0,
-    bladder_effect: 5,
-    durability: -1,
-    description: 'Clean drinking water. Restores 25 thirst.',
-  },
-  {
-    id: 'full_meal',
-    name: 'Full Meal',
-    item_type: 'full_meal',
-    item_kind: 'consumable',
-    price: 6,
-    hunger_restore: 60,
-    thirst_restore: 10,
-    energy_effect: 0,
-    bladder_effect: 5,
-    durability: -1,
-    description: 'A hearty meal. Restores 60 hunger, 10 thirst.',
-  },
-  {
-    id: 'snack',
-    name: 'Snack Bar',
-    item_type: 'snack',
-    item_kind: 'consumable',
-    price: 1,
-    hunger_restore: 10,
-    thirst_restore: 0,
-    energy_effect: 0,
-    bladder_effect: 0,
-    durability: -1,
-    description: 'A quick snack. Restores 10 hunger.',
-  },
-  {
-    id: 'energy_drink',
-    name: 'Energy Drink',
-    item_type: 'energy_drink',
-    item_kind: 'consumable',
-    price: 4,
-    hunger_restore: 0,
-    thirst_restore: 20,
-    energy_effect: 15,
-    bladder_effect: 10,
-    durability: -1,
-    description: 'A caffeinated beverage. Restores 15 energy, 20 thirst.',
-  },
-  {
-    id: 'sleeping_bag',
-    name: 'Sleeping Bag',
-    item_type: 'sleeping_bag',
-    item_kind: 'equipment',
-    price: 15,
-    hunger_restore: 0,
-    thirst_restore: 0,
-    energy_effect: 0,
-    bladder_effect: 0,
-    durability: 5,
-    description: 'Sleep better. 5 uses. Doubles energy recovery rate while sleeping.',
-  },
-];
+/** Flatten an item from the city config into the catalog shape the API exposes */
+function toShopItem(item: ItemConfig): ShopItem {
+  return {
+    id: item.id,
+    name: item.name,
+    item_type: item.id,
+    item_kind: item.kind,
+    price: item.price,
+    hunger_restore: item.effects.hunger ?? 0,
+    thirst_restore: item.effects.thirst ?? 0,
+    energy_effect: item.effects.energy ?? 0,
+    bladder_effect: item.effects.bladder ?? 0,
+    durability: item.durability,
+    ...(item.shelfLifeGameHours ? { shelf_life_game_hours: item.shelfLifeGameHours } : {}),
+    description: item.description,
+  };
+}
+
+/** Every item defined in CITY_CONFIG.items */
+export const ITEM_CATALOG: ShopItem[] = CITY_CONFIG.items.map(toShopItem);
 
 // Map items are intentionally separate so map behavior can evolve independently.
-export const MAP_CATALOG: MapCatalogItem[] = [
-  {
-    id: 'city_map_basic',
-    name: 'City Survey Map',
-    item_type: 'city_map_basic',
-    item_kind: 'map',
-    price: 10,
-    hunger_restore: 0,
-    thirst_restore: 0,
-    energy_effect: 0,
-    bladder_effect: 0,
-    durability: 1,
-    description: 'A detailed city survey map.',
-    map_type: 'city_overview',
-    map_version: 1,
-  },
-];
-
-/** Max stock per item type (used for restocking) */
-export const INITIAL_STOCK: Record<string, number> = {
-  bread: 10,
-  water: 10,
-  full_meal: 5,
-  snack: 15,
-  energy_drink: 5,
-  sleeping_bag: 2,
-};
-
-/** Initialize shop stock in DB on startup (seeds if empty) */
+export const MAP_CATALOG: MapCatalogItem[] = CITY_CONFIG.items
+  .filter((i): i is ItemConfig & { map: NonNullable<ItemConfig['map']> } => i.map !== undefined)
+  .map(i => ({ ...toShopItem(i), map_type: i.map.type, map_version: i.map.version }));
+
+/** Buildings that sell anything, keyed by building ID */
+const SELLERS = new Map<string, { building: BuildingConfig; catalog: ItemConfig[] }>(
+  CITY_CONFIG.buildings
+    .map(b => [b.id, { building: b, catalog: getBuildingCatalog(b) }] as const)
+    .filter(([, seller]) => seller.catalog.length > 0),
+);
+
+/** IDs of every building that sells items */
+export function getSellerIds(): string[] {
+  return [...SELLERS.keys()];
+}
+
+/** Items sold at a building (empty if it sells nothing) */
+export function getShopCatalog(buildingId: string): ShopItem[] {
+  return SELLERS.get(buildingId)?.catalog.map(toShopItem) ?? [];
+}
+
+/** Buildings that sell an item */
+export function getItemSellers(itemType: string): BuildingConfig[] {
+  return [...SELLERS.values()]
+    .filter(s => s.catalog.some(i => i.id === itemType))
+    .map(s => s.building);
+}
+
+/** Max stock per item type at a building (used for restocking) */
+export function getRestockLevels(buildingId: string): Record<string, number> {
+  return Object.fromEntries(
+    (SELLERS.get(buildingId)?.catalog ?? [])
+      .filter(i => i.maxStock !== undefined && i.restocks !== false)
+      .map(i => [i.id, i.maxStock!]),
+  );
+}
+
+/** Items listed once at a building and never restocked (e.g. maps) */
+function getOneTimeStock(buildingId: string): Record<string, number> {
+  return Object.fromEntries(
+    (SELLERS.get(buildingId)?.catalog ?? [])
+      .filter(i => i.maxStock !== undefined && i.restocks === false)
+      .map(i => [i.id, i.maxStock!]),
+  );
+}
+
+/** Real seconds between restocks at a building */
+export function getRestockIntervalSec(buildingId: string): number {
+  const hours = SELLERS.get(buildingId)?.building.restockIntervalGameHours ?? SHOP_RESTOCK_INTERVAL_GAME_HOURS;
+  return hours * 3600 / TIME_SCALE;
+}
+
+/** Initialize stock in DB for every selling building on startup (seeds missing rows) */
 export function initShopStock(): void {
   const existing = getShopStock();
-  if (existing.length === 0) {
-    // First run — seed all items
-    restockAll(INITIAL_STOCK);
-    // One-time map listing at Tourist Information (does not restock automatically).
-    for (const mapItem of MAP_CATALOG) {
-      setShopStock(mapItem.item_type, 1);
+  let seeded = 0;
+  for (const buildingId of SELLERS.keys()) {
+    // One-time listings such as the map at Tourist Information are seeded but not restocked.
+    const levels = { ...getRestockLevels(buildingId), ...getOneTimeStock(buildingId) };
+    for (const [itemType, stock] of Object.entries(levels)) {
+      const hasRow = existing.some(row => row.building_id === buildingId && row.item_type === itemType);
+      if (!hasRow) {
+        setShopStock(buildingId, itemType, stock);
+        seeded++;
+      }
     }
-    console.log('[shop] Initialized shop stock');
-    return;
   }
-
-  // Ensure map rows exist after upgrades/migrations.
-  for (const mapItem of MAP_CATALOG) {
-    const hasRow = existing.some(row => row.item_type === mapItem.item_type);
-    if (!hasRow) {
-      setShopStock(mapItem.item_type, 1);
-    }
+  if (seeded > 0) {
+    console.log(`[shop] Initialized ${seeded} shop stock rows`);
   }
 }
 
-// Forageable items — not sold in shops, obtained by foraging wild nodes
-export const FORAGEABLE_ITEMS: ShopItem[] = [
-  {
-    id: 'wild_berries',
-    name: 'Wild Berries',
-    item_type: 'wild_berries',
-    item_kind: 'resource',
-    price: 0,
-    hunger_restore: 12,
-    thirst_restore: 5,
-    energy_effect: 0,
-    bladder_effect: 2,
-    durability: -1,
-    description: 'Foraged wild berries. Restores 12 hunger, 5 thirst.',
-  },
-  {
-    id: 'spring_water',
-    name: 'Spring Water',
-    item_type: 'spring_water',
-    item_kind: 'resource',
+const SPOILED_PREFIX = 'spoiled_';
+
+export function isSpoiledItem(itemType: string): boolean {
+  return itemType.startsWith(SPOILED_PREFIX);
+}
+
+export function spoiledItemType(itemType: string): string {
+  return SPOILED_PREFIX + itemType;
+}
+
+/** Derive the spoiled_<type> definition from a perishable item */
+function spoiledVariant(base: ShopItem): ShopItem {
+  const hunger = Math.round(base.hunger_restore * SPOILED_RESTORE_FRACTION);
+  const thirst = Math.round(base.thirst_restore * SPOILED_RESTORE_FRACTION);
+  return {
+    id: SPOILED_PREFIX + base.id,
+    name: `Spoiled ${base.name}`,
+    item_type: SPOILED_PREFIX + base.item_type,
+    item_kind: 'consumable',
     price: 0,
-    hunger_restore: 3,
-    thirst_restore: 8,
+    hunger_restore: hunger,
+    thirst_restore: thirst,
     energy_effect: 0,
-    bladder_effect: 3,
+    bladder_effect: base.bladder_effect,
     durability: -1,
-    description: 'Fresh spring water. Restores 8 thirst, 3 hunger.',
-  },
-];
+    description: `${base.name} that has gone off. Restores ${hunger} hunger, ${thirst} thirst, but costs ${SPOILED_HEALTH_DAMAGE} health.`,
+  };
+}
 
 export function getShopItem(itemType: string): ShopItem | undefined {
-  return SHOP_CATALOG.find(i => i.item_type === itemType)
-    || MAP_CATALOG.find(i => i.item_type === itemType)
-    || FORAGEABLE_ITEMS.find(i => i.item_type === itemType);
+  if (isSpoiledItem(itemType)) {
+    const base = getShopItem(itemType.slice(SPOILED_PREFIX.length));
+    return base?.shelf_life_game_hours ? spoiledVariant(base) : undefined;
+  }
+  return MAP_CATALOG.find(i => i.item_type === itemType)
+    || ITEM_CATALOG.find(i => i.item_type === itemType);
 }
 
 export function getMapItem(itemType: string): MapCatalogItem | undefined {
@@ -185,44 +160,164 @@ export function isMapItem(itemType: string): boolean {
   return MAP_CATALOG.some(i => i.item_type === itemType);
 }
 
-export function canBuyItemAtBuilding(itemType: string, buildingType: string | null | undefined): boolean {
-  if (!buildingType) return false;
-  if (isMapItem(itemType)) return buildingType === 'info';
-  return buildingType === 'shop';
+export function canBuyItemAtBuilding(itemType: string, buildingId: string | null | undefined): boolean {
+  if (!buildingId) return false;
+  return SELLERS.get(buildingId)?.catalog.some(i => i.id === itemType) ?? false;
 }
 
-/** Restock all items to their initial stock levels. Returns list of restocked item names. */
-export function restockShop(): string[] {
-  restockAll(INITIAL_STOCK);
-  const restocked: string[] = [];
-  for (const item of SHOP_CATALOG) {
-    restocked.push(item.name);
-  }
-  console.log('[shop] Restocked all items');
+/** Restock a building's items to their stock caps. Returns list of restocked item names. */
+export function restockShop(buildingId: string): string[] {
+  const levels = getRestockLevels(buildingId);
+  restockAll(buildingId, levels);
+  recordShopPrices(buildingId, undefined, true);
+  const restocked = Object.keys(levels).map(itemType => getShopItem(itemType)?.name ?? itemType);
+  console.log(`[shop] Restocked ${buildingId}`);
   return restocked;
 }
 
-/** Get current stock for a specific item type */
-export function getStockForItem(itemType: string): number {
-  return getShopStockForItem(itemType);
+/**
+ * Top up a building's shelves by `fraction` of each item's max stock, as a
+ * clerk's restock task does. Returns the names of the items that went up.
+ */
+export function stockShelves(buildingId: string, fraction: number): string[] {
+  const topped: Record<string, number> = {};
+  for (const [itemType, maxStock] of Object.entries(getRestockLevels(buildingId))) {
+    const stock = getShopStockForItem(buildingId, itemType);
+    if (stock >= maxStock) continue;
+    topped[itemType] = Math.min(maxStock, stock + Math.max(1, Math.ceil(maxStock * fraction)));
+  }
+  if (Object.keys(topped).length === 0) return [];
+  restockAll(buildingId, topped);
+  recordShopPrices(buildingId, Object.keys(topped));
+  return Object.keys(topped).map(itemType => getShopItem(itemType)?.name ?? itemType);
+}
+
+/** Get current stock for a specific item type at a building */
+export function getStockForItem(buildingId: string, itemType: string): number {
+  return getShopStockForItem(buildingId, itemType);
+}
+
+// === Dynamic pricing ===
+
+export interface PriceQuote {
+  building_id: string;
+  item_type: string;
+  base_price: number;
+  price: number;
+  stock: number;
+  max_stock: number;
+  recent_volume: number;
+}
+
+/**
+ * Quote the current price for a restockable item at a building.
+ *
+ * The catalog price is the base. It rises as stock depletes, as recent
+ * purchase volume (from the events table) approaches max stock, and slowly
+ * as time passes since the last restock. It falls below base when shelves
+ * are full and nothing is selling. Map and forageable items keep their
+ * fixed catalog price.
+ */
+export function quoteShopPrice(buildingId: string, itemType: string): PriceQuote | undefined {
+  const item = getShopItem(itemType);
+  if (!item || !canBuyItemAtBuilding(itemType, buildingId)) return undefined;
+  const basePrice = Math.round(item.price * getPolicy('shop_price_multiplier'));
+
+  const stock = getShopStockForItem(buildingId, itemType);
+  const maxStock = getRestockLevels(buildingId)[itemType];
+  if (maxStock === undefined) {
+    return {
+      building_id: buildingId, item_type: itemType, base_price: basePrice, price: basePrice,
+      stock, max_stock: stock, recent_volume: 0,
+    };
+  }
+
+  const now = clock.now();
+  const demandWindowMs = PRICE_DEMAND_WINDOW_GAME_HOURS * 3600 / TIME_SCALE * 1000;
+  const restockIntervalMs = getRestockIntervalSec(buildingId) * 1000;
+  const recentVolume = getRecentPurchaseVolume(buildingId, itemType, now - demandWindowMs);
+  const sinceRestock = now - getShopLastRestock(buildingId, itemType);
+
+  const depletion = maxStock > 0 ? 1 - Math.min(stock, maxStock) / maxStock : 0;
+  const demand = maxStock > 0 ? Math.min(1, recentVolume / maxStock) : 0;
+  const staleness = Math.min(1, Math.max(0, sinceRestock / restockIntervalMs));
+
+  const multiplier = Math.min(PRICE_MAX_MULTIPLIER, Math.max(PRICE_MIN_MULTIPLIER,
+    (1 + PRICE_STOCK_WEIGHT * depletion)
+    * (1 + PRICE_DEMAND_WEIGHT * demand)
+    * (1 + PRICE_RESTOCK_WEIGHT * staleness)
+    * (1 - PRICE_SURPLUS_DISCOUNT * (1 - depletion) * (1 - demand))));
+
+  return {
+    building_id: buildingId,
+    item_type: itemType,
+    base_price: basePrice,
+    price: Math.max(1, Math.round(basePrice * multiplier)),
+    stock,
+    max_stock: maxStock,
+    recent_volume: recentVolume,
+  };
+}
+
+/** Current price for an item at a building (falls back to the catalog price) */
+export function getCurrentPrice(buildingId: string, itemType: string): number {
+  return quoteShopPrice(buildingId, itemType)?.price ?? getShopItem(itemType)?.price ?? 0;
 }
 
-/** Get catalog items with current stock counts */
-export function getShopCatalogWithStock(): Array<ShopItem & { stock: number }> {
-  return SHOP_CATALOG.map(item => ({
-    ...item,
-    stock: getShopStockForItem(item.item_type),
-  }));
+// Last price written to shop_price_history per building/item, so unchanged prices aren't re-recorded
+const lastRecordedPrice = new Map<string, number>();
+
+/**
+ * Append a price history row for each restockable item whose price changed
+ * since the last sample. Pass a building and/or item types to limit the
+ * check; `force` records even unchanged prices (used on restock).
+ */
+export function recordShopPrices(buildingId?: string, itemTypes?: string[], force: boolean = false): void {
+  if (lastRecordedPrice.size === 0) {
+    for (const row of getLatestShopPrices()) {
+      lastRecordedPrice.set(`${row.building_id}:${row.item_type}`, row.price);
+    }
+  }
+  for (const sellerId of buildingId ? [buildingId] : SELLERS.keys()) {
+    const levels = getRestockLevels(sellerId);
+    for (const itemType of itemTypes ?? Object.keys(levels)) {
+      if (levels[itemType] === undefined) continue;
+      const quote = quoteShopPrice(sellerId, itemType);
+      if (!quote) continue;
+      const key = `${sellerId}:${itemType}`;
+      if (!force && lastRecordedPrice.get(key) === quote.price) continue;
+      insertShopPriceHistory(sellerId, itemType, quote.price, quote.base_price, quote.stock, quote.recent_volume);
+      lastRecordedPrice.set(key, quote.price);
+    }
+  }
+}
+
+/** Get a building's catalog with current stock counts and prices */
+export function getShopCatalogWithStock(buildingId: string): Array<ShopItem & { stock: number; base_price: number }> {
+  return getShopCatalog(buildingId).map(item => {
+    const quote = quoteShopPrice(buildingId, item.item_type);
+    return {
+      ...item,
+      price: quote?.price ?? item.price,
+      base_price: quote?.base_price ?? item.price,
+      stock: quote?.stock ?? getShopStockForItem(buildingId, item.item_type),
+    };
+  });
 }
 
 export interface BuyResult {
   success: boolean;
   message: string;
   item?: { id: string; type: string; quantity: number };
+  unitPrice?: number;
+  totalCost?: number;
+  tax?: number;
 }
 
+/** Buy from the stock of the building the resident is standing in */
 export function buyItem(
   resident: ResidentEntity,
+  buildingId: string,
   itemType: string,
   quantity: number
 ): BuyResult {
@@ -236,7 +331,7 @@ export function buyItem(
   }
 
   // Check stock
-  const currentStock = getShopStockForItem(itemType);
+  const currentStock = getShopStockForItem(buildingId, itemType);
   if (currentStock < quantity) {
     if (currentStock === 0) {
       return { success: false, message: `${shopItem.name} is out of stock` };
@@ -244,43 +339,34 @@ export function buyItem(
     return { success: false, message: `Not enough stock (${currentStock} remaining, requested ${quantity})` };
   }
 
-  const totalCost = shopItem.price * quantity;
+  const unitPrice = getCurrentPrice(buildingId, itemType);
+  const tax = taxOn(unitPrice * quantity);
+  const totalCost = unitPrice * quantity + tax;
   if (resident.wallet < totalCost) {
     return { success: false, message: `Not enough QUID (need ${totalCost}, have ${resident.wallet})` };
   }
 
   // Deduct stock
-  if (!decrementShopStock(itemType, quantity)) {
+  if (!decrementShopStock(buildingId, itemType, quantity)) {
     return { success: false, message: `${shopItem.name} is out of stock` };
   }
 
-  // Deduct cost
+  // Deduct cost; the sales tax goes to the city treasury
   resident.wallet -= totalCost;
+  depositToTreasury(tax);
 
   // Add to in-memory inventory
-  const existingItem = resident.inventory.find(
-    i => i.type === itemType && shopItem.durability === -1
-  );
-
-  let itemId: string;
-  if (existingItem && shopItem.durability === -1) {
-    existingItem.quantity += quantity;
-    itemId = existingItem.id;
-  } else {
-    itemId = uuid();
-    resident.inventory.push({
-      id: itemId,
-      type: itemType,
-      quantity,
-    });
-  }
+  const itemId = addItemType(resident, itemType, quantity).id;
 
   // Also persist to DB
   addInventoryItem(resident.id, itemType, quantity, shopItem.durability);
 
   return {
     success: true,
-    message: `Bought ${quantity}x ${shopItem.name} for ${totalCost} QUID`,
+    message: `Bought ${quantity}x ${shopItem.name} for ${totalCost} QUID${tax > 0 ? ` (including ${tax} tax)` : ''}`,
     item: { id: itemId, type: itemType, quantity },
+    unitPrice,
+    totalCost,
+    tax,
   };
 }
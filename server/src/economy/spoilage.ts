@@ -0,0 +1,87 @@
+import type { InventoryItem, ShopItem } from '@otra/shared';
+import { SPOILAGE_FRESH_FRACTION, SPOILAGE_MIN_POTENCY, TIME_SCALE } from '@otra/shared';
+import type { ResidentEntity } from '../simulation/world.js';
+import type { HeldItem } from './inventory.js';
+import { getShopItem, spoiledItemType } from './shop.js';
+import { clock } from '../simulation/clock.js';
+
+export interface SpoiledStack {
+  itemType: string;
+  spoiledType: string;
+  quantity: number;
+}
+
+/**
+ * Effect multiplier for a perishable of the given age (game-seconds).
+ * Full strength for the first part of its shelf life, then fading
+ * linearly down to SPOILAGE_MIN_POTENCY just before it spoils.
+ */
+export function potencyOf(def: ShopItem, age: number): number {
+  if (!def.shelf_life_game_hours) return 1;
+  const fraction = age / (def.shelf_life_game_hours * 3600);
+  if (fraction <= SPOILAGE_FRESH_FRACTION) return 1;
+  const fade = Math.min(1, (fraction - SPOILAGE_FRESH_FRACTION) / (1 - SPOILAGE_FRESH_FRACTION));
+  return 1 - fade * (1 - SPOILAGE_MIN_POTENCY);
+}
+
+/** Public view of an inventory stack, with wear and freshness for planning */
+export function toInventoryItem(item: HeldItem): InventoryItem {
+  const view: InventoryItem = { id: item.id, type: item.type, quantity: item.quantity };
+  if (item.durability > 0) {
+    view.durability = item.durability;
+  }
+  const def = getShopItem(item.type);
+  if (def?.shelf_life_game_hours) {
+    view.spoils_in_game_hours = Math.max(0, Math.round((def.shelf_life_game_hours - item.age / 3600) * 10) / 10);
+    view.potency = Math.round(potencyOf(def, item.age) * 100) / 100;
+  }
+  return view;
+}
+
+/**
+ * Age every perishable stack in a list by `gameSeconds`. Stacks past their
+ * shelf life turn into spoiled_<type> (merging into an existing spoiled
+ * stack). Returns the stacks that spoiled this call.
+ */
+export function ageStacks(stacks: HeldItem[], gameSeconds: number): SpoiledStack[] {
+  const spoiled: SpoiledStack[] = [];
+  for (const item of stacks) {
+    const def = getShopItem(item.type);
+    if (!def?.shelf_life_game_hours) continue;
+
+    item.age += gameSeconds;
+    if (item.age < def.shelf_life_game_hours * 3600) continue;
+
+    const spoiledType = spoiledItemType(item.type);
+    spoiled.push({ itemType: item.type, spoiledType, quantity: item.quantity });
+    const existing = stacks.find(i => i.type === spoiledType);
+    if (existing) {
+      existing.quantity += item.quantity;
+      item.quantity = 0;
+    } else {
+      item.type = spoiledType;
+      item.age = 0;
+    }
+  }
+  if (spoiled.length > 0) {
+    for (let i = stacks.length - 1; i >= 0; i--) {
+      if (stacks[i].quantity <= 0) stacks.splice(i, 1);
+    }
+  }
+  return spoiled;
+}
+
+/**
+ * Catch up escrowed stacks on the time they spent out of anyone's hands:
+ * game time since `escrowedAt` (clock ms). Ages are kept as of escrow, so
+ * this is applied to each part of the escrow as it is released.
+ */
+export function ageEscrow(stacks: HeldItem[], escrowedAt: number): HeldItem[] {
+  ageStacks(stacks, Math.max(0, (clock.now() - escrowedAt) / 1000) * TIME_SCALE);
+  return stacks;
+}
+
+/** Age everything a resident is carrying — see ageStacks */
+export function ageInventory(resident: ResidentEntity, gameSeconds: number): SpoiledStack[] {
+  return ageStacks(resident.inventory, gameSeconds);
+}
@@ -0,0 +1,432 @@
+import type { TradeItem, TradeOffer } from '@otra/shared';
+import { TRADE_OFFER_TIMEOUT_MS, TRADE_MAX_PENDING_OFFERS } from '@otra/shared';
+import type { ResidentEntity } from '../simulation/world.js';
+import {
+  insertTradeOffer, getPendingTradeOffers, resolveTradeOffer, logEvent,
+} from '../db/queries.js';
+import { countItemType, takeStacks, putStacks, parseStacks, summarizeStacks } from './inventory.js';
+import type { HeldItem } from './inventory.js';
+import { ageEscrow } from './spoilage.js';
+import { depositToTreasury } from '../civic/treasury.js';
+import { clock, newId } from '../simulation/clock.js';
+
+const MAX_TRADE_LINES = 10;
+
+export interface TradeTerms {
+  offer_quid?: number;
+  request_quid?: number;
+  offer_items?: Array<{ item_id: string; quantity: number }>;
+  request_items?: TradeItem[];
+}
+
+export interface PendingTradeOffer {
+  id: string;
+  fromId: string;
+  toId: string;
+  offerQuid: number;
+  offerItems: TradeItem[];   // summary of `escrow`
+  escrow: HeldItem[];        // the offered stacks, out of the offerer's inventory with their age and wear
+  requestQuid: number;
+  requestItems: TradeItem[];
+  counteredFrom: string | null;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface TradeResult {
+  success: boolean;
+  message: string;
+  offer?: PendingTradeOffer;
+}
+
+// Pending offers, keyed by offer ID. The DB row is the durable copy;
+// this map is what perception and the expiry tick read from.
+const pendingOffers = new Map<string, PendingTradeOffer>();
+
+/** Load pending offers (and their escrow) from the DB on startup */
+export function loadTradeOffers(): void {
+  pendingOffers.clear();
+  for (const row of getPendingTradeOffers()) {
+    const escrow = parseStacks(row.offer_items_json);
+    pendingOffers.set(row.id, {
+      id: row.id,
+      fromId: row.from_id,
+      toId: row.to_id,
+      offerQuid: row.offer_quid,
+      offerItems: summarizeStacks(escrow),
+      escrow,
+      requestQuid: row.request_quid,
+      requestItems: JSON.parse(row.request_items_json) as TradeItem[],
+      counteredFrom: row.countered_from,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+    });
+  }
+  if (pendingOffers.size > 0) {
+    console.log(`[Trades] Loaded ${pendingOffers.size} pending trade offers`);
+  }
+}
+
+export function getTradeOffer(offerId: string): PendingTradeOffer | undefined {
+  return pendingOffers.get(offerId);
+}
+
+/** Hand over an offer's escrowed stacks, aged for the time they spent in escrow */
+function releaseEscrow(offer: PendingTradeOffer, to: ResidentEntity): void {
+  putStacks(to.inventory, ageEscrow(offer.escrow, offer.createdAt));
+}
+
+function isNonNegativeInteger(n: unknown): n is number {
+  return typeof n === 'number' && Number.isInteger(n) && n >= 0;
+}
+
+function isPositiveInteger(n: unknown): n is number {
+  return typeof n === 'number' && Number.isInteger(n) && n > 0;
+}
+
+/** Merge duplicate lines so each item type appears once */
+function mergeItems(items: TradeItem[]): TradeItem[] {
+  const merged = new Map<string, number>();
+  for (const { item_type, quantity } of items) {
+    merged.set(item_type, (merged.get(item_type) ?? 0) + quantity);
+  }
+  return Array.from(merged, ([item_type, quantity]) => ({ item_type, quantity }));
+}
+
+function describeSide(quid: number, items: TradeItem[]): string {
+  const parts = items.map(i => `${i.quantity}x ${i.item_type}`);
+  if (quid > 0) parts.unshift(`${quid} QUID`);
+  return parts.length > 0 ? parts.join(', ') : 'nothing';
+}
+
+/** One-line summary of an offer, e.g. "3 QUID, 1x bread for 2x wild_berries" */
+export function describeTradeOffer(offer: PendingTradeOffer): string {
+  return `${describeSide(offer.offerQuid, offer.offerItems)} for ${describeSide(offer.requestQuid, offer.requestItems)}`;
+}
+
+/**
+ * Return an offer's escrow to the offerer. If they are no longer around, the
+ * QUID goes to the city treasury and the items are lost.
+ */
+function refundEscrow(offer: PendingTradeOffer, offerer: ResidentEntity | undefined): void {
+  if (!offerer || offerer.isDead) {
+    depositToTreasury(offer.offerQuid);
+    return;
+  }
+  offerer.wallet += offer.offerQuid;
+  releaseEscrow(offer, offerer);
+}
+
+function closeOffer(offer: PendingTradeOffer, status: string): void {
+  pendingOffers.delete(offer.id);
+  resolveTradeOffer(offer.id, status);
+}
+
+/**
+ * Propose a trade to another resident. The offered QUID and items are
+ * taken out of the offerer's wallet/inventory and held in escrow until the
+ * target accepts, rejects or counters, or the offer times out.
+ */
+export function createTradeOffer(
+  from: ResidentEntity,
+  to: ResidentEntity,
+  terms: TradeTerms,
+  counteredFrom: string | null = null,
+): TradeResult {
+  const offerQuid = terms.offer_quid ?? 0;
+  const requestQuid = terms.request_quid ?? 0;
+  const offerLines = terms.offer_items ?? [];
+  const requestLines = terms.request_items ?? [];
+
+  if (from.id === to.id) {
+    return { success: false, message: 'Cannot trade with yourself' };
+  }
+  if (!isNonNegativeInteger(offerQuid) || !isNonNegativeInteger(requestQuid)) {
+    return { success: false, message: 'offer_quid and request_quid must be non-negative integers' };
+  }
+  if (!Array.isArray(offerLines) || !Array.isArray(requestLines)) {
+    return { success: false, message: 'offer_items and request_items must be arrays' };
+  }
+  if (offerLines.length > MAX_TRADE_LINES || requestLines.length > MAX_TRADE_LINES) {
+    return { success: false, message: `At most ${MAX_TRADE_LINES} item lines per side` };
+  }
+  for (const line of offerLines) {
+    if (!line || typeof line.item_id !== 'string' || !isPositiveInteger(line.quantity)) {
+      return { success: false, message: 'Each offer_items entry needs an item_id and a positive integer quantity' };
+    }
+  }
+  for (const line of requestLines) {
+    if (!line || typeof line.item_type !== 'string' || !line.item_type || !isPositiveInteger(line.quantity)) {
+      return { success: false, message: 'Each request_items entry needs an item_type and a positive integer quantity' };
+    }
+  }
+  if (offerQuid === 0 && requestQuid === 0 && offerLines.length === 0 && requestLines.length === 0) {
+    return { success: false, message: 'A trade offer must include something' };
+  }
+
+  const outgoing = Array.from(pendingOffers.values()).filter(o => o.fromId === from.id).length;
+  if (outgoing >= TRADE_MAX_PENDING_OFFERS) {
+    return { success: false, message: `Too many pending offers (max ${TRADE_MAX_PENDING_OFFERS}). Wait for them to resolve.` };
+  }
+
+  // Resolve offered inventory item IDs to item types, summing repeated IDs
+  const offeredById = new Map<string, number>();
+  for (const line of offerLines) {
+    offeredById.set(line.item_id, (offeredById.get(line.item_id) ?? 0) + line.quantity);
+  }
+  for (const [itemId, quantity] of offeredById) {
+    const item = from.inventory.find(i => i.id === itemId);
+    if (!item) {
+      return { success: false, message: `item_not_found: ${itemId}` };
+    }
+    if (item.quantity < quantity) {
+      return { success: false, message: `Not enough ${item.type} (have ${item.quantity}, offering ${quantity})` };
+    }
+  }
+  if (from.wallet < offerQuid) {
+    return { success: false, message: `Not enough QUID (need ${offerQuid}, have ${from.wallet})` };
+  }
+
+  // Move the offered side into escrow, stacks keeping their age and wear
+  from.wallet -= offerQuid;
+  const escrow: HeldItem[] = [];
+  for (const [itemId, quantity] of offeredById) {
+    const item = from.inventory.find(i => i.id === itemId)!;
+    escrow.push(quantity === item.quantity ? { ...item } : { ...item, id: newId(), quantity });
+    item.quantity -= quantity;
+  }
+  from.inventory = from.inventory.filter(i => i.quantity > 0);
+
+  const now = clock.now();
+  const offer: PendingTradeOffer = {
+    id: newId(),
+    fromId: from.id,
+    toId: to.id,
+    offerQuid,
+    offerItems: summarizeStacks(escrow),
+    escrow,
+    requestQuid,
+    requestItems: mergeItems(requestLines.map(l => ({ item_type: l.item_type, quantity: l.quantity }))),
+    counteredFrom,
+    createdAt: now,
+    expiresAt: now + TRADE_OFFER_TIMEOUT_MS,
+  };
+  pendingOffers.set(offer.id, offer);
+  insertTradeOffer({
+    id: offer.id,
+    from_id: offer.fromId,
+    to_id: offer.toId,
+    offer_quid: offer.offerQuid,
+    offer_items_json: JSON.stringify(offer.escrow),
+    request_quid: offer.requestQuid,
+    request_items_json: JSON.stringify(offer.requestItems),
+    countered_from: offer.counteredFrom,
+    created_at: offer.createdAt,
+    expires_at: offer.expiresAt,
+  });
+
+  logEvent('trade_offer', from.id, to.id, null, from.x, from.y, {
+    offer_id: offer.id,
+    offer_quid: offer.offerQuid,
+    offer_items: offer.offerItems,
+    request_quid: offer.requestQuid,
+    request_items: offer.requestItems,
+    countered_from: offer.counteredFrom,
+  });
+
+  return {
+    success: true,
+    message: `Offered ${describeTradeOffer(offer)} to ${to.preferredName}`,
+    offer,
+  };
+}
+
+/**
+ * Accept an incoming offer. The acceptor must hold the requested QUID and
+ * items; both sides are exchanged atomically and the escrow is released.
+ */
+export function acceptTradeOffer(
+  resident: ResidentEntity,
+  offerId: string,
+  residents: Map<string, ResidentEntity>,
+): TradeResult {
+  const offer = pendingOffers.get(offerId);
+  if (!offer || offer.toId !== resident.id) {
+    return { success: false, message: 'offer_not_found' };
+  }
+
+  const offerer = residents.get(offer.fromId);
+  if (!offerer || offerer.isDead) {
+    refundEscrow(offer, offerer);
+    closeOffer(offer, 'expired');
+    return { success: false, message: 'The offering resident is no longer available' };
+  }
+
+  if (resident.wallet < offer.requestQuid) {
+    return { success: false, message: `Not enough QUID (need ${offer.requestQuid}, have ${resident.wallet})` };
+  }
+  for (const item of offer.requestItems) {
+    const have = countItemType(resident, item.item_type);
+    if (have < item.quantity) {
+      return { success: false, message: `Not enough ${item.item_type} (need ${item.quantity}, have ${have})` };
+    }
+  }
+
+  // Acceptor pays the requested side to the offerer
+  resident.wallet -= offer.requestQuid;
+  offerer.wallet += offer.requestQuid;
+  for (const item of offer.requestItems) {
+    putStacks(offerer.inventory, takeStacks(resident.inventory, item.item_type, item.quantity));
+  }
+
+  // Escrow is released to the acceptor
+  resident.wallet += offer.offerQuid;
+  releaseEscrow(offer, resident);
+
+  closeOffer(offer, 'accepted');
+
+  logEvent('trade_accepted', offerer.id, resident.id, null, resident.x, resident.y, {
+    offer_id: offer.id,
+    offer_quid: offer.offerQuid,
+    offer_items: offer.offerItems,
+    request_quid: offer.requestQuid,
+    request_items: offer.requestItems,
+  });
+
+  return {
+    success: true,
+    message: `Trade complete with ${offerer.preferredName}: received ${describeSide(offer.offerQuid, offer.offerItems)}, gave ${describeSide(offer.requestQuid, offer.requestItems)}`,
+    offer,
+  };
+}
+
+/**
+ * Reject an incoming offer, or withdraw one's own outgoing offer.
+ * The escrow is returned to the offerer either way.
+ */
+export function rejectTradeOffer(
+  resident: ResidentEntity,
+  offerId: string,
+  residents: Map<string, ResidentEntity>,
+): TradeResult {
+  const offer = pendingOffers.get(offerId);
+  if (!offer || (offer.toId !== resident.id && offer.fromId !== resident.id)) {
+    return { success: false, message: 'offer_not_found' };
+  }
+
+  const withdrawn = offer.fromId === resident.id;
+  refundEscrow(offer, residents.get(offer.fromId));
+  closeOffer(offer, withdrawn ? 'withdrawn' : 'rejected');
+
+  logEvent(withdrawn ? 'trade_withdrawn' : 'trade_rejected', resident.id,
+    withdrawn ? offer.toId : offer.fromId, null, resident.x, resident.y, {
+      offer_id: offer.id,
+    });
+
+  return {
+    success: true,
+    message: withdrawn ? 'Trade offer withdrawn. Escrow returned.' : 'Trade offer rejected.',
+    offer,
+  };
+}
+
+/**
+ * Counter an incoming offer with new terms. The original offer is closed and
+ * its escrow returned; the counter is a fresh offer in the other direction
+ * with the counter-proposer's side held in escrow.
+ */
+export function counterTradeOffer(
+  resident: ResidentEntity,
+  offerId: string,
+  terms: TradeTerms,
+  residents: Map<string, ResidentEntity>,
+): TradeResult {
+  const original = pendingOffers.get(offerId);
+  if (!original || original.toId !== resident.id) {
+    return { success: false, message: 'offer_not_found' };
+  }
+
+  const offerer = residents.get(original.fromId);
+  if (!offerer || offerer.isDead) {
+    refundEscrow(original, offerer);
+    closeOffer(original, 'expired');
+    return { success: false, message: 'The offering resident is no longer available' };
+  }
+
+  const result = createTradeOffer(resident, offerer, terms, original.id);
+  if (!result.success) return result;
+
+  refundEscrow(original, offerer);
+  closeOffer(original, 'countered');
+
+  return {
+    success: true,
+    message: `Countered ${offerer.preferredName}'s offer: ${describeTradeOffer(result.offer!)}`,
+    offer: result.offer,
+  };
+}
+
+/**
+ * Cancel every pending offer a resident is party to when they die or leave
+ * the city. Their own offers' escrow comes back to them (to become part of
+ * the estate, or leave with them); offers made to them are refunded to the
+ * offerer.
+ */
+export function cancelTradeOffersFor(resident: ResidentEntity, residents: Map<string, ResidentEntity>): void {
+  for (const offer of pendingOffers.values()) {
+    if (offer.fromId === resident.id) {
+      resident.wallet += offer.offerQuid;
+      releaseEscrow(offer, resident);
+    } else if (offer.toId === resident.id) {
+      const offerer = residents.get(offer.fromId);
+      refundEscrow(offer, offerer);
+      offerer?.pendingNotifications.push(
+        `${resident.preferredName} is no longer in the city. Your trade offer was cancelled and its escrow returned.`);
+    } else {
+      continue;
+    }
+    closeOffer(offer, 'cancelled');
+  }
+}
+
+/** Expire timed-out offers, refunding escrow. Returns the offers that expired. */
+export function expireTradeOffers(
+  residents: Map<string, ResidentEntity>,
+  now: number = clock.now(),
+): PendingTradeOffer[] {
+  const expired: PendingTradeOffer[] = [];
+  for (const offer of pendingOffers.values()) {
+    if (offer.expiresAt > now) continue;
+    refundEscrow(offer, residents.get(offer.fromId));
+    closeOffer(offer, 'expired');
+    expired.push(offer);
+  }
+  return expired;
+}
+
+/** Pending offers involving a resident, formatted for perception */
+export function getTradeOffersForResident(
+  residentId: string,
+  residents: Map<string, ResidentEntity>,
+): TradeOffer[] | undefined {
+  const now = clock.now();
+  const result: TradeOffer[] = [];
+  for (const offer of pendingOffers.values()) {
+    if (offer.fromId !== residentId && offer.toId !== residentId) continue;
+    result.push({
+      id: offer.id,
+      from_id: offer.fromId,
+      from_name: residents.get(offer.fromId)?.preferredName ?? 'Unknown',
+      to_id: offer.toId,
+      to_name: residents.get(offer.toId)?.preferredName ?? 'Unknown',
+      offer_quid: offer.offerQuid,
+      offer_items: offer.offerItems,
+      request_quid: offer.requestQuid,
+      request_items: offer.requestItems,
+      direction: offer.toId === residentId ? 'incoming' : 'outgoing',
+      countered_from: offer.counteredFrom,
+      seconds_remaining: Math.max(0, Math.round((offer.expiresAt - now) / 1000)),
+    });
+  }
+  return result.length > 0 ? result : undefined;
+}
@@ -1,6 +1,8 @@
-import { UBI_AMOUNT, UBI_COOLDOWN_SEC } from '@otra/shared';
+import { UBI_COOLDOWN_SEC } from '@otra/shared';
 import type { ResidentEntity } from '../simulation/world.js';
 import { updateUbiCollection } from '../db/queries.js';
+import { getPolicy } from '../civic/policies.js';
+import { clock } from '../simulation/clock.js';
 
 export interface UbiResult {
   success: boolean;
@@ -11,15 +13,16 @@ export interface UbiResult {
 }
 
 export function collectUbi(resident: ResidentEntity): UbiResult {
+  const amount = getPolicy('ubi_amount');
   // UBI has been discontinued — inform residents to forage instead
-  if (UBI_AMOUNT === 0) {
+  if (amount === 0) {
     return {
       success: false,
-      message: 'UBI has been discontinued. Forage wild berries and spring water in the wilderness to survive.',
+      message: 'UBI has been discontinued. Forage wild berries and spring water in the wilderness to survive. The bank still takes deposits and offers small loans.',
     };
   }
 
-  const now = Date.now();
+  const now = clock.now();
   const elapsed = (now - resident.lastUbiCollection) / 1000;
 
   if (elapsed < UBI_COOLDOWN_SEC) {
@@ -33,7 +36,7 @@ export function collectUbi(resident: ResidentEntity): UbiResult {
     };
   }
 
-  resident.wallet += UBI_AMOUNT;
+  resident.wallet += amount;
   resident.lastUbiCollection = now;
 
   // Persist the UBI collection timestamp
@@ -41,8 +44,8 @@ export function collectUbi(resident: ResidentEntity): UbiResult {
 
   return {
     success: true,
-    message: `Collected ${UBI_AMOUNT} QUID`,
-    amount: UBI_AMOUNT,
+    message: `Collected ${amount} QUID`,
+    amount,
     newBalance: resident.wallet,
   };
 }
@@ -2,16 +2,20 @@ import { createServer } from 'http';
 import { readFileSync, existsSync, statSync } from 'fs';
 import { join, dirname, extname } from 'path';
 import { fileURLToPath } from 'url';
-import { initDatabase, closeDatabase } from './db/database.js';
+import { initDatabase, closeDatabase, resolveDbPath } from './db/database.js';
+import { writeSnapshot, restoreSnapshot } from './db/snapshots.js';
 import { TileMap } from './simulation/map.js';
 import { World } from './simulation/world.js';
 import { GameLoop } from './simulation/game-loop.js';
+import { runHeadless, HEADLESS_EPOCH } from './simulation/headless.js';
 import { WsServer } from './network/ws-server.js';
+import { NpcSystem } from './npc/npc-system.js';
 import { handleHttpRequest } from './network/http-routes.js';
 import { CITY_CONFIG, renderMessage } from '@otra/shared';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PORT = parseInt(process.env.PORT || '3456', 10);
+const SNAPSHOT_INTERVAL_MINUTES = parseFloat(process.env.SNAPSHOT_INTERVAL_MINUTES || '0');
 
 // Static file serving for production
 const CLIENT_DIST = process.env.CLIENT_DIST || join(__dirname, '..', '..', 'client-dist');
@@ -69,11 +73,48 @@ function serveStaticFile(req: import('http').IncomingMessage, res: import('http'
   return false;
 }
 
+/** Value of a `--name value` command-line flag */
+function argValue(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+/** `--headless --ticks N [--seed S] [--start MS] [--db PATH]`: step the world without serving, print the result */
+function headless(): void {
+  const ticks = parseInt(argValue('ticks') ?? '', 10);
+  if (!Number.isInteger(ticks) || ticks <= 0) {
+    console.error('--headless needs --ticks N (a positive number of simulation ticks)');
+    process.exit(1);
+  }
+  const result = runHeadless({
+    ticks,
+    seed: parseInt(argValue('seed') ?? '1', 10),
+    startTime: parseInt(argValue('start') ?? String(HEADLESS_EPOCH), 10),
+    dbPath: argValue('db') ?? ':memory:',
+  });
+  console.log(JSON.stringify({
+    ticks: result.ticks,
+    world_time: result.worldTime,
+    residents_alive: result.residentsAlive,
+    elapsed_ms: Math.round(result.elapsedMs),
+    digest: result.digest,
+  }));
+}
+
 async function main() {
+  if (process.argv.includes('--headless')) {
+    headless();
+    return;
+  }
+
   console.log(renderMessage(CITY_CONFIG.messages.serverBanner));
   console.log(`Starting on port ${PORT}...`);
 
-  // 1. Initialize database
+  // 1. Initialize database, from a snapshot if asked
+  const snapshotToRestore = argValue('restore-snapshot');
+  if (snapshotToRestore) {
+    restoreSnapshot(snapshotToRestore, resolveDbPath());
+  }
   initDatabase();
 
   // 2. Load map
@@ -99,6 +140,9 @@ async function main() {
 
   // 5. Create WebSocket server
   const wsServer = new WsServer(httpServer, world);
+  if (process.env.NPCS !== 'off') {
+    world.npcs = new NpcSystem(world, (r, msg) => wsServer.performAction(r, msg));
+  }
 
   // 6. Start game loop
   const gameLoop = new GameLoop(world, (tick) => {
@@ -117,10 +161,24 @@ async function main() {
     console.log(`${CITY_CONFIG.name} is running. Waiting for residents...`);
   });
 
+  // 8. Snapshots: on a schedule, and on demand with SIGUSR2
+  const snapshot = () => {
+    try {
+      writeSnapshot(world);
+    } catch (err) {
+      console.error('[Snapshot] Failed:', err);
+    }
+  };
+  const snapshotTimer = SNAPSHOT_INTERVAL_MINUTES > 0
+    ? setInterval(snapshot, SNAPSHOT_INTERVAL_MINUTES * 60_000)
+    : null;
+  process.on('SIGUSR2', snapshot);
+
   // Graceful shutdown
   const shutdown = () => {
     console.log('\n[Server] Shutting down...');
     gameLoop.stop();
+    if (snapshotTimer) clearInterval(snapshotTimer);
     world.saveToDb();
     closeDatabase();
     httpServer.close(() => {
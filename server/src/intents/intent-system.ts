@@ -0,0 +1,332 @@
+/**
+ * Intents — a plan a resident hands to the server instead of sending every
+ * step itself: walk to the bushes, forage until carrying six berries, eat
+ * until hunger is above 80. Steps run one after another through the same
+ * action handlers as the resident's own messages (see WsServer.performAction),
+ * waiting out walking, sleep and the toilet between them.
+ *
+ * A plan ends when its last step is done, when a step fails, on severe pain,
+ * arrest or death, or when the resident sends an action of their own. Each
+ * finished step and the end of the plan are reported as webhook events.
+ */
+
+import type { ClientMessage, IntentAction, IntentCondition, IntentPlan, IntentProgress } from '@otra/shared';
+import { INTENT_THINK_INTERVAL_SEC, INTENT_MAX_STEPS, INTENT_MAX_REPEATS, INTENT_MAX_GAME_HOURS, TILE_SIZE } from '@otra/shared';
+import type { World, ResidentEntity } from '../simulation/world.js';
+import type { ActionDispatcher, ActionOutcome } from '../network/ws-server.js';
+import { sendWebhook } from '../network/webhooks.js';
+import { getJobTasks } from '../economy/jobs.js';
+import { clock, newId } from '../simulation/clock.js';
+
+export interface IntentResult {
+  success: boolean;
+  message: string;
+  intent_id?: string;
+}
+
+interface ActiveIntent {
+  id: string;
+  plan: IntentPlan;
+  step: number;
+  repeats: number;                          // successful attempts at the current step
+  sent: boolean;                            // the current step's one-off action has gone out
+  inFlight: boolean;                        // waiting on an action_result
+  waitUntil: number;                        // world time — the last attempt asked us to come back later
+  pathEnd: { x: number; y: number } | null; // where the current move_to path ends
+  startedAt: number;                        // world time
+  startedAtMs: number;                      // clock time, to tell new pain from pain already pending
+}
+
+const INTENT_ACTIONS = new Set<IntentAction['type']>([
+  'move_to', 'enter_building', 'exit_building', 'sleep', 'wake', 'use_toilet',
+  'eat', 'drink', 'consume', 'buy', 'forage', 'craft', 'work', 'collect_ubi',
+  'deposit', 'withdraw', 'treat', 'store_item', 'take_item',
+]);
+
+/** Sent once, then the step waits for the state they start (walking, asleep, on the toilet) to play out */
+const ONE_OFF_ACTIONS = new Set<IntentAction['type']>([
+  'move_to', 'enter_building', 'exit_building', 'sleep', 'wake', 'use_toilet',
+]);
+
+/** Actions a resident can send without interrupting their own plan */
+const PASSIVE_ACTIONS = new Set<ClientMessage['type']>([
+  'speak', 'inspect', 'check_balance', 'list_market', 'list_jobs', 'list_petitions', 'list_trials',
+  'list_candidates', 'list_claims', 'get_referral_link', 'submit_feedback', 'start_intent', 'cancel_intent',
+]);
+
+const NEEDS = new Set(['hunger', 'thirst', 'energy', 'bladder', 'health', 'social']);
+
+function measure(r: ResidentEntity, name: IntentCondition['measure']): number {
+  if (NEEDS.has(name)) return r.needs[name as keyof ResidentEntity['needs']];
+  if (name === 'wallet') return r.wallet;
+  if (name === 'on_shift') return r.employment?.onShift ? 1 : 0;
+  if (name === 'shift_tasks_left') {
+    if (!r.currentJobId) return 0;
+    return getJobTasks(r.currentJobId)
+      .filter(t => t.action === 'work')
+      .reduce((left, t) => left + Math.max(0, t.target - (r.shiftTasks[t.id] ?? 0)), 0);
+  }
+  const itemType = name.slice('item:'.length);
+  return r.inventory.filter(i => i.type === itemType).reduce((sum, i) => sum + i.quantity, 0);
+}
+
+function holds(r: ResidentEntity, condition: IntentCondition): boolean {
+  const value = measure(r, condition.measure);
+  return (condition.above === undefined || value > condition.above)
+    && (condition.below === undefined || value < condition.below);
+}
+
+function describeCondition(condition: IntentCondition): string {
+  const bounds = [
+    condition.above !== undefined ? `above ${condition.above}` : null,
+    condition.below !== undefined ? `below ${condition.below}` : null,
+  ].filter(Boolean).join(' and ');
+  return `${condition.measure} ${bounds}`;
+}
+
+/** Why a plan can't be run, or null if it's fine */
+function validatePlan(plan: IntentPlan | undefined): string | null {
+  if (!plan || !Array.isArray(plan.steps) || plan.steps.length === 0) {
+    return 'A plan needs a non-empty steps array';
+  }
+  if (plan.steps.length > INTENT_MAX_STEPS) {
+    return `A plan can have at most ${INTENT_MAX_STEPS} steps`;
+  }
+  for (const [i, step] of plan.steps.entries()) {
+    const type = step?.action?.type;
+    if (!INTENT_ACTIONS.has(type)) {
+      return `Step ${i + 1}: ${type ?? 'missing action'} can't be part of a plan. Allowed: ${[...INTENT_ACTIONS].join(', ')}`;
+    }
+    if (step.until) {
+      const { measure: name, above, below } = step.until;
+      const known = NEEDS.has(name) || name === 'wallet' || name === 'on_shift' || name === 'shift_tasks_left'
+        || (typeof name === 'string' && name.startsWith('item:') && name.length > 'item:'.length);
+      if (!known) {
+        return `Step ${i + 1}: unknown measure "${name}"`;
+      }
+      if ((above === undefined && below === undefined)
+        || (above !== undefined && typeof above !== 'number')
+        || (below !== undefined && typeof below !== 'number')) {
+        return `Step ${i + 1}: until needs a numeric above and/or below`;
+      }
+    }
+    if (step.repeat !== undefined && (!Number.isInteger(step.repeat) || step.repeat < 1 || step.repeat > INTENT_MAX_REPEATS)) {
+      return `Step ${i + 1}: repeat must be a whole number from 1 to ${INTENT_MAX_REPEATS}`;
+    }
+  }
+  return null;
+}
+
+export class IntentSystem {
+  private intents = new Map<string, ActiveIntent>(); // residentId -> running plan
+  private thinkTimer = 0;
+
+  constructor(private world: World, private dispatch: ActionDispatcher) {}
+
+  /** Start a plan, replacing any that's already running */
+  start(resident: ResidentEntity, plan: IntentPlan): IntentResult {
+    const invalid = validatePlan(plan);
+    if (invalid) return { success: false, message: invalid };
+
+    if (this.intents.has(resident.id)) this.cancel(resident, 'replaced by a new plan');
+    const intent: ActiveIntent = {
+      id: newId(),
+      plan,
+      step: 0,
+      repeats: 0,
+      sent: false,
+      inFlight: false,
+      waitUntil: 0,
+      pathEnd: null,
+      startedAt: this.world.worldTime,
+      startedAtMs: clock.now(),
+    };
+    this.intents.set(resident.id, intent);
+    return { success: true, message: `Plan started: ${plan.steps.length} steps.`, intent_id: intent.id };
+  }
+
+  /** Stop a resident's plan. False if there wasn't one. */
+  cancel(resident: ResidentEntity, reason: string): boolean {
+    const intent = this.intents.get(resident.id);
+    if (!intent) return false;
+    this.fail(resident, intent, reason);
+    return true;
+  }
+
+  /** The resident sent an action of their own — anything but a passive one ends their plan */
+  interrupt(resident: ResidentEntity, actionType: ClientMessage['type']): void {
+    if (PASSIVE_ACTIONS.has(actionType)) return;
+    this.cancel(resident, `interrupted by ${actionType}`);
+  }
+
+  describe(residentId: string): IntentProgress | undefined {
+    const intent = this.intents.get(residentId);
+    if (!intent) return undefined;
+    return {
+      id: intent.id,
+      step: intent.step,
+      steps: intent.plan.steps.length,
+      action: intent.plan.steps[intent.step].action.type,
+      repeats: intent.repeats,
+    };
+  }
+
+  /** Check every plan for pain, arrest and death each tick; take the next step every INTENT_THINK_INTERVAL_SEC */
+  update(dt: number): void {
+    if (this.intents.size === 0) return;
+
+    for (const [residentId, intent] of this.intents) {
+      const r = this.world.residents.get(residentId);
+      if (!r) {
+        this.intents.delete(residentId);
+        continue;
+      }
+      const reason = this.stopReason(r, intent);
+      if (reason) this.fail(r, intent, reason);
+    }
+
+    this.thinkTimer += dt;
+    if (this.thinkTimer < INTENT_THINK_INTERVAL_SEC) return;
+    this.thinkTimer = 0;
+
+    for (const [residentId, intent] of this.intents) {
+      const r = this.world.residents.get(residentId);
+      if (r) this.think(r, intent);
+    }
+  }
+
+  private stopReason(r: ResidentEntity, intent: ActiveIntent): string | null {
+    if (r.isDead) return 'died';
+    if (r.arrestedBy || r.prisonSentenceEnd) return 'arrested';
+    if (!intent.plan.ignore_pain) {
+      const pain = r.pendingPainMessages.find(p => p.intensity !== 'mild'
+        && r.lastPainTime[p.source as keyof ResidentEntity['lastPainTime']] > intent.startedAtMs);
+      if (pain) return `${pain.intensity} ${pain.source} pain`;
+    }
+    if (this.world.worldTime - intent.startedAt > INTENT_MAX_GAME_HOURS * 3600) {
+      return `still running after ${INTENT_MAX_GAME_HOURS} game hours`;
+    }
+    return null;
+  }
+
+  private think(r: ResidentEntity, intent: ActiveIntent): void {
+    if (intent.inFlight || this.world.worldTime < intent.waitUntil) return;
+    // Still walking or on the toilet — let it finish
+    if (r.pathWaypoints || r.toiletUseUntilMs !== null) return;
+
+    const step = intent.plan.steps[intent.step];
+    if (step.until && holds(r, step.until)) {
+      this.nextStep(r, intent);
+      return;
+    }
+
+    if (intent.sent) {
+      if (step.action.type === 'move_to') {
+        if (this.arrived(r, step.action, intent)) this.nextStep(r, intent);
+        else this.fail(r, intent, 'could not reach the destination');
+      }
+      // Otherwise a one-off with `until` — wait for it to hold
+      return;
+    }
+
+    const limit = step.repeat ?? (step.until ? INTENT_MAX_REPEATS : 1);
+    if (intent.repeats >= limit) {
+      if (step.until) this.fail(r, intent, `${step.action.type} ${limit} times without ${describeCondition(step.until)}`);
+      else this.nextStep(r, intent);
+      return;
+    }
+
+    const msg = this.toMessage(r, step.action);
+    if (typeof msg === 'string') {
+      this.fail(r, intent, msg);
+      return;
+    }
+    intent.inFlight = true;
+    const stepIndex = intent.step;
+    this.dispatch(r, msg, (outcome) => this.onResult(r, intent, stepIndex, outcome)).catch(err => {
+      console.error(`[Intent] ${r.preferredName} failed to ${msg.type}:`, err);
+      intent.inFlight = false;
+      if (this.intents.get(r.id) === intent) this.fail(r, intent, `${msg.type} failed`);
+    });
+  }
+
+  private onResult(r: ResidentEntity, intent: ActiveIntent, stepIndex: number, outcome: ActionOutcome): void {
+    intent.inFlight = false;
+    if (this.intents.get(r.id) !== intent || intent.step !== stepIndex) return;
+    const step = intent.plan.steps[stepIndex];
+
+    if (!outcome.success) {
+      // Cooldowns say how long to wait (work tasks) — come back then instead of giving up
+      const wait = outcome.data?.wait_game_minutes;
+      if (typeof wait === 'number') {
+        intent.waitUntil = this.world.worldTime + wait * 60;
+        return;
+      }
+      this.fail(r, intent, `${step.action.type} failed: ${outcome.reason ?? 'no reason given'}`);
+      return;
+    }
+
+    intent.repeats++;
+    if (!ONE_OFF_ACTIONS.has(step.action.type)) return;
+    intent.sent = true;
+    if (step.action.type === 'move_to') {
+      intent.pathEnd = r.pathWaypoints?.[r.pathWaypoints.length - 1] ?? null;
+    } else if (!step.until) {
+      this.nextStep(r, intent);
+    }
+  }
+
+  private arrived(r: ResidentEntity, action: Extract<IntentAction, { type: 'move_to' }>, intent: ActiveIntent): boolean {
+    if ('target' in action.params) return r.currentBuilding === action.params.target;
+    if (!intent.pathEnd) return true;
+    return Math.hypot(r.x - intent.pathEnd.x, r.y - intent.pathEnd.y) <= TILE_SIZE;
+  }
+
+  /** The message to send for a step, or why it can't be sent */
+  private toMessage(r: ResidentEntity, action: IntentAction): ClientMessage | string {
+    if ((action.type === 'eat' || action.type === 'drink' || action.type === 'consume') && 'item_type' in action.params) {
+      const itemType = action.params.item_type;
+      const item = r.inventory.find(i => i.type === itemType);
+      if (!item) return `no ${itemType} left to ${action.type}`;
+      return { type: action.type, params: { item_id: item.id } };
+    }
+    // Each attempt gets its own request_id, or the duplicate check would swallow repeats
+    return { ...action, request_id: undefined } as ClientMessage;
+  }
+
+  private nextStep(r: ResidentEntity, intent: ActiveIntent): void {
+    const done = intent.plan.steps[intent.step];
+    sendWebhook(r, 'intent_step', {
+      intent_id: intent.id,
+      step: intent.step,
+      steps: intent.plan.steps.length,
+      action: done.action.type,
+      repeats: intent.repeats,
+    });
+
+    intent.step++;
+    intent.repeats = 0;
+    intent.sent = false;
+    intent.waitUntil = 0;
+    intent.pathEnd = null;
+
+    if (intent.step >= intent.plan.steps.length) {
+      this.intents.delete(r.id);
+      r.pendingNotifications.push(`Plan complete: all ${intent.plan.steps.length} steps done.`);
+      sendWebhook(r, 'intent_completed', { intent_id: intent.id, steps: intent.plan.steps.length });
+    }
+  }
+
+  private fail(r: ResidentEntity, intent: ActiveIntent, reason: string): void {
+    this.intents.delete(r.id);
+    const action = intent.plan.steps[intent.step].action.type;
+    r.pendingNotifications.push(`Plan stopped at step ${intent.step + 1} (${action}): ${reason}.`);
+    sendWebhook(r, 'intent_failed', {
+      intent_id: intent.id,
+      step: intent.step,
+      steps: intent.plan.steps.length,
+      action,
+      reason,
+    });
+  }
+}
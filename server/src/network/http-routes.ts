@@ -4,25 +4,37 @@ import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import { signToken, verifyToken } from '../auth/jwt.js';
 import { v4 as uuidv4 } from 'uuid';
-import { createResident, getResident, getResidentByPassport, addInventoryItem, getRecentFeedEvents, getOpenPetitions, getLaws, getRecentEventsForResident, updateResidentBio, updateResidentWebhookUrl, getAllAliveResidents, getRecentGithubClaims, getTotalGithubRewards, getReferralCount, insertReferral, updateReferredBy, getRecentReferrals, getTotalReferralRewards, getConversationTurns, getConversationSummary, getConversationHistory, getConversationPartners, insertFeedback, getRecentFeedback, getReputationStats, getEventsSince, getRecentSpeech } from '../db/queries.js';
+import { createResident, getResident, getResidentByPassport, addInventoryItem, getRecentFeedEvents, getOpenPetitions, getLaws, getRecentEventsForResident, updateResidentBio, updateResidentWebhookUrl, getAllAliveResidents, getRecentGithubClaims, getTotalGithubRewards, getReferralCount, insertReferral, updateReferredBy, getRecentReferrals, getTotalReferralRewards, getConversationTurns, getConversationSummary, getConversationHistory, getConversationPartners, insertFeedback, getRecentFeedback, getReputationStats, getEventsSince, getRecentSpeech, getShopPriceHistory, getTreasury } from '../db/queries.js';
 import { consumeFeedbackToken } from './feedback.js';
-import { getShopCatalogWithStock } from '../economy/shop.js';
+import { getShopCatalogWithStock, getShopCatalog, getSellerIds, quoteShopPrice } from '../economy/shop.js';
+import { getOrderBook, getRecentFills } from '../economy/market.js';
 import { listAvailableJobs } from '../economy/jobs.js';
+import { listBusinesses } from '../economy/businesses.js';
+import { describeOpenTrials } from '../civic/trials.js';
+import { getPolicy, describePolicies } from '../civic/policies.js';
+import { describeElection, describeElectionHistory, getOffice } from '../civic/elections.js';
+import { describeTreasury, taxOn } from '../civic/treasury.js';
 import { type World, computeCondition } from '../simulation/world.js';
-import type { PassportRegistration, PassportResponse, InspectData } from '@otra/shared';
+import type { PassportRegistration, PassportResponse, InspectData, MapData, StructurePlacement, ResidentType } from '@otra/shared';
 import {
-  CITY_CONFIG, renderMessage,
-  TRAIN_INTERVAL_SEC, UBI_AMOUNT, BODY_BOUNTY, ARREST_BOUNTY,
+  CITY_CONFIG, renderMessage, TileType,
+  TRAIN_INTERVAL_SEC, ARREST_BOUNTY,
   BERRY_BUSH_MAX_USES, BERRY_BUSH_REGROW_GAME_HOURS,
   SPRING_MAX_USES, SPRING_REGROW_GAME_HOURS,
   GITHUB_REPO, GITHUB_ISSUE_REWARD, GITHUB_PR_EASY_REWARD, GITHUB_PR_MEDIUM_REWARD, GITHUB_PR_HARD_REWARD,
   REFERRAL_REWARD, REFERRAL_DEFAULT_CAP,
+  BANK_SAVINGS_INTEREST_PER_GAME_DAY, LOAN_MAX_PRINCIPAL, LOAN_INTEREST_RATE, LOAN_INSTALLMENTS,
+  LOAN_INSTALLMENT_INTERVAL_GAME_HOURS, LOAN_DEFAULT_PENALTY,
+  LOCKER_RENT_PER_GAME_DAY, LOCKER_MAX_PREPAID_DAYS, LOCKER_CAPACITY, LOCKER_GRACE_GAME_HOURS,
 } from '@otra/shared';
 import { getBuildingConfig, getBuildingByType, getBuildingsByType } from '../buildings/building-registry.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 let mapJsonCache: string | null = null;
+let mapJsonCacheVersion = -1;   // world.structuresVersion the cache was built from
+let mapJsonCachedAt = 0;
+const MAP_CACHE_MAX_AGE_MS = 60_000;  // refresh structure condition at least this often
 
 // Load changelog once at startup
 const changelogPath = join(__dirname, '..', 'static', 'changelog.json');
@@ -87,7 +99,7 @@ export function handleHttpRequest(
 
   // GET /api/map — Return the map JSON
   if (req.method === 'GET' && url.pathname === '/api/map') {
-    handleGetMap(res);
+    handleGetMap(res, world);
     return true;
   }
 
@@ -248,7 +260,6 @@ export function handleHttpRequest(
 
   // GET /api/buildings — Building info for spectator panels
   if (req.method === 'GET' && url.pathname === '/api/buildings') {
-    const catalog = getShopCatalogWithStock();
     const petitions = getOpenPetitions();
     const jobs = listAvailableJobs();
     const interval = process.env.NODE_ENV === 'production' ? TRAIN_INTERVAL_SEC : 30;
@@ -257,7 +268,6 @@ export function handleHttpRequest(
     const uncollectedBodies = Array.from(world.residents.values())
       .filter(r => r.isDead).length;
 
-    const shopConfig = getBuildingByType('shop');
     const hallConfig = getBuildingByType('hall');
     const bankConfig = getBuildingByType('bank');
     const toiletConfig = getBuildingByType('toilet');
@@ -265,35 +275,59 @@ export function handleHttpRequest(
     const mortuaryConfig = getBuildingByType('mortuary');
     const policeConfig = getBuildingByType('police');
     const infoConfig = getBuildingByType('info');
+    const storageConfig = getBuildingByType('storage');
+    const clinicConfig = getBuildingByType('clinic');
 
     const buildings: Record<string, unknown> = {};
 
-    if (shopConfig) {
+    for (const shopConfig of getBuildingsByType('shop')) {
       buildings[shopConfig.id] = {
         name: shopConfig.name,
-        items: catalog.map(i => ({ name: i.name, price: i.price, stock: i.stock, description: i.description })),
+        items: getShopCatalogWithStock(shopConfig.id).map(i => ({
+          item_type: i.item_type, name: i.name, price: i.price, base_price: i.base_price, stock: i.stock, description: i.description,
+        })),
       };
     }
     if (hallConfig) {
+      const office = getOffice(world);
+      const treasury = getTreasury();
       buildings[hallConfig.id] = {
         name: hallConfig.name,
         description: `The heart of civic life in ${CITY_CONFIG.name}. Write petitions to suggest changes, vote on others' ideas, and apply for jobs. Writing and voting are completely free.`,
         petitions: petitions.map(p => ({
           category: p.category, description: p.description,
           votes_for: p.votes_for, votes_against: p.votes_against,
+          policy: p.policy_key, value: p.policy_value,
         })),
         jobs: jobs.map(j => ({
           title: j.title, wage: j.wage, shift_hours: j.shift_hours,
           openings: j.openings, description: j.description,
         })),
+        policies: describePolicies(),
+        mayor: office.mayor?.preferredName ?? null,
+        council: office.council.map(r => r.preferredName),
+        treasury_balance: treasury.balance,
+        tax_rate: treasury.tax_rate,
+        trials: describeOpenTrials(world).map(t => ({
+          defendant: t.defendant_name, offenses: t.offenses,
+          votes_cast: t.votes_cast, verdict_in_game_hours: t.verdict_in_game_hours,
+        })),
       };
     }
     if (bankConfig) {
       buildings[bankConfig.id] = {
         name: bankConfig.name,
-        ubi_amount: UBI_AMOUNT,
-        ubi_status: UBI_AMOUNT === 0 ? 'discontinued' : 'active',
+        ubi_amount: getPolicy('ubi_amount'),
+        ubi_status: getPolicy('ubi_amount') === 0 ? 'discontinued' : 'active',
         ubi_cooldown_hours: 24,
+        savings_interest_per_game_day: BANK_SAVINGS_INTEREST_PER_GAME_DAY,
+        loans: {
+          max_principal: LOAN_MAX_PRINCIPAL,
+          interest_rate: LOAN_INTEREST_RATE,
+          installments: LOAN_INSTALLMENTS,
+          installment_interval_game_hours: LOAN_INSTALLMENT_INTERVAL_GAME_HOURS,
+          default_penalty: LOAN_DEFAULT_PENALTY,
+        },
         alive_residents: Array.from(world.residents.values()).filter(r => !r.isDead).length,
       };
     }
@@ -310,7 +344,7 @@ export function handleHttpRequest(
     if (mortuaryConfig) {
       buildings[mortuaryConfig.id] = {
         name: mortuaryConfig.name,
-        bounty_per_body: BODY_BOUNTY,
+        bounty_per_body: getPolicy('body_bounty'),
         uncollected_bodies: uncollectedBodies,
       };
     }
@@ -337,6 +371,32 @@ export function handleHttpRequest(
         total_distributed: getTotalReferralRewards(),
       };
     }
+    if (storageConfig) {
+      buildings[storageConfig.id] = {
+        name: storageConfig.name,
+        description: 'Rent a private locker to keep items safe, and sleep in the bunks at sleeping-bag comfort. Name an heir to inherit the contents, or they go to the city when you die.',
+        rent_per_game_day: LOCKER_RENT_PER_GAME_DAY,
+        max_prepaid_days: LOCKER_MAX_PREPAID_DAYS,
+        capacity: LOCKER_CAPACITY,
+        grace_game_hours: LOCKER_GRACE_GAME_HOURS,
+        lockers_rented: Array.from(world.residents.values())
+          .filter(r => !r.isDead && r.locker?.buildingId === storageConfig.id).length,
+      };
+    }
+    if (clinicConfig) {
+      buildings[clinicConfig.id] = {
+        name: clinicConfig.name,
+        description: 'Treatment for illness. Food poisoning comes from spoiled food, chest colds from sleeping rough at night, and some illnesses spread to anyone standing close.',
+        treatments: CITY_CONFIG.diseases.map(d => ({
+          name: d.name,
+          symptom: d.symptom,
+          cost: d.treatmentCost,
+          contagious: d.contagious,
+          description: d.description,
+        })),
+        residents_ill: Array.from(world.residents.values()).filter(r => !r.isDead && r.illness).length,
+      };
+    }
     buildings['foraging'] = {
       name: 'Wild Resources',
       description: 'Forageable resource nodes scattered in the wilderness around the city. Harvest berries and spring water for free to survive.',
@@ -344,12 +404,14 @@ export function handleHttpRequest(
         count: Array.from(world.forageableNodes.values()).filter(n => n.type === 'berry_bush').length,
         max_uses: BERRY_BUSH_MAX_USES,
         regrow_game_hours: BERRY_BUSH_REGROW_GAME_HOURS,
+        seasonal_yield: Object.fromEntries(CITY_CONFIG.seasons.map(s => [s.id, s.forageYield.berry_bush])),
         item: { name: 'Wild Berries', hunger_restore: 12, thirst_restore: 5 },
       },
       fresh_springs: {
         count: Array.from(world.forageableNodes.values()).filter(n => n.type === 'fresh_spring').length,
         max_uses: SPRING_MAX_USES,
         regrow_game_hours: SPRING_REGROW_GAME_HOURS,
+        seasonal_yield: Object.fromEntries(CITY_CONFIG.seasons.map(s => [s.id, s.forageYield.fresh_spring])),
         item: { name: 'Spring Water', hunger_restore: 3, thirst_restore: 8 },
       },
     };
@@ -359,6 +421,66 @@ export function handleHttpRequest(
     return true;
   }
 
+  // GET /api/shop/prices — Current shop prices and price history (inflation tracking)
+  if (req.method === 'GET' && url.pathname === '/api/shop/prices') {
+    const buildingId = url.searchParams.get('building_id') || undefined;
+    const itemType = url.searchParams.get('item_type') || undefined;
+    const since = url.searchParams.has('since') ? Number(url.searchParams.get('since')) : undefined;
+    const limit = url.searchParams.has('limit') ? Math.min(1000, Number(url.searchParams.get('limit')) || 200) : 200;
+    const current = getSellerIds()
+      .filter(id => !buildingId || id === buildingId)
+      .flatMap(id => getShopCatalog(id)
+        .filter(i => !itemType || i.item_type === itemType)
+        .map(i => quoteShopPrice(id, i.item_type)))
+      .filter(q => q !== undefined)
+      .map(q => ({ ...q, tax: taxOn(q.price) }));
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=10' });
+    res.end(JSON.stringify({
+      current,
+      history: getShopPriceHistory({ buildingId, itemType, since, limit }).map(h => ({
+        building_id: h.building_id,
+        item_type: h.item_type,
+        price: h.price,
+        base_price: h.base_price,
+        stock: h.stock,
+        recent_volume: h.recent_volume,
+        recorded_at: h.recorded_at,
+      })),
+    }));
+    return true;
+  }
+
+  // GET /api/market — Resident order book and recent fills at the market stalls
+  if (req.method === 'GET' && url.pathname === '/api/market') {
+    const itemType = url.searchParams.get('item_type') || undefined;
+    const limit = url.searchParams.has('limit') ? Math.min(100, Number(url.searchParams.get('limit')) || 20) : 20;
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=2' });
+    res.end(JSON.stringify({
+      book: getOrderBook(itemType),
+      recent_fills: getRecentFills(limit, itemType),
+    }));
+    return true;
+  }
+
+  // GET /api/businesses — Resident-run businesses with their openings and payroll totals
+  if (req.method === 'GET' && url.pathname === '/api/businesses') {
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=10' });
+    res.end(JSON.stringify({ businesses: listBusinesses(world.residents) }));
+    return true;
+  }
+
+  // GET /api/elections — Office holders, the election in progress, the treasury and past results
+  if (req.method === 'GET' && url.pathname === '/api/elections') {
+    const limit = url.searchParams.has('limit') ? Math.min(50, Number(url.searchParams.get('limit')) || 10) : 10;
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'public, max-age=10' });
+    res.end(JSON.stringify({
+      ...describeElection(world),
+      treasury: describeTreasury(),
+      history: describeElectionHistory(world, limit),
+    }));
+    return true;
+  }
+
   // GET /api/changelog — Platform changelog for bot operators
   if (req.method === 'GET' && url.pathname === '/api/changelog') {
     const sinceVersion = url.searchParams.get('since');
@@ -579,10 +701,27 @@ function handlePassportRegistration(
   });
 }
 
-function handleGetMap(res: ServerResponse): void {
-  if (!mapJsonCache) {
-    const mapPath = join(__dirname, '..', '..', 'data', 'map.json');
-    mapJsonCache = readFileSync(mapPath, 'utf-8');
+/**
+ * The static map with resident-built structures overlaid: solid structures
+ * in the obstacle grid, planted bushes in the ground grid, and the full
+ * list in `structures`.
+ */
+function handleGetMap(res: ServerResponse, world: World): void {
+  const now = Date.now();
+  if (!mapJsonCache || mapJsonCacheVersion !== world.structuresVersion || now - mapJsonCachedAt > MAP_CACHE_MAX_AGE_MS) {
+    const base = world.map.data;
+    const ground = base.ground.map(row => [...row]);
+    const obstacles = base.obstacles.map(row => [...row]);
+    const structures: StructurePlacement[] = [];
+    for (const [, s] of world.structures) {
+      if (s.type === 'planted_bush') ground[s.tileY][s.tileX] = TileType.BUSH_BERRY;
+      if (s.type === 'shelter') obstacles[s.tileY][s.tileX] = TileType.SHELTER;
+      if (s.type === 'storage_chest') obstacles[s.tileY][s.tileX] = TileType.STORAGE_CHEST;
+      structures.push({ id: s.id, type: s.type, tileX: s.tileX, tileY: s.tileY, ownerId: s.ownerId, condition: Math.ceil(s.condition) });
+    }
+    mapJsonCache = JSON.stringify({ ...base, ground, obstacles, structures } satisfies MapData);
+    mapJsonCacheVersion = world.structuresVersion;
+    mapJsonCachedAt = now;
   }
   res.writeHead(200, { 'Content-Type': 'application/json' });
   res.end(mapJsonCache);
@@ -635,6 +774,10 @@ function formatFeedEvent(
     }
     case 'trade':
       return `${actor} gave ${data.offer_quid || '?'} QUID to ${target}`;
+    case 'trade_accepted':
+      return `${actor} completed a trade with ${target}`;
+    case 'market_trade':
+      return `${actor} bought ${data.quantity || 1}x ${data.item_type || 'an item'} from ${target} at the market (${data.price || '?'} QUID each)`;
     case 'give': {
       const qty = data.quantity || 1;
       const item = data.item_name || data.item_type || 'an item';
@@ -650,6 +793,12 @@ function formatFeedEvent(
       return `${actor} submitted a petition: "${data.category || '?'}" — visit the Council Hall to vote!`;
     case 'vote_petition':
       return `${actor} voted on a petition`;
+    case 'election_won':
+      return `${actor} was elected mayor`;
+    case 'pardon':
+      return `Mayor ${actor} pardoned ${target}`;
+    case 'policy_enacted':
+      return `${actor}'s petition passed: ${data.change || 'a city policy changed'}`;
     case 'collect_body':
       return `${actor} collected the body of ${data.body_name || 'a resident'}`;
     case 'process_body':
@@ -668,6 +817,14 @@ function formatFeedEvent(
       const offense = data.offense ? String(data.offense) : 'unknown violation';
       return `${actor} violated the law: ${offense}`;
     }
+    case 'trial_verdict':
+      return data.verdict === 'guilty'
+        ? `${actor} was found guilty at trial (${data.sentence_game_hours || '?'} game hours)`
+        : data.verdict === 'acquitted' ? `${actor} was acquitted at trial` : `${actor}'s trial was dismissed`;
+    case 'assault':
+      return `${actor} assaulted ${target}`;
+    case 'report_crime':
+      return `${actor} reported ${target} to the police${Array.isArray(data.offenses) ? ` for ${data.offenses.join(', ')}` : ''}`;
     case 'link_github':
       return `${actor} linked their GitHub account (${data.github_username || '?'})`;
     case 'claim_issue':
@@ -819,7 +976,8 @@ function handleInspect(res: ServerResponse, id: string, world: World): void {
 
   const entity = world.residents.get(row.id);
 
-  const eventRows = getRecentEventsForResident(row.id, 10);
+  // Unwitnessed thefts stay secret — they only surface if someone reports them
+  const eventRows = getRecentEventsForResident(row.id, 10, ['steal']);
   const recentEvents = eventRows.map(e => ({
     timestamp: e.timestamp,
     type: e.type,
@@ -834,7 +992,7 @@ function handleInspect(res: ServerResponse, id: string, world: World): void {
     full_name: row.full_name,
     preferred_name: row.preferred_name,
     place_of_origin: row.place_of_origin,
-    type: row.type as 'AGENT' | 'HUMAN',
+    type: row.type as ResidentType,
     status: row.status,
     date_of_arrival: row.date_of_arrival,
     wallet: entity ? entity.wallet : row.wallet,
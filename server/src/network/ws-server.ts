@@ -3,8 +3,8 @@ import type { IncomingMessage } from 'http';
 import type { Server } from 'http';
 import { verifyToken } from '../auth/jwt.js';
 import { type World, type ResidentEntity, computeCondition } from '../simulation/world.js';
-import type { ClientMessage, ServerMessage, BuildingType } from '@otra/shared';
-import { CITY_CONFIG, renderMessage, WALK_SPEED, RUN_SPEED, TILE_SIZE, ENERGY_COST_SPEAK, ENERGY_COST_SHOUT, STARTING_HOUR, ARREST_RANGE, ARREST_BOUNTY, ENERGY_COST_ARREST, LOITER_SENTENCE_GAME_HOURS, FORAGE_RANGE, ENERGY_COST_FORAGE, REFERRAL_MATURITY_MS, WAKE_COOLDOWN_MS, WAKE_MIN_ENERGY, SPEECH_TURN_TIMEOUT_MS, SPEECH_COOLDOWN_MS, SPEECH_DUPLICATE_WINDOW_MS, SPEECH_DUPLICATE_HISTORY, SPEECH_TTL_TICKS } from '@otra/shared';
+import type { ClientMessage, ServerMessage, BuildingType, ResidentType } from '@otra/shared';
+import { CITY_CONFIG, renderMessage, WALK_SPEED, RUN_SPEED, TILE_SIZE, ENERGY_COST_SPEAK, ENERGY_COST_SHOUT, STARTING_HOUR, ARREST_RANGE, ARREST_BOUNTY, ENERGY_COST_ARREST, WRONGFUL_ARREST_FINE, FORAGE_RANGE, ENERGY_COST_FORAGE, REFERRAL_MATURITY_MS, WAKE_COOLDOWN_MS, WAKE_MIN_ENERGY, SPEECH_TURN_TIMEOUT_MS, SPEECH_COOLDOWN_MS, SPEECH_DUPLICATE_WINDOW_MS, SPEECH_DUPLICATE_HISTORY, SPEECH_TTL_TICKS } from '@otra/shared';
 import {
   logEvent, getResident, getRecentEventsForResident,
   markResidentDeparted, markBodyProcessed, updateCarryingBody,
@@ -13,31 +13,69 @@ import {
   getReferralStats, getClaimableReferrals, claimReferrals,
   getReputationStats, insertFeedback,
 } from '../db/queries.js';
-import { buyItem, getShopItem, canBuyItemAtBuilding, isMapItem } from '../economy/shop.js';
+import { buyItem, getShopItem, canBuyItemAtBuilding, getItemSellers, recordShopPrices } from '../economy/shop.js';
 import { collectUbi } from '../economy/ubi.js';
+import { deposit, withdraw, getBankStatement, takeLoan, repayLoan, closeBankAccount } from '../economy/bank.js';
+import { placeMarketOrder, cancelMarketOrder, cancelMarketOrdersFor, getOrderBook, getRecentFills } from '../economy/market.js';
+import { createTradeOffer, acceptTradeOffer, rejectTradeOffer, counterTradeOffer, describeTradeOffer, cancelTradeOffersFor } from '../economy/trades.js';
+import type { PendingTradeOffer } from '../economy/trades.js';
 import { consumeItem } from '../economy/consume.js';
-import { applyForJob, quitJob, listAvailableJobs } from '../economy/jobs.js';
+import { craftItem } from '../economy/crafting.js';
+import { addItemType } from '../economy/inventory.js';
+import { applyForJob, quitJob, listAvailableJobs, performWorkTask, creditJobTask, describeEmployment } from '../economy/jobs.js';
+import { registerBusiness, postJob, setJobWage, closeJobPosting, closeBusiness } from '../economy/businesses.js';
 import { writePetition, voteOnPetition } from '../civic/petitions.js';
-import { enterBuilding, exitBuilding, useToilet } from '../buildings/building-actions.js';
+import { writeWill } from '../civic/wills.js';
+import { stealFrom, assaultResident, reportCrime } from '../civic/crime.js';
+import { openTrial, defendSelf, juryVote, describeOpenTrials } from '../civic/trials.js';
+import { getPolicy, describePolicies } from '../civic/policies.js';
+import { describeElection, registerCandidate, campaignSpeech, voteElection, pardonPrisoner } from '../civic/elections.js';
+import type { ElectionResult } from '../civic/elections.js';
+import { setShopTaxRate, proposeBudget, voteOnBudget, describeTreasury } from '../civic/treasury.js';
+import { enterBuilding, exitBuilding, useToilet, treatIllness } from '../buildings/building-actions.js';
 import { getBuildingType, getBuildingByType } from '../buildings/building-registry.js';
+import { buildStructure, maintainStructure, demolishStructure, storeItem, takeItem } from '../buildings/structures.js';
+import type { StructureResult } from '../buildings/structures.js';
+import { rentLocker, depositToLocker, withdrawFromLocker, setLockerHeir, releaseLocker, describeLocker, settleLocker } from '../economy/lockers.js';
+import type { LockerResult } from '../economy/lockers.js';
+import { IntentSystem } from '../intents/intent-system.js';
 import { findPath } from '../simulation/pathfinding.js';
 import { sendWebhook } from './webhooks.js';
 import { consumeFeedbackToken } from './feedback.js';
 import { getChangelogVersion, getLatestChangelogEntry } from './http-routes.js';
-import { v4 as uuid } from 'uuid';
 import {
-  ENERGY_COST_COLLECT_BODY, BODY_COLLECT_RANGE, BODY_BOUNTY,
-  GIVE_RANGE, ENERGY_COST_GIVE,
+  ENERGY_COST_COLLECT_BODY, BODY_COLLECT_RANGE,
+  GIVE_RANGE, ENERGY_COST_GIVE, TRADE_RANGE, TRADE_OFFER_TIMEOUT_MS,
 } from '@otra/shared';
+import { clock, newId } from '../simulation/clock.js';
+
+/** How an action run from inside the server went — what its action_result said */
+export interface ActionOutcome {
+  success: boolean;
+  reason?: string;
+  data?: Record<string, unknown>;
+}
+
+/** Runs actions for residents from inside the server (NPCs, intents). See WsServer.performAction. */
+export type ActionDispatcher = (
+  resident: ResidentEntity,
+  msg: ClientMessage,
+  onResult?: (outcome: ActionOutcome) => void,
+) => Promise<void>;
 
 export class WsServer {
   private wss: WebSocketServer;
   private connections = new Map<string, WebSocket>(); // residentId -> ws
   private spectators = new Map<string, Set<WebSocket>>(); // residentId -> spectator sockets
   private world: World;
+  private resultListeners = new Map<string, (outcome: ActionOutcome) => void>(); // request_id -> performAction caller
+  private intents: IntentSystem;
 
   constructor(httpServer: Server, world: World) {
     this.world = world;
+    // Plans run their steps through the same handlers as the resident's own messages
+    this.intents = new IntentSystem(world, (r, msg, onResult) => this.performAction(r, msg, onResult));
+    world.intents = this.intents;
     this.wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
     this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
@@ -155,11 +193,12 @@ export class WsServer {
         is_sleeping: resident.isSleeping,
         is_dead: false,
         current_building: resident.currentBuilding,
-        employment: resident.employment ? { job: resident.employment.job, on_shift: resident.employment.onShift } : null,
+        employment: describeEmployment(resident),
         agent_framework: resident.agentFramework ?? undefined,
       },
       map_url: '/api/map',
       world_time: this.world.worldTime + STARTING_HOUR * 3600,
+      weather: this.world.weather.toPerception(this.world.worldTime, resident.currentBuilding !== null),
     });
 
     // Send system announcement if there's a new version
@@ -183,6 +222,7 @@ export class WsServer {
     ws.on('message', (data) => {
       try {
         const msg = JSON.parse(data.toString()) as ClientMessage;
+        this.intents.interrupt(resident, msg.type);
         this.handleAction(resident, msg);
       } catch {
         this.sendError(ws, 'invalid_message', 'Invalid JSON');
@@ -259,11 +299,12 @@ export class WsServer {
         is_sleeping: resident.isSleeping,
         is_dead: resident.isDead,
         current_building: resident.currentBuilding,
-        employment: resident.employment ? { job: resident.employment.job, on_shift: resident.employment.onShift } : null,
+        employment: describeEmployment(resident),
         agent_framework: resident.agentFramework ?? undefined,
       },
       map_url: '/api/map',
       world_time: this.world.worldTime + STARTING_HOUR * 3600,
+      weather: this.world.weather.toPerception(this.world.worldTime, resident.currentBuilding !== null),
     });
 
     console.log(`[WS] Spectator connected to ${resident.preferredName} (${resident.passportNo})`);
@@ -416,7 +457,7 @@ export class WsServer {
           this.sendActionResult(resident, msg, false, 'invalid_text');
           return true;
         }
-        const now = Date.now();
+        const now = clock.now();
         const sinceLast = now - resident.lastSpeechTime;
         if (sinceLast < SPEECH_COOLDOWN_MS) {
           this.sendActionResult(resident, msg, false, 'speech_cooldown', {
@@ -441,7 +482,7 @@ export class WsServer {
         if (directedTo) {
           const awaitingSince = resident.awaitingReplyFrom.get(directedTo);
           if (awaitingSince !== undefined) {
-            const elapsed = Date.now() - awaitingSince;
+            const elapsed = clock.now() - awaitingSince;
             if (elapsed < SPEECH_TURN_TIMEOUT_MS) {
               const target = this.world.residents.get(directedTo);
               this.sendActionResult(resident, msg, false, 'awaiting_reply', {
@@ -460,7 +501,7 @@ export class WsServer {
           return true;
         }
         resident.needs.energy -= cost;
-        resident.pendingSpeech.push({ id: uuid(), text, volume, time: now, directedTo, ticksRemaining: SPEECH_TTL_TICKS });
+        resident.pendingSpeech.push({ id: newId(), text, volume, time: now, directedTo, ticksRemaining: SPEECH_TTL_TICKS });
         logEvent('speak', resident.id, directedTo, null, resident.x, resident.y, { text, volume, to: directedTo });
         resident.lastSpeechTime = now;
         resident.recentSpeechTexts.push({ text: normalizedText, time: now });
@@ -469,6 +510,11 @@ export class WsServer {
         }
         if (directedTo) {
           resident.awaitingReplyFrom.set(directedTo, now);
+          // Info clerks answering visitors at their desk
+          const listener = this.world.residents.get(directedTo);
+          if (resident.currentBuilding && listener?.currentBuilding === resident.currentBuilding) {
+            creditJobTask(resident, 'speak');
+          }
         }
         this.sendActionResult(resident, msg, true);
         return true;
@@ -486,11 +532,14 @@ export class WsServer {
         resident.pathTargetBuilding = null;
         resident.pathBlockedTicks = 0;
         resident.isSleeping = true;
-        resident.sleepStartedAt = Date.now();
+        resident.sleepStartedAt = clock.now();
         resident.velocityX = 0;
         resident.velocityY = 0;
         resident.speed = 'stop';
-        logEvent('sleep', resident.id, null, null, resident.x, resident.y, {});
+        // A bunk at your own locker is as good as a sleeping bag, without the wear
+        const inLocker = this.world.isInOwnLocker(resident);
+        const bagUsesLeft = inLocker ? null : this.world.useSleepingBag(resident);
+        logEvent('sleep', resident.id, null, null, resident.x, resident.y, { sleeping_bag_uses_left: bagUsesLeft, in_locker: inLocker });
         this.sendActionResult(resident, msg, true);
         return true;
       }
@@ -499,7 +548,7 @@ export class WsServer {
           this.sendActionResult(resident, msg, false, 'not_sleeping');
           return true;
         }
-        const sleepDuration = Date.now() - resident.sleepStartedAt;
+        const sleepDuration = clock.now() - resident.sleepStartedAt;
         if (sleepDuration < WAKE_COOLDOWN_MS) {
           this.sendActionResult(resident, msg, false, 'too_soon', { retry_after_ms: WAKE_COOLDOWN_MS - sleepDuration });
           return true;
@@ -561,29 +610,93 @@ export class WsServer {
           this.sendActionResult(resident, msg, false, 'missing_item_type');
           return true;
         }
-        const buildingType = resident.currentBuilding ? getBuildingType(resident.currentBuilding) : null;
-        if (!canBuyItemAtBuilding(itemType, buildingType)) {
-          const requiredBuilding = isMapItem(itemType)
-            ? (getBuildingByType('info')?.name ?? 'Tourist Information')
-            : (getBuildingByType('shop')?.name ?? 'a shop');
-          this.sendActionResult(resident, msg, false, `Must be inside ${requiredBuilding}`);
+        if (!resident.currentBuilding || !canBuyItemAtBuilding(itemType, resident.currentBuilding)) {
+          const sellers = getItemSellers(itemType);
+          if (sellers.length === 0) {
+            this.sendActionResult(resident, msg, false, getShopItem(itemType) ? `${itemType} is not sold anywhere` : 'Item not found in shop');
+            return true;
+          }
+          this.sendActionResult(resident, msg, false, `Must be inside ${sellers.map(b => b.name).join(' or ')}`);
           return true;
         }
-        const buyResult = buyItem(resident, itemType, quantity);
+        const buyResult = buyItem(resident, resident.currentBuilding, itemType, quantity);
         if (buyResult.success) {
-          const itemPrice = getShopItem(itemType)?.price ?? 0;
           logEvent('buy', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
-            item_type: itemType, quantity, cost: itemPrice * quantity,
+            item_type: itemType, quantity, cost: buyResult.totalCost, unit_price: buyResult.unitPrice, tax: buyResult.tax,
           });
+          // Logged purchase feeds back into demand, so re-sample this item's price
+          recordShopPrices(resident.currentBuilding, [itemType]);
         }
         this.sendActionResult(resident, msg, buyResult.success, buyResult.message,
           buyResult.success ? {
             item: buyResult.item,
+            unit_price: buyResult.unitPrice,
+            tax: buyResult.tax,
             wallet: resident.wallet,
             inventory: resident.inventory,
           } : undefined);
         return true;
       }
+      case 'place_order': {
+        if (!this.requireAwake(resident, msg)) return true;
+        if (!this.requireBuildingType(resident, msg, 'shop', 'a shop', 'to trade at the market stalls')) return true;
+        const side = msg.params?.side;
+        const orderItemType = msg.params?.item_type;
+        if (!side || !orderItemType) {
+          this.sendActionResult(resident, msg, false, 'missing side or item_type');
+          return true;
+        }
+        const orderResult = placeMarketOrder(
+          resident, side, orderItemType, msg.params?.quantity ?? 1, msg.params?.price, this.world.residents,
+        );
+        if (!orderResult.success) {
+          this.sendActionResult(resident, msg, false, orderResult.message);
+          return true;
+        }
+        for (const fill of orderResult.fills ?? []) {
+          const counterparty = this.world.residents.get(fill.counterparty_id);
+          if (!counterparty) continue;
+          sendWebhook(counterparty, 'market_order_filled', {
+            order_id: fill.counterparty_order_id,
+            side: fill.counterparty_id === fill.buyer_id ? 'buy' : 'sell',
+            item_type: fill.item_type,
+            quantity: fill.quantity,
+            price: fill.price,
+            wallet: counterparty.wallet,
+          });
+        }
+        this.sendActionResult(resident, msg, true, orderResult.message, {
+          order: orderResult.order,
+          fills: orderResult.fills,
+          wallet: resident.wallet,
+          inventory: resident.inventory,
+        });
+        return true;
+      }
+      case 'cancel_order': {
+        if (!this.requireBuildingType(resident, msg, 'shop', 'a shop', 'to cancel a market order')) return true;
+        const orderId = msg.params?.order_id;
+        if (!orderId) {
+          this.sendActionResult(resident, msg, false, 'missing_order_id');
+          return true;
+        }
+        const cancelResult = cancelMarketOrder(resident, orderId);
+        this.sendActionResult(resident, msg, cancelResult.success, cancelResult.message,
+          cancelResult.success ? {
+            refund: cancelResult.refund,
+            wallet: resident.wallet,
+            inventory: resident.inventory,
+          } : undefined);
+        return true;
+      }
+      case 'list_market': {
+        const marketItemType = msg.params?.item_type;
+        this.sendActionResult(resident, msg, true, undefined, {
+          book: getOrderBook(marketItemType),
+          recent_fills: getRecentFills(10, marketItemType),
+        });
+        return true;
+      }
       case 'collect_ubi': {
         if (!this.requireBuildingType(resident, msg, 'bank', 'the bank')) return true;
         const ubiResult = collectUbi(resident);
@@ -598,6 +711,44 @@ export class WsServer {
             : { cooldown_remaining: ubiResult.cooldownRemaining });
         return true;
       }
+      case 'deposit':
+      case 'withdraw': {
+        if (!this.requireBuildingType(resident, msg, 'bank', 'the bank')) return true;
+        const amount = msg.params?.amount;
+        const bankResult = msg.type === 'deposit'
+          ? deposit(resident, amount, this.world.worldTime)
+          : withdraw(resident, amount);
+        this.sendActionResult(resident, msg, bankResult.success, bankResult.message,
+          bankResult.success ? { balance: bankResult.balance, wallet: resident.wallet } : undefined);
+        return true;
+      }
+      case 'check_balance': {
+        if (!this.requireBuildingType(resident, msg, 'bank', 'the bank')) return true;
+        const statement = getBankStatement(resident.id, this.world.worldTime);
+        this.sendActionResult(resident, msg, true, `Balance: ${statement.balance} QUID`, {
+          balance: statement.balance,
+          wallet: resident.wallet,
+          loans: statement.loans,
+        });
+        return true;
+      }
+      case 'take_loan': {
+        if (!this.requireAwake(resident, msg)) return true;
+        if (!this.requireBuildingType(resident, msg, 'bank', 'the bank', 'to take out a loan')) return true;
+        const loanResult = takeLoan(resident, msg.params?.amount, this.world.worldTime);
+        this.sendActionResult(resident, msg, loanResult.success, loanResult.message, {
+          loan: loanResult.loan,
+          wallet: resident.wallet,
+        });
+        return true;
+      }
+      case 'repay_loan': {
+        if (!this.requireBuildingType(resident, msg, 'bank', 'the bank', 'to repay a loan')) return true;
+        const repayResult = repayLoan(resident, msg.params?.amount, this.world.worldTime);
+        this.sendActionResult(resident, msg, repayResult.success, repayResult.message,
+          repayResult.success ? { loan: repayResult.loan, wallet: resident.wallet } : undefined);
+        return true;
+      }
       case 'use_toilet': {
         const toiletResult = useToilet(resident);
         if (toiletResult.success) {
@@ -606,6 +757,14 @@ export class WsServer {
         this.sendActionResult(resident, msg, toiletResult.success, toiletResult.message);
         return true;
       }
+      case 'treat': {
+        if (!this.requireAwake(resident, msg)) return true;
+        if (!this.requireBuildingType(resident, msg, 'clinic', 'the clinic', 'to be treated')) return true;
+        const treatResult = treatIllness(resident, this.world.worldTime);
+        this.sendActionResult(resident, msg, treatResult.success, treatResult.message,
+          treatResult.success ? { wallet: resident.wallet } : undefined);
+        return true;
+      }
       case 'eat':
       case 'drink':
       case 'consume': {
@@ -620,11 +779,28 @@ export class WsServer {
           logEvent(msg.type, resident.id, null, null, resident.x, resident.y, {
             item_id: itemId, effects: result.effects,
           });
+          if (result.spoiled) this.world.exposeToSpoiledFood(resident);
         }
         this.sendActionResult(resident, msg, result.success, result.message,
           result.success ? { effects: result.effects, inventory: resident.inventory } : undefined);
         return true;
       }
+      case 'craft': {
+        if (!this.requireAwake(resident, msg)) return true;
+        const recipeId = msg.params?.recipe_id;
+        if (!recipeId) {
+          this.sendActionResult(resident, msg, false, 'missing_recipe_id', {
+            known_recipes: [...resident.knownRecipes],
+          });
+          return true;
+        }
+        const craftResult = craftItem(resident, recipeId, msg.params?.quantity ?? 1);
+        this.sendActionResult(resident, msg, craftResult.success, craftResult.message,
+          craftResult.success
+            ? { crafted: craftResult.crafted, consumed: craftResult.consumed, inventory: resident.inventory }
+            : undefined);
+        return true;
+      }
       default:
         return false;
     }
@@ -654,7 +830,7 @@ export class WsServer {
           return true;
         }
         const ids = claimable.map(r => r.id);
-        const result = claimReferrals(ids, Date.now());
+        const result = claimReferrals(ids, clock.now());
         resident.wallet += result.total;
         logEvent('referral_claimed', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
           count: result.count,
@@ -707,6 +883,25 @@ export class WsServer {
     }
   }
 
+  /** Tell a resident about a new (or counter) trade offer addressed to them */
+  private notifyTradeOffer(from: ResidentEntity, to: ResidentEntity, offer: PendingTradeOffer): void {
+    const verb = offer.counteredFrom ? 'countered with' : 'offers';
+    to.pendingNotifications.push(
+      `${from.preferredName} ${verb} ${describeTradeOffer(offer)}. Use accept_trade, reject_trade or counter_trade with offer_id ${offer.id}.`,
+    );
+    sendWebhook(to, 'trade_offer', {
+      offer_id: offer.id,
+      from_id: from.id,
+      from_name: from.preferredName,
+      offer_quid: offer.offerQuid,
+      offer_items: offer.offerItems,
+      request_quid: offer.requestQuid,
+      request_items: offer.requestItems,
+      countered_from: offer.counteredFrom,
+      expires_at: offer.expiresAt,
+    });
+  }
+
   private handleSocialActions(resident: ResidentEntity, msg: ClientMessage): void {
     switch (msg.type) {
       case 'inspect': {
@@ -728,7 +923,7 @@ export class WsServer {
           return;
         }
 
-        const eventRows = getRecentEventsForResident(targetId, 10);
+        const eventRows = getRecentEventsForResident(targetId, 10, ['steal']);
         const recentEvents = eventRows.map(e => ({
           timestamp: e.timestamp,
           type: e.type,
@@ -748,7 +943,7 @@ export class WsServer {
               full_name: targetRow.full_name,
               preferred_name: targetRow.preferred_name,
               place_of_origin: targetRow.place_of_origin,
-              type: targetRow.type as 'AGENT' | 'HUMAN',
+              type: targetRow.type as ResidentType,
               status: targetRow.status,
               date_of_arrival: targetRow.date_of_arrival,
               wallet: target.wallet,
@@ -778,21 +973,15 @@ export class WsServer {
         const tradeTargetId = msg.params?.target_id;
         const offerQuid = msg.params?.offer_quid ?? 0;
         const requestQuid = msg.params?.request_quid ?? 0;
+        const offerItems = msg.params?.offer_items ?? [];
+        const requestItems = msg.params?.request_items ?? [];
 
         if (!tradeTargetId) {
           this.sendActionResult(resident, msg, false, 'missing_target_id');
           return;
         }
-        if (requestQuid !== 0) {
-          this.sendActionResult(resident, msg, false, 'request_quid must be 0 (requesting QUID from others is not yet supported)');
-          return;
-        }
-        if (offerQuid <= 0 || !Number.isInteger(offerQuid)) {
-          this.sendActionResult(resident, msg, false, 'offer_quid must be a positive integer');
-          return;
-        }
-        if (resident.wallet < offerQuid) {
-          this.sendActionResult(resident, msg, false, `Not enough QUID (need ${offerQuid}, have ${resident.wallet})`);
+        if (!Array.isArray(offerItems) || !Array.isArray(requestItems)) {
+          this.sendActionResult(resident, msg, false, 'offer_items and request_items must be arrays');
           return;
         }
 
@@ -809,11 +998,46 @@ export class WsServer {
         const tdx = tradeTarget.x - resident.x;
         const tdy = tradeTarget.y - resident.y;
         const tradeDist = Math.sqrt(tdx * tdx + tdy * tdy);
-        if (tradeDist > 100) {
+        if (tradeDist > TRADE_RANGE) {
           this.sendActionResult(resident, msg, false, 'target_too_far');
           return;
         }
 
+        // Asking for something in return (or offering items) opens an escrowed offer
+        const isOffer = requestQuid !== 0 || offerItems.length > 0 || requestItems.length > 0;
+        if (isOffer) {
+          const offerResult = createTradeOffer(resident, tradeTarget, {
+            offer_quid: offerQuid,
+            request_quid: requestQuid,
+            offer_items: offerItems,
+            request_items: requestItems,
+          });
+          if (!offerResult.success) {
+            this.sendActionResult(resident, msg, false, offerResult.message);
+            return;
+          }
+          this.notifyTradeOffer(resident, tradeTarget, offerResult.offer!);
+          this.sendActionResult(resident, msg, true, offerResult.message, {
+            offer_id: offerResult.offer!.id,
+            expires_in_seconds: Math.round(TRADE_OFFER_TIMEOUT_MS / 1000),
+            wallet: resident.wallet,
+            inventory: resident.inventory,
+            target_id: tradeTargetId,
+            target_name: tradeTarget.preferredName,
+          });
+          return;
+        }
+
+        // Plain QUID gift — transferred immediately
+        if (offerQuid <= 0 || !Number.isInteger(offerQuid)) {
+          this.sendActionResult(resident, msg, false, 'offer_quid must be a positive integer');
+          return;
+        }
+        if (resident.wallet < offerQuid) {
+          this.sendActionResult(resident, msg, false, `Not enough QUID (need ${offerQuid}, have ${resident.wallet})`);
+          return;
+        }
+
         resident.wallet -= offerQuid;
         tradeTarget.wallet += offerQuid;
 
@@ -838,6 +1062,111 @@ export class WsServer {
         return;
       }
 
+      case 'accept_trade': {
+        if (!this.requireAwake(resident, msg)) return;
+        const offerId = msg.params?.offer_id;
+        if (!offerId) {
+          this.sendActionResult(resident, msg, false, 'missing_offer_id');
+          return;
+        }
+
+        const acceptResult = acceptTradeOffer(resident, offerId, this.world.residents);
+        if (!acceptResult.success) {
+          this.sendActionResult(resident, msg, false, acceptResult.message);
+          return;
+        }
+
+        const offer = acceptResult.offer!;
+        this.sendActionResult(resident, msg, true, acceptResult.message, {
+          offer_id: offer.id,
+          wallet: resident.wallet,
+          inventory: resident.inventory,
+        });
+
+        const offerer = this.world.residents.get(offer.fromId);
+        if (offerer) {
+          offerer.pendingNotifications.push(`${resident.preferredName} accepted your trade offer (${describeTradeOffer(offer)}).`);
+          sendWebhook(offerer, 'trade_accepted', {
+            offer_id: offer.id,
+            by_id: resident.id,
+            by_name: resident.preferredName,
+            received_quid: offer.requestQuid,
+            received_items: offer.requestItems,
+            wallet: offerer.wallet,
+            inventory: offerer.inventory,
+          });
+        }
+        return;
+      }
+
+      case 'reject_trade': {
+        const offerId = msg.params?.offer_id;
+        if (!offerId) {
+          this.sendActionResult(resident, msg, false, 'missing_offer_id');
+          return;
+        }
+
+        const rejectResult = rejectTradeOffer(resident, offerId, this.world.residents);
+        if (!rejectResult.success) {
+          this.sendActionResult(resident, msg, false, rejectResult.message);
+          return;
+        }
+
+        const offer = rejectResult.offer!;
+        this.sendActionResult(resident, msg, true, rejectResult.message, {
+          offer_id: offer.id,
+          wallet: resident.wallet,
+          inventory: resident.inventory,
+        });
+
+        const withdrawn = offer.fromId === resident.id;
+        const other = this.world.residents.get(withdrawn ? offer.toId : offer.fromId);
+        if (other) {
+          other.pendingNotifications.push(withdrawn
+            ? `${resident.preferredName} withdrew their trade offer.`
+            : `${resident.preferredName} rejected your trade offer. Escrow returned.`);
+          sendWebhook(other, withdrawn ? 'trade_withdrawn' : 'trade_rejected', {
+            offer_id: offer.id,
+            by_id: resident.id,
+            by_name: resident.preferredName,
+          });
+        }
+        return;
+      }
+
+      case 'counter_trade': {
+        if (!this.requireAwake(resident, msg)) return;
+        const offerId = msg.params?.offer_id;
+        if (!offerId) {
+          this.sendActionResult(resident, msg, false, 'missing_offer_id');
+          return;
+        }
+
+        const counterResult = counterTradeOffer(resident, offerId, {
+          offer_quid: msg.params?.offer_quid ?? 0,
+          request_quid: msg.params?.request_quid ?? 0,
+          offer_items: msg.params?.offer_items ?? [],
+          request_items: msg.params?.request_items ?? [],
+        }, this.world.residents);
+        if (!counterResult.success) {
+          this.sendActionResult(resident, msg, false, counterResult.message);
+          return;
+        }
+
+        const counter = counterResult.offer!;
+        const counterTarget = this.world.residents.get(counter.toId);
+        if (counterTarget) this.notifyTradeOffer(resident, counterTarget, counter);
+
+        this.sendActionResult(resident, msg, true, counterResult.message, {
+          offer_id: counter.id,
+          countered_from: counter.counteredFrom,
+          expires_in_seconds: Math.round(TRADE_OFFER_TIMEOUT_MS / 1000),
+          wallet: resident.wallet,
+          inventory: resident.inventory,
+        });
+        return;
+      }
+
       case 'give': {
         if (!this.requireAwake(resident, msg)) return;
         const giveTargetId = msg.params?.target_id;
@@ -893,15 +1222,10 @@ export class WsServer {
           resident.inventory = resident.inventory.filter(i => i.id !== giveItemId);
         }
 
-        const existingTargetItem = giveTarget.inventory.find(i => i.type === itemType);
-        if (existingTargetItem) {
-          existingTargetItem.quantity += giveQuantity;
-        } else {
-          giveTarget.inventory.push({
-            id: uuid(),
-            type: itemType,
-            quantity: giveQuantity,
-          });
+        const givenItem = addItemType(giveTarget, itemType, giveQuantity, giveItem.age);
+        if (giveItem.quantity <= 0 && giveItem.durability > 0) {
+          // Handing over the whole stack — the worn item goes with it
+          givenItem.durability = giveItem.durability;
         }
 
         addInventoryItem(giveTarget.id, itemType, giveQuantity, -1);
@@ -980,6 +1304,76 @@ export class WsServer {
         return;
       }
 
+      case 'work': {
+        if (!this.requireAwake(resident, msg)) return;
+        const workResult = performWorkTask(resident, msg.params?.task_id);
+        this.sendActionResult(resident, msg, workResult.success, workResult.message, {
+          ...(workResult.task ? { task: workResult.task } : {}),
+          ...(workResult.wait_game_minutes !== undefined ? { wait_game_minutes: workResult.wait_game_minutes } : {}),
+          employment: describeEmployment(resident),
+        });
+        return;
+      }
+
+      case 'register_business': {
+        if (!this.requireAwake(resident, msg)) return;
+        if (!this.requireBuildingType(resident, msg, 'hall', 'the hall', 'to register a business')) return;
+        const name = msg.params?.name;
+        if (!name) {
+          this.sendActionResult(resident, msg, false, 'missing name');
+          return;
+        }
+        const registerResult = registerBusiness(resident, name, msg.params?.building_id ?? null, msg.params?.description);
+        this.sendActionResult(resident, msg, registerResult.success, registerResult.message,
+          registerResult.business ? { business_id: registerResult.business.id, wallet: resident.wallet } : undefined);
+        return;
+      }
+
+      case 'post_job': {
+        if (!this.requireAwake(resident, msg)) return;
+        if (!this.requireBuildingType(resident, msg, 'hall', 'the hall', 'to post a job')) return;
+        const title = msg.params?.title;
+        const wage = Number(msg.params?.wage);
+        if (!title || !wage) {
+          this.sendActionResult(resident, msg, false, 'missing title or wage');
+          return;
+        }
+        const postResult = postJob(resident, title, wage, msg.params?.positions ?? 1, msg.params?.description);
+        this.sendActionResult(resident, msg, postResult.success, postResult.message,
+          postResult.job ? { job_id: postResult.job.id, title: postResult.job.title, wage: postResult.job.wage_per_shift, positions: postResult.job.max_positions } : undefined);
+        return;
+      }
+
+      case 'set_wage': {
+        const jobId = msg.params?.job_id;
+        const wage = Number(msg.params?.wage);
+        if (!jobId || !wage) {
+          this.sendActionResult(resident, msg, false, 'missing job_id or wage');
+          return;
+        }
+        const wageResult = setJobWage(resident, jobId, wage);
+        this.sendActionResult(resident, msg, wageResult.success, wageResult.message,
+          wageResult.job ? { job_id: wageResult.job.id, wage: wageResult.job.wage_per_shift } : undefined);
+        return;
+      }
+
+      case 'close_job': {
+        const jobId = msg.params?.job_id;
+        if (!jobId) {
+          this.sendActionResult(resident, msg, false, 'missing job_id');
+          return;
+        }
+        const closeJobResult = closeJobPosting(resident, jobId, this.world.residents);
+        this.sendActionResult(resident, msg, closeJobResult.success, closeJobResult.message);
+        return;
+      }
+
+      case 'close_business': {
+        const closeResult = closeBusiness(resident, this.world.residents);
+        this.sendActionResult(resident, msg, closeResult.success, closeResult.message);
+        return;
+      }
+
       case 'write_petition': {
         if (!this.requireAwake(resident, msg)) return;
         if (!this.requireBuildingType(resident, msg, 'hall', 'the hall', 'to write a petition')) return;
@@ -989,14 +1383,33 @@ export class WsServer {
           this.sendActionResult(resident, msg, false, 'missing category or description');
           return;
         }
-        const petitionResult = writePetition(resident, category, description);
+        const policy = msg.params.policy !== undefined
+          ? { key: msg.params.policy, value: msg.params.value }
+          : undefined;
+        const petitionResult = writePetition(resident, category, description, policy);
         this.sendActionResult(resident, msg, petitionResult.success, petitionResult.message,
           petitionResult.success && petitionResult.petition
-            ? { petition_id: petitionResult.petition.id, category, description }
+            ? {
+                petition_id: petitionResult.petition.id, category, description,
+                policy: petitionResult.petition.policy_key, value: petitionResult.petition.policy_value,
+              }
             : undefined);
         return;
       }
 
+      case 'write_will': {
+        if (!this.requireAwake(resident, msg)) return;
+        if (!this.requireBuildingType(resident, msg, 'hall', 'the hall', 'to write a will')) return;
+        if (!msg.params?.beneficiaries) {
+          this.sendActionResult(resident, msg, false, 'missing beneficiaries');
+          return;
+        }
+        const willResult = writeWill(resident, msg.params.beneficiaries, this.world.residents);
+        this.sendActionResult(resident, msg, willResult.success, willResult.message,
+          willResult.success ? { beneficiaries: willResult.beneficiaries } : undefined);
+        return;
+      }
+
       case 'vote_petition': {
         if (!this.requireAwake(resident, msg)) return;
         if (!this.requireBuildingType(resident, msg, 'hall', 'the hall', 'to vote')) return;
@@ -1013,7 +1426,31 @@ export class WsServer {
 
       case 'list_petitions': {
         const openPetitions = getOpenPetitions();
-        this.sendActionResult(resident, msg, true, undefined, { petitions: openPetitions });
+        this.sendActionResult(resident, msg, true, undefined, { petitions: openPetitions, policies: describePolicies() });
+        return;
+      }
+
+      case 'list_trials': {
+        this.sendActionResult(resident, msg, true, undefined, { trials: describeOpenTrials(this.world) });
+        return;
+      }
+
+      case 'jury_vote': {
+        if (!this.requireAwake(resident, msg)) return;
+        if (!this.requireBuildingType(resident, msg, 'hall', 'the hall', 'to serve on a jury')) return;
+        const trialId = msg.params?.trial_id;
+        if (!trialId) {
+          this.sendActionResult(resident, msg, false, 'missing trial_id');
+          return;
+        }
+        const voteResult = juryVote(resident, trialId, msg.params.verdict);
+        this.sendActionResult(resident, msg, voteResult.success, voteResult.message);
+        return;
+      }
+
+      case 'defend': {
+        const defendResult = defendSelf(resident, msg.params?.statement);
+        this.sendActionResult(resident, msg, defendResult.success, defendResult.message);
         return;
       }
 
@@ -1021,6 +1458,10 @@ export class WsServer {
         if (!this.requireAwake(resident, msg)) return;
         if (!this.requireBuildingType(resident, msg, 'station', 'the station', 'to depart')) return;
 
+        settleLocker(resident, this.world.residents, 'departure');
+        cancelTradeOffersFor(resident, this.world.residents);
+        cancelMarketOrdersFor(resident);
+        closeBankAccount(resident, 'departure');
         markResidentDeparted(resident.id);
         logEvent('depart', resident.id, null, resident.currentBuilding, resident.x, resident.y, {
           name: resident.preferredName, passport_no: resident.passportNo,
@@ -1110,25 +1551,27 @@ export class WsServer {
         resident.carryingBodyId = null;
         updateCarryingBody(resident.id, null);
 
-        resident.wallet += BODY_BOUNTY;
+        const bodyBounty = getPolicy('body_bounty');
+        resident.wallet += bodyBounty;
 
         if (processedBody) {
           this.world.residents.delete(processedBodyId);
         }
 
         logEvent('process_body', resident.id, processedBodyId, resident.currentBuilding, resident.x, resident.y, {
-          bounty: BODY_BOUNTY, wallet: resident.wallet,
+          bounty: bodyBounty, wallet: resident.wallet,
           body_name: processedBody?.preferredName ?? 'unknown',
         });
 
         this.sendActionResult(resident, msg, true,
-          `Body processed. Received ${BODY_BOUNTY} QUID bounty.`, {
-          bounty: BODY_BOUNTY,
+          `Body processed. Received ${bodyBounty} QUID bounty.`, {
+          bounty: bodyBounty,
           wallet: resident.wallet,
           body_id: processedBodyId,
         });
 
-        resident.pendingNotifications.push(`Processed body at mortuary. Earned ${BODY_BOUNTY} QUID.`);
+        resident.pendingNotifications.push(`Processed body at mortuary. Earned ${bodyBounty} QUID.`);
+        creditJobTask(resident, 'process_body');
         return;
       }
 
@@ -1246,52 +1689,72 @@ export class WsServer {
           return;
         }
 
-        const sentenceGameHours = LOITER_SENTENCE_GAME_HOURS;
-        const sentenceGameSeconds = sentenceGameHours * 3600;
-        const sentenceEnd = this.world.worldTime + sentenceGameSeconds;
-
-        bookedSuspect.prisonSentenceEnd = sentenceEnd;
-        bookedSuspect.currentBuilding = resident.currentBuilding;
-
         resident.carryingSuspectId = null;
         updateCarryingSuspect(resident.id, null);
 
         resident.wallet += ARREST_BOUNTY;
 
-        updatePrisonState(bookedSuspect.id, resident.id, sentenceEnd);
+        // The suspect goes before a jury at the hall rather than straight to prison
+        const trial = openTrial(resident, bookedSuspect, this.world);
+        updatePrisonState(bookedSuspect.id, resident.id, null);
 
         logEvent('book_suspect', resident.id, bookedSuspect.id, resident.currentBuilding, resident.x, resident.y, {
           suspect_name: bookedSuspect.preferredName,
-          sentence_game_hours: sentenceGameHours,
+          trial_id: trial.id,
           bounty: ARREST_BOUNTY,
         });
 
         this.sendActionResult(resident, msg, true,
-          `Booked ${bookedSuspect.preferredName}. Sentence: ${sentenceGameHours} game hours. Earned ${ARREST_BOUNTY} QUID bounty.`, {
+          `Booked ${bookedSuspect.preferredName}. They now stand trial at the hall. Earned ${ARREST_BOUNTY} QUID bounty — you will be fined ${WRONGFUL_ARREST_FINE} QUID if they are acquitted.`, {
           suspect_id: bookedSuspect.id,
           suspect_name: bookedSuspect.preferredName,
-          sentence_game_hours: sentenceGameHours,
+          trial_id: trial.id,
           bounty: ARREST_BOUNTY,
           wallet: resident.wallet,
         });
 
-        bookedSuspect.pendingNotifications.push(
-          `You have been booked into prison for ${sentenceGameHours} game hours. Offenses: ${bookedSuspect.lawBreaking.join(', ')}.`
-        );
-        sendWebhook(bookedSuspect, 'imprisoned', {
-          officer_id: resident.id,
-          officer_name: resident.preferredName,
-          sentence_game_hours: sentenceGameHours,
-          offenses: bookedSuspect.lawBreaking,
-        });
         sendWebhook(resident, 'book_suspect', {
           suspect_id: bookedSuspect.id,
           suspect_name: bookedSuspect.preferredName,
+          trial_id: trial.id,
           bounty: ARREST_BOUNTY,
           wallet: resident.wallet,
         });
 
-        resident.pendingNotifications.push(`Booked ${bookedSuspect.preferredName} into prison. Earned ${ARREST_BOUNTY} QUID.`);
+        resident.pendingNotifications.push(`Booked ${bookedSuspect.preferredName} for trial. Earned ${ARREST_BOUNTY} QUID.`);
+        creditJobTask(resident, 'book_suspect');
+        return;
+      }
+
+      case 'steal':
+      case 'assault': {
+        if (!this.requireAwake(resident, msg)) return;
+        const targetId = msg.params?.target_id;
+        if (!targetId) {
+          this.sendActionResult(resident, msg, false, 'missing target_id');
+          return;
+        }
+        const result = msg.type === 'steal'
+          ? stealFrom(resident, targetId, msg.params.item_type, this.world)
+          : assaultResident(resident, targetId, this.world);
+        this.sendActionResult(resident, msg, result.success, result.message, result.success ? {
+          witnesses: result.witnesses,
+          energy: resident.needs.energy,
+          inventory: resident.inventory,
+        } : result.wait_game_minutes !== undefined ? { wait_game_minutes: result.wait_game_minutes } : undefined);
+        return;
+      }
+
+      case 'report_crime': {
+        if (!this.requireAwake(resident, msg)) return;
+        if (!this.requireBuildingType(resident, msg, 'police', 'the police station', 'to report a crime')) return;
+        const suspectId = msg.params?.suspect_id;
+        if (!suspectId) {
+          this.sendActionResult(resident, msg, false, 'missing suspect_id');
+          return;
+        }
+        const result = reportCrime(resident, suspectId, this.world);
+        this.sendActionResult(resident, msg, result.success, result.message);
         return;
       }
     }
@@ -1325,6 +1788,10 @@ export class WsServer {
       return;
     }
 
+    if (node.maxUses === 0) {
+      this.sendActionResult(resident, msg, false, 'This resource yields nothing this season. Try another kind, or wait for the season to change.');
+      return;
+    }
     if (node.usesRemaining <= 0) {
       this.sendActionResult(resident, msg, false, 'This resource is depleted. Try another one.');
       return;
@@ -1338,21 +1805,9 @@ export class WsServer {
     }
 
     const forageItemType = node.type === 'berry_bush' ? 'wild_berries' : 'spring_water';
-    const forageItemName = node.type === 'berry_bush' ? 'Wild Berries' : 'Spring Water';
+    const forageItemName = getShopItem(forageItemType)?.name ?? forageItemType;
 
-    const existingForageItem = resident.inventory.find(i => i.type === forageItemType);
-    let forageItemId: string;
-    if (existingForageItem) {
-      existingForageItem.quantity += 1;
-      forageItemId = existingForageItem.id;
-    } else {
-      forageItemId = uuid();
-      resident.inventory.push({
-        id: forageItemId,
-        type: forageItemType,
-        quantity: 1,
-      });
-    }
+    const forageItemId = addItemType(resident, forageItemType, 1).id;
 
     addInventoryItem(resident.id, forageItemType, 1, -1);
 
@@ -1380,6 +1835,148 @@ export class WsServer {
     });
   }
 
+  private handleStructureActions(resident: ResidentEntity, msg: ClientMessage): void {
+    if (!this.requireAwake(resident, msg)) return;
+
+    let result: StructureResult;
+    switch (msg.type) {
+      case 'build': {
+        if (!msg.params?.structure_type) {
+          this.sendActionResult(resident, msg, false, 'missing structure_type', {
+            structures: CITY_CONFIG.structures.map(s => ({ type: s.id, name: s.name, cost: s.cost, description: s.description })),
+          });
+          return;
+        }
+        result = buildStructure(resident, msg.params.structure_type, msg.params.x, msg.params.y, this.world);
+        break;
+      }
+      case 'maintain_structure':
+        result = maintainStructure(resident, msg.params?.structure_id ?? '', this.world);
+        break;
+      case 'demolish_structure':
+        result = demolishStructure(resident, msg.params?.structure_id ?? '', this.world);
+        break;
+      case 'store_item':
+      case 'take_item': {
+        if (!msg.params?.item_type) {
+          this.sendActionResult(resident, msg, false, 'missing item_type');
+          return;
+        }
+        const move = msg.type === 'store_item' ? storeItem : takeItem;
+        result = move(resident, msg.params.structure_id ?? '', msg.params.item_type, msg.params.quantity, this.world);
+        break;
+      }
+      default:
+        return;
+    }
+
+    const s = result.structure;
+    this.sendActionResult(resident, msg, result.success, result.message, result.success && s ? {
+      structure_id: s.id,
+      structure_type: s.type,
+      tile_x: s.tileX,
+      tile_y: s.tileY,
+      condition: Math.ceil(s.condition),
+      ...(s.type === 'storage_chest' ? { contents: s.contents } : {}),
+      inventory: resident.inventory,
+    } : undefined);
+  }
+
+  private handleLockerActions(resident: ResidentEntity, msg: ClientMessage): void {
+    if (!this.requireAwake(resident, msg)) return;
+    if (!this.requireBuildingType(resident, msg, 'storage', 'the lockers')) return;
+
+    let result: LockerResult;
+    switch (msg.type) {
+      case 'rent_locker':
+        result = rentLocker(resident, msg.params?.days, msg.params?.heir_id, this.world.residents, this.world.worldTime);
+        break;
+      case 'locker_deposit':
+      case 'locker_withdraw': {
+        if (!msg.params?.item_type) {
+          this.sendActionResult(resident, msg, false, 'missing item_type');
+          return;
+        }
+        result = msg.type === 'locker_deposit'
+          ? depositToLocker(resident, msg.params.item_type, msg.params.quantity, this.world.worldTime)
+          : withdrawFromLocker(resident, msg.params.item_type, msg.params.quantity);
+        break;
+      }
+      case 'set_locker_heir':
+        result = setLockerHeir(resident, msg.params?.heir_id ?? null, this.world.residents);
+        break;
+      case 'release_locker':
+        result = releaseLocker(resident);
+        break;
+      default:
+        return;
+    }
+
+    this.sendActionResult(resident, msg, result.success, result.message, result.success ? {
+      locker: describeLocker(resident, this.world.residents, this.world.worldTime),
+      wallet: resident.wallet,
+      inventory: resident.inventory,
+    } : undefined);
+  }
+
+  private handleIntentActions(resident: ResidentEntity, msg: ClientMessage): void {
+    if (msg.type === 'start_intent') {
+      const result = this.intents.start(resident, msg.params);
+      this.sendActionResult(resident, msg, result.success, result.message,
+        result.intent_id ? { intent_id: result.intent_id } : undefined);
+      return;
+    }
+    if (msg.type === 'cancel_intent') {
+      const cancelled = this.intents.cancel(resident, 'cancelled');
+      this.sendActionResult(resident, msg, cancelled, cancelled ? 'Plan cancelled.' : 'no_intent');
+    }
+  }
+
+  private handleElectionActions(resident: ResidentEntity, msg: ClientMessage): void {
+    if (msg.type !== 'list_candidates' && !this.requireAwake(resident, msg)) return;
+    if (!this.requireBuildingType(resident, msg, 'hall', 'the hall')) return;
+
+    let result: ElectionResult;
+    switch (msg.type) {
+      case 'list_candidates':
+        result = { success: true, message: '', data: { ...describeElection(this.world), treasury: describeTreasury() } };
+        break;
+      case 'register_candidate':
+        result = registerCandidate(resident, msg.params?.platform);
+        break;
+      case 'campaign_speech':
+        result = campaignSpeech(resident, msg.params?.text, this.world);
+        break;
+      case 'vote_election':
+        result = voteElection(resident, msg.params?.ranking);
+        break;
+      case 'set_tax_rate':
+        result = setShopTaxRate(resident, msg.params?.rate, this.world);
+        break;
+      case 'pardon':
+        if (!msg.params?.resident_id) {
+          this.sendActionResult(resident, msg, false, 'missing resident_id');
+          return;
+        }
+        result = pardonPrisoner(resident, msg.params.resident_id, this.world);
+        break;
+      case 'propose_budget':
+        result = proposeBudget(resident, msg.params ?? {}, this.world);
+        break;
+      case 'vote_budget':
+        if (!msg.params?.budget_id || typeof msg.params.approve !== 'boolean') {
+          this.sendActionResult(resident, msg, false, 'missing budget_id or approve');
+          return;
+        }
+        result = voteOnBudget(resident, msg.params.budget_id, msg.params.approve, this.world);
+        break;
+      default:
+        return;
+    }
+
+    this.sendActionResult(resident, msg, result.success, result.message || undefined, result.data);
+  }
+
   private async handleAction(resident: ResidentEntity, msg: ClientMessage): Promise<void> {
     // Request ID deduplication
     const requestId = ('request_id' in msg ? msg.request_id : undefined) || '';
@@ -1403,9 +2000,9 @@ export class WsServer {
       return;
     }
 
-    // Imprisoned residents can only speak, inspect, and submit feedback
+    // Imprisoned residents can only speak, inspect, and submit feedback — and defend themselves on trial
     if (resident.arrestedBy || resident.prisonSentenceEnd) {
-      if (msg.type !== 'inspect' && msg.type !== 'speak' && msg.type !== 'submit_feedback') {
+      if (msg.type !== 'inspect' && msg.type !== 'speak' && msg.type !== 'submit_feedback' && !(msg.type === 'defend' && resident.onTrial)) {
         this.sendActionResult(resident, msg, false, 'imprisoned');
         return;
       }
@@ -1424,15 +2021,15 @@ export class WsServer {
     if (this.handleEconomyActions(resident, msg)) return;
     if (this.handleTourismAndFeedbackActions(resident, msg)) return;
 
-    if (msg.type === 'inspect' || msg.type === 'trade' || msg.type === 'give') {
+    if (msg.type === 'inspect' || msg.type === 'trade' || msg.type === 'give' || msg.type === 'accept_trade' || msg.type === 'reject_trade' || msg.type === 'counter_trade') {
       this.handleSocialActions(resident, msg);
       return;
     }
-    if (msg.type === 'apply_job' || msg.type === 'quit_job' || msg.type === 'list_jobs' || msg.type === 'write_petition' || msg.type === 'vote_petition' || msg.type === 'list_petitions' || msg.type === 'depart') {
+    if (msg.type === 'apply_job' || msg.type === 'quit_job' || msg.type === 'list_jobs' || msg.type === 'work' || msg.type === 'register_business' || msg.type === 'post_job' || msg.type === 'set_wage' || msg.type === 'close_job' || msg.type === 'close_business' || msg.type === 'write_petition' || msg.type === 'write_will' || msg.type === 'vote_petition' || msg.type === 'list_petitions' || msg.type === 'list_trials' || msg.type === 'jury_vote' || msg.type === 'defend' || msg.type === 'depart') {
       this.handleCivicActions(resident, msg);
       return;
     }
-    if (msg.type === 'collect_body' || msg.type === 'process_body' || msg.type === 'arrest' || msg.type === 'book_suspect') {
+    if (msg.type === 'collect_body' || msg.type === 'process_body' || msg.type === 'arrest' || msg.type === 'book_suspect' || msg.type === 'steal' || msg.type === 'assault' || msg.type === 'report_crime') {
       this.handleSafetyActions(resident, msg);
       return;
     }
@@ -1440,12 +2037,64 @@ export class WsServer {
       this.handleForageActions(resident, msg);
       return;
     }
+    if (msg.type === 'build' || msg.type === 'maintain_structure' || msg.type === 'demolish_structure' || msg.type === 'store_item' || msg.type === 'take_item') {
+      this.handleStructureActions(resident, msg);
+      return;
+    }
+
+    if (msg.type === 'list_candidates' || msg.type === 'register_candidate' || msg.type === 'campaign_speech' || msg.type === 'vote_election' || msg.type === 'set_tax_rate' || msg.type === 'pardon' || msg.type === 'propose_budget' || msg.type === 'vote_budget') {
+      this.handleElectionActions(resident, msg);
+      return;
+    }
+
+    if (msg.type === 'rent_locker' || msg.type === 'locker_deposit' || msg.type === 'locker_withdraw' || msg.type === 'set_locker_heir' || msg.type === 'release_locker') {
+      this.handleLockerActions(resident, msg);
+      return;
+    }
+
+    if (msg.type === 'start_intent' || msg.type === 'cancel_intent') {
+      this.handleIntentActions(resident, msg);
+      return;
+    }
 
     this.sendActionResult(resident, msg, false, 'unknown_action');
   }
 
+  /**
+   * Run an action for a resident from inside the server — NPCs, and steps of
+   * an intent. `onResult` gets what the action_result says, as it's sent
+   * (synchronously, for most actions); actions that send none count as done.
+   */
+  async performAction(
+    resident: ResidentEntity,
+    msg: ClientMessage,
+    onResult?: (outcome: ActionOutcome) => void,
+  ): Promise<void> {
+    const requestId = ('request_id' in msg ? msg.request_id : undefined) || `server-${newId()}`;
+    let reported = false;
+    this.resultListeners.set(requestId, (outcome) => {
+      if (reported) return;
+      reported = true;
+      onResult?.(outcome);
+    });
+    try {
+      await this.handleAction(resident, { ...msg, request_id: requestId } as ClientMessage);
+    } finally {
+      this.resultListeners.delete(requestId);
+    }
+    if (!reported) onResult?.({ success: true });
+  }
+
   /** Broadcast perception to all connected residents and their spectators */
   broadcastPerceptions(tick: number): void {
+    // City-wide announcements (e.g. policies enacted by petition) go to everyone connected
+    for (const announcement of this.world.pendingAnnouncements.splice(0)) {
+      const announceMsg: ServerMessage = { type: 'system_announcement', ...announcement, version: getChangelogVersion() };
+      for (const [, ws] of this.connections) {
+        if (ws.readyState === WebSocket.OPEN) this.send(ws, announceMsg);
+      }
+    }
+
     for (const [id, ws] of this.connections) {
       if (ws.readyState !== WebSocket.OPEN) continue;
 
@@ -1512,8 +2161,9 @@ export class WsServer {
     reason?: string,
     data?: Record<string, unknown>,
   ): void {
-    if (!resident.ws) return;
     const requestId = ('request_id' in msg ? msg.request_id : undefined) || '';
+    this.resultListeners.get(requestId)?.({ success, reason, data });
+    if (!resident.ws) return;
     this.send(resident.ws, {
       type: 'action_result',
       request_id: requestId,
@@ -0,0 +1,42 @@
+/**
+ * A minimal behavior tree. Trees are re-run from the root on every think, so
+ * nodes keep no state of their own: whatever an NPC is in the middle of
+ * (walking a path, sleeping, holding a shift) lives on its resident, and the
+ * tree just reads it back and carries on.
+ */
+
+export type NodeStatus = 'success' | 'failure' | 'running';
+
+export type BehaviorNode<C> = (ctx: C) => NodeStatus;
+
+/** Run children in order until one fails or is still running */
+export function sequence<C>(...children: BehaviorNode<C>[]): BehaviorNode<C> {
+  return (ctx) => {
+    for (const child of children) {
+      const status = child(ctx);
+      if (status !== 'success') return status;
+    }
+    return 'success';
+  };
+}
+
+/** Run children in order until one succeeds or is still running */
+export function selector<C>(...children: BehaviorNode<C>[]): BehaviorNode<C> {
+  return (ctx) => {
+    for (const child of children) {
+      const status = child(ctx);
+      if (status !== 'failure') return status;
+    }
+    return 'failure';
+  };
+}
+
+/** Succeed when the test holds, fail otherwise */
+export function condition<C>(test: (ctx: C) => boolean): BehaviorNode<C> {
+  return (ctx) => (test(ctx) ? 'success' : 'failure');
+}
+
+/** Only run `child` when the test holds */
+export function when<C>(test: (ctx: C) => boolean, child: BehaviorNode<C>): BehaviorNode<C> {
+  return sequence(condition(test), child);
+}
@@ -0,0 +1,122 @@
+/**
+ * Built-in NPC residents. Each NpcConfig in CITY_CONFIG.npcs is a resident
+ * of type 'NPC' that arrives by train like anyone else and is driven by its
+ * role's behavior tree. NPCs act through the same handlers as a connected
+ * agent (the `dispatch` passed in is WsServer.performAction), so they pay
+ * the same prices, need the same energy and can be robbed, arrested, tried
+ * and killed like anyone else. A dead NPC is replaced after a delay.
+ */
+
+import type { ClientMessage, NpcConfig } from '@otra/shared';
+import { CITY_CONFIG, NPC_THINK_INTERVAL_SEC, NPC_RESPAWN_DELAY_GAME_HOURS } from '@otra/shared';
+import type { World, ResidentEntity } from '../simulation/world.js';
+import type { ActionDispatcher } from '../network/ws-server.js';
+import { createResident } from '../db/queries.js';
+import { random } from '../simulation/clock.js';
+import type { BehaviorNode } from './behavior-tree.js';
+import { ROLE_TREES, newNpcMemory } from './roles.js';
+import type { NpcContext, NpcMemory } from './roles.js';
+
+interface Npc {
+  config: NpcConfig;
+  tree: BehaviorNode<NpcContext>;
+  memory: NpcMemory;
+  residentId: string | null;   // the resident playing this NPC, once seen alive
+  respawnAt: number | null;    // world time a replacement is due
+}
+
+export class NpcSystem {
+  private npcs: Npc[];
+  private thinkTimer = 0;
+
+  constructor(private world: World, private dispatch: ActionDispatcher) {
+    this.npcs = CITY_CONFIG.npcs.map(config => ({
+      config,
+      tree: ROLE_TREES[config.role],
+      memory: newNpcMemory(Math.floor(random() * 100)),
+      residentId: null,
+      respawnAt: null,
+    }));
+  }
+
+  /** Tick every NPC's behavior tree, and bring in replacements for any that have died */
+  update(dt: number): void {
+    this.thinkTimer += dt;
+    if (this.thinkTimer < NPC_THINK_INTERVAL_SEC) return;
+    this.thinkTimer = 0;
+
+    for (const npc of this.npcs) {
+      const resident = this.findResident(npc);
+      if (!resident) {
+        this.replace(npc);
+        continue;
+      }
+      if (!this.canAct(resident)) continue;
+      npc.tree({
+        npc: resident,
+        world: this.world,
+        memory: npc.memory,
+        act: (msg) => this.act(resident, msg),
+      });
+    }
+  }
+
+  private findResident(npc: Npc): ResidentEntity | undefined {
+    for (const [, r] of this.world.residents) {
+      if (r.npcId === npc.config.id && !r.isDead) {
+        npc.residentId = r.id;
+        return r;
+      }
+    }
+    return undefined;
+  }
+
+  /** Waiting on the train, in a cell or in the toilet: nothing to decide */
+  private canAct(r: ResidentEntity): boolean {
+    return !this.world.trainQueue.includes(r.id) && !r.arrestedBy && !r.prisonSentenceEnd
+      && r.toiletUseUntilMs === null;
+  }
+
+  private act(resident: ResidentEntity, msg: ClientMessage): void {
+    this.dispatch(resident, msg).catch(err => {
+      console.error(`[NPC] ${resident.preferredName} failed to ${msg.type}:`, err);
+    });
+  }
+
+  /**
+   * Register a new resident for an NPC with nobody playing it. The first one
+   * arrives straight away; after a death, NPC_RESPAWN_DELAY_GAME_HOURS later.
+   */
+  private replace(npc: Npc): void {
+    if (npc.respawnAt === null) {
+      npc.respawnAt = npc.residentId === null
+        ? this.world.worldTime
+        : this.world.worldTime + NPC_RESPAWN_DELAY_GAME_HOURS * 3600;
+    }
+    if (this.world.worldTime < npc.respawnAt) return;
+
+    const { config } = npc;
+    const spawnPoint = this.world.map.data.spawnPoint;
+    const row = createResident({
+      full_name: config.fullName,
+      preferred_name: config.preferredName,
+      place_of_origin: config.placeOfOrigin,
+      type: 'NPC',
+      bio: config.bio,
+      build: config.build,
+      skin_tone: config.skinTone,
+      hair_style: config.hairStyle,
+      hair_color: config.hairColor,
+      npc_id: config.id,
+      x: spawnPoint.x,
+      y: spawnPoint.y,
+    });
+    const entity = this.world.addResidentFromRow(row);
+    this.world.queueForTrain(entity.id);
+
+    npc.residentId = entity.id;
+    npc.respawnAt = null;
+    npc.memory = newNpcMemory(npc.memory.patrolStop);
+    console.log(`[NPC] ${config.preferredName} (${config.role}) is on the next train`);
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * Behavior trees for each NPC role. Every tree starts with the same survival
+ * branch (sleep, toilet, eat, drink, shop, UBI) and then does its job. NPCs
+ * act only through `ctx.act`, which runs the same action handlers a connected
+ * agent's messages go through — the trees read world state directly to decide
+ * what to send, much as an agent reads its perception.
+ */
+
+import type { BuildingType, ClientMessage, NpcRole } from '@otra/shared';
+import {
+  FORAGE_RANGE, ARREST_RANGE, TILE_SIZE, UBI_COOLDOWN_SEC,
+  WORK_TASK_COOLDOWN_GAME_MINUTES, ENERGY_COST_WORK_TASK,
+  NPC_SIGHT_RANGE, NPC_NEED_LOW, NPC_BLADDER_HIGH, NPC_CARRY_TARGET, NPC_PATROL_PAUSE_GAME_MINUTES,
+} from '@otra/shared';
+import type { World, ResidentEntity } from '../simulation/world.js';
+import { getBuildingByType, getBuildingType } from '../buildings/building-registry.js';
+import { ITEM_CATALOG, quoteShopPrice } from '../economy/shop.js';
+import { taxOn } from '../civic/treasury.js';
+import { getJob, getJobHolderCount } from '../db/queries.js';
+import { clock } from '../simulation/clock.js';
+import { selector, sequence, when } from './behavior-tree.js';
+import type { BehaviorNode, NodeStatus } from './behavior-tree.js';
+
+export interface NpcMemory {
+  walkTarget: { x: number; y: number } | null;  // where the last move_to was aimed
+  patrolStop: number;                           // index into the police beat
+  lingerUntil: number;                          // world time to stay at the current stop until
+  greeted: Map<string, number>;                 // resident id → world time the shopkeeper last greeted them
+}
+
+export interface NpcContext {
+  npc: ResidentEntity;
+  world: World;
+  memory: NpcMemory;
+  act: (msg: ClientMessage) => void;
+}
+
+type Node = BehaviorNode<NpcContext>;
+
+export function newNpcMemory(patrolStop = 0): NpcMemory {
+  return { walkTarget: null, patrolStop, lingerUntil: 0, greeted: new Map() };
+}
+
+// === Helpers ===
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function isWalking(npc: ResidentEntity): boolean {
+  return npc.pathWaypoints !== null;
+}
+
+/** Walk to the first building of a type and go in. Running until inside. */
+function goInto(type: BuildingType): Node {
+  return (ctx) => {
+    const building = getBuildingByType(type);
+    if (!building) return 'failure';
+    if (ctx.npc.currentBuilding === building.id) return 'success';
+    if (isWalking(ctx.npc) && ctx.npc.pathTargetBuilding === building.id) return 'running';
+    ctx.act({ type: 'move_to', params: { target: building.id } });
+    return 'running';
+  };
+}
+
+/** Walk to within `range` px of a point outdoors. Re-paths when the point has moved. */
+function walkNear(ctx: NpcContext, target: { x: number; y: number }, range: number): NodeStatus {
+  if (!ctx.npc.currentBuilding && distance(ctx.npc, target) <= range) return 'success';
+  const aimed = ctx.memory.walkTarget;
+  if (isWalking(ctx.npc) && aimed && distance(aimed, target) <= TILE_SIZE) return 'running';
+  ctx.memory.walkTarget = { x: target.x, y: target.y };
+  ctx.act({ type: 'move_to', params: { x: target.x, y: target.y } });
+  return 'running';
+}
+
+const FOOD = ITEM_CATALOG.filter(i => i.hunger_restore > 0);
+const DRINK = ITEM_CATALOG.filter(i => i.thirst_restore > 0);
+
+// === Survival ===
+
+/** Sleep when exhausted, and stay asleep until well rested */
+const rest: Node = (ctx) => {
+  const { npc } = ctx;
+  if (npc.isSleeping) {
+    if (npc.needs.energy >= 90) ctx.act({ type: 'wake' });
+    return 'running';
+  }
+  if (npc.needs.energy >= NPC_NEED_LOW / 2) return 'failure';
+  ctx.act({ type: 'sleep' });
+  return 'running';
+};
+
+const relieve: Node = when(
+  ({ npc }) => npc.needs.bladder > NPC_BLADDER_HIGH,
+  sequence(goInto('toilet'), (ctx) => {
+    ctx.act({ type: 'use_toilet' });
+    return 'running';
+  }),
+);
+
+/** Eat or drink the best thing in the inventory for a need that has run low */
+function consume(need: 'hunger' | 'thirst'): Node {
+  const items = need === 'hunger' ? FOOD : DRINK;
+  const restore = (type: string) => {
+    const item = items.find(i => i.item_type === type);
+    return item ? (need === 'hunger' ? item.hunger_restore : item.thirst_restore) : 0;
+  };
+  return (ctx) => {
+    if (ctx.npc.needs[need] >= NPC_NEED_LOW) return 'failure';
+    const best = ctx.npc.inventory
+      .filter(i => restore(i.type) > 0)
+      .sort((a, b) => restore(b.type) - restore(a.type))[0];
+    if (!best) return 'failure';
+    ctx.act({ type: need === 'hunger' ? 'eat' : 'drink', params: { item_id: best.id } });
+    return 'running';
+  };
+}
+
+/** Go to the shop and buy one of `itemType` when a need is low and there's nothing to hand */
+function buy(need: 'hunger' | 'thirst', itemType: string): Node {
+  return (ctx) => {
+    if (ctx.npc.needs[need] >= NPC_NEED_LOW) return 'failure';
+    const shop = getBuildingByType('shop');
+    const quote = shop ? quoteShopPrice(shop.id, itemType) : undefined;
+    if (!quote || quote.stock <= 0 || ctx.npc.wallet < quote.price + taxOn(quote.price)) return 'failure';
+    return sequence(goInto('shop'), (c) => {
+      c.act({ type: 'buy', params: { item_type: itemType, quantity: 1 } });
+      return 'running';
+    })(ctx);
+  };
+}
+
+const collectUbi: Node = when(
+  ({ npc }) => npc.wallet < 10 && (clock.now() - npc.lastUbiCollection) / 1000 >= UBI_COOLDOWN_SEC,
+  sequence(goInto('bank'), (ctx) => {
+    ctx.act({ type: 'collect_ubi' });
+    return 'running';
+  }),
+);
+
+const survive: Node = selector(
+  rest,
+  relieve,
+  consume('thirst'),
+  consume('hunger'),
+  buy('thirst', 'water'),
+  buy('hunger', 'bread'),
+  collectUbi,
+);
+
+// === Work ===
+
+/** Hold `jobId`, applying at the hall if it's free. Fails when the post is taken. */
+function holdJob(jobId: string): Node {
+  return (ctx) => {
+    if (ctx.npc.currentJobId === jobId) return 'success';
+    const job = getJob(jobId);
+    if (ctx.npc.employment || !job || getJobHolderCount(jobId) >= job.max_positions) return 'failure';
+    return sequence(goInto('hall'), (c) => {
+      c.act({ type: 'apply_job', params: { job_id: jobId } });
+      return 'running';
+    })(ctx);
+  };
+}
+
+/** On shift: do a work task whenever the cooldown allows */
+const workShift: Node = (ctx) => {
+  const { npc } = ctx;
+  const cooledDown = npc.lastWorkTaskAt === null || npc.shiftStartTime === null
+    || npc.shiftStartTime - npc.lastWorkTaskAt >= WORK_TASK_COOLDOWN_GAME_MINUTES * 60;
+  if (npc.employment?.onShift && cooledDown && npc.needs.energy >= ENERGY_COST_WORK_TASK) {
+    ctx.act({ type: 'work' });
+  }
+  return 'success';
+};
+
+// === Shopkeeper ===
+
+/** Say hello to customers, once a game day each */
+const greetCustomers: Node = (ctx) => {
+  const { npc, world, memory } = ctx;
+  for (const [, r] of world.residents) {
+    if (r.id === npc.id || r.isDead || r.currentBuilding !== npc.currentBuilding) continue;
+    const last = memory.greeted.get(r.id);
+    if (last !== undefined && world.worldTime - last < 24 * 3600) continue;
+    memory.greeted.set(r.id, world.worldTime);
+    ctx.act({ type: 'speak', params: { text: `Welcome in, ${r.preferredName}. Let me know if you need anything.`, volume: 'normal', to: r.id } });
+    break;
+  }
+  return 'running';
+};
+
+const shopkeeper: Node = selector(
+  survive,
+  sequence(holdJob('shop-clerk'), goInto('shop'), workShift, greetCustomers),
+);
+
+// === Police ===
+
+/** Take an arrested suspect to the station and book them */
+const bookSuspect: Node = when(
+  ({ npc }) => npc.carryingSuspectId !== null,
+  sequence(goInto('police'), (ctx) => {
+    ctx.act({ type: 'book_suspect' });
+    return 'running';
+  }),
+);
+
+/** Chase down the nearest lawbreaker in sight and arrest them */
+const pursueLawbreaker: Node = (ctx) => {
+  const { npc, world } = ctx;
+  let target: ResidentEntity | null = null;
+  let nearest = NPC_SIGHT_RANGE;
+  for (const [, r] of world.residents) {
+    if (r.id === npc.id || r.isDead || r.lawBreaking.length === 0 || r.arrestedBy || r.prisonSentenceEnd) continue;
+    if (r.currentBuilding !== npc.currentBuilding) continue;
+    const d = distance(npc, r);
+    if (d <= nearest) {
+      nearest = d;
+      target = r;
+    }
+  }
+  if (!target) return 'failure';
+  if (nearest <= ARREST_RANGE) {
+    ctx.act({ type: 'arrest', params: { target_id: target.id } });
+    return 'running';
+  }
+  return walkNear(ctx, target, ARREST_RANGE / 2);
+};
+
+/** The tile just outside a door, by the way it faces */
+const DOOR_STEP: Record<string, { dx: number; dy: number }> = {
+  north: { dx: 0, dy: -1 },
+  south: { dx: 0, dy: 1 },
+  east: { dx: 1, dy: 0 },
+  west: { dx: -1, dy: 0 },
+};
+
+/** Walk a beat past every building's door, holding the shift inside the station on each round */
+const patrol: Node = (ctx) => {
+  const { world, memory } = ctx;
+  const stops = world.map.data.buildings.filter(b => b.doors.length > 0);
+  if (stops.length === 0) return 'failure';
+  const stop = stops[memory.patrolStop % stops.length];
+
+  let status: NodeStatus;
+  if (getBuildingType(stop.id) === 'police') {
+    status = goInto('police')(ctx);
+  } else {
+    const door = stop.doors[0];
+    const step = DOOR_STEP[door.facing] ?? DOOR_STEP.south;
+    const outside = { x: (door.tileX + step.dx + 0.5) * TILE_SIZE, y: (door.tileY + step.dy + 0.5) * TILE_SIZE };
+    status = walkNear(ctx, outside, TILE_SIZE * 2);
+  }
+  if (status !== 'success') {
+    memory.lingerUntil = 0;
+    return status;
+  }
+
+  if (memory.lingerUntil === 0) {
+    memory.lingerUntil = world.worldTime + NPC_PATROL_PAUSE_GAME_MINUTES * 60;
+  } else if (world.worldTime >= memory.lingerUntil) {
+    memory.patrolStop++;
+    memory.lingerUntil = 0;
+  }
+  return 'running';
+};
+
+const police: Node = selector(
+  survive,
+  sequence(holdJob('police-officer'), selector(bookSuspect, pursueLawbreaker, patrol)),
+);
+
+// === Forager ===
+
+/** Pick from the nearest bush or spring with something on it until carrying enough */
+const forage: Node = (ctx) => {
+  const { npc, world } = ctx;
+  const carried = npc.inventory
+    .filter(i => FOOD.some(f => f.item_type === i.type) || DRINK.some(d => d.item_type === i.type))
+    .reduce((sum, i) => sum + i.quantity, 0);
+  if (carried >= NPC_CARRY_TARGET) return 'failure';
+
+  let node = null;
+  let nearest = Infinity;
+  for (const [, n] of world.forageableNodes) {
+    if (n.usesRemaining <= 0) continue;
+    const d = distance(npc, n);
+    if (d < nearest) {
+      nearest = d;
+      node = n;
+    }
+  }
+  if (!node) return 'failure';
+
+  const status = walkNear(ctx, node, FORAGE_RANGE - 8);
+  if (status !== 'success') return status;
+  ctx.act({ type: 'forage', params: { node_id: node.id } });
+  return 'running';
+};
+
+const forager: Node = selector(survive, forage);
+
+export const ROLE_TREES: Record<NpcRole, Node> = { shopkeeper, police, forager };
@@ -0,0 +1,78 @@
+/**
+ * Simulation clock and random source. A live server runs on the wall clock
+ * and Math.random; a headless run installs a manual clock and a seeded
+ * generator so the same database, seed and tick count replay the same world.
+ *
+ * Anything that feeds simulation state — timers, timestamps written to the
+ * database, random rolls, entity ids — goes through here rather than
+ * Date.now, Math.random or uuid() directly.
+ */
+
+import { v4 as uuid } from 'uuid';
+
+export interface Clock {
+  /** Milliseconds since the Unix epoch */
+  now(): number;
+}
+
+export interface RandomSource {
+  /** Uniform in [0, 1) */
+  next(): number;
+}
+
+export interface SimulationEnv {
+  clock: Clock;
+  random: RandomSource;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+export const systemRandom: RandomSource = { next: () => Math.random() };
+
+/** A clock that only moves when told to. Headless runs advance it one tick at a time. */
+export class ManualClock implements Clock {
+  constructor(private time: number) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  advance(ms: number): void {
+    this.time += ms;
+  }
+}
+
+/** mulberry32 — small, fast, and plenty for game rolls */
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return {
+    next() {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+  };
+}
+
+let env: SimulationEnv = { clock: systemClock, random: systemRandom };
+
+/** Swap the clock and random source for the whole process. Call before building the World. */
+export function useSimulationEnv(next: Partial<SimulationEnv>): void {
+  env = { clock: next.clock ?? systemClock, random: next.random ?? systemRandom };
+}
+
+/** The simulation's notion of "now" */
+export const clock: Clock = { now: () => env.clock.now() };
+
+export function random(): number {
+  return env.random.next();
+}
+
+/** A v4 uuid drawn from the simulation's random source */
+export function newId(): string {
+  if (env.random === systemRandom) return uuid();
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(random() * 256);
+  return uuid({ random: bytes });
+}
@@ -1,5 +1,8 @@
 import { SIM_TICK_RATE, POSITION_UPDATE_RATE, PERCEPTION_BROADCAST_RATE } from '@otra/shared';
 import type { World } from './world.js';
+import type { Clock, ManualClock } from './clock.js';
+
+const performanceClock: Clock = { now: () => performance.now() };
 
 export class GameLoop {
   private running = false;
@@ -18,12 +21,13 @@ export class GameLoop {
   constructor(
     private world: World,
     private onPerceptionTick: (tick: number) => void,
+    private clock: Clock = performanceClock,
   ) {}
 
   start(): void {
     if (this.running) return;
     this.running = true;
-    this.lastTime = performance.now();
+    this.lastTime = this.clock.now();
     console.log(`[GameLoop] Started — sim: ${SIM_TICK_RATE}Hz, pos: ${POSITION_UPDATE_RATE}Hz, perception: ${PERCEPTION_BROADCAST_RATE}Hz`);
     this.loop();
   }
@@ -33,13 +37,32 @@ export class GameLoop {
     console.log('[GameLoop] Stopped');
   }
 
+  /**
+   * Headless mode: step exactly `ticks` simulation ticks back to back, moving
+   * the manual clock one tick at a time. No timers or event-loop yields, so it
+   * runs as fast as the CPU allows and the same inputs give the same world.
+   */
+  runTicks(ticks: number, clock: ManualClock): void {
+    for (let i = 0; i < ticks; i++) {
+      clock.advance(this.SIM_STEP);
+      this.step(this.SIM_STEP);
+    }
+  }
+
   private loop = (): void => {
     if (!this.running) return;
 
-    const now = performance.now();
+    const now = this.clock.now();
     const delta = now - this.lastTime;
     this.lastTime = now;
 
+    this.step(delta);
+
+    // Yield to event loop, then continue
+    setImmediate(this.loop);
+  };
+
+  private step(delta: number): void {
     // Cap delta to prevent spiral of death after long pauses
     const cappedDelta = Math.min(delta, 500);
 
@@ -58,9 +81,22 @@ export class GameLoop {
       const dt = this.SIM_STEP / 1000;
       this.world.updateToiletUsage();
       this.world.updateNeeds(dt);
+      this.world.updateSpoilage(dt);
       this.world.applySeparation(dt);
+      this.world.updateBank(dt);
       this.world.updateLawEnforcement(dt);
+      this.world.updateTrials(dt);
+      this.world.updateElections(dt);
+      this.world.updateWeather();
+      this.world.updateSeason();
+      this.world.updateStructures(dt);
+      this.world.updateLockers(dt);
+      this.world.updateIllness(dt);
       this.world.updateForageables(dt);
+      this.world.updateTradeOffers();
+      this.world.updateNpcs(dt);
+      this.world.updateIntents(dt);
+      this.world.updateRecipeDiscovery(dt);
       this.world.checkDeaths();
       this.reflectionTimer += dt;
       if (this.reflectionTimer >= this.REFLECTION_CHECK_INTERVAL) {
@@ -83,8 +119,5 @@ export class GameLoop {
       this.world.clearPendingPainMessages();
       this.perceptionAccumulator -= this.PERC_STEP;
     }
-
-    // Yield to event loop, then continue
-    setImmediate(this.loop);
-  };
+  }
 }
@@ -0,0 +1,93 @@
+/**
+ * Headless mode — run the world with no HTTP or WebSocket server, on a manual
+ * clock and a seeded RNG, for a fixed number of simulation ticks as fast as
+ * the CPU allows. Two runs from copies of the same database with the same
+ * seed, start time and tick count end in the same state, and print the same
+ * digest. Benchmarks and regression tests compare digests across builds.
+ */
+
+import { createHash } from 'crypto';
+import { createServer } from 'http';
+import { SIM_TICK_RATE } from '@otra/shared';
+import { initDatabase, closeDatabase } from '../db/database.js';
+import { TileMap } from './map.js';
+import { World } from './world.js';
+import { GameLoop } from './game-loop.js';
+import { WsServer } from '../network/ws-server.js';
+import { NpcSystem } from '../npc/npc-system.js';
+import { ManualClock, seededRandom } from './clock.js';
+
+export interface HeadlessOptions {
+  ticks: number;
+  seed: number;
+  startTime: number;  // epoch ms the manual clock starts at
+  dbPath: string;     // ':memory:' for a fresh city; runs write to the database, so pass a copy
+}
+
+export interface HeadlessResult {
+  ticks: number;
+  worldTime: number;
+  residentsAlive: number;
+  elapsedMs: number;  // wall time, for benchmarks — not part of the digest
+  digest: string;
+}
+
+/** Default start time, so runs that don't pass one agree on "now" */
+export const HEADLESS_EPOCH = Date.UTC(2025, 0, 1);
+
+/** sha256 over the state that should replay exactly: clock, weather, every resident and structure */
+export function worldDigest(world: World): string {
+  const residents = [...world.residents.values()]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(r => [
+      r.id, r.x, r.y, r.needs, r.wallet, r.isDead, r.isSleeping, r.currentBuilding,
+      r.illness, r.lawBreaking, r.prisonSentenceEnd, r.inventory,
+    ]);
+  const structures = [...world.structures.values()]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(s => [s.id, s.condition]);
+  const state = {
+    world_time: world.worldTime,
+    weather: [world.weather.condition, world.weather.changesAt],
+    residents,
+    structures,
+  };
+  return createHash('sha256').update(JSON.stringify(state)).digest('hex');
+}
+
+export function runHeadless(options: HeadlessOptions): HeadlessResult {
+  const clock = new ManualClock(options.startTime);
+
+  initDatabase(options.dbPath);
+  const map = TileMap.loadFromFile();
+  const world = new World(map, { clock, random: seededRandom(options.seed) });
+  world.loadResidentsFromDb();
+  // Nothing leaves the process: no sockets, and no webhooks to agents' servers
+  for (const [, r] of world.residents) r.webhookUrl = null;
+  // NPCs act through the socket server's handlers; it's attached to a server that never listens
+  if (process.env.NPCS !== 'off') {
+    const actions = new WsServer(createServer(), world);
+    world.npcs = new NpcSystem(world, (r, msg) => actions.performAction(r, msg));
+  }
+
+  const gameLoop = new GameLoop(world, () => {
+    world.pendingAnnouncements.length = 0;
+  }, clock);
+
+  const started = performance.now();
+  gameLoop.runTicks(options.ticks, clock);
+  const elapsedMs = performance.now() - started;
+
+  const result: HeadlessResult = {
+    ticks: options.ticks,
+    worldTime: world.worldTime,
+    residentsAlive: [...world.residents.values()].filter(r => !r.isDead).length,
+    elapsedMs,
+    digest: worldDigest(world),
+  };
+
+  world.saveToDb();
+  closeDatabase();
+  console.log(`[Headless] ${options.ticks} ticks (${options.ticks / SIM_TICK_RATE}s simulated) in ${Math.round(elapsedMs)}ms`);
+  return result;
+}
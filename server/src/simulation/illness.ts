@@ -0,0 +1,103 @@
+/**
+ * Illness — diseases caught from spoiled food, from sleeping rough at night,
+ * or from close contact with a contagious resident. While ill, a resident's
+ * needs decay faster and they slowly lose health until they recover on their
+ * own or are treated at the clinic.
+ */
+
+import type { DiseaseConfig, IllnessStatus } from '@otra/shared';
+import { CITY_CONFIG, ILLNESS_IMMUNITY_GAME_HOURS } from '@otra/shared';
+import type { ResidentEntity } from './world.js';
+import { logEvent } from '../db/queries.js';
+import { sendWebhook } from '../network/webhooks.js';
+
+export interface IllnessEffects {
+  hungerDecay: number;
+  thirstDecay: number;
+  energyDecay: number;
+  healthDrainPerSec: number;
+}
+
+export const NO_ILLNESS: IllnessEffects = { hungerDecay: 1, thirstDecay: 1, energyDecay: 1, healthDrainPerSec: 0 };
+
+export function getDisease(id: string): DiseaseConfig | undefined {
+  return CITY_CONFIG.diseases.find(d => d.id === id);
+}
+
+/** The disease a resident is suffering from, if any */
+export function currentDisease(r: ResidentEntity): DiseaseConfig | undefined {
+  return r.illness ? getDisease(r.illness.diseaseId) : undefined;
+}
+
+export function illnessEffectsFor(r: ResidentEntity): IllnessEffects {
+  const disease = currentDisease(r);
+  if (!disease) return NO_ILLNESS;
+  return {
+    hungerDecay: disease.decay.hunger ?? 1,
+    thirstDecay: disease.decay.thirst ?? 1,
+    energyDecay: disease.decay.energy ?? 1,
+    healthDrainPerSec: disease.healthDrainPerHour / 3600,
+  };
+}
+
+/**
+ * Infect a resident unless they're already ill or still immune.
+ * Returns true if they caught it.
+ */
+export function infect(
+  r: ResidentEntity,
+  disease: DiseaseConfig,
+  worldTime: number,
+  source: DiseaseConfig['caughtFrom'] | 'contagion',
+  fromId: string | null = null,
+): boolean {
+  if (r.isDead || r.illness || worldTime < r.immuneUntil) return false;
+
+  r.illness = {
+    diseaseId: disease.id,
+    caughtAt: worldTime,
+    recoversAt: worldTime + disease.durationGameHours * 3600,
+  };
+  const how = source === 'contagion' ? 'from someone nearby' : source === 'spoiled_food' ? 'from spoiled food' : 'from sleeping out in the cold';
+  r.pendingNotifications.push(
+    `You caught ${disease.name.toLowerCase()} ${how}. ${disease.description} It passes in ${disease.durationGameHours} game hours, or the clinic can treat it.`,
+  );
+  logEvent('fell_ill', r.id, fromId, r.currentBuilding, r.x, r.y, { disease: disease.id, source });
+  sendWebhook(r, 'fell_ill', {
+    disease: disease.id,
+    name: disease.name,
+    symptom: disease.symptom,
+    source,
+    recovers_in_game_hours: disease.durationGameHours,
+    treatment_cost: disease.treatmentCost,
+  });
+  return true;
+}
+
+/** End a resident's illness and grant them a spell of immunity */
+export function cure(r: ResidentEntity, worldTime: number, how: 'recovered' | 'treated'): void {
+  const disease = currentDisease(r);
+  r.illness = null;
+  r.immuneUntil = worldTime + ILLNESS_IMMUNITY_GAME_HOURS * 3600;
+  r.lastHealthDamage = null;
+  if (!disease) return;
+
+  if (how === 'recovered') {
+    r.pendingNotifications.push(`You have recovered from ${disease.name.toLowerCase()}.`);
+  }
+  logEvent('recovered', r.id, null, r.currentBuilding, r.x, r.y, { disease: disease.id, how });
+}
+
+export function toIllnessStatus(r: ResidentEntity, worldTime: number): IllnessStatus | null {
+  const disease = currentDisease(r);
+  if (!disease || !r.illness) return null;
+  return {
+    disease: disease.id,
+    name: disease.name,
+    symptom: disease.symptom,
+    description: disease.description,
+    contagious: disease.contagious,
+    recovers_in_game_hours: Math.max(0, Math.round((r.illness.recoversAt - worldTime) / 360) / 10),
+    treatment_cost: disease.treatmentCost,
+  };
+}
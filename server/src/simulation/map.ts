@@ -30,6 +30,12 @@ export class TileMap {
     return this.blocked[tileY][tileX];
   }
 
+  /** Block or clear a tile at runtime (resident-built structures). Map obstacles always stay blocked. */
+  setTileBlocked(tileX: number, tileY: number, blocked: boolean): void {
+    if (tileX < 0 || tileX >= this.data.width || tileY < 0 || tileY >= this.data.height) return;
+    this.blocked[tileY][tileX] = blocked || this.data.obstacles[tileY][tileX] !== 0;
+  }
+
   isPositionBlocked(px: number, py: number, halfSize: number): boolean {
     // Check all tiles that the hitbox overlaps
     const left = Math.floor((px - halfSize) / TILE_SIZE);
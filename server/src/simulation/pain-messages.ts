@@ -7,6 +7,8 @@
  * LLM-based agents respond strongly to narrative descriptions.
  */
 
+import { random } from './clock.js';
+
 export type PainSource = 'hunger' | 'thirst' | 'social' | 'health';
 export type PainIntensity = 'mild' | 'severe' | 'agony';
 
@@ -101,5 +103,5 @@ const PAIN_MESSAGES: Record<PainSource, Record<PainIntensity, string[]>> = {
  */
 export function getPainMessage(source: PainSource, intensity: PainIntensity): string {
   const pool = PAIN_MESSAGES[source][intensity];
-  return pool[Math.floor(Math.random() * pool.length)];
+  return pool[Math.floor(random() * pool.length)];
 }
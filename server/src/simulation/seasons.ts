@@ -0,0 +1,79 @@
+/**
+ * Seasonal calendar — cycles through CITY_CONFIG.seasons in order, one
+ * game day at a time. Seasons change at midnight on the game clock.
+ */
+
+import type { SeasonConfig, SeasonState } from '@otra/shared';
+import { CITY_CONFIG, GAME_DAY_SECONDS, STARTING_HOUR } from '@otra/shared';
+import type { ForageableNodeState } from './world.js';
+
+export interface SeasonInfo {
+  season: SeasonConfig;
+  next: SeasonConfig;
+  dayOfSeason: number;      // 1-based
+  daysUntilChange: number;  // fractional game days
+}
+
+const YEAR_DAYS = CITY_CONFIG.seasons.reduce((sum, s) => sum + s.lengthDays, 0);
+
+/** Where a world time (game-seconds since the world began) falls in the calendar */
+export function getSeasonAt(worldTime: number): SeasonInfo {
+  const clockTime = worldTime + STARTING_HOUR * 3600;
+  const yearSeconds = YEAR_DAYS * GAME_DAY_SECONDS;
+  const timeInYear = ((clockTime % yearSeconds) + yearSeconds) % yearSeconds;
+
+  let seasonStart = 0;
+  for (let i = 0; i < CITY_CONFIG.seasons.length; i++) {
+    const season = CITY_CONFIG.seasons[i];
+    const seasonEnd = seasonStart + season.lengthDays * GAME_DAY_SECONDS;
+    if (timeInYear < seasonEnd || i === CITY_CONFIG.seasons.length - 1) {
+      return {
+        season,
+        next: CITY_CONFIG.seasons[(i + 1) % CITY_CONFIG.seasons.length],
+        dayOfSeason: Math.floor((timeInYear - seasonStart) / GAME_DAY_SECONDS) + 1,
+        daysUntilChange: (seasonEnd - timeInYear) / GAME_DAY_SECONDS,
+      };
+    }
+    seasonStart = seasonEnd;
+  }
+  throw new Error('CITY_CONFIG.seasons is empty');
+}
+
+export function toSeasonState(info: SeasonInfo): SeasonState {
+  return {
+    current: info.season.id,
+    name: info.season.name,
+    description: info.season.description,
+    day_of_season: info.dayOfSeason,
+    days_until_change: Math.round(info.daysUntilChange * 10) / 10,
+    next: info.next.id,
+  };
+}
+
+/**
+ * Resize a forageable node's yield for a season. Nodes with no yield this
+ * season go dormant (no uses, no regrowth) until a later season wakes them.
+ */
+export function applySeasonToNode(node: ForageableNodeState, season: SeasonConfig, worldTime: number): void {
+  const maxUses = Math.round(node.baseMaxUses * season.forageYield[node.type]);
+  const oldMax = node.maxUses;
+  if (maxUses === oldMax) return;
+  node.maxUses = maxUses;
+
+  if (maxUses === 0) {
+    node.usesRemaining = 0;
+    node.depletedAt = null;
+    node.regrowProgress = 0;
+    return;
+  }
+  if (oldMax === 0) {
+    node.usesRemaining = maxUses;
+    return;
+  }
+  // Keep what's been picked already, but within the new season's bounds
+  node.usesRemaining = Math.max(0, Math.min(maxUses, node.usesRemaining + maxUses - oldMax));
+  if (node.usesRemaining === 0 && node.depletedAt === null) {
+    node.depletedAt = worldTime;
+    node.regrowProgress = 0;
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Weather — a city-wide condition that rolls over every few game hours.
+ *
+ * Weather only bites outdoors: residents inside a building or next to a
+ * shelter are sheltered from its effect on needs and vision. Forage
+ * regrowth is affected everywhere since every node is outside.
+ */
+
+import type { WeatherCondition, WeatherState } from '@otra/shared';
+import { WEATHER_MIN_DURATION_GAME_HOURS, WEATHER_MAX_DURATION_GAME_HOURS } from '@otra/shared';
+import { random } from './clock.js';
+
+export interface WeatherEffects {
+  thirstDecay: number;
+  energyDecay: number;
+  vision: number;
+  regrowth: number;
+}
+
+const WEATHER_EFFECTS: Record<WeatherCondition, WeatherEffects> = {
+  clear:     { thirstDecay: 1.0,  energyDecay: 1.0,  vision: 1.0, regrowth: 1.0 },
+  rain:      { thirstDecay: 0.8,  energyDecay: 1.1,  vision: 0.8, regrowth: 1.5 },
+  heat_wave: { thirstDecay: 1.75, energyDecay: 1.25, vision: 1.0, regrowth: 0.6 },
+  fog:       { thirstDecay: 1.0,  energyDecay: 1.0,  vision: 0.5, regrowth: 1.0 },
+  storm:     { thirstDecay: 0.9,  energyDecay: 1.4,  vision: 0.6, regrowth: 1.25 },
+};
+
+const WEATHER_DESCRIPTIONS: Record<WeatherCondition, string> = {
+  clear: 'Clear skies.',
+  rain: 'Steady rain. Thirst eases, the damp is tiring, and bushes and springs recover faster.',
+  heat_wave: 'A heat wave. Thirst and energy drain much faster outdoors, and forage regrows slowly.',
+  fog: 'Thick fog. You can barely see a few tiles outdoors.',
+  storm: 'A storm. Exhausting to be out in, with poor visibility. Shelter indoors.',
+};
+
+// Relative odds of each condition when the weather changes
+const WEATHER_WEIGHTS: Array<[WeatherCondition, number]> = [
+  ['clear', 50],
+  ['rain', 20],
+  ['fog', 12],
+  ['heat_wave', 10],
+  ['storm', 8],
+];
+
+export const NO_WEATHER: WeatherEffects = WEATHER_EFFECTS.clear;
+
+export function isWeatherCondition(value: unknown): value is WeatherCondition {
+  return typeof value === 'string' && value in WEATHER_EFFECTS;
+}
+
+export class WeatherSystem {
+  condition: WeatherCondition = 'clear';
+  changesAt = 0;  // worldTime (game-seconds) of the next roll
+
+  get effects(): WeatherEffects {
+    return WEATHER_EFFECTS[this.condition];
+  }
+
+  get description(): string {
+    return WEATHER_DESCRIPTIONS[this.condition];
+  }
+
+  /** Effects for a resident — none while sheltered in a building */
+  effectsFor(sheltered: boolean): WeatherEffects {
+    return sheltered ? NO_WEATHER : this.effects;
+  }
+
+  /**
+   * Roll new weather once the current spell has run its course.
+   * Returns true if the condition changed.
+   */
+  update(worldTime: number): boolean {
+    if (worldTime < this.changesAt) return false;
+
+    const previous = this.condition;
+    this.condition = rollCondition();
+    const hours = WEATHER_MIN_DURATION_GAME_HOURS
+      + random() * (WEATHER_MAX_DURATION_GAME_HOURS - WEATHER_MIN_DURATION_GAME_HOURS);
+    this.changesAt = worldTime + hours * 3600;
+    return this.condition !== previous;
+  }
+
+  toPerception(worldTime: number, sheltered: boolean): WeatherState {
+    const effects = this.effectsFor(sheltered);
+    return {
+      condition: this.condition,
+      description: this.description,
+      changes_in_game_hours: Math.max(0, Math.round((this.changesAt - worldTime) / 360) / 10),
+      sheltered,
+      effects: {
+        thirst_decay: effects.thirstDecay,
+        energy_decay: effects.energyDecay,
+        vision: effects.vision,
+        forage_regrowth: this.effects.regrowth,
+      },
+    };
+  }
+}
+
+function rollCondition(): WeatherCondition {
+  const total = WEATHER_WEIGHTS.reduce((sum, [, w]) => sum + w, 0);
+  let roll = random() * total;
+  for (const [condition, weight] of WEATHER_WEIGHTS) {
+    roll -= weight;
+    if (roll < 0) return condition;
+  }
+  return 'clear';
+}
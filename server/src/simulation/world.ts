@@ -1,4 +1,4 @@
-import type { Needs, VisibleResident, VisibleForageable, Build } from '@otra/shared';
+import type { Needs, VisibleResident, VisibleForageable, VisibleStructure, StructureType, Build, ResidentType } from '@otra/shared';
 import {
   CITY_CONFIG, renderMessage,
   WALK_SPEED, RUN_SPEED, TILE_SIZE, RESIDENT_HITBOX,
@@ -13,8 +13,8 @@ import {
   NORMAL_VOICE_RANGE, WHISPER_RANGE, SHOUT_RANGE, WALL_SOUND_FACTOR,
   TIME_SCALE, STARTING_HOUR, GAME_DAY_SECONDS,
   PETITION_MAX_AGE_GAME_HOURS, BODY_COLLECT_RANGE,
-  SHOP_RESTOCK_INTERVAL_GAME_HOURS, SOCIAL_PROXIMITY_RANGE, SOCIAL_DECAY_REDUCTION,
-  LOITER_THRESHOLD_GAME_HOURS, LOITER_CHECK_DISTANCE, ARREST_RANGE, ARREST_BOUNTY,
+  SOCIAL_PROXIMITY_RANGE, SOCIAL_DECAY_REDUCTION,
+  LOITER_CHECK_DISTANCE, ARREST_RANGE, ARREST_BOUNTY,
   LOITER_SENTENCE_GAME_HOURS,
   FORAGE_RANGE, BERRY_BUSH_MAX_USES, BERRY_BUSH_REGROW_GAME_HOURS,
   SPRING_MAX_USES, SPRING_REGROW_GAME_HOURS,
@@ -29,27 +29,56 @@ import {
   SPEECH_TURN_TIMEOUT_MS, SPEECH_TTL_TICKS,
   AGENT_SEPARATION_DIST, AGENT_SEPARATION_FORCE,
   BLADDER_ACCIDENT_FEE, SOCIAL_ONESIDED_RECOVERY_PER_SEC,
-  ENERGY_COST_USE_TOILET,
+  ENERGY_COST_USE_TOILET, PRICE_SAMPLE_INTERVAL_SEC, BANK_CHECK_INTERVAL_SEC,
+  RECIPE_DISCOVERY_CHECK_INTERVAL_SEC, SHELTER_RANGE, BUILD_RANGE,
+  LOCKER_GRACE_GAME_HOURS, LOCKER_CHECK_INTERVAL_SEC, STEAL_RANGE, TRIAL_CHECK_INTERVAL_SEC,
+  ELECTION_CHECK_INTERVAL_SEC,
+  ILLNESS_CHECK_INTERVAL_SEC, ILLNESS_SPOILED_FOOD_CHANCE, ILLNESS_ROUGH_SLEEP_CHANCE_PER_GAME_HOUR,
+  ILLNESS_CONTAGION_CHANCE_PER_GAME_HOUR,
 } from '@otra/shared';
 import type { WebSocket } from 'ws';
 import { TileMap } from './map.js';
+import { WeatherSystem, isWeatherCondition } from './weather.js';
+import { getSeasonAt, toSeasonState, applySeasonToNode } from './seasons.js';
+import { currentDisease, illnessEffectsFor, infect, cure, toIllnessStatus } from './illness.js';
 import { resolveMovement } from './collision.js';
-import type { ResidentRow } from '../db/queries.js';
+import { findPath } from './pathfinding.js';
+import type { ResidentRow, SavedForageable } from '../db/queries.js';
 import {
   getAllAliveResidents, getDeceasedResidents, batchSaveResidents, saveWorldState,
   getWorldState, markResidentDead, logEvent, getInventory, batchSaveInventory,
   getJob, closeExpiredPetitions,
-  getConversationContext, getRelationshipSummary,
+  getConversationContext, getRelationshipSummary, getKnownRecipes, getActiveBusinessForOwner,
+  getAllStructures, deleteStructure, batchSaveStructures, getLocker, batchSaveLockers,
+  getOpenTrialForDefendant, getOpenTrials, getOpenElection, getCandidates, getBudgetByStatus,
 } from '../db/queries.js';
-import type { PerceptionUpdate, AudibleMessage, VisibleEntity, VisibleBuilding, MapKnowledgeEntry } from '@otra/shared';
+import type { PerceptionUpdate, AudibleMessage, VisibleEntity, VisibleBuilding, MapKnowledgeEntry, SeasonId } from '@otra/shared';
 import { enterBuilding } from '../buildings/building-actions.js';
 import { getBuildingType, getBuildingByType } from '../buildings/building-registry.js';
 import { sendWebhook } from '../network/webhooks.js';
 import { createFeedbackToken, getReflectionPrompt, getFeedbackUrl } from '../network/feedback.js';
-import { updateShift } from '../economy/jobs.js';
-import { initShopStock, restockShop, SHOP_CATALOG, FORAGEABLE_ITEMS, getShopItem, getMapItem } from '../economy/shop.js';
+import { updateShift, describeEmployment, getJobTasks } from '../economy/jobs.js';
+import { initShopStock, restockShop, recordShopPrices, getSellerIds, getShopCatalog, getRestockLevels, getRestockIntervalSec, ITEM_CATALOG, getShopItem, getMapItem } from '../economy/shop.js';
+import { loadTradeOffers, expireTradeOffers, getTradeOffersForResident, describeTradeOffer, cancelTradeOffersFor } from '../economy/trades.js';
+import { cancelMarketOrdersFor } from '../economy/market.js';
+import { processBankSchedules, closeBankAccount } from '../economy/bank.js';
+import { settleLocker, forfeitLocker, describeLocker } from '../economy/lockers.js';
+import { executeWill } from '../civic/wills.js';
+import { getLawByDetection, isDistracted } from '../civic/crime.js';
+import { settleTrials } from '../civic/trials.js';
+import { loadPolicyOverrides, settlePolicyPetitions, getPolicy } from '../civic/policies.js';
+import { advanceElections, getOffice } from '../civic/elections.js';
+import { payBudget } from '../civic/treasury.js';
+import { ageInventory, ageStacks, toInventoryItem } from '../economy/spoilage.js';
+import { wearItem } from '../economy/inventory.js';
+import type { HeldItem } from '../economy/inventory.js';
+import { discoverRecipes, describeRecipe, getRecipe, maxCraftable } from '../economy/crafting.js';
 import { getPainMessage } from './pain-messages.js';
 import type { PainSource, PainIntensity } from './pain-messages.js';
+import { clock, random, useSimulationEnv } from './clock.js';
+import type { SimulationEnv } from './clock.js';
+import type { NpcSystem } from '../npc/npc-system.js';
+import type { IntentSystem } from '../intents/intent-system.js';
 
 export interface ForageableNodeState {
   id: string;
@@ -57,17 +86,40 @@ export interface ForageableNodeState {
   x: number;  // pixel coords (center of tile)
   y: number;
   usesRemaining: number;
-  maxUses: number;
+  maxUses: number;            // this season's max (0 = dormant)
+  baseMaxUses: number;        // from the map, before seasonal scaling
   depletedAt: number | null;  // worldTime when depleted, null if available
+  regrowProgress: number;     // game-seconds of regrowth since depletion (weather-scaled)
   regrowGameSeconds: number;
 }
 
+export interface StructureEntity {
+  id: string;
+  type: StructureType;
+  ownerId: string;
+  tileX: number;
+  tileY: number;
+  condition: number;          // 0-100, collapses at 0
+  contents: HeldItem[];       // storage chests only
+  builtAt: number;
+}
+
+export interface LockerEntity {
+  buildingId: string;
+  rentedUntil: number;        // worldTime the rent is paid up to
+  heirId: string | null;      // null = contents go to the city on death
+  contents: HeldItem[];
+  rentPaid: number;           // total QUID paid over the locker's life
+  createdAt: number;
+  lapseNotified: boolean;     // runtime only — warned that rent has run out
+}
+
 export interface ResidentEntity {
   id: string;
   passportNo: string;
   fullName: string;
   preferredName: string;
-  type: 'AGENT' | 'HUMAN';
+  type: ResidentType;
   x: number;
   y: number;
   facing: number;         // degrees 0-359
@@ -76,13 +128,16 @@ export interface ResidentEntity {
   speed: 'walk' | 'run' | 'stop';
   needs: Needs;
   wallet: number;
-  inventory: Array<{ id: string; type: string; quantity: number }>;
+  inventory: HeldItem[];
   isSleeping: boolean;
   isDead: boolean;
   currentBuilding: string | null;
   employment: { job: string; onShift: boolean } | null;
+  locker: LockerEntity | null;
   currentJobId: string | null;
   shiftStartTime: number | null;  // accumulated game-seconds on current shift
+  shiftTasks: Record<string, number>;  // job task ID → completions this shift
+  lastWorkTaskAt: number | null;  // shift time of the last 'work' task (cooldown)
   carryingBodyId: string | null;
   lastUbiCollection: number;
   // Appearance
@@ -95,6 +150,7 @@ export interface ResidentEntity {
   // Agent identity
   agentFramework: string | null;
   bio: string;
+  npcId: string | null;   // set for built-in NPCs — the NpcConfig id
   // GitHub Guild
   githubUsername: string | null;
   lastGithubClaimTime: number;
@@ -110,17 +166,26 @@ export interface ResidentEntity {
   pathBlockedTicks: number;
   // Notifications for perception
   pendingNotifications: string[];
+  // Crafting
+  knownRecipes: Set<string>;
   // Social proximity (runtime only, not persisted)
   socialNearbyCount: number;
   socialCheckCounter: number;
   // Conversation tracking (runtime only, not persisted)
   lastConversationTime: number;
   lastSpeechWebhookTime: number;
+  // Illness
+  illness: { diseaseId: string; caughtAt: number; recoversAt: number } | null;  // world times
+  immuneUntil: number;    // world time
   // Law enforcement
   lawBreaking: string[];
   arrestedBy: string | null;
+  onTrial: string | null;   // trial id while held in the dock
   prisonSentenceEnd: number | null;
   carryingSuspectId: string | null;
+  // Crimes seen and not yet reported (runtime only, not persisted)
+  witnessedCrimes: Array<{ offense: string; suspectId: string; victimId: string | null; at: number }>;
+  lastAssaultAt: number | null;  // world time of this resident's last assault (cooldown, runtime only)
   // Loitering detection (runtime only, not persisted)
   loiterX: number;
   loiterY: number;
@@ -138,6 +203,7 @@ export interface ResidentEntity {
   // Pain signals (runtime only)
   pendingPainMessages: Array<{ message: string; source: string; intensity: 'mild' | 'severe' | 'agony'; needs: Record<string, number> }>;
   lastPainTime: { hunger: number; thirst: number; social: number; health: number };
+  lastHealthDamage: string | null;  // what last took health besides hunger and thirst — the cause of death if it kills
   // Conversation state tracking (runtime only)
   wasConversing: boolean;
   // Turn-based speech: after speaking TO someone, must wait for their reply (or timeout)
@@ -171,10 +237,10 @@ export function computeCondition(r: ResidentEntity): 'healthy' | 'struggling' |
 
 // Derive consumable item sets from item definitions (prevents type mismatch bugs)
 const HUNGER_ITEMS = new Set(
-  [...SHOP_CATALOG, ...FORAGEABLE_ITEMS].filter(i => i.hunger_restore > 0).map(i => i.item_type)
+  ITEM_CATALOG.filter(i => i.hunger_restore > 0).map(i => i.item_type)
 );
 const THIRST_ITEMS = new Set(
-  [...SHOP_CATALOG, ...FORAGEABLE_ITEMS].filter(i => i.thirst_restore > 0).map(i => i.item_type)
+  ITEM_CATALOG.filter(i => i.thirst_restore > 0).map(i => i.item_type)
 );
 
 // Feedback timing constants
@@ -196,14 +262,31 @@ export class World {
   }>;
   worldTime = 0;
   trainTimer = 0;
-  shopRestockTimer = 0;
+  shopRestockTimers = new Map<string, number>();  // real seconds since last restock, per selling building
+  weather = new WeatherSystem();
+  structures = new Map<string, StructureEntity>();
+  structuresVersion = 0;  // bumped whenever a structure is built or removed
+  pendingAnnouncements: Array<{ title: string; message: string }> = [];  // city-wide, sent on the next broadcast
+  npcs: NpcSystem | null = null;  // built-in NPCs, when the server runs them
+  intents: IntentSystem | null = null;  // residents' running plans
+  private seasonId: SeasonId | null = null;
   trainQueue: string[] = [];
   private lastSaveTime = 0;
   private saveInterval = 30; // seconds
   private petitionCheckTimer = 0;
   private petitionCheckInterval = 60; // check every 60 real seconds
-
-  constructor(map: TileMap) {
+  private priceSampleTimer = 0;
+  private bankCheckTimer = 0;
+  private recipeCheckTimer = 0;
+  private lockerCheckTimer = 0;
+  private illnessCheckTimer = 0;
+  private trialCheckTimer = 0;
+  private electionCheckTimer = 0;
+  private loanDefaulters = new Set<string>();  // residents with a defaulted loan, refreshed by updateBank
+
+  /** Pass `env` to run on a manual clock and seeded RNG instead of wall time and Math.random */
+  constructor(map: TileMap, env?: Partial<SimulationEnv>) {
+    if (env) useSimulationEnv(env);
     this.map = map;
     this.mapKnowledgeCity = {
       width_tiles: this.map.data.width,
@@ -239,10 +322,27 @@ export class World {
     const ws = getWorldState();
     this.worldTime = ws.world_time;
     this.trainTimer = ws.train_timer;
-    this.shopRestockTimer = ws.shop_restock_timer || 0;
+    // Older saves had one timer for the only shop; it seeds any building without its own
+    const savedTimers = JSON.parse(ws.shop_restock_timers || '{}') as Record<string, number>;
+    for (const buildingId of getSellerIds()) {
+      if (Object.keys(getRestockLevels(buildingId)).length === 0) continue;
+      this.shopRestockTimers.set(buildingId, savedTimers[buildingId] ?? ws.shop_restock_timer ?? 0);
+    }
+    const savedWeather = JSON.parse(ws.weather || '{}') as { condition?: unknown; changes_at?: number };
+    if (isWeatherCondition(savedWeather.condition)) {
+      this.weather.condition = savedWeather.condition;
+      this.weather.changesAt = savedWeather.changes_at ?? 0;
+    }
 
     // Initialize shop stock on startup
     initShopStock();
+    recordShopPrices();
+
+    // Restore pending trade offers (and their escrow)
+    loadTradeOffers();
+
+    // Restore policies enacted by petition
+    loadPolicyOverrides();
 
     // Initialize forageable nodes from map data
     for (const node of map.data.forageableNodes ?? []) {
@@ -256,11 +356,128 @@ export class World {
         y: node.tileY * TILE_SIZE + TILE_SIZE / 2,
         usesRemaining: node.maxUses,
         maxUses: node.maxUses,
+        baseMaxUses: node.maxUses,
         depletedAt: null,
+        regrowProgress: 0,
         regrowGameSeconds,
       });
     }
-    console.log(`[World] Initialized ${this.forageableNodes.size} forageable nodes`);
+    const { season } = getSeasonAt(this.worldTime);
+    this.seasonId = season.id;
+    for (const [, node] of this.forageableNodes) {
+      applySeasonToNode(node, season, this.worldTime);
+    }
+    console.log(`[World] Initialized ${this.forageableNodes.size} forageable nodes (${season.name})`);
+
+    // Restore resident-built structures
+    for (const row of getAllStructures()) {
+      const config = CITY_CONFIG.structures.find(s => s.id === row.type);
+      if (!config) continue;
+      let contents: HeldItem[] = [];
+      try { contents = JSON.parse(row.contents); } catch { /* empty chest */ }
+      this.addStructure({
+        id: row.id,
+        type: config.id,
+        ownerId: row.owner_id,
+        tileX: row.tile_x,
+        tileY: row.tile_y,
+        condition: row.condition,
+        contents,
+        builtAt: row.built_at,
+      });
+    }
+    if (this.structures.size > 0) {
+      console.log(`[World] Restored ${this.structures.size} structures`);
+    }
+
+    // Pick up picked-over and regrowing forage nodes where the last save left them
+    const savedForageables = JSON.parse(ws.forageables || '{}') as Record<string, SavedForageable>;
+    for (const [id, saved] of Object.entries(savedForageables)) {
+      const node = this.forageableNodes.get(id);
+      if (!node) continue;
+      node.usesRemaining = Math.min(node.maxUses, saved.uses_remaining);
+      node.depletedAt = saved.depleted_at;
+      node.regrowProgress = saved.regrow_progress;
+    }
+  }
+
+  /**
+   * Put a structure on the map: block its tile if it's solid, re-route
+   * anyone whose path crosses it, and give planted bushes a forage node.
+   */
+  addStructure(structure: StructureEntity): void {
+    const config = CITY_CONFIG.structures.find(s => s.id === structure.type)!;
+    this.structures.set(structure.id, structure);
+    this.structuresVersion++;
+
+    if (structure.type === 'planted_bush') {
+      const node: ForageableNodeState = {
+        id: structure.id,
+        type: 'berry_bush',
+        x: structure.tileX * TILE_SIZE + TILE_SIZE / 2,
+        y: structure.tileY * TILE_SIZE + TILE_SIZE / 2,
+        usesRemaining: BERRY_BUSH_MAX_USES,
+        maxUses: BERRY_BUSH_MAX_USES,
+        baseMaxUses: BERRY_BUSH_MAX_USES,
+        depletedAt: null,
+        regrowProgress: 0,
+        regrowGameSeconds: BERRY_BUSH_REGROW_GAME_HOURS * 3600,
+      };
+      applySeasonToNode(node, getSeasonAt(this.worldTime).season, this.worldTime);
+      this.forageableNodes.set(node.id, node);
+    }
+
+    if (config.blocksMovement) {
+      this.map.setTileBlocked(structure.tileX, structure.tileY, true);
+      this.reroutePathsThrough(structure.tileX, structure.tileY);
+    }
+  }
+
+  /** Take a structure off the map and out of the database */
+  removeStructure(structureId: string): StructureEntity | undefined {
+    const structure = this.structures.get(structureId);
+    if (!structure) return undefined;
+    this.structures.delete(structureId);
+    this.structuresVersion++;
+    this.forageableNodes.delete(structureId);
+    this.map.setTileBlocked(structure.tileX, structure.tileY, false);
+    deleteStructure(structureId);
+    return structure;
+  }
+
+  /** Recompute active paths that cross a tile that just became blocked */
+  private reroutePathsThrough(tileX: number, tileY: number): void {
+    for (const [, r] of this.residents) {
+      if (!r.pathWaypoints) continue;
+      const crosses = r.pathWaypoints.slice(r.pathIndex).some(wp =>
+        Math.floor(wp.x / TILE_SIZE) === tileX && Math.floor(wp.y / TILE_SIZE) === tileY);
+      if (!crosses) continue;
+
+      const target = r.pathWaypoints[r.pathWaypoints.length - 1];
+      const path = findPath(this.map, r.x, r.y, target.x, target.y);
+      if (path) {
+        r.pathWaypoints = path;
+        r.pathIndex = 0;
+        r.pathBlockedTicks = 0;
+      } else {
+        r.pathWaypoints = null;
+        r.pathTargetBuilding = null;
+        r.pathBlockedTicks = 0;
+        r.pendingNotifications.push('Path cancelled: something was built in the way.');
+      }
+    }
+  }
+
+  /** Whether a resident is out of the weather — inside a building or next to a shelter */
+  isSheltered(resident: ResidentEntity): boolean {
+    if (resident.currentBuilding !== null) return true;
+    for (const [, s] of this.structures) {
+      if (s.type !== 'shelter') continue;
+      const dx = resident.x - (s.tileX * TILE_SIZE + TILE_SIZE / 2);
+      const dy = resident.y - (s.tileY * TILE_SIZE + TILE_SIZE / 2);
+      if (dx * dx + dy * dy <= SHELTER_RANGE * SHELTER_RANGE) return true;
+    }
+    return false;
   }
 
   loadResidentsFromDb(): void {
@@ -281,7 +498,7 @@ export class World {
       passportNo: row.passport_no,
       fullName: row.full_name,
       preferredName: row.preferred_name,
-      type: row.type as 'AGENT' | 'HUMAN',
+      type: row.type as ResidentType,
       x: row.x,
       y: row.y,
       facing: row.facing,
@@ -299,13 +516,17 @@ export class World {
       wallet: row.wallet,
       inventory: getInventory(row.id).map(inv => ({
         id: inv.id, type: inv.item_type, quantity: inv.quantity,
+        durability: inv.durability, age: inv.age_game_seconds,
       })),
       isSleeping: row.is_sleeping === 1,
       isDead: row.status === 'DECEASED',
       currentBuilding: row.current_building,
       employment: null,  // populated below if job exists
+      locker: null,      // populated below if they rent one
       currentJobId: row.current_job_id ?? null,
       shiftStartTime: row.shift_start_time ?? null,
+      shiftTasks: JSON.parse(row.shift_tasks || '{}'),
+      lastWorkTaskAt: null,
       carryingBodyId: row.carrying_body_id ?? null,
       lastUbiCollection: row.last_ubi_collection,
       skinTone: row.skin_tone,
@@ -315,6 +536,7 @@ export class World {
       webhookUrl: row.webhook_url ?? null,
       agentFramework: row.agent_framework ?? null,
       bio: row.bio || '',
+      npcId: row.npc_id ?? null,
       githubUsername: row.github_username ?? null,
       lastGithubClaimTime: row.last_github_claim_time ?? 0,
       ws: null,
@@ -325,19 +547,25 @@ export class World {
       pathTargetBuilding: null,
       pathBlockedTicks: 0,
       pendingNotifications: [],
+      knownRecipes: new Set(getKnownRecipes(row.id)),
       socialNearbyCount: 0,
       socialCheckCounter: 0,
       lastConversationTime: 0,
+      witnessedCrimes: [],
+      lastAssaultAt: null,
       lastSpeechWebhookTime: 0,
+      illness: row.illness ? JSON.parse(row.illness) : null,
+      immuneUntil: row.immune_until ?? 0,
       // Law enforcement
       lawBreaking: JSON.parse(row.law_breaking || '[]'),
       arrestedBy: row.arrested_by ?? null,
+      onTrial: getOpenTrialForDefendant(row.id)?.id ?? null,
       prisonSentenceEnd: row.prison_sentence_end ?? null,
       carryingSuspectId: row.carrying_suspect_id ?? null,
       loiterX: row.x,
       loiterY: row.y,
       loiterTimer: 0,
-      sleepStartedAt: row.is_sleeping === 1 ? Date.now() : 0,
+      sleepStartedAt: row.is_sleeping === 1 ? clock.now() : 0,
       toiletUseStartedMs: null,
       toiletUseUntilMs: null,
       lastNeedsWarning: { hunger: 0, thirst: 0, energy: 0, bladder: 0, social: 0 },
@@ -346,6 +574,7 @@ export class World {
       previouslyVisibleResidents: new Set(),
       pendingPainMessages: [],
       lastPainTime: { hunger: 0, thirst: 0, social: 0, health: 0 },
+      lastHealthDamage: null,
       wasConversing: false,
       awaitingReplyFrom: new Map(),
       lastSpeechTime: 0,
@@ -353,14 +582,14 @@ export class World {
       recentRequestIds: new Map(),
       // Feedback & reflection
       createdAt: row.created_at,
-      lastReflectionTime: Date.now(),  // now, not createdAt — avoids burst on restart
+      lastReflectionTime: clock.now(),  // now, not createdAt — avoids burst on restart
       reflectionCount: 0,
       conversationCount: 0,
       // Pre-set milestone flags for residents loaded from DB (created > 10s ago)
       // to avoid duplicate milestone webhooks after server restart.
       // Freshly registered residents (created just now) get false so they can earn milestones.
-      firstConversationFeedbackSent: Date.now() - row.created_at > 10_000,
-      thirtyMinuteFeedbackSent: Date.now() - row.created_at >= 30 * 60 * 1000,
+      firstConversationFeedbackSent: clock.now() - row.created_at > 10_000,
+      thirtyMinuteFeedbackSent: clock.now() - row.created_at >= 30 * 60 * 1000,
       nearDeathFeedbackSent: false,
       hadLowHealth: false,
       pendingFeedbackPrompt: null,
@@ -382,6 +611,19 @@ export class World {
       }
     }
 
+    const locker = row.status === 'DECEASED' ? undefined : getLocker(row.id);
+    if (locker) {
+      entity.locker = {
+        buildingId: locker.building_id,
+        rentedUntil: locker.rented_until,
+        heirId: locker.heir_id,
+        contents: JSON.parse(locker.contents),
+        rentPaid: locker.rent_paid,
+        createdAt: locker.created_at,
+        lapseNotified: false,
+      };
+    }
+
     this.residents.set(row.id, entity);
     return entity;
   }
@@ -417,8 +659,8 @@ export class World {
           r.velocityX = 0;
           r.velocityY = 0;
           r.speed = 'stop';
-          const jitterAngle = Math.random() * 2 * Math.PI;
-          const jitterDist = Math.random() * (AGENT_SEPARATION_DIST / 2);
+          const jitterAngle = random() * 2 * Math.PI;
+          const jitterDist = random() * (AGENT_SEPARATION_DIST / 2);
           const jitterResult = resolveMovement(
             this.map, r.x, r.y,
             r.x + Math.cos(jitterAngle) * jitterDist,
@@ -491,7 +733,7 @@ export class World {
 
   /** Timed toilet usage completion */
   updateToiletUsage(): void {
-    const now = Date.now();
+    const now = clock.now();
     for (const [, r] of this.residents) {
       if (r.toiletUseUntilMs === null) continue;
       if (now < r.toiletUseUntilMs) continue;
@@ -530,7 +772,7 @@ export class World {
 
       // Social bonus: reduce hunger/thirst decay when near other awake residents
       // Enhanced bonus when actively conversing (within last SOCIAL_CONVERSATION_WINDOW seconds)
-      const isConversing = Date.now() - r.lastConversationTime < SOCIAL_CONVERSATION_WINDOW * 1000;
+      const isConversing = clock.now() - r.lastConversationTime < SOCIAL_CONVERSATION_WINDOW * 1000;
 
       // Notify on conversation state transitions
       if (isConversing && !r.wasConversing) {
@@ -552,16 +794,21 @@ export class World {
         ? (1 - SOCIAL_CONVERSATION_DECAY_REDUCTION)
         : r.socialNearbyCount > 0 ? (1 - SOCIAL_DECAY_REDUCTION) : 1;
 
+      // Weather: only residents outdoors feel it
+      const weatherFx = this.weather.effectsFor(this.isSheltered(r));
+      // Illness symptoms speed up decay and slowly drain health
+      const illnessFx = illnessEffectsFor(r);
+
       // Hunger decays
-      r.needs.hunger = Math.max(0, r.needs.hunger - HUNGER_DECAY_PER_SEC * dt * socialMultiplier);
+      r.needs.hunger = Math.max(0, r.needs.hunger - HUNGER_DECAY_PER_SEC * dt * socialMultiplier * illnessFx.hungerDecay);
 
       // Thirst decays
-      r.needs.thirst = Math.max(0, r.needs.thirst - THIRST_DECAY_PER_SEC * dt * socialMultiplier);
+      r.needs.thirst = Math.max(0, r.needs.thirst - THIRST_DECAY_PER_SEC * dt * socialMultiplier * weatherFx.thirstDecay * illnessFx.thirstDecay);
 
       // Bladder fills
       r.needs.bladder = Math.min(100, r.needs.bladder + BLADDER_FILL_PER_SEC * dt);
 
-      const nowMs = Date.now();
+      const nowMs = clock.now();
 
       // Social need: decays constantly, recovers during active conversation.
       // A smaller fallback recovery applies shortly after meaningful one-sided speech
@@ -575,9 +822,9 @@ export class World {
 
       // Energy: passive decay or sleep recovery
       if (r.isSleeping) {
-        // Recovery rate depends on equipment (sleeping bag)
+        // Recovery rate depends on equipment (sleeping bag) or a bunk at your locker
         const hasSleepingBag = r.inventory.some(i => i.type === 'sleeping_bag');
-        const recoveryRate = hasSleepingBag ? SLEEP_BAG_RATE_PER_SEC : SLEEP_ROUGH_RATE_PER_SEC;
+        const recoveryRate = hasSleepingBag || this.isInOwnLocker(r) ? SLEEP_BAG_RATE_PER_SEC : SLEEP_ROUGH_RATE_PER_SEC;
         r.needs.energy = Math.min(100, r.needs.energy + recoveryRate * dt);
 
         // Auto-wake at threshold (80) — shorter naps
@@ -587,7 +834,7 @@ export class World {
           r.needs.energy = Math.min(100, r.needs.energy);
         }
       } else {
-        r.needs.energy = Math.max(0, r.needs.energy - ENERGY_PASSIVE_DECAY_PER_SEC * dt);
+        r.needs.energy = Math.max(0, r.needs.energy - ENERGY_PASSIVE_DECAY_PER_SEC * dt * weatherFx.energyDecay * illnessFx.energyDecay);
 
         // Conversation energy recovery: +0.5 energy/hr when conversing
         if (isConversing) {
@@ -607,7 +854,7 @@ export class World {
       }
 
       // Employment: track shift progress and pay wages
-      updateShift(r, dt);
+      updateShift(r, dt, this.residents);
 
       // Forced collapse at energy 0 — auto-sleep to prevent permanent immobilization
       if (r.needs.energy <= 0 && !r.isSleeping) {
@@ -616,12 +863,13 @@ export class World {
         r.velocityY = 0;
         r.speed = 'stop';
         r.isSleeping = true;
-        r.sleepStartedAt = Date.now();
+        r.sleepStartedAt = clock.now();
         // Cancel any active path
         r.pathWaypoints = null;
         r.pathTargetBuilding = null;
         r.pathBlockedTicks = 0;
         r.pendingNotifications.push('You collapsed from exhaustion and fell asleep.');
+        this.useSleepingBag(r);
         logEvent('collapse', r.id, null, null, r.x, r.y, {});
         sendWebhook(r, 'collapse', { energy: 0, x: r.x, y: r.y });
       }
@@ -635,12 +883,17 @@ export class World {
       }
       if (r.needs.social <= 0) {
         r.needs.health = Math.max(0, r.needs.health - HEALTH_DRAIN_SOCIAL * dt);
+        r.lastHealthDamage = 'loneliness';
+      }
+      if (illnessFx.healthDrainPerSec > 0) {
+        r.needs.health = Math.max(0, r.needs.health - illnessFx.healthDrainPerSec * dt);
+        r.lastHealthDamage = currentDisease(r)?.name.toLowerCase() ?? 'illness';
       }
 
       // Webhook alert when health drops below 50 (checked once per ~10 seconds to avoid spam)
       if (r.needs.health > 0 && r.needs.health < 50 && (r.needs.hunger <= 0 || r.needs.thirst <= 0)) {
         // Only send roughly every 100 ticks (10 seconds at 10Hz)
-        if (Math.random() < 0.01) {
+        if (random() < 0.01) {
           sendWebhook(r, 'health_critical', {
             health: Math.round(r.needs.health * 10) / 10,
             hunger: Math.round(r.needs.hunger * 10) / 10,
@@ -652,7 +905,7 @@ export class World {
 
       // === Needs warning webhooks (proactive alerts) ===
       if ((r.webhookUrl || r.ws) && !r.isDead) {
-        const now = Date.now();
+        const now = clock.now();
 
         // Hunger warning
         if (r.needs.hunger < NEEDS_WARNING_THRESHOLD_HUNGER && r.needs.hunger > 0 &&
@@ -805,7 +1058,7 @@ export class World {
       }
 
       // Pain signals — visceral messages to connected agents
-      this.checkPainSignals(r, Date.now());
+      this.checkPainSignals(r, clock.now());
 
       // Track near-death for milestone feedback
       if (r.needs.health < 20 && r.needs.health > 0) {
@@ -874,7 +1127,7 @@ export class World {
 
   /** Periodic reflection webhooks and milestone feedback */
   updateReflections(): void {
-    const now = Date.now();
+    const now = clock.now();
 
     for (const [, r] of this.residents) {
       if (r.isDead || (!r.webhookUrl && !r.ws)) continue;
@@ -1018,7 +1271,7 @@ export class World {
 
   /** Law enforcement — called at 10 Hz */
   updateLawEnforcement(dt: number): void {
-    const loiterThresholdSec = LOITER_THRESHOLD_GAME_HOURS * 3600; // game-seconds
+    const loiterThresholdSec = getPolicy('loiter_threshold_game_hours') * 3600; // game-seconds
 
     for (const [, r] of this.residents) {
       if (r.isDead) continue;
@@ -1043,8 +1296,20 @@ export class World {
         continue;
       }
 
-      // Skip loitering checks for imprisoned/arrested/sleeping/inside-building residents
-      if (r.arrestedBy || r.prisonSentenceEnd || r.isSleeping || r.currentBuilding) {
+      // --- Loan default (refreshed from bank schedule checks) ---
+      const inDefault = this.loanDefaulters.has(r.id) && !!getLawByDetection('loan_default');
+      if (inDefault && !r.lawBreaking.includes('loan_default') && r.prisonSentenceEnd === null) {
+        r.lawBreaking.push('loan_default');
+        r.pendingNotifications.push('You have defaulted on your bank loan. Repay the overdue installment at the bank or risk arrest.');
+        logEvent('law_violation', r.id, null, null, r.x, r.y, { offense: 'loan_default' });
+        sendWebhook(r, 'law_violation', { offense: 'loan_default', x: r.x, y: r.y });
+      } else if (!inDefault && r.lawBreaking.includes('loan_default')) {
+        r.lawBreaking = r.lawBreaking.filter(l => l !== 'loan_default');
+      }
+
+      // Skip loitering checks for imprisoned/arrested/sleeping/inside-building residents,
+      // or if the city has no loitering law
+      if (r.arrestedBy || r.prisonSentenceEnd || r.isSleeping || r.currentBuilding || !getLawByDetection('loitering')) {
         // Reset loiter tracking
         r.loiterX = r.x;
         r.loiterY = r.y;
@@ -1095,7 +1360,7 @@ export class World {
     // --- Validate arrested-by on load ---
     // If a resident has arrestedBy set but no officer is carrying them, and they're not in prison, release them
     for (const [, r] of this.residents) {
-      if (r.isDead || !r.arrestedBy || r.prisonSentenceEnd) continue;
+      if (r.isDead || !r.arrestedBy || r.prisonSentenceEnd || r.onTrial) continue;
       const officer = this.residents.get(r.arrestedBy);
       if (!officer || officer.isDead || officer.carryingSuspectId !== r.id) {
         r.arrestedBy = null;
@@ -1104,13 +1369,298 @@ export class World {
     }
   }
 
-  /** Forageable node regrowth — called at 10 Hz */
-  updateForageables(_dt: number): void {
+  /** Bank interest and loan schedules — called at 10 Hz, runs every BANK_CHECK_INTERVAL_SEC */
+  updateBank(dt: number): void {
+    this.bankCheckTimer += dt;
+    if (this.bankCheckTimer < BANK_CHECK_INTERVAL_SEC) return;
+    this.bankCheckTimer = 0;
+
+    const { events, defaulters } = processBankSchedules(this.worldTime);
+    this.loanDefaulters = defaulters;
+
+    for (const event of events) {
+      const r = this.residents.get(event.residentId);
+      if (!r || r.isDead) continue;
+      switch (event.type) {
+        case 'interest':
+          r.pendingNotifications.push(`The bank credited ${event.amount} QUID interest to your savings.`);
+          break;
+        case 'auto_debit':
+          r.pendingNotifications.push(`The bank took ${event.amount} QUID from your savings for a loan installment.`);
+          sendWebhook(r, 'loan_auto_debit', { loan_id: event.loanId, amount: event.amount });
+          break;
+        case 'loan_repaid':
+          r.pendingNotifications.push(`The bank took ${event.amount} QUID from your savings. Your loan is fully repaid.`);
+          sendWebhook(r, 'loan_repaid', { loan_id: event.loanId, amount: event.amount });
+          break;
+        case 'loan_default':
+          r.pendingNotifications.push(`You missed a loan installment. A ${event.amount} QUID penalty was added to your debt.`);
+          sendWebhook(r, 'loan_defaulted', { loan_id: event.loanId, penalty: event.amount });
+          break;
+      }
+    }
+  }
+
+  /** Forageable node regrowth — called at 10 Hz. Weather speeds up or slows down regrowth. */
+  updateForageables(dt: number): void {
+    const regrowth = dt * TIME_SCALE * this.weather.effects.regrowth;
     for (const [, node] of this.forageableNodes) {
-      if (node.depletedAt !== null && this.worldTime >= node.depletedAt + node.regrowGameSeconds) {
+      if (node.depletedAt === null) continue;
+      node.regrowProgress += regrowth;
+      if (node.regrowProgress >= node.regrowGameSeconds) {
         // Regrow: reset uses and clear depletion timestamp
         node.usesRemaining = node.maxUses;
         node.depletedAt = null;
+        node.regrowProgress = 0;
+      }
+    }
+  }
+
+  /**
+   * Structure decay — called at 10 Hz. Unmaintained structures lose
+   * condition over their lifetime and collapse at 0; chest contents age
+   * like anything else.
+   */
+  updateStructures(dt: number): void {
+    const gameSeconds = dt * TIME_SCALE;
+    for (const [, s] of this.structures) {
+      const config = CITY_CONFIG.structures.find(c => c.id === s.type)!;
+      s.condition -= gameSeconds * 100 / (config.decayGameHours * 3600);
+      if (s.contents.length > 0) ageStacks(s.contents, gameSeconds);
+      if (s.condition > 0) continue;
+
+      this.removeStructure(s.id);
+      logEvent('structure_collapsed', s.ownerId, null, null, s.tileX * TILE_SIZE, s.tileY * TILE_SIZE, {
+        structure_id: s.id, structure_type: s.type, items_lost: s.contents.reduce((n, i) => n + i.quantity, 0),
+      });
+      const owner = this.residents.get(s.ownerId);
+      if (owner && !owner.isDead) {
+        const lost = s.contents.length > 0 ? ' Everything stored in it is lost.' : '';
+        owner.pendingNotifications.push(`Your ${config.name.toLowerCase()} collapsed from neglect.${lost}`);
+      }
+    }
+  }
+
+  /** Whether the resident is in the building where they rent a locker with paid-up rent */
+  isInOwnLocker(r: ResidentEntity): boolean {
+    return r.locker !== null && r.currentBuilding === r.locker.buildingId && r.locker.rentedUntil > this.worldTime;
+  }
+
+  /**
+   * Locker rent — checked every few seconds. Holders are warned when their
+   * rent runs out, and the city takes the contents once the grace period ends.
+   */
+  updateLockers(dt: number): void {
+    this.lockerCheckTimer += dt;
+    if (this.lockerCheckTimer < LOCKER_CHECK_INTERVAL_SEC) return;
+    this.lockerCheckTimer = 0;
+
+    for (const [, r] of this.residents) {
+      if (r.isDead || !r.locker) continue;
+      const overdue = this.worldTime - r.locker.rentedUntil;
+      if (overdue < 0) continue;
+
+      if (overdue >= LOCKER_GRACE_GAME_HOURS * 3600) {
+        forfeitLocker(r, 'unpaid_rent');
+        r.pendingNotifications.push('Your locker rent went unpaid too long. The city has taken the locker and its contents.');
+        sendWebhook(r, 'locker_forfeited', { reason: 'unpaid_rent' });
+      } else if (!r.locker.lapseNotified) {
+        r.locker.lapseNotified = true;
+        r.pendingNotifications.push(
+          `Your locker rent has run out. Pay with rent_locker within ${LOCKER_GRACE_GAME_HOURS} game hours or the city takes its contents.`,
+        );
+      }
+    }
+  }
+
+  /** Jury trials — read the verdict on any whose deliberation is over */
+  updateTrials(dt: number): void {
+    this.trialCheckTimer += dt;
+    if (this.trialCheckTimer < TRIAL_CHECK_INTERVAL_SEC) return;
+    this.trialCheckTimer = 0;
+    settleTrials(this);
+  }
+
+  /** Elections and the city budget — move the election cycle along and pay out the budget daily */
+  updateElections(dt: number): void {
+    this.electionCheckTimer += dt;
+    if (this.electionCheckTimer < ELECTION_CHECK_INTERVAL_SEC) return;
+    this.electionCheckTimer = 0;
+    advanceElections(this);
+    payBudget(this);
+  }
+
+  /** Built-in NPCs think and act */
+  updateNpcs(dt: number): void {
+    this.npcs?.update(dt);
+  }
+
+  /** Residents' plans take their next steps */
+  updateIntents(dt: number): void {
+    this.intents?.update(dt);
+  }
+
+  /**
+   * Illness — checked every few seconds. The sick recover when their time is
+   * up; everyone else may catch a chest cold sleeping rough at night, or
+   * whatever a contagious neighbour within SOCIAL_PROXIMITY_RANGE has.
+   */
+  updateIllness(dt: number): void {
+    this.illnessCheckTimer += dt;
+    if (this.illnessCheckTimer < ILLNESS_CHECK_INTERVAL_SEC) return;
+    const gameHours = this.illnessCheckTimer * TIME_SCALE / 3600;
+    this.illnessCheckTimer = 0;
+
+    const contagious: ResidentEntity[] = [];
+    for (const [, r] of this.residents) {
+      if (r.isDead || !r.illness) continue;
+      if (this.worldTime >= r.illness.recoversAt) {
+        cure(r, this.worldTime, 'recovered');
+      } else if (currentDisease(r)?.contagious) {
+        contagious.push(r);
+      }
+    }
+
+    const roughSleepDisease = CITY_CONFIG.diseases.find(d => d.caughtFrom === 'sleeping_rough');
+    const night = this.getDaylightMultiplier() === NIGHT_VISION_MULTIPLIER;
+    for (const [, r] of this.residents) {
+      if (r.isDead || r.illness || this.worldTime < r.immuneUntil) continue;
+
+      if (roughSleepDisease && night && r.isSleeping && !this.isSheltered(r)
+        && !r.inventory.some(i => i.type === 'sleeping_bag')
+        && random() < ILLNESS_ROUGH_SLEEP_CHANCE_PER_GAME_HOUR * gameHours) {
+        infect(r, roughSleepDisease, this.worldTime, 'sleeping_rough');
+        continue;
+      }
+
+      // Same proximity scan as the social bonus
+      for (const sick of contagious) {
+        const dx = sick.x - r.x;
+        const dy = sick.y - r.y;
+        if (dx * dx + dy * dy > SOCIAL_PROXIMITY_RANGE * SOCIAL_PROXIMITY_RANGE) continue;
+        if (random() < ILLNESS_CONTAGION_CHANCE_PER_GAME_HOUR * gameHours) {
+          infect(r, currentDisease(sick)!, this.worldTime, 'contagion', sick.id);
+          break;
+        }
+      }
+    }
+  }
+
+  /** Roll for food poisoning after a resident eats something spoiled */
+  exposeToSpoiledFood(r: ResidentEntity): void {
+    const disease = CITY_CONFIG.diseases.find(d => d.caughtFrom === 'spoiled_food');
+    if (disease && random() < ILLNESS_SPOILED_FOOD_CHANCE) {
+      infect(r, disease, this.worldTime, 'spoiled_food');
+    }
+  }
+
+  /** Turn the seasonal calendar, resizing forage yields when the season changes — called at 10 Hz */
+  updateSeason(): void {
+    const { season, next } = getSeasonAt(this.worldTime);
+    if (season.id === this.seasonId) return;
+    this.seasonId = season.id;
+
+    for (const [, node] of this.forageableNodes) {
+      applySeasonToNode(node, season, this.worldTime);
+    }
+    logEvent('season_change', null, null, null, null, null, { season: season.id, next: next.id });
+    for (const [, r] of this.residents) {
+      if (r.isDead) continue;
+      r.pendingNotifications.push(`${season.name} has begun (${season.lengthDays} days, then ${next.name}). ${season.description}`);
+    }
+  }
+
+  /** Roll the weather when the current spell ends — called at 10 Hz */
+  updateWeather(): void {
+    if (!this.weather.update(this.worldTime)) return;
+
+    logEvent('weather_change', null, null, null, null, null, {
+      condition: this.weather.condition,
+      changes_at: this.weather.changesAt,
+    });
+    for (const [, r] of this.residents) {
+      if (r.isDead) continue;
+      r.pendingNotifications.push(`The weather has changed: ${this.weather.description}`);
+    }
+  }
+
+  /** Expire timed-out trade offers and return escrow to the offerers */
+  updateTradeOffers(): void {
+    for (const offer of expireTradeOffers(this.residents)) {
+      const offerer = this.residents.get(offer.fromId);
+      const target = this.residents.get(offer.toId);
+      if (offerer && !offerer.isDead) {
+        offerer.pendingNotifications.push(
+          `Your trade offer to ${target?.preferredName ?? 'someone'} (${describeTradeOffer(offer)}) expired. Escrow returned.`,
+        );
+        sendWebhook(offerer, 'trade_expired', {
+          offer_id: offer.id,
+          to_id: offer.toId,
+          wallet: offerer.wallet,
+          inventory: offerer.inventory,
+        });
+      }
+      if (target && !target.isDead) {
+        target.pendingNotifications.push(`A trade offer from ${offerer?.preferredName ?? 'someone'} expired.`);
+      }
+      logEvent('trade_expired', offer.fromId, offer.toId, null, offerer?.x ?? null, offerer?.y ?? null, {
+        offer_id: offer.id,
+      });
+    }
+  }
+
+  /**
+   * Wear a carried sleeping bag by one use at the start of a sleep.
+   * Returns the uses left on it, or null if the resident doesn't carry one.
+   */
+  useSleepingBag(r: ResidentEntity): number | null {
+    const usesLeft = wearItem(r, 'sleeping_bag');
+    if (usesLeft === 0) {
+      r.pendingNotifications.push('Your sleeping bag fell apart — it has worn out. Buy another at the shop.');
+    } else if (usesLeft === 1) {
+      r.pendingNotifications.push('Your sleeping bag is nearly worn out (1 use left).');
+    }
+    return usesLeft;
+  }
+
+  /** Age perishable food — called at 10 Hz */
+  updateSpoilage(dt: number): void {
+    const gameSeconds = dt * TIME_SCALE;
+    for (const [, r] of this.residents) {
+      if (r.isDead) continue;
+      // Lockers keep things safe, not fresh
+      if (r.locker && r.locker.contents.length > 0) ageStacks(r.locker.contents, gameSeconds);
+      if (r.inventory.length === 0) continue;
+      for (const stack of ageInventory(r, gameSeconds)) {
+        const name = getShopItem(stack.itemType)?.name ?? stack.itemType;
+        r.pendingNotifications.push(`Your ${stack.quantity}x ${name} spoiled. Eating ${stack.spoiledType} will hurt your health.`);
+        logEvent('item_spoiled', r.id, null, r.currentBuilding, r.x, r.y, {
+          item_type: stack.itemType, spoiled_type: stack.spoiledType, quantity: stack.quantity,
+        });
+        sendWebhook(r, 'item_spoiled', {
+          item_type: stack.itemType,
+          spoiled_type: stack.spoiledType,
+          quantity: stack.quantity,
+          inventory: r.inventory.map(toInventoryItem),
+        });
+      }
+    }
+  }
+
+  /** Tell residents about recipes they now hold the ingredients for */
+  updateRecipeDiscovery(dt: number): void {
+    this.recipeCheckTimer += dt;
+    if (this.recipeCheckTimer < RECIPE_DISCOVERY_CHECK_INTERVAL_SEC) return;
+    this.recipeCheckTimer = 0;
+
+    for (const [, r] of this.residents) {
+      if (r.isDead || r.inventory.length === 0) continue;
+      for (const recipe of discoverRecipes(r)) {
+        sendWebhook(r, 'recipe_discovered', {
+          recipe_id: recipe.id,
+          name: recipe.name,
+          recipe: describeRecipe(recipe),
+        });
       }
     }
   }
@@ -1127,7 +1677,7 @@ export class World {
         r.isSleeping = false;
 
         // Determine cause
-        let cause = 'unknown';
+        let cause = r.lastHealthDamage ?? 'unknown';
         if (r.needs.hunger <= 0 && r.needs.thirst <= 0) cause = 'starvation and dehydration';
         else if (r.needs.hunger <= 0) cause = 'starvation';
         else if (r.needs.thirst <= 0) cause = 'dehydration';
@@ -1151,6 +1701,14 @@ export class World {
           r.prisonSentenceEnd = null;
         }
 
+        settleLocker(r, this.residents, 'death');
+        // Bring everything else they own into the estate before the will
+        // shares it out: escrow from pending trade offers and market orders,
+        // then bank savings (less whatever they still owed on a loan)
+        cancelTradeOffersFor(r, this.residents);
+        cancelMarketOrdersFor(r);
+        closeBankAccount(r, 'death');
+
         markResidentDead(id, cause);
         logEvent('death', id, null, null, r.x, r.y, {
           cause, wallet_lost: r.wallet
@@ -1163,13 +1721,13 @@ export class World {
         // Enriched death webhook with feedback URL
         const feedbackToken = createFeedbackToken(r.id, 'death', {
           cause,
-          survival_time_ms: Date.now() - r.createdAt,
+          survival_time_ms: clock.now() - r.createdAt,
         });
         sendWebhook(r, 'death', {
           cause,
           x: r.x,
           y: r.y,
-          survival_time_ms: Date.now() - r.createdAt,
+          survival_time_ms: clock.now() - r.createdAt,
           needs_at_death: { ...r.needs },
           wallet: walletAtDeath,
           inventory: r.inventory.map(i => ({ type: i.type, quantity: i.quantity })),
@@ -1178,6 +1736,9 @@ export class World {
           feedback_prompt: renderMessage(CITY_CONFIG.messages.deathFeedback),
         });
 
+        // Share out the estate to anyone named in a will
+        executeWill(r, walletAtDeath, this.residents);
+
         // Notify nearby residents about the death
         this.notifyNearby(r.x, r.y, 200, `${r.preferredName} has died nearby.`);
       }
@@ -1202,20 +1763,29 @@ export class World {
       this.trainTimer = interval; // force trigger on next check
     }
 
-    // Shop restock timer
-    this.shopRestockTimer += dt;
-    const restockIntervalSec = SHOP_RESTOCK_INTERVAL_GAME_HOURS * 3600 / TIME_SCALE;
-    if (this.shopRestockTimer >= restockIntervalSec) {
-      this.shopRestockTimer -= restockIntervalSec;
-      restockShop();
-      // Notify residents near the shop building
-      const shopConfig = getBuildingByType('shop');
-      const shopBuilding = shopConfig ? this.map.data.buildings.find(b => b.id === shopConfig.id) : null;
-      if (shopBuilding) {
-        const shopX = (shopBuilding.tileX + shopBuilding.widthTiles / 2) * TILE_SIZE;
-        const shopY = (shopBuilding.tileY + shopBuilding.heightTiles / 2) * TILE_SIZE;
-        this.notifyNearby(shopX, shopY, 300, `${shopConfig!.name} has been restocked.`);
+    // Shop restock timers — each selling building restocks on its own schedule
+    for (const [buildingId, timer] of this.shopRestockTimers) {
+      const restockIntervalSec = getRestockIntervalSec(buildingId);
+      let elapsed = timer + dt;
+      if (elapsed >= restockIntervalSec) {
+        elapsed -= restockIntervalSec;
+        const restocked = restockShop(buildingId);
+        // Notify residents near the building
+        const shopBuilding = this.map.data.buildings.find(b => b.id === buildingId);
+        if (shopBuilding && restocked.length > 0) {
+          const shopX = (shopBuilding.tileX + shopBuilding.widthTiles / 2) * TILE_SIZE;
+          const shopY = (shopBuilding.tileY + shopBuilding.heightTiles / 2) * TILE_SIZE;
+          this.notifyNearby(shopX, shopY, 300, `${shopBuilding.name} has been restocked.`);
+        }
       }
+      this.shopRestockTimers.set(buildingId, elapsed);
+    }
+
+    // Sample shop prices — they drift with time since restock even without purchases
+    this.priceSampleTimer += dt;
+    if (this.priceSampleTimer >= PRICE_SAMPLE_INTERVAL_SEC) {
+      this.priceSampleTimer = 0;
+      recordShopPrices();
     }
 
     // Periodically close expired petitions
@@ -1223,6 +1793,7 @@ export class World {
     if (this.petitionCheckTimer >= this.petitionCheckInterval) {
       this.petitionCheckTimer = 0;
       const maxAgeMs = (PETITION_MAX_AGE_GAME_HOURS * 3600 / TIME_SCALE) * 1000;
+      settlePolicyPetitions(maxAgeMs, this);
       const closed = closeExpiredPetitions(maxAgeMs);
       if (closed > 0) {
         console.log(`[World] Closed ${closed} expired petition(s)`);
@@ -1246,8 +1817,8 @@ export class World {
 
       // Spread arrivals: random jitter if SPAWN_JITTER_PX is set, otherwise linear spread
       if (jitter > 0) {
-        r.x = spawn.x + (Math.random() * 2 - 1) * jitter;
-        r.y = spawn.y + (Math.random() * 2 - 1) * jitter;
+        r.x = spawn.x + (random() * 2 - 1) * jitter;
+        r.y = spawn.y + (random() * 2 - 1) * jitter;
       } else {
         r.x = spawn.x + (i - arrivals.length / 2) * 20;
         r.y = spawn.y;
@@ -1278,8 +1849,16 @@ export class World {
     }
   }
 
-  /** Returns a 0-1 multiplier for vision ranges based on time of day */
-  getVisionMultiplier(): number {
+  /**
+   * Returns a 0-1 multiplier for vision ranges based on time of day,
+   * and on the weather for a resident who is outdoors.
+   */
+  getVisionMultiplier(resident?: ResidentEntity): number {
+    const weatherVision = resident && !this.isSheltered(resident) ? this.weather.effects.vision : 1;
+    return this.getDaylightMultiplier() * weatherVision;
+  }
+
+  private getDaylightMultiplier(): number {
     const worldTimeSec = this.worldTime + STARTING_HOUR * 3600;
     const hour = (worldTimeSec % GAME_DAY_SECONDS) / 3600;
 
@@ -1327,8 +1906,8 @@ export class World {
     const audible: AudibleMessage[] = [];
     const interactions: string[] = [];
 
-    // Night vision: reduce vision ranges based on time of day
-    const visionMult = this.getVisionMultiplier();
+    // Night vision and weather: reduce vision ranges based on time of day and conditions
+    const visionMult = this.getVisionMultiplier(resident);
     const effectiveFovRange = FOV_RANGE * visionMult;
     const effectiveAmbientRange = AMBIENT_RANGE * visionMult;
     const effectiveBuildingRange = FOV_RANGE * 1.5 * visionMult;
@@ -1337,6 +1916,7 @@ export class World {
     const isImprisoned = resident.arrestedBy !== null || resident.prisonSentenceEnd !== null;
     if (isImprisoned) {
       interactions.push('speak', 'inspect');
+      if (resident.onTrial) interactions.push('defend');
       // Skip all other interaction computation for imprisoned residents
       const notifications = [...resident.pendingNotifications];
       // Still include own pending speech
@@ -1355,8 +1935,10 @@ export class World {
       }
       return {
         tick,
-        time: new Date().toISOString(),
+        time: new Date(clock.now()).toISOString(),
         world_time: this.worldTime + STARTING_HOUR * 3600,
+        weather: this.weather.toPerception(this.worldTime, this.isSheltered(resident)),
+        season: toSeasonState(getSeasonAt(this.worldTime)),
         self: {
           id: resident.id,
           passport_no: resident.passportNo,
@@ -1370,16 +1952,18 @@ export class World {
           health: Math.round(resident.needs.health * 10) / 10,
           social: Math.round(resident.needs.social * 10) / 10,
           wallet: resident.wallet,
-          inventory: resident.inventory,
-          status: resident.arrestedBy ? 'arrested' : 'imprisoned',
+          inventory: resident.inventory.map(toInventoryItem),
+          status: resident.onTrial ? 'on_trial' : resident.arrestedBy ? 'arrested' : 'imprisoned',
           is_sleeping: false,
           sleep_started_at: null,
           is_using_toilet: resident.toiletUseUntilMs !== null,
           toilet_use_remaining_ms: resident.toiletUseUntilMs !== null
-            ? Math.max(0, resident.toiletUseUntilMs - Date.now())
+            ? Math.max(0, resident.toiletUseUntilMs - clock.now())
             : undefined,
           current_building: resident.currentBuilding,
-          employment: resident.employment ? { job: resident.employment.job, on_shift: resident.employment.onShift } : null,
+          employment: describeEmployment(resident),
+          locker: describeLocker(resident, this.residents, this.worldTime),
+          illness: toIllnessStatus(resident, this.worldTime),
           law_breaking: resident.lawBreaking,
           prison_sentence_remaining: resident.prisonSentenceEnd !== null
             ? Math.max(0, Math.round(resident.prisonSentenceEnd - this.worldTime))
@@ -1412,6 +1996,10 @@ export class World {
       }
       if (resident.employment) {
         interactions.push('quit_job');
+        if (resident.employment.onShift && resident.currentJobId && getJobTasks(resident.currentJobId)
+          .some(t => t.action === 'work' && (resident.shiftTasks[t.id] ?? 0) < t.target)) {
+          interactions.push('work');
+        }
       }
     }
 
@@ -1484,6 +2072,8 @@ export class World {
           is_police: other.currentJobId === 'police-officer' ? true : undefined,
           is_arrested: (other.arrestedBy || other.prisonSentenceEnd) ? true : undefined,
           is_using_toilet: other.toiletUseUntilMs !== null ? true : undefined,
+          symptom: currentDisease(other)?.symptom,
+          is_npc: other.type === 'NPC' ? true : undefined,
         } satisfies VisibleResident);
 
         // Body collection interaction: can pick up dead residents
@@ -1497,6 +2087,12 @@ export class World {
             !resident.isSleeping && dist <= ARREST_RANGE) {
           interactions.push(`arrest:${other.id}`);
         }
+
+        // Theft interaction: anyone asleep or distracted within reach
+        if (!other.isDead && other.inventory.length > 0 && isDistracted(other) && !resident.isSleeping &&
+            other.currentBuilding === resident.currentBuilding && dist <= STEAL_RANGE) {
+          interactions.push(`steal:${other.id}`);
+        }
       }
 
       // Check audibility (recent speech)
@@ -1544,6 +2140,13 @@ export class World {
           break;
         }
       }
+      // craft:<recipe_id> for each known recipe the resident has ingredients for
+      for (const recipeId of resident.knownRecipes) {
+        const recipe = getRecipe(recipeId);
+        if (recipe && maxCraftable(resident, recipe) > 0) {
+          interactions.push(`craft:${recipe.id}`);
+        }
+      }
     }
 
     // If inside a building, add building-specific interactions
@@ -1555,26 +2158,71 @@ export class World {
           interactions.push(zone.action);
         }
       }
+      // Any building with a catalog sells from its own stock
+      if (getShopCatalog(resident.currentBuilding).length > 0) {
+        interactions.push('buy');
+      }
       const currentBuildingType = getBuildingType(resident.currentBuilding);
       // Hall extras
       if (currentBuildingType === 'hall') {
-        interactions.push('list_jobs', 'list_petitions');
+        interactions.push('list_jobs', 'list_petitions', 'write_will', 'list_trials');
+        if (getOpenTrials().length > 0) {
+          interactions.push('jury_vote');
+        }
+        interactions.push('list_candidates');
+        const election = getOpenElection();
+        if (election?.status === 'registration') {
+          interactions.push('register_candidate');
+        } else if (election?.status === 'voting') {
+          interactions.push('vote_election');
+        }
+        if (election && getCandidates(election.id).some(c => c.resident_id === resident.id)) {
+          interactions.push('campaign_speech');
+        }
+        const office = getOffice(this);
+        if (office.mayor?.id === resident.id) {
+          interactions.push('set_tax_rate', 'pardon', 'propose_budget');
+        }
+        if (office.council.some(c => c.id === resident.id) && getBudgetByStatus('proposed')) {
+          interactions.push('vote_budget');
+        }
         if (resident.employment) {
           interactions.push('quit_job');
         }
+        interactions.push(getActiveBusinessForOwner(resident.id) ? 'post_job' : 'register_business');
       }
       // Mortuary: process_body if carrying one
       if (currentBuildingType === 'mortuary' && resident.carryingBodyId) {
         interactions.push('process_body');
       }
       // Police station: book_suspect if carrying one
+      if (currentBuildingType === 'police' && resident.witnessedCrimes.length > 0) {
+        interactions.push('report_crime');
+      }
       if (currentBuildingType === 'police' && resident.carryingSuspectId) {
         interactions.push('book_suspect');
       }
+      // Shop: market stalls
+      if (currentBuildingType === 'shop') {
+        interactions.push('place_order', 'cancel_order', 'list_market');
+      }
+      // Bank: savings and loans
+      if (currentBuildingType === 'bank') {
+        interactions.push('deposit', 'withdraw', 'check_balance', 'take_loan', 'repay_loan');
+      }
       // Tourist Information: referral actions
       if (currentBuildingType === 'info') {
         interactions.push('buy', 'get_referral_link', 'claim_referrals');
       }
+      if (currentBuildingType === 'storage') {
+        interactions.push('rent_locker');
+        if (resident.locker?.buildingId === resident.currentBuilding) {
+          interactions.push('locker_deposit', 'locker_withdraw', 'set_locker_heir', 'release_locker');
+        }
+      }
+      if (currentBuildingType === 'clinic' && resident.illness) {
+        interactions.push('treat');
+      }
     }
 
     // Add buildings as visible entities
@@ -1636,10 +2284,29 @@ export class World {
       }
     }
 
+    // Resident-built structures, plus upkeep and chest interactions when close
+    if (!resident.currentBuilding) {
+      for (const [, s] of this.structures) {
+        const view = this.toVisibleStructure(s, resident);
+        const dist = Math.sqrt((view.x - resident.x) ** 2 + (view.y - resident.y) ** 2);
+        if (dist > effectiveBuildingRange) continue;
+        visible.push(view);
+
+        if (dist > BUILD_RANGE || resident.isSleeping) continue;
+        if (s.condition < 100) interactions.push(`maintain_structure:${s.id}`);
+        if (s.type === 'storage_chest' && s.ownerId === resident.id) {
+          interactions.push(`store_item:${s.id}`);
+          if (s.contents.length > 0) interactions.push(`take_item:${s.id}`);
+        }
+      }
+    }
+
     return {
       tick,
-      time: new Date().toISOString(),
+      time: new Date(clock.now()).toISOString(),
       world_time: this.worldTime + STARTING_HOUR * 3600,
+      weather: this.weather.toPerception(this.worldTime, this.isSheltered(resident)),
+      season: toSeasonState(getSeasonAt(this.worldTime)),
       self: {
         id: resident.id,
         passport_no: resident.passportNo,
@@ -1653,26 +2320,30 @@ export class World {
         health: Math.round(resident.needs.health * 10) / 10,
         social: Math.round(resident.needs.social * 10) / 10,
         wallet: resident.wallet,
-        inventory: resident.inventory,
+        inventory: resident.inventory.map(toInventoryItem),
         status: resident.isDead ? 'dead' : resident.isSleeping ? 'sleeping' : resident.speed !== 'stop' ? 'walking' : 'idle',
         is_sleeping: resident.isSleeping,
         sleep_started_at: resident.isSleeping ? resident.sleepStartedAt : null,
         is_using_toilet: resident.toiletUseUntilMs !== null,
         toilet_use_remaining_ms: resident.toiletUseUntilMs !== null
-          ? Math.max(0, resident.toiletUseUntilMs - Date.now())
+          ? Math.max(0, resident.toiletUseUntilMs - clock.now())
           : undefined,
         current_building: resident.currentBuilding,
-        employment: resident.employment ? { job: resident.employment.job, on_shift: resident.employment.onShift } : null,
+        employment: describeEmployment(resident),
+        locker: describeLocker(resident, this.residents, this.worldTime),
+        illness: toIllnessStatus(resident, this.worldTime),
         law_breaking: resident.lawBreaking,
         prison_sentence_remaining: resident.prisonSentenceEnd !== null
           ? Math.max(0, Math.round(resident.prisonSentenceEnd - this.worldTime))
           : null,
         carrying_suspect_id: resident.carryingSuspectId,
         awaiting_reply_from: this.getAwaitingReplyList(resident),
+        pending_trades: getTradeOffersForResident(resident.id, this.residents),
         pending_feedback: resident.pendingFeedbackPrompt
           ? { prompt: resident.pendingFeedbackPrompt }
           : undefined,
         map_knowledge: this.getMapKnowledge(resident),
+        intent: this.intents?.describe(resident.id),
       },
       visible,
       audible,
@@ -1682,8 +2353,26 @@ export class World {
   }
 
   /** Build awaiting_reply_from list for perception, filtering expired entries */
+  private toVisibleStructure(s: StructureEntity, viewer: ResidentEntity): VisibleStructure {
+    const view: VisibleStructure = {
+      id: s.id,
+      type: 'structure',
+      structure_type: s.type,
+      name: CITY_CONFIG.structures.find(c => c.id === s.type)?.name ?? s.type,
+      x: s.tileX * TILE_SIZE + TILE_SIZE / 2,
+      y: s.tileY * TILE_SIZE + TILE_SIZE / 2,
+      owner_id: s.ownerId,
+      owner_name: this.residents.get(s.ownerId)?.preferredName ?? 'unknown',
+      condition: Math.ceil(s.condition),
+    };
+    if (s.type === 'storage_chest' && s.ownerId === viewer.id) {
+      view.contents = s.contents.map(toInventoryItem);
+    }
+    return view;
+  }
+
   private getAwaitingReplyList(resident: ResidentEntity): Array<{ id: string; name: string; seconds_remaining: number }> | undefined {
-    const now = Date.now();
+    const now = clock.now();
     const result: Array<{ id: string; name: string; seconds_remaining: number }> = [];
     for (const [targetId, timestamp] of resident.awaitingReplyFrom) {
       const elapsed = now - timestamp;
@@ -1735,6 +2424,8 @@ export class World {
         is_police: other.currentJobId === 'police-officer' ? true : undefined,
         is_arrested: (other.arrestedBy || other.prisonSentenceEnd) ? true : undefined,
         is_using_toilet: other.toiletUseUntilMs !== null ? true : undefined,
+        symptom: currentDisease(other)?.symptom,
+        is_npc: other.type === 'NPC' ? true : undefined,
       } satisfies VisibleResident);
 
       // Include ALL pending speech (no distance/wall filtering)
@@ -1801,10 +2492,17 @@ export class World {
       } satisfies VisibleForageable);
     }
 
+    // Include ALL structures (no distance filtering)
+    for (const [, s] of this.structures) {
+      visible.push(this.toVisibleStructure(s, resident));
+    }
+
     return {
       tick,
-      time: new Date().toISOString(),
+      time: new Date(clock.now()).toISOString(),
       world_time: this.worldTime + STARTING_HOUR * 3600,
+      weather: this.weather.toPerception(this.worldTime, this.isSheltered(resident)),
+      season: toSeasonState(getSeasonAt(this.worldTime)),
       self: {
         id: resident.id,
         passport_no: resident.passportNo,
@@ -1818,16 +2516,18 @@ export class World {
         health: Math.round(resident.needs.health * 10) / 10,
         social: Math.round(resident.needs.social * 10) / 10,
         wallet: resident.wallet,
-        inventory: resident.inventory,
+        inventory: resident.inventory.map(toInventoryItem),
         status: resident.isDead ? 'dead' : resident.isSleeping ? 'sleeping' : resident.speed !== 'stop' ? 'walking' : 'idle',
         is_sleeping: resident.isSleeping,
         sleep_started_at: resident.isSleeping ? resident.sleepStartedAt : null,
         is_using_toilet: resident.toiletUseUntilMs !== null,
         toilet_use_remaining_ms: resident.toiletUseUntilMs !== null
-          ? Math.max(0, resident.toiletUseUntilMs - Date.now())
+          ? Math.max(0, resident.toiletUseUntilMs - clock.now())
           : undefined,
         current_building: resident.currentBuilding,
-        employment: resident.employment ? { job: resident.employment.job, on_shift: resident.employment.onShift } : null,
+        employment: describeEmployment(resident),
+        locker: describeLocker(resident, this.residents, this.worldTime),
+        illness: toIllnessStatus(resident, this.worldTime),
         law_breaking: resident.lawBreaking,
         prison_sentence_remaining: resident.prisonSentenceEnd !== null
           ? Math.max(0, Math.round(resident.prisonSentenceEnd - this.worldTime))
@@ -1843,7 +2543,7 @@ export class World {
 
   /** Find the nearest resident who is also in an active conversation (for notifications) */
   private findConversationPartner(resident: ResidentEntity): ResidentEntity | null {
-    const now = Date.now();
+    const now = clock.now();
     let closest: ResidentEntity | null = null;
     let closestDist = Infinity;
     for (const [id, other] of this.residents) {
@@ -1862,7 +2562,7 @@ export class World {
 
   /** Fire speech_heard webhooks and update conversation timestamps */
   computeSpeechListeners(): void {
-    const now = Date.now();
+    const now = clock.now();
 
     for (const [speakerId, speaker] of this.residents) {
       if (speaker.isDead || speaker.pendingSpeech.length === 0) continue;
@@ -1934,16 +2634,16 @@ export class World {
               // Build conversation context for directed speech
               let conversationContext: Record<string, unknown> | undefined;
               if (isDirected) {
-                const recentExchanges = getConversationContext(listenerId, speakerId, { limit: 6, since: Date.now() - 60 * 60 * 1000 });
+                const recentExchanges = getConversationContext(listenerId, speakerId, { limit: 6, since: clock.now() - 60 * 60 * 1000 });
                 const yourMessages = recentExchanges.filter(e => e.speaker_id === listenerId);
                 const theirMessages = recentExchanges.filter(e => e.speaker_id === speakerId);
                 conversationContext = {
                   your_last_message_to_them: yourMessages.length > 0 ? yourMessages[0].text : null,
                   your_last_message_time_ago_seconds: yourMessages.length > 0
-                    ? Math.round((Date.now() - yourMessages[0].timestamp) / 1000) : null,
+                    ? Math.round((clock.now() - yourMessages[0].timestamp) / 1000) : null,
                   their_recent_messages_to_you: theirMessages.slice(0, 3).map(m => ({
                     text: m.text,
-                    seconds_ago: Math.round((Date.now() - m.timestamp) / 1000),
+                    seconds_ago: Math.round((clock.now() - m.timestamp) / 1000),
                   })),
                   total_exchanges_last_hour: recentExchanges.length,
                 };
@@ -1988,12 +2688,11 @@ export class World {
 
   /** Fire nearby_resident and building_nearby webhooks — called at 4 Hz */
   checkNearbyAlerts(): void {
-    const now = Date.now();
-    const visionMult = this.getVisionMultiplier();
-    const effectiveAmbientRange = AMBIENT_RANGE * visionMult;
+    const now = clock.now();
 
     for (const [residentId, r] of this.residents) {
       if (r.isDead || (!r.webhookUrl && !r.ws)) continue;
+      const effectiveAmbientRange = AMBIENT_RANGE * this.getVisionMultiplier(r);
 
       // --- nearby_resident: fire when a new resident enters visibility ---
       const currentlyVisible = new Set<string>();
@@ -2022,7 +2721,7 @@ export class World {
                 relationship: {
                   times_spoken: relationship.times_spoken,
                   last_spoke_ago_seconds: relationship.last_spoke_at
-                    ? Math.round((Date.now() - relationship.last_spoke_at) / 1000)
+                    ? Math.round((clock.now() - relationship.last_spoke_at) / 1000)
                     : null,
                   last_topic_snippet: relationship.last_topic_snippet,
                 },
@@ -2104,11 +2803,14 @@ export class World {
         current_building: r.currentBuilding,
         current_job_id: r.currentJobId,
         shift_start_time: r.shiftStartTime,
+        shift_tasks: r.shiftTasks,
         carrying_body_id: r.carryingBodyId,
         law_breaking: r.lawBreaking,
         arrested_by: r.arrestedBy,
         prison_sentence_end: r.prisonSentenceEnd,
         carrying_suspect_id: r.carryingSuspectId,
+        illness: r.illness,
+        immune_until: r.immuneUntil,
       }));
 
     batchSaveResidents(residents);
@@ -2116,7 +2818,7 @@ export class World {
     // Save inventory
     const allInventory: Array<{
       id: string; resident_id: string; item_type: string;
-      quantity: number; durability: number;
+      quantity: number; durability: number; age_game_seconds: number;
     }> = [];
     for (const r of this.residents.values()) {
       if (r.isDead) continue;
@@ -2126,7 +2828,8 @@ export class World {
           resident_id: r.id,
           item_type: item.type,
           quantity: item.quantity,
-          durability: -1, // durability tracked separately if needed
+          durability: item.durability,
+          age_game_seconds: item.age,
         });
       }
     }
@@ -2134,7 +2837,34 @@ export class World {
       batchSaveInventory(allInventory);
     }
 
-    saveWorldState(this.worldTime, this.trainTimer, this.shopRestockTimer);
+    batchSaveLockers(Array.from(this.residents.values())
+      .filter(r => !r.isDead && r.locker)
+      .map(r => ({
+        resident_id: r.id,
+        rented_until: r.locker!.rentedUntil,
+        heir_id: r.locker!.heirId,
+        contents: JSON.stringify(r.locker!.contents),
+        rent_paid: r.locker!.rentPaid,
+      })));
+
+    batchSaveStructures(Array.from(this.structures.values()).map(s => ({
+      id: s.id,
+      condition: s.condition,
+      contents: JSON.stringify(s.contents),
+    })));
+
+    const forageables: Record<string, SavedForageable> = {};
+    for (const [id, node] of this.forageableNodes) {
+      forageables[id] = {
+        uses_remaining: node.usesRemaining,
+        depleted_at: node.depletedAt,
+        regrow_progress: node.regrowProgress,
+      };
+    }
+    saveWorldState(this.worldTime, this.trainTimer, Object.fromEntries(this.shopRestockTimers), {
+      condition: this.weather.condition,
+      changes_at: this.weather.changesAt,
+    }, forageables);
   }
 
   /** Periodic save check */
@@ -8,6 +8,9 @@
  * ╚══════════════════════════════════════════════════════════════════╝
  */
 
+import type { ItemKind } from './types/economy.js';
+import type { StructureType } from './types/map.js';
+
 // ── Building types ───────────────────────────────────────────────
 // These are the engine-provided behavior types. Cities re-skin them
 // with different names/descriptions but the mechanics are fixed.
@@ -20,13 +23,28 @@ export type BuildingType =
   | 'toilet'    // Bladder need satisfaction
   | 'mortuary'  // Body collection bounty
   | 'police'    // Law enforcement, arrests
-  | 'info';     // Referral system, tourism
+  | 'info'      // Referral system, tourism
+  | 'storage'   // Rentable lockers and bunks
+  | 'clinic';   // Treatment for illness
 
 export interface BuildingConfig {
   id: string;
   name: string;
   type: BuildingType;
   description: string;
+  catalog?: string[];                 // item ids sold here; default = items whose soldAt is this type
+  restockIntervalGameHours?: number;  // default SHOP_RESTOCK_INTERVAL_GAME_HOURS
+}
+
+export interface JobTaskConfig {
+  id: string;
+  name: string;
+  /** Client action that counts toward this task ('work' = the generic work action at the workplace) */
+  action: 'work' | 'process_body' | 'book_suspect' | 'speak';
+  target: number;       // completions per shift for full credit
+  description: string;
+  /** What each completion does at the workplace: 'restock' tops up the shelves by 1/target of max stock */
+  effect?: 'restock';
 }
 
 export interface JobConfig {
@@ -37,13 +55,119 @@ export interface JobConfig {
   shiftDurationHours: number;
   maxPositions: number;
   description: string;
+  tasks?: JobTaskConfig[];  // no tasks = full wage just for staying on shift
+}
+
+/** A building closed to the public for part of the day */
+export interface RestrictedArea {
+  buildingId: string;
+  closedFromHour: number;   // game hour it closes (0-23)
+  closedToHour: number;     // game hour it reopens
+  staffJobIds: string[];    // jobs whose holders may still enter
 }
 
+/** How the city notices a law being broken */
+export type LawDetection =
+  | { kind: 'loitering' }                  // standing still outdoors for LOITER_THRESHOLD_GAME_HOURS
+  | { kind: 'loan_default' }               // an overdue bank installment
+  | { kind: 'witnessed'; action: 'steal' | 'assault'; witnessRange: number; witnessChance: number }
+  | { kind: 'trespass'; areas: RestrictedArea[] };
+
 export interface LawConfig {
   id: string;
   name: string;
   description: string;
   sentenceGameHours: number;
+  detection: LawDetection;
+}
+
+export interface ItemConfig {
+  id: string;                 // item_type string used in inventories and actions
+  name: string;
+  kind: ItemKind;
+  price: number;              // base price; 0 for items that aren't sold
+  effects: {                  // applied when eaten/drunk (omitted = 0)
+    hunger?: number;
+    thirst?: number;
+    energy?: number;
+    bladder?: number;
+  };
+  durability: number;         // -1 = single use, >0 = number of uses
+  shelfLifeGameHours?: number;  // perishables only
+  soldAt: BuildingType | null;  // building type that sells it; null = not sold (see BuildingConfig.catalog)
+  maxStock?: number;          // stock cap each seller restocks to
+  restocks?: boolean;         // false = one-time listing of maxStock (default true)
+  map?: { type: string; version: number };  // map items only
+  description: string;
+}
+
+export interface RecipeIngredient {
+  itemType: string;
+  quantity: number;
+}
+
+export interface RecipeConfig {
+  id: string;
+  name: string;
+  inputs: RecipeIngredient[];
+  output: RecipeIngredient;
+  description: string;
+}
+
+export interface StructureConfig {
+  id: StructureType;
+  name: string;
+  cost: RecipeIngredient[];             // consumed from inventory when built
+  maintenanceCost: RecipeIngredient[];  // consumed to restore condition to 100
+  blocksMovement: boolean;
+  decayGameHours: number;               // unmaintained lifetime, 100 → 0 condition
+  description: string;
+}
+
+export type SeasonId = 'spring' | 'summer' | 'autumn' | 'winter';
+
+export interface SeasonConfig {
+  id: SeasonId;
+  name: string;
+  lengthDays: number;         // game days
+  forageYield: {              // multiplier on each node's max uses; 0 = yields nothing all season
+    berry_bush: number;
+    fresh_spring: number;
+  };
+  description: string;
+}
+
+export interface DiseaseConfig {
+  id: string;
+  name: string;
+  symptom: string;            // what other residents can see, e.g. 'coughing'
+  caughtFrom: 'spoiled_food' | 'sleeping_rough';
+  contagious: boolean;        // spreads to residents within SOCIAL_PROXIMITY_RANGE
+  durationGameHours: number;  // recovers on its own after this long
+  decay: {                    // multipliers on need decay while ill (omitted = 1)
+    hunger?: number;
+    thirst?: number;
+    energy?: number;
+  };
+  healthDrainPerHour: number; // health lost per real hour while ill
+  treatmentCost: number;      // QUID for a cure at the clinic
+  description: string;
+}
+
+/** What a built-in NPC does all day — each role has its own behavior tree on the server */
+export type NpcRole = 'shopkeeper' | 'police' | 'forager';
+
+export interface NpcConfig {
+  id: string;                 // stable key: a dead NPC is replaced by a new resident with the same id
+  role: NpcRole;
+  fullName: string;
+  preferredName: string;
+  placeOfOrigin: string;
+  bio: string;
+  build?: 'Slim' | 'Medium' | 'Athletic' | 'Heavy';
+  skinTone?: number;
+  hairStyle?: number;
+  hairColor?: number;
 }
 
 export interface CityConfig {
@@ -64,6 +188,11 @@ export interface CityConfig {
   startingMoney: number;
   ubiAmount: number;
 
+  // ── Items ─────────────────────────────────────────────────────
+  // Everything a resident can carry: shop stock, maps, foraged
+  // resources and crafted goods.
+  items: ItemConfig[];
+
   // ── Buildings ─────────────────────────────────────────────────
   buildings: BuildingConfig[];
 
@@ -73,6 +202,29 @@ export interface CityConfig {
   // ── Laws ──────────────────────────────────────────────────────
   laws: LawConfig[];
 
+  // ── Recipes ───────────────────────────────────────────────────
+  // Crafting: combine items from inventory into something better.
+  // Input and output item types must be declared in `items`.
+  recipes: RecipeConfig[];
+
+  // ── Structures ────────────────────────────────────────────────
+  // What residents can build on grass in the wilderness ring.
+  // Cost item types must be declared in `items`.
+  structures: StructureConfig[];
+
+  // ── Seasons ───────────────────────────────────────────────────
+  // The calendar cycles through these in order, starting on day 0.
+  seasons: SeasonConfig[];
+
+  // ── Diseases ──────────────────────────────────────────────────
+  // Each is caught from one source; contagious ones also spread by contact.
+  diseases: DiseaseConfig[];
+
+  // ── NPCs ──────────────────────────────────────────────────────
+  // Residents run by the server itself, through the same actions
+  // agents use. They keep a small city lively. Set NPCS=off to disable.
+  npcs: NpcConfig[];
+
   // ── Messages ──────────────────────────────────────────────────
   // Use {{city_name}} as a placeholder — replaced at runtime.
   messages: {
@@ -87,6 +239,7 @@ export interface CityConfig {
     councilHallWelcome: string;
     councilHallWelcomeNoPetitions: string;
     touristInfoWelcome: string;
+    lockersWelcome: string;
   };
 }
 
@@ -113,6 +266,26 @@ export const CITY_CONFIG: CityConfig = {
   startingMoney: 10,
   ubiAmount: 1,
 
+  // ── Items ─────────────────────────────────────────────────────
+  items: [
+    // Council Supplies
+    { id: 'bread',        name: 'Bread',        kind: 'consumable', price: 3,  effects: { hunger: 30 },                         durability: -1, shelfLifeGameHours: 48, soldAt: 'shop', maxStock: 10, description: 'A fresh loaf. Restores 30 hunger.' },
+    { id: 'water',        name: 'Water Bottle', kind: 'consumable', price: 2,  effects: { thirst: 25, bladder: 5 },             durability: -1,                         soldAt: 'shop', maxStock: 10, description: 'Clean drinking water. Restores 25 thirst.' },
+    { id: 'full_meal',    name: 'Full Meal',    kind: 'consumable', price: 6,  effects: { hunger: 60, thirst: 10, bladder: 5 }, durability: -1, shelfLifeGameHours: 24, soldAt: 'shop', maxStock: 5,  description: 'A hearty meal. Restores 60 hunger, 10 thirst.' },
+    { id: 'snack',        name: 'Snack Bar',    kind: 'consumable', price: 1,  effects: { hunger: 10 },                         durability: -1,                         soldAt: 'shop', maxStock: 15, description: 'A quick snack. Restores 10 hunger.' },
+    { id: 'energy_drink', name: 'Energy Drink', kind: 'consumable', price: 4,  effects: { thirst: 20, energy: 15, bladder: 10 }, durability: -1,                        soldAt: 'shop', maxStock: 5,  description: 'A caffeinated beverage. Restores 15 energy, 20 thirst.' },
+    { id: 'sleeping_bag', name: 'Sleeping Bag', kind: 'equipment',  price: 15, effects: {},                                     durability: 5,                          soldAt: 'shop', maxStock: 2,  description: 'Sleep better. 5 uses. Doubles energy recovery rate while sleeping.' },
+    { id: 'timber',       name: 'Timber',       kind: 'material',   price: 2,  effects: {},                                     durability: -1,                         soldAt: 'shop', maxStock: 20, description: 'Rough-cut planks. Used to build and repair structures in the wilderness.' },
+    // Tourist Information
+    { id: 'city_map_basic', name: 'City Survey Map', kind: 'map', price: 10, effects: {}, durability: 1, soldAt: 'info', maxStock: 1, restocks: false, map: { type: 'city_overview', version: 1 }, description: 'A detailed city survey map.' },
+    // Foraged from wild nodes
+    { id: 'wild_berries', name: 'Wild Berries', kind: 'resource', price: 0, effects: { hunger: 12, thirst: 5, bladder: 2 }, durability: -1, shelfLifeGameHours: 12, soldAt: null, description: 'Foraged wild berries. Restores 12 hunger, 5 thirst.' },
+    { id: 'spring_water', name: 'Spring Water', kind: 'resource', price: 0, effects: { hunger: 3, thirst: 8, bladder: 3 },  durability: -1,                         soldAt: null, description: 'Fresh spring water. Restores 8 thirst, 3 hunger.' },
+    // Crafted (see recipes)
+    { id: 'berry_juice', name: 'Berry Juice', kind: 'consumable', price: 0, effects: { hunger: 15, thirst: 25, energy: 2, bladder: 5 }, durability: -1, shelfLifeGameHours: 24,  soldAt: null, description: 'Berries crushed into spring water. Restores 25 thirst, 15 hunger, 2 energy.' },
+    { id: 'berry_jam',   name: 'Berry Jam',   kind: 'consumable', price: 0, effects: { hunger: 55, bladder: 2 },                        durability: -1, shelfLifeGameHours: 240, soldAt: null, description: 'Cooked-down wild berries. Restores 55 hunger. Keeps far longer than fresh berries.' },
+  ],
+
   // ── Buildings ─────────────────────────────────────────────────
   buildings: [
     { id: 'train-station',    name: 'Train Station',      type: 'station',   description: 'Where residents arrive and depart' },
@@ -123,23 +296,84 @@ export const CITY_CONFIG: CityConfig = {
     { id: 'council-mortuary', name: 'Council Mortuary',    type: 'mortuary',  description: 'Processing the deceased' },
     { id: 'police-station',   name: 'Police Station',      type: 'police',    description: 'Law enforcement' },
     { id: 'tourist-info',     name: 'Tourist Information',  type: 'info',      description: 'Referrals and city info' },
+    { id: 'council-lockers',  name: 'Council Lockers',     type: 'storage',   description: 'Rentable lockers and bunks' },
+    { id: 'city-clinic',      name: 'City Clinic',         type: 'clinic',    description: 'Treatment for the sick' },
   ],
 
   // ── Jobs ──────────────────────────────────────────────────────
   jobs: [
-    { id: 'bank-teller',      title: 'Bank Teller',       buildingId: 'bank',             wagePerShift: 10, shiftDurationHours: 8, maxPositions: 2, description: 'Process UBI claims and manage deposits at the bank.' },
-    { id: 'shop-clerk',       title: 'Shop Clerk',        buildingId: 'council-supplies', wagePerShift: 10, shiftDurationHours: 8, maxPositions: 2, description: 'Stock shelves and serve customers at the shop.' },
-    { id: 'toilet-attendant', title: 'Toilet Attendant',  buildingId: 'council-toilet',   wagePerShift: 8,  shiftDurationHours: 8, maxPositions: 1, description: 'Maintain the toilet facilities.' },
-    { id: 'body-collector',   title: 'Body Collector',    buildingId: 'council-mortuary', wagePerShift: 12, shiftDurationHours: 8, maxPositions: 2, description: 'Collect deceased residents and transport them to the mortuary.' },
-    { id: 'hall-clerk',       title: 'Hall Clerk',        buildingId: 'council-hall',     wagePerShift: 10, shiftDurationHours: 8, maxPositions: 1, description: 'Process job applications and free petitions. Help residents participate in civic life.' },
-    { id: 'groundskeeper',    title: 'Groundskeeper',     buildingId: null,               wagePerShift: 8,  shiftDurationHours: 8, maxPositions: 2, description: 'Maintain the city grounds and public spaces.' },
-    { id: 'station-master',   title: 'Station Master',    buildingId: 'train-station',    wagePerShift: 10, shiftDurationHours: 8, maxPositions: 1, description: 'Manage train arrivals and departures at the station.' },
-    { id: 'police-officer',   title: 'Police Officer',    buildingId: 'police-station',   wagePerShift: 10, shiftDurationHours: 8, maxPositions: 3, description: 'Patrol the city and arrest lawbreakers.' },
+    { id: 'bank-teller',      title: 'Bank Teller',       buildingId: 'bank',             wagePerShift: 10, shiftDurationHours: 8, maxPositions: 2, description: 'Process UBI claims and manage deposits at the bank.',
+      tasks: [{ id: 'balance_ledger', name: 'Balance the ledger', action: 'work', target: 4, description: 'Reconcile deposits and withdrawals at the counter.' }] },
+    { id: 'shop-clerk',       title: 'Shop Clerk',        buildingId: 'council-supplies', wagePerShift: 10, shiftDurationHours: 8, maxPositions: 2, description: 'Stock shelves and serve customers at the shop.',
+      tasks: [{ id: 'restock_shelves', name: 'Restock the shelves', action: 'work', target: 4, description: 'Bring stock out from the back and fill the shelves.', effect: 'restock' }] },
+    { id: 'toilet-attendant', title: 'Toilet Attendant',  buildingId: 'council-toilet',   wagePerShift: 8,  shiftDurationHours: 8, maxPositions: 1, description: 'Maintain the toilet facilities.',
+      tasks: [{ id: 'clean_toilet', name: 'Clean the toilet', action: 'work', target: 4, description: 'Scrub the stalls and refill the supplies.' }] },
+    { id: 'body-collector',   title: 'Body Collector',    buildingId: 'council-mortuary', wagePerShift: 12, shiftDurationHours: 8, maxPositions: 2, description: 'Collect deceased residents and transport them to the mortuary.',
+      tasks: [
+        { id: 'process_bodies', name: 'Process bodies', action: 'process_body', target: 1, description: 'Bring a body to the mortuary and process it.' },
+        { id: 'clean_mortuary', name: 'Clean the mortuary', action: 'work', target: 3, description: 'Keep the slabs and cold room clean.' },
+      ] },
+    { id: 'hall-clerk',       title: 'Hall Clerk',        buildingId: 'council-hall',     wagePerShift: 10, shiftDurationHours: 8, maxPositions: 1, description: 'Process job applications and free petitions. Help residents participate in civic life.',
+      tasks: [{ id: 'file_paperwork', name: 'File paperwork', action: 'work', target: 4, description: 'File job applications and petitions.' }] },
+    { id: 'groundskeeper',    title: 'Groundskeeper',     buildingId: null,               wagePerShift: 8,  shiftDurationHours: 8, maxPositions: 2, description: 'Maintain the city grounds and public spaces.',
+      tasks: [{ id: 'tend_grounds', name: 'Tend the grounds', action: 'work', target: 4, description: 'Sweep paths and tidy the public spaces.' }] },
+    { id: 'station-master',   title: 'Station Master',    buildingId: 'train-station',    wagePerShift: 10, shiftDurationHours: 8, maxPositions: 1, description: 'Manage train arrivals and departures at the station.',
+      tasks: [{ id: 'check_platform', name: 'Check the platform', action: 'work', target: 4, description: 'Inspect the platform and post the train times.' }] },
+    { id: 'police-officer',   title: 'Police Officer',    buildingId: 'police-station',   wagePerShift: 10, shiftDurationHours: 8, maxPositions: 3, description: 'Patrol the city and arrest lawbreakers.',
+      tasks: [{ id: 'file_reports', name: 'File reports', action: 'work', target: 3, description: 'Write up patrol and incident reports.' }] },
+    { id: 'info-clerk',       title: 'Information Clerk', buildingId: 'tourist-info',     wagePerShift: 8,  shiftDurationHours: 8, maxPositions: 1, description: 'Answer visitor questions at the tourist information desk.',
+      tasks: [{ id: 'answer_questions', name: 'Answer questions', action: 'speak', target: 3, description: 'Speak directly to visitors inside the tourist information desk.' }] },
   ],
 
   // ── Laws ──────────────────────────────────────────────────────
   laws: [
-    { id: 'loitering', name: 'Loitering', description: 'Standing in the same place for more than 3 game hours.', sentenceGameHours: 2 },
+    { id: 'loitering', name: 'Loitering', description: 'Standing in the same place for more than 3 game hours.', sentenceGameHours: 2,
+      detection: { kind: 'loitering' } },
+    { id: 'loan_default', name: 'Loan Default', description: 'Missing a bank loan installment by more than 4 game hours.', sentenceGameHours: 2,
+      detection: { kind: 'loan_default' } },
+    { id: 'theft', name: 'Theft', description: 'Taking an item from another resident. Witnesses can report it at the Police Station.', sentenceGameHours: 6,
+      detection: { kind: 'witnessed', action: 'steal', witnessRange: 160, witnessChance: 0.6 } },
+    { id: 'assault', name: 'Assault', description: 'Striking another resident. The victim and any witnesses can report it at the Police Station.', sentenceGameHours: 8,
+      detection: { kind: 'witnessed', action: 'assault', witnessRange: 200, witnessChance: 0.9 } },
+    { id: 'trespass', name: 'Trespass', description: 'Entering the bank or the Council Hall after hours (10 PM to 6 AM) without working there.', sentenceGameHours: 3,
+      detection: { kind: 'trespass', areas: [
+        { buildingId: 'bank',         closedFromHour: 22, closedToHour: 6, staffJobIds: ['bank-teller'] },
+        { buildingId: 'council-hall', closedFromHour: 22, closedToHour: 6, staffJobIds: ['hall-clerk'] },
+      ] } },
+  ],
+
+  // ── Recipes ───────────────────────────────────────────────────
+  recipes: [
+    { id: 'berry_juice', name: 'Berry Juice', inputs: [{ itemType: 'wild_berries', quantity: 2 }, { itemType: 'spring_water', quantity: 1 }], output: { itemType: 'berry_juice', quantity: 1 }, description: 'Crush berries into spring water. More filling than either alone.' },
+    { id: 'berry_jam',   name: 'Berry Jam',   inputs: [{ itemType: 'wild_berries', quantity: 4 }],                                              output: { itemType: 'berry_jam', quantity: 1 },   description: 'Cook down a handful of berries. Keeps much longer than fresh fruit.' },
+  ],
+
+  // ── Structures ────────────────────────────────────────────────
+  structures: [
+    { id: 'shelter',       name: 'Shelter',       cost: [{ itemType: 'timber', quantity: 6 }],                                              maintenanceCost: [{ itemType: 'timber', quantity: 1 }],       blocksMovement: true,  decayGameHours: 72, description: 'A timber lean-to. Anyone standing next to it is out of the weather.' },
+    { id: 'storage_chest', name: 'Storage Chest', cost: [{ itemType: 'timber', quantity: 4 }],                                              maintenanceCost: [{ itemType: 'timber', quantity: 1 }],       blocksMovement: true,  decayGameHours: 96, description: 'A lockable chest. Only its builder can store and take items. Contents are lost if it collapses.' },
+    { id: 'planted_bush',  name: 'Planted Bush',  cost: [{ itemType: 'wild_berries', quantity: 4 }, { itemType: 'spring_water', quantity: 2 }], maintenanceCost: [{ itemType: 'spring_water', quantity: 1 }], blocksMovement: false, decayGameHours: 48, description: 'A berry bush grown from seed. Forage it like a wild one, and water it to keep it alive.' },
+  ],
+
+  // ── Seasons ───────────────────────────────────────────────────
+  seasons: [
+    { id: 'spring', name: 'Spring', lengthDays: 7, forageYield: { berry_bush: 1,   fresh_spring: 1.5 }, description: 'Snowmelt fills the springs. Bushes are back in leaf.' },
+    { id: 'summer', name: 'Summer', lengthDays: 7, forageYield: { berry_bush: 1.5, fresh_spring: 0 },   description: 'Bushes are heavy with berries, but the springs have dried up.' },
+    { id: 'autumn', name: 'Autumn', lengthDays: 7, forageYield: { berry_bush: 1,   fresh_spring: 1 },   description: 'The last berries of the year. Stock up before winter.' },
+    { id: 'winter', name: 'Winter', lengthDays: 7, forageYield: { berry_bush: 0,   fresh_spring: 1 },   description: 'The bushes are bare. Only the springs still give.' },
+  ],
+
+  // ── Diseases ──────────────────────────────────────────────────
+  diseases: [
+    { id: 'food_poisoning', name: 'Food Poisoning', symptom: 'vomiting', caughtFrom: 'spoiled_food',   contagious: false, durationGameHours: 12, decay: { hunger: 1.5, thirst: 2 },  healthDrainPerHour: 2, treatmentCost: 6, description: 'Something you ate was off. You lose food and water fast until it passes.' },
+    { id: 'chest_cold',     name: 'Chest Cold',     symptom: 'coughing', caughtFrom: 'sleeping_rough', contagious: true,  durationGameHours: 36, decay: { energy: 1.5, thirst: 1.2 }, healthDrainPerHour: 1, treatmentCost: 8, description: 'A night out in the cold has settled on your chest. Tiring, and it spreads to anyone close by.' },
+  ],
+
+  // ── NPCs ──────────────────────────────────────────────────────
+  npcs: [
+    { id: 'npc-shopkeeper', role: 'shopkeeper', fullName: 'Margaret Pell',  preferredName: 'Maggie', placeOfOrigin: 'Otra City', build: 'Heavy',    skinTone: 2, hairStyle: 3, hairColor: 4, bio: 'Has kept the counter at Council Supplies longer than anyone can remember.' },
+    { id: 'npc-police',     role: 'police',     fullName: 'Tomas Brandt',   preferredName: 'Tomas',  placeOfOrigin: 'Otra City', build: 'Athletic', skinTone: 4, hairStyle: 1, hairColor: 0, bio: 'Walks the same beat every day. Not much gets past him.' },
+    { id: 'npc-forager',    role: 'forager',    fullName: 'Wren Alder',     preferredName: 'Wren',   placeOfOrigin: 'the hills', build: 'Slim',     skinTone: 1, hairStyle: 5, hairColor: 2, bio: 'Lives off the bushes and springs at the edge of the city.' },
   ],
 
   // ── Messages ──────────────────────────────────────────────────
@@ -175,9 +409,22 @@ export const CITY_CONFIG: CityConfig = {
 
     touristInfoWelcome:
       'Welcome to Tourist Information! Share your referral link: https://{{domain}}/quick-start?ref={{passport_no}} — earn {{currency_symbol}}{{referral_reward}} for each new resident who joins with your code. Referred residents must survive 1 day before you can claim.',
+
+    lockersWelcome:
+      'Welcome to the Council Lockers! Rent a locker for {{currency_symbol}}{{rent}} per game day (rent_locker) to store up to {{capacity}} items and sleep in the bunks here. Name an heir (set_locker_heir) or your locker contents go to the city when you die.',
   },
 };
 
+// ── Catalogs ────────────────────────────────────────────────────
+
+/** Items a building sells: its explicit catalog, or every item sold at its type */
+export function getBuildingCatalog(building: BuildingConfig): ItemConfig[] {
+  if (building.catalog) {
+    return CITY_CONFIG.items.filter(i => building.catalog!.includes(i.id));
+  }
+  return CITY_CONFIG.items.filter(i => i.soldAt === building.type);
+}
+
 // ── Template rendering ──────────────────────────────────────────
 
 /** Replace {{placeholders}} in a message template */
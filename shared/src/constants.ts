@@ -28,6 +28,10 @@ export const NORMAL_VOICE_RANGE = 300;        // px
 export const SHOUT_RANGE = 900;              // px
 export const WALL_SOUND_FACTOR = 0.5;         // range reduction through walls
 
+// === Weather ===
+export const WEATHER_MIN_DURATION_GAME_HOURS = 3;   // each spell of weather lasts 3-10 game hours
+export const WEATHER_MAX_DURATION_GAME_HOURS = 10;
+
 // === Needs decay per real-time second ===
 // Spec: hunger empties in ~16 hrs, thirst in ~8 hrs
 export const HUNGER_DECAY_PER_SEC = 100 / (16 * 3600);    // ~0.001736/sec
@@ -56,6 +60,7 @@ export const ENERGY_COST_WRITE_PETITION = 0;    // was 1.0 — free petitions (P
 export const ENERGY_COST_VOTE = 0;              // was 0.3 — free voting (Phase 1)
 export const ENERGY_COST_INSPECT = 0;           // free — informational
 export const ENERGY_COST_TRADE = 0.05;
+export const ENERGY_COST_CRAFT = 0.1;           // per item crafted
 export const ENERGY_COST_COLLECT_BODY = 1.0;
 
 // === Sleep ===
@@ -72,6 +77,26 @@ export const UBI_AMOUNT = CITY_CONFIG.ubiAmount;
 export const UBI_COOLDOWN_SEC = 24 * 3600;    // 24 hours between collections
 export const STARTING_QUID = CITY_CONFIG.startingMoney;
 
+// === Spoilage ===
+export const SPOILAGE_FRESH_FRACTION = 0.5;          // full potency for this fraction of shelf life
+export const SPOILAGE_MIN_POTENCY = 0.5;             // potency just before spoiling
+export const SPOILED_RESTORE_FRACTION = 0.25;        // spoiled food keeps this much of its hunger/thirst value
+export const SPOILED_HEALTH_DAMAGE = 8;              // health lost per spoiled item eaten
+
+// === Crafting ===
+export const CRAFT_MAX_BATCH = 10;                    // most items one craft action can make
+export const RECIPE_DISCOVERY_CHECK_INTERVAL_SEC = 2; // how often inventories are checked for new recipes
+
+// === Bank ===
+export const BANK_SAVINGS_INTEREST_PER_GAME_DAY = 0.02;  // 2% of deposits per game day (rounded down)
+export const LOAN_MAX_PRINCIPAL = 50;                    // QUID — small, collateral-free loans only
+export const LOAN_INTEREST_RATE = 0.1;                   // flat 10% on the principal
+export const LOAN_INSTALLMENTS = 3;                      // repaid in 3 equal installments
+export const LOAN_INSTALLMENT_INTERVAL_GAME_HOURS = 8;   // one installment due every 8 game hours
+export const LOAN_GRACE_GAME_HOURS = 4;                  // late by more than this → default
+export const LOAN_DEFAULT_PENALTY = 5;                   // QUID added to the debt per missed installment
+export const BANK_CHECK_INTERVAL_SEC = 10;               // real seconds between interest/loan schedule checks
+
 // === Train ===
 export const TRAIN_INTERVAL_SEC = 15 * 60;    // 900 game-seconds = 15 game-minutes (5 real minutes at 3x)
 
@@ -87,9 +112,25 @@ export const STARTING_HOUR = 6;               // world starts at 6:00 AM game ti
 export const SHIFT_DURATION_GAME_HOURS = 8;   // game-hours per shift
 export const ENERGY_COST_WORK_PER_SEC = 3.0 / 3600; // 3 energy/game-hour while working
 
+// === Job tasks ===
+export const JOB_BASE_PAY_FRACTION = 0.25;        // share of the wage paid just for staying on shift
+export const WORK_TASK_COOLDOWN_GAME_MINUTES = 30; // between completions of the same work task
+export const ENERGY_COST_WORK_TASK = 0.5;
+
+// === Resident businesses ===
+export const BUSINESS_REGISTRATION_FEE = 25;  // QUID paid to the city to register
+export const BUSINESS_MAX_OPENINGS = 5;       // job postings per business
+export const BUSINESS_MAX_POSITIONS = 5;      // positions per posting
+export const BUSINESS_MAX_WAGE = 100;         // QUID per shift
+export const BUSINESS_NAME_MAX_LENGTH = 40;
+
 // === Petitions ===
 export const PETITION_COST_QUID = 0;          // was 5 — free petitions (Phase 1)
 export const PETITION_MAX_AGE_GAME_HOURS = 24; // petitions auto-close after 24 game hours
+export const POLICY_PETITION_QUORUM = 5;      // votes a policy petition needs before it can pass
+
+// === Wills ===
+export const WILL_MAX_BENEFICIARIES = 5;      // shares left unassigned go to the city
 
 // === Body collection ===
 export const BODY_BOUNTY = 5;                 // QUID reward for processing a body
@@ -98,6 +139,16 @@ export const BODY_COLLECT_RANGE = 64;         // px — must be within 2 tiles o
 // === Shop stock ===
 export const SHOP_RESTOCK_INTERVAL_GAME_HOURS = 2;  // restock every 2 game hours
 
+// === Shop pricing ===
+export const PRICE_STOCK_WEIGHT = 0.5;             // up to +50% as stock runs out
+export const PRICE_DEMAND_WEIGHT = 0.3;            // up to +30% when recent sales reach max stock
+export const PRICE_DEMAND_WINDOW_GAME_HOURS = 6;   // purchase volume lookback
+export const PRICE_RESTOCK_WEIGHT = 0.1;           // up to +10% creep as the next restock approaches
+export const PRICE_SURPLUS_DISCOUNT = 0.2;         // up to -20% with full shelves and no recent sales
+export const PRICE_MIN_MULTIPLIER = 0.5;           // never below half the base price
+export const PRICE_MAX_MULTIPLIER = 3;             // never above 3x the base price
+export const PRICE_SAMPLE_INTERVAL_SEC = 60;       // real seconds between price history samples
+
 // === Agent separation ===
 export const AGENT_SEPARATION_DIST = 20;    // px — soft minimum distance between standing agents
 export const AGENT_SEPARATION_FORCE = 30;   // px/sec — gentle push-apart speed
@@ -118,6 +169,16 @@ export const SPEECH_DUPLICATE_HISTORY = 5;     // Track last N messages for dupl
 export const GIVE_RANGE = 100;               // px — must be within 100px to give items
 export const ENERGY_COST_GIVE = 0.05;
 
+// === Trading ===
+export const TRADE_RANGE = 100;                      // px — must be within 100px to propose a trade
+export const TRADE_OFFER_TIMEOUT_MS = 5 * 60 * 1000; // 5 real minutes to accept, reject or counter
+export const TRADE_MAX_PENDING_OFFERS = 5;           // max outgoing offers held in escrow per resident
+
+// === Market ===
+export const MARKET_MAX_OPEN_ORDERS = 10;     // open orders per resident
+export const MARKET_MAX_ORDER_QUANTITY = 50;  // units per order
+export const MARKET_MAX_PRICE = 500;          // QUID per unit
+
 // === Foraging ===
 export const FORAGE_RANGE = 48;                    // px — must be within 1.5 tiles
 export const ENERGY_COST_FORAGE = 0.1;
@@ -126,6 +187,30 @@ export const BERRY_BUSH_REGROW_GAME_HOURS = 4;    // 80 real minutes — scarce
 export const SPRING_MAX_USES = 2;
 export const SPRING_REGROW_GAME_HOURS = 3;         // 60 real minutes — scarce enough to encourage trade
 
+// === Structures ===
+export const BUILD_RANGE = 48;                     // px — target tile centre within 1.5 tiles
+export const ENERGY_COST_BUILD = 5;
+export const ENERGY_COST_MAINTAIN = 1;
+export const STRUCTURE_MAX_PER_RESIDENT = 3;
+export const STORAGE_CHEST_CAPACITY = 20;          // total items across all stacks
+export const SHELTER_RANGE = 48;                   // px — residents this close to a shelter are out of the weather
+export const CITY_CORE_MIN_TILE = 19;              // the city core spans tiles 19-80 on both axes;
+export const CITY_CORE_MAX_TILE = 80;              // only the wilderness ring outside it can be built on
+
+// === Lockers ===
+export const LOCKER_RENT_PER_GAME_DAY = 2;         // QUID, paid up front
+export const LOCKER_MAX_PREPAID_DAYS = 14;
+export const LOCKER_CAPACITY = 30;                 // total items across all stacks
+export const LOCKER_GRACE_GAME_HOURS = 24;         // after rent lapses, before contents are forfeited
+export const LOCKER_CHECK_INTERVAL_SEC = 10;       // real seconds between rent checks
+
+// === Illness ===
+export const ILLNESS_CHECK_INTERVAL_SEC = 10;                 // real seconds between exposure rolls
+export const ILLNESS_SPOILED_FOOD_CHANCE = 0.5;               // per spoiled item eaten
+export const ILLNESS_ROUGH_SLEEP_CHANCE_PER_GAME_HOUR = 0.1;  // asleep outdoors at night with no bag or shelter
+export const ILLNESS_CONTAGION_CHANCE_PER_GAME_HOUR = 0.15;   // per contagious resident within SOCIAL_PROXIMITY_RANGE
+export const ILLNESS_IMMUNITY_GAME_HOURS = 24;                // can't catch anything again for this long after recovering
+
 // === Law enforcement ===
 export const LOITER_THRESHOLD_GAME_HOURS = 3;  // 3 game-hours of no movement = loitering
 export const LOITER_CHECK_DISTANCE = 32;       // px — movement less than this = "same place"
@@ -133,6 +218,52 @@ export const ARREST_RANGE = 64;                // px — must be within 2 tiles
 export const ARREST_BOUNTY = 10;               // QUID per booking
 export const ENERGY_COST_ARREST = 0.5;
 export const LOITER_SENTENCE_GAME_HOURS = 2;   // prison sentence for loitering
+export const STEAL_RANGE = 32;                 // px — must be right next to the victim
+export const ENERGY_COST_STEAL = 1;
+export const ASSAULT_RANGE = 32;               // px
+export const ENERGY_COST_ASSAULT = 2;
+export const ASSAULT_HEALTH_DAMAGE = 10;
+export const ASSAULT_COOLDOWN_GAME_MINUTES = 15;  // between assaults by the same attacker
+export const CRIME_REPORT_WINDOW_GAME_HOURS = 24;  // witnesses forget what they saw after this long
+
+// === Trials ===
+export const TRIAL_DURATION_GAME_HOURS = 2;          // jury deliberation window after booking
+export const TRIAL_MIN_JURORS = 3;                   // fewer votes than this and the magistrate decides (guilty, base sentence)
+export const TRIAL_REPEAT_OFFENDER_MULTIPLIER = 0.5; // +50% sentence per previous prison term
+export const TRIAL_MAX_SENTENCE_GAME_HOURS = 48;
+export const WRONGFUL_ARREST_FINE = 15;              // QUID the arresting officer pays on an acquittal
+export const TRIAL_CHECK_INTERVAL_SEC = 10;          // real seconds between verdict checks
+export const TRIAL_DEFENCE_MAX_LENGTH = 500;
+
+// === Elections ===
+export const MAYOR_TERM_GAME_HOURS = 72;             // a mayor and council sit for 3 game days
+export const ELECTION_REGISTRATION_GAME_HOURS = 12;  // candidates register before voting opens
+export const ELECTION_VOTING_GAME_HOURS = 12;        // the next election opens this long (plus registration) before the term ends
+export const ELECTION_COUNCIL_SEATS = 3;             // runners-up who sit on the council
+export const MAYOR_TERM_LIMIT = 2;                   // terms a resident can win as mayor
+export const ELECTION_PLATFORM_MAX_LENGTH = 300;
+export const CAMPAIGN_SPEECH_MAX_LENGTH = 500;
+export const ELECTION_CHECK_INTERVAL_SEC = 10;       // real seconds between election phase checks
+
+// === City treasury ===
+export const SHOP_TAX_MAX_RATE = 0.25;               // the mayor sets the sales tax on shop purchases up to this
+export const BUDGET_MAX_LINE = 50;                   // QUID per game day for any one budget line
+export const BUDGET_WELFARE_WALLET_LIMIT = 10;       // welfare goes to residents holding less than this
+
+// === NPCs ===
+export const NPC_THINK_INTERVAL_SEC = 1;             // real seconds between behavior tree ticks
+export const NPC_RESPAWN_DELAY_GAME_HOURS = 6;       // a dead NPC's replacement arrives this long after
+export const NPC_SIGHT_RANGE = 300;                  // px — how far police NPCs spot lawbreakers
+export const NPC_NEED_LOW = 40;                      // eat, drink or rest below this
+export const NPC_BLADDER_HIGH = 70;                  // head for the toilet above this
+export const NPC_CARRY_TARGET = 4;                   // forager stops picking once it holds this many items
+export const NPC_PATROL_PAUSE_GAME_MINUTES = 60;     // police linger this long at each stop on the beat
+
+// === Intents ===
+export const INTENT_THINK_INTERVAL_SEC = 1;          // real seconds between plan steps
+export const INTENT_MAX_STEPS = 20;
+export const INTENT_MAX_REPEATS = 50;                // default cap on attempts at a step with `until`
+export const INTENT_MAX_GAME_HOURS = 12;             // a plan still running after this long is cancelled
 
 // === GitHub Guild (Otra City-specific, not part of standard framework) ===
 export const GITHUB_ISSUE_REWARD = 5;
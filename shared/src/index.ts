@@ -5,3 +5,4 @@ export * from './types/map.js';
 export * from './types/protocol.js';
 export * from './types/economy.js';
 export * from './types/perception.js';
+export * from './types/intent.js';
@@ -1,4 +1,4 @@
-export type ItemKind = 'consumable' | 'equipment' | 'map' | 'resource';
+export type ItemKind = 'consumable' | 'equipment' | 'map' | 'resource' | 'material';
 
 export interface ShopItem {
   id: string;
@@ -11,6 +11,7 @@ export interface ShopItem {
   energy_effect: number;
   bladder_effect: number;
   durability: number;          // -1 = single use, >0 = number of uses
+  shelf_life_game_hours?: number;  // perishables only — becomes spoiled_<item_type> after this long
   description: string;
 }
 
@@ -32,3 +33,44 @@ export interface Transaction {
   amount: number;
   reason: string;
 }
+
+export interface TradeItem {
+  item_type: string;
+  quantity: number;
+}
+
+export interface TradeOffer {
+  id: string;
+  from_id: string;
+  from_name: string;
+  to_id: string;
+  to_name: string;
+  offer_quid: number;
+  offer_items: TradeItem[];      // held in escrow until the offer resolves
+  request_quid: number;
+  request_items: TradeItem[];
+  direction: 'incoming' | 'outgoing';
+  countered_from: string | null; // offer this one replaced, if it is a counter-offer
+  seconds_remaining: number;
+}
+
+export interface MarketOrder {
+  id: string;
+  side: 'buy' | 'sell';
+  item_type: string;
+  quantity: number;
+  remaining: number;
+  price: number;                 // QUID per unit
+  resident_id: string;
+  resident_name: string;
+  created_at: number;
+}
+
+export interface MarketFill {
+  item_type: string;
+  quantity: number;
+  price: number;
+  buyer_id: string;
+  seller_id: string;
+  timestamp: number;
+}
@@ -0,0 +1,47 @@
+import type { ClientMessage } from './protocol.js';
+
+/**
+ * A need, `wallet`, `item:<type>` for how many of an item are carried,
+ * `on_shift` (1 or 0), or `shift_tasks_left` for work tasks still to do.
+ */
+export type IntentMeasure =
+  | 'hunger' | 'thirst' | 'energy' | 'bladder' | 'health' | 'social'
+  | 'wallet' | 'on_shift' | 'shift_tasks_left'
+  | `item:${string}`;
+
+/** Holds when the measure is above `above` and/or below `below` */
+export interface IntentCondition {
+  measure: IntentMeasure;
+  above?: number;
+  below?: number;
+}
+
+type WithoutRequestId<M> = M extends unknown ? Omit<M, 'request_id'> : never;
+type Actions<T extends ClientMessage['type']> = WithoutRequestId<Extract<ClientMessage, { type: T }>>;
+
+/** Actions a plan can run. eat/drink/consume also take an item type, resolved to a stack when the step runs. */
+export type IntentAction =
+  | Actions<'move_to' | 'enter_building' | 'exit_building' | 'sleep' | 'wake' | 'use_toilet'
+    | 'buy' | 'forage' | 'craft' | 'work' | 'collect_ubi' | 'deposit' | 'withdraw' | 'treat'
+    | 'store_item' | 'take_item'>
+  | { type: 'eat' | 'drink' | 'consume'; params: { item_id: string } | { item_type: string } };
+
+export interface IntentStep {
+  action: IntentAction;
+  until?: IntentCondition;  // keep going until this holds; checked before every attempt
+  repeat?: number;          // with `until`, the most attempts (default INTENT_MAX_REPEATS); without, how many times (default 1)
+}
+
+export interface IntentPlan {
+  steps: IntentStep[];
+  ignore_pain?: boolean;    // by default severe or agonising pain cancels the plan
+}
+
+/** The running plan, in perception */
+export interface IntentProgress {
+  id: string;
+  step: number;             // 0-based index of the step running now
+  steps: number;
+  action: IntentAction['type'];
+  repeats: number;          // successful attempts at this step so far
+}
@@ -18,6 +18,8 @@ export enum TileType {
   SPRING = 16,
   BUSH_DEPLETED = 17,
   SPRING_DRY = 18,
+  SHELTER = 19,
+  STORAGE_CHEST = 20,
 }
 
 export interface BuildingDoor {
@@ -56,6 +58,18 @@ export interface ForageableNode {
   maxUses: number;
 }
 
+export type StructureType = 'shelter' | 'storage_chest' | 'planted_bush';
+
+/** A resident-built structure on a wilderness tile */
+export interface StructurePlacement {
+  id: string;
+  type: StructureType;
+  tileX: number;
+  tileY: number;
+  ownerId: string;
+  condition: number;               // 0-100, collapses at 0
+}
+
 export interface MapData {
   width: number;                   // tiles
   height: number;                  // tiles
@@ -64,5 +78,6 @@ export interface MapData {
   obstacles: number[][];           // [y][x] 0 = passable, TileType = blocked
   buildings: BuildingPlacement[];
   forageableNodes: ForageableNode[];
+  structures?: StructurePlacement[];  // resident-built — only in /api/map output, not map.json
   spawnPoint: { x: number; y: number };  // px coords for train station exit
 }
@@ -1,4 +1,7 @@
-import type { ResidentState, VisibleResident, InventoryItem } from './resident.js';
+import type { ResidentType, ResidentState, VisibleResident, InventoryItem, EmploymentStatus, LockerStatus, IllnessStatus } from './resident.js';
+import type { TradeOffer, TradeItem } from './economy.js';
+import type { StructureType } from './map.js';
+import type { IntentPlan, IntentProgress } from './intent.js';
 
 export interface MapKnowledgeEntry {
   item_type: string;
@@ -37,10 +40,36 @@ export interface MapKnowledgeEntry {
 
 // === Server -> Client/Agent messages ===
 
+export type WeatherCondition = 'clear' | 'rain' | 'heat_wave' | 'fog' | 'storm';
+
+export interface WeatherState {
+  condition: WeatherCondition;
+  description: string;
+  changes_in_game_hours: number;  // until the next weather roll
+  sheltered: boolean;             // inside a building or next to a shelter — weather effects don't apply
+  effects: {
+    thirst_decay: number;         // multipliers on the normal rates, outdoors only
+    energy_decay: number;
+    vision: number;
+    forage_regrowth: number;      // applies to every forageable node
+  };
+}
+
+export interface SeasonState {
+  current: string;                // season id, e.g. 'winter'
+  name: string;
+  description: string;
+  day_of_season: number;          // 1-based
+  days_until_change: number;      // game days until the next season starts
+  next: string;                   // the season that follows
+}
+
 export interface PerceptionUpdate {
   tick: number;
   time: string;  // ISO timestamp
   world_time: number;  // game time in seconds (use with TIME_SCALE to derive hour/minute)
+  weather: WeatherState;
+  season: SeasonState;
   self: {
     id: string;
     passport_no: string;
@@ -61,13 +90,17 @@ export interface PerceptionUpdate {
     is_using_toilet: boolean;
     toilet_use_remaining_ms?: number;
     current_building: string | null;
-    employment: { job: string; on_shift: boolean } | null;
+    employment: EmploymentStatus | null;
+    locker: LockerStatus | null;
+    illness: IllnessStatus | null;
     law_breaking: string[];
     prison_sentence_remaining: number | null;  // game-seconds remaining, null if not imprisoned
     carrying_suspect_id: string | null;
     awaiting_reply_from?: Array<{ id: string; name: string; seconds_remaining: number }>;
+    pending_trades?: TradeOffer[];
     pending_feedback?: { prompt: string };
     map_knowledge?: MapKnowledgeEntry[];
+    intent?: IntentProgress;  // the plan running for this resident, if any
   };
   visible: VisibleEntity[];
   audible: AudibleMessage[];
@@ -79,7 +112,8 @@ export type VisibleEntity =
   | VisibleResident
   | VisibleBuilding
   | VisibleObject
-  | VisibleForageable;
+  | VisibleForageable
+  | VisibleStructure;
 
 export interface VisibleBuilding {
   id: string;
@@ -112,6 +146,19 @@ export interface VisibleForageable {
   max_uses: number;
 }
 
+export interface VisibleStructure {
+  id: string;
+  type: 'structure';
+  structure_type: StructureType;
+  name: string;
+  x: number;
+  y: number;
+  owner_id: string;
+  owner_name: string;
+  condition: number;              // 0-100; collapses at 0 unless maintained
+  contents?: InventoryItem[];     // storage chests, owner only
+}
+
 export interface AudibleMessage {
   from: string;
   from_name: string;
@@ -129,7 +176,7 @@ export interface InspectData {
   full_name: string;
   preferred_name: string;
   place_of_origin: string;
-  type: 'AGENT' | 'HUMAN';
+  type: ResidentType;
   status: string;
   date_of_arrival: string;
   wallet: number;
@@ -168,6 +215,10 @@ export interface InspectData {
       arrests_made: number;
       bodies_collected: number;
       suspects_booked: number;
+      wrongful_arrests: number;
+      jury_votes: number;
+      election_votes: number;
+      terms_as_mayor: number;
     };
     criminal: {
       violations: number;
@@ -180,7 +231,7 @@ export interface InspectData {
 export type ServerMessage =
   | { type: 'perception'; data: PerceptionUpdate }
   | { type: 'action_result'; request_id: string; status: 'ok' | 'error'; reason?: string; data?: Record<string, unknown> }
-  | { type: 'welcome'; resident: ResidentState; map_url: string; world_time: number }
+  | { type: 'welcome'; resident: ResidentState; map_url: string; world_time: number; weather: WeatherState }
   | { type: 'inspect_result'; request_id: string; data: InspectData }
   | { type: 'train_arriving'; eta_seconds: number }
   | { type: 'spawn'; resident: ResidentState }
@@ -202,6 +253,7 @@ export type ClientMessage =
   | { type: 'eat'; params: { item_id: string }; request_id?: string }
   | { type: 'drink'; params: { item_id: string }; request_id?: string }
   | { type: 'consume'; params: { item_id: string }; request_id?: string }
+  | { type: 'craft'; params: { recipe_id: string; quantity?: number }; request_id?: string }
   | { type: 'sleep'; request_id?: string }
   | { type: 'wake'; request_id?: string }
   | { type: 'use_toilet'; request_id?: string }
@@ -209,28 +261,73 @@ export type ClientMessage =
   | { type: 'exit_building'; request_id?: string }
   | { type: 'buy'; params: { item_type: string; quantity: number }; request_id?: string }
   | { type: 'collect_ubi'; request_id?: string }
+  | { type: 'deposit'; params: { amount: number }; request_id?: string }
+  | { type: 'withdraw'; params: { amount: number }; request_id?: string }
+  | { type: 'check_balance'; request_id?: string }
+  | { type: 'take_loan'; params: { amount: number }; request_id?: string }
+  | { type: 'repay_loan'; params?: { amount?: number }; request_id?: string }
+  | { type: 'place_order'; params: { side: 'buy' | 'sell'; item_type: string; quantity: number; price: number }; request_id?: string }
+  | { type: 'cancel_order'; params: { order_id: string }; request_id?: string }
+  | { type: 'list_market'; params?: { item_type?: string }; request_id?: string }
   | { type: 'inspect'; params: { target_id: string }; request_id?: string }
-  | { type: 'trade'; params: { target_id: string; offer_quid: number; request_quid: number }; request_id?: string }
+  | { type: 'trade'; params: { target_id: string; offer_quid: number; request_quid: number; offer_items?: Array<{ item_id: string; quantity: number }>; request_items?: TradeItem[] }; request_id?: string }
+  | { type: 'accept_trade'; params: { offer_id: string }; request_id?: string }
+  | { type: 'reject_trade'; params: { offer_id: string }; request_id?: string }
+  | { type: 'counter_trade'; params: { offer_id: string; offer_quid: number; request_quid: number; offer_items?: Array<{ item_id: string; quantity: number }>; request_items?: TradeItem[] }; request_id?: string }
   | { type: 'give'; params: { target_id: string; item_id: string; quantity: number }; request_id?: string }
   | { type: 'apply_job'; params: { job_id: string }; request_id?: string }
   | { type: 'quit_job'; request_id?: string }
-  | { type: 'write_petition'; params: { category: string; description: string }; request_id?: string }
+  | { type: 'write_petition'; params: { category: string; description: string; policy?: string; value?: number }; request_id?: string }
+  | { type: 'write_will'; params: { beneficiaries: Array<{ resident_id: string; percent: number }> }; request_id?: string }
   | { type: 'vote_petition'; params: { petition_id: string; vote?: 'for' | 'against' }; request_id?: string }
   | { type: 'collect_body'; params: { body_id: string }; request_id?: string }
   | { type: 'process_body'; request_id?: string }
   | { type: 'depart'; request_id?: string }
   | { type: 'list_jobs'; request_id?: string }
+  | { type: 'work'; params?: { task_id?: string }; request_id?: string }
+  | { type: 'register_business'; params: { name: string; building_id?: string; description?: string }; request_id?: string }
+  | { type: 'post_job'; params: { title: string; wage: number; positions?: number; description?: string }; request_id?: string }
+  | { type: 'set_wage'; params: { job_id: string; wage: number }; request_id?: string }
+  | { type: 'close_job'; params: { job_id: string }; request_id?: string }
+  | { type: 'close_business'; request_id?: string }
   | { type: 'list_petitions'; request_id?: string }
   | { type: 'arrest'; params: { target_id: string }; request_id?: string }
   | { type: 'book_suspect'; request_id?: string }
+  | { type: 'steal'; params: { target_id: string; item_type?: string }; request_id?: string }
+  | { type: 'assault'; params: { target_id: string }; request_id?: string }
+  | { type: 'report_crime'; params: { suspect_id: string }; request_id?: string }
+  | { type: 'list_trials'; request_id?: string }
+  | { type: 'jury_vote'; params: { trial_id: string; verdict: 'guilty' | 'not_guilty' }; request_id?: string }
+  | { type: 'defend'; params: { statement: string }; request_id?: string }
+  | { type: 'list_candidates'; request_id?: string }
+  | { type: 'register_candidate'; params: { platform: string }; request_id?: string }
+  | { type: 'campaign_speech'; params: { text: string }; request_id?: string }
+  | { type: 'vote_election'; params: { ranking: string[] }; request_id?: string }
+  | { type: 'set_tax_rate'; params: { rate: number }; request_id?: string }
+  | { type: 'pardon'; params: { resident_id: string }; request_id?: string }
+  | { type: 'propose_budget'; params: { welfare?: number; mayor_salary?: number; council_salary?: number }; request_id?: string }
+  | { type: 'vote_budget'; params: { budget_id: string; approve: boolean }; request_id?: string }
   | { type: 'forage'; params: { node_id: string }; request_id?: string }
+  | { type: 'build'; params: { structure_type: StructureType; x?: number; y?: number }; request_id?: string }
+  | { type: 'maintain_structure'; params: { structure_id: string }; request_id?: string }
+  | { type: 'demolish_structure'; params: { structure_id: string }; request_id?: string }
+  | { type: 'store_item'; params: { structure_id: string; item_type: string; quantity?: number }; request_id?: string }
+  | { type: 'take_item'; params: { structure_id: string; item_type: string; quantity?: number }; request_id?: string }
+  | { type: 'rent_locker'; params?: { days?: number; heir_id?: string }; request_id?: string }
+  | { type: 'locker_deposit'; params: { item_type: string; quantity?: number }; request_id?: string }
+  | { type: 'locker_withdraw'; params: { item_type: string; quantity?: number }; request_id?: string }
+  | { type: 'set_locker_heir'; params: { heir_id?: string | null }; request_id?: string }
+  | { type: 'release_locker'; request_id?: string }
+  | { type: 'treat'; request_id?: string }
   | { type: 'link_github'; params: { github_username: string }; request_id?: string }
   | { type: 'claim_issue'; params: { issue_number: number }; request_id?: string }
   | { type: 'claim_pr'; params: { pr_number: number }; request_id?: string }
   | { type: 'list_claims'; request_id?: string }
   | { type: 'get_referral_link'; request_id?: string }
   | { type: 'claim_referrals'; request_id?: string }
-  | { type: 'submit_feedback'; params: { text: string }; request_id?: string };
+  | { type: 'submit_feedback'; params: { text: string }; request_id?: string }
+  | { type: 'start_intent'; params: IntentPlan; request_id?: string }
+  | { type: 'cancel_intent'; request_id?: string };
 
 // === Registration ===
 
@@ -1,4 +1,4 @@
-export type ResidentType = 'AGENT' | 'HUMAN';
+export type ResidentType = 'AGENT' | 'HUMAN' | 'NPC';  // NPC = run by the server itself
 export type ResidentStatus = 'ALIVE' | 'DECEASED' | 'DEPARTED';
 export type Build = 'Slim' | 'Medium' | 'Athletic' | 'Heavy';
 
@@ -33,6 +33,45 @@ export interface InventoryItem {
   id: string;
   type: string;
   quantity: number;
+  durability?: number;            // uses left (tools like sleeping_bag only)
+  spoils_in_game_hours?: number;  // perishables only — hours until the stack turns into spoiled_<type>
+  potency?: number;               // perishables only — 0-1 multiplier on hunger/thirst restored
+}
+
+export interface JobTaskProgress {
+  id: string;
+  name: string;
+  action: string;                 // client action that counts toward the task
+  done: number;
+  target: number;
+}
+
+export interface EmploymentStatus {
+  job: string;
+  on_shift: boolean;
+  employer?: string;              // business name for resident-run jobs
+  shift_progress?: number;        // 0-1 share of the shift worked so far
+  tasks?: JobTaskProgress[];      // this shift's task progress (empty for jobs without tasks)
+  completion?: number;            // 0-1 share of tasks done — wage is paid in proportion
+}
+
+export interface LockerStatus {
+  building_id: string;
+  rent_paid_game_hours: number;   // game hours of rent left; negative while in arrears
+  heir_id: string | null;         // who gets the contents on death (null = the city)
+  heir_name: string | null;
+  contents: InventoryItem[];
+  capacity: number;
+}
+
+export interface IllnessStatus {
+  disease: string;
+  name: string;
+  symptom: string;
+  description: string;
+  contagious: boolean;
+  recovers_in_game_hours: number;
+  treatment_cost: number;         // QUID for a cure at the clinic
 }
 
 export interface ResidentState {
@@ -48,7 +87,7 @@ export interface ResidentState {
   is_sleeping: boolean;
   is_dead: boolean;
   current_building: string | null;
-  employment: { job: string; on_shift: boolean } | null;
+  employment: EmploymentStatus | null;
   agent_framework?: string;
 }
 
@@ -73,4 +112,6 @@ export interface VisibleResident {
   is_police?: boolean;       // employed as police officer
   is_arrested?: boolean;     // arrested or imprisoned
   is_using_toilet?: boolean; // currently performing timed toilet action
+  symptom?: string;          // visible sign of illness, e.g. 'coughing'
+  is_npc?: boolean;          // built-in resident run by the server
 }
@@ -218,6 +218,34 @@ function generateMap(): MapData {
     interiorObstacles: tiInterior.interiorObstacles,
   });
 
+  // 9. Council Lockers
+  const storageMeta = getBuildingMeta('storage');
+  const lockers = { x: CX + 46, y: CY + 23, w: 7, h: 5, doorSide: 'south' as const, doorOffset: 3 };
+  const lkInterior = placeBuilding(ground, obstacles, lockers);
+  buildings.push({
+    id: storageMeta.id, name: storageMeta.name, type: storageMeta.type,
+    tileX: lockers.x, tileY: lockers.y,
+    widthTiles: lockers.w, heightTiles: lockers.h,
+    doors: [{ tileX: lockers.x + 3, tileY: lockers.y + lockers.h - 1, facing: 'south' }],
+    interactionZones: [{ x: 2, y: 1, width: 3, height: 1, action: 'rent_locker' }],
+    interiorGround: lkInterior.interiorGround,
+    interiorObstacles: lkInterior.interiorObstacles,
+  });
+
+  // 10. Clinic
+  const clinicMeta = getBuildingMeta('clinic');
+  const clinic = { x: CX + 48, y: CY + 33, w: 7, h: 5, doorSide: 'north' as const, doorOffset: 3 };
+  const clInterior = placeBuilding(ground, obstacles, clinic);
+  buildings.push({
+    id: clinicMeta.id, name: clinicMeta.name, type: clinicMeta.type,
+    tileX: clinic.x, tileY: clinic.y,
+    widthTiles: clinic.w, heightTiles: clinic.h,
+    doors: [{ tileX: clinic.x + 3, tileY: clinic.y, facing: 'north' }],
+    interactionZones: [{ x: 2, y: 1, width: 3, height: 1, action: 'treat' }],
+    interiorGround: clInterior.interiorGround,
+    interiorObstacles: clInterior.interiorObstacles,
+  });
+
   // === GRAVEYARD ===
   fillRect(ground, CX + 48, CY + 50, 12, 10, TileType.GRAVEL);
   fillRect(obstacles, CX + 48, CY + 50, 12, 10, 0);